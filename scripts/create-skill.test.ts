@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { createSkill, renderTemplate, validateCreateOptions, type CreateSkillOptions } from './create-skill'
+
+const OPTIONS: CreateSkillOptions = {
+  name: 'note-tidy',
+  description: 'Groups release notes under Added, Changed and Fixed headings',
+  triggers: ['tidy notes', 'clean up the changelog'],
+  classification: 'autonomous',
+  tools: ['Read', 'Edit'],
+}
+
+describe('renderTemplate', () => {
+  it('fills known placeholders and leaves unknown ones for the author', () => {
+    assert.equal(renderTemplate('{{SKILL_NAME}}: {{FIRST_STEP}}', { SKILL_NAME: 'note-tidy' }), 'note-tidy: {{FIRST_STEP}}')
+  })
+})
+
+describe('validateCreateOptions', () => {
+  it('lists every missing or malformed option', () => {
+    assert.deepEqual(validateCreateOptions({ name: 'Note Tidy', triggers: [] }), [
+      '--name must be kebab-case (e.g. "my-skill")',
+      '--description is required',
+      '--triggers needs at least one phrase',
+      '--classification is required',
+    ])
+  })
+})
+
+describe('createSkill', () => {
+  let output: string
+
+  beforeEach(() => {
+    output = fs.mkdtempSync(path.join(os.tmpdir(), 'create-skill-test-'))
+  })
+
+  afterEach(() => fs.rmSync(output, { recursive: true, force: true }))
+
+  it('renders a plugin that passes validation', () => {
+    const result = createSkill({ ...OPTIONS, output })
+    const skillMd = fs.readFileSync(path.join(result.skillPath, 'SKILL.md'), 'utf-8')
+
+    assert.equal(result.rootPath, path.join(output, 'note-tidy-claude-skill'))
+    assert.equal(result.validation.passed, true)
+    assert.ok(result.files.includes('skills/note-tidy/SKILL.md'))
+    assert.ok(result.files.includes('package.json'))
+    assert.equal(result.files.some((file) => file.includes('/hooks/')), false)
+    assert.match(skillMd, /^description: This skill should be used when the user asks to "tidy notes" or "clean up the changelog"\./m)
+    assert.match(skillMd, /\*\*Type\*\*: Autonomous Execution/)
+    assert.equal(fs.statSync(path.join(result.skillPath, 'scripts', 'setup.mjs')).mode & 0o111, 0o111)
+  })
+
+  it('adds executable hook scripts for Configurable Enforcement skills', () => {
+    const result = createSkill({ ...OPTIONS, output, classification: 'configurable' })
+    const hooks = result.files.filter((file) => file.startsWith('skills/note-tidy/hooks/'))
+
+    assert.ok(hooks.length > 0)
+    for (const hook of hooks.filter((file) => file.endsWith('.sh'))) {
+      assert.equal(fs.statSync(path.join(result.rootPath, hook)).mode & 0o111, 0o111)
+    }
+  })
+
+  it('refuses invalid options, an existing directory and a missing template', () => {
+    assert.throws(() => createSkill({ ...OPTIONS, output, name: 'Note Tidy' }), /--name must be kebab-case/)
+
+    fs.mkdirSync(path.join(output, 'note-tidy-claude-skill'))
+    assert.throws(() => createSkill({ ...OPTIONS, output }), /Directory already exists/)
+
+    const templates = path.join(output, 'templates')
+    fs.mkdirSync(templates)
+    assert.throws(() => createSkill({ ...OPTIONS, name: 'other-notes', output, templates }), /Template not found at .*SKILL-template\.md/)
+  })
+})
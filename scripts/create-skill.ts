@@ -0,0 +1,359 @@
+#!/usr/bin/env npx tsx
+/**
+ * Create Skill Script
+ *
+ * Scaffolds a new skill plugin by rendering every file in templates/, creating
+ * scripts/, references/ and docs/ stubs, and validating the result. Configurable
+ * Enforcement skills also get the hooks/ scaffold (see generate-hooks.ts).
+ *
+ * Usage:
+ *   npx tsx create-skill.ts                       # Interactive prompts
+ *   npx tsx create-skill.ts --name <name> [options]
+ *
+ * Options:
+ *   --name <name>              Skill name in kebab-case
+ *   --description <text>       One sentence describing when to use the skill
+ *   --triggers <phrases>       Trigger phrases (comma-separated)
+ *   --classification <class>   autonomous | guided | interactive | configurable
+ *   --tools <tools>            Allowed tools (comma-separated, default: Read, Write, Bash)
+ *   --author <name>            GitHub username for package.json and README links
+ *   --topics <topics>          Extra GitHub topics (comma-separated)
+ *   --output, -o <path>        Parent directory (default: current directory)
+ *   --yes, -y                  Do not prompt; use flags and defaults
+ */
+
+import { chmodSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { dirname, join, relative, resolve } from 'path'
+import { createInterface } from 'readline/promises'
+import { fileURLToPath } from 'url'
+import { BEHAVIOR_CLASSES, findBehaviorClass, type BehaviorClassId } from './lib/behavior'
+import type { ValidationResult } from './lib/findings'
+import { quoteFrontmatterFields } from './lib/frontmatter'
+import { HOOK_TEMPLATE_FILES } from './lib/hooks'
+import { formatText } from './lib/report'
+import { validateSkill } from './validate-skill'
+
+export interface CreateSkillOptions {
+  name: string
+  description: string
+  triggers: string[]
+  classification: BehaviorClassId
+  tools: string[]
+  author?: string
+  topics?: string[]
+  /** Parent directory for the new `<name>-claude-skill` plugin */
+  output?: string
+  /** Templates directory (default: templates/ next to this script) */
+  templates?: string
+}
+
+export interface CreateSkillResult {
+  rootPath: string
+  skillPath: string
+  files: string[]
+  /** Placeholders left for the author to fill in, keyed by file */
+  remainingPlaceholders: Map<string, string[]>
+  validation: ValidationResult
+}
+
+const DEFAULT_TOOLS = ['Read', 'Write', 'Bash']
+const DEFAULT_TEMPLATES_DIR = join(dirname(fileURLToPath(import.meta.url)), '..', 'templates')
+
+// Template -> output path, relative to the plugin root; {name} is the skill name.
+// Files with a classification are only created for skills of that class.
+const TEMPLATE_FILES: Array<{ template: string; output: string; executable?: boolean; classification?: BehaviorClassId }> = [
+  { template: 'SKILL-template.md', output: 'skills/{name}/SKILL.md' },
+  { template: 'setup-template.mjs', output: 'skills/{name}/scripts/setup.mjs', executable: true },
+  { template: 'README-template.md', output: 'README.md' },
+  { template: 'CHANGELOG-template.md', output: 'CHANGELOG.md' },
+  { template: 'package-template.json', output: 'package.json' },
+  { template: 'LICENSE-template', output: 'LICENSE' },
+  ...HOOK_TEMPLATE_FILES.map((file) => ({
+    ...file,
+    output: `skills/{name}/${file.output}`,
+    classification: 'configurable' as const,
+  })),
+]
+
+/**
+ * Replace `{{KEY}}` placeholders; unknown placeholders are left in place
+ */
+export function renderTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{\{([A-Z0-9_]+)\}\}/g, (placeholder, key: string) =>
+    Object.prototype.hasOwnProperty.call(values, key) ? values[key] : placeholder
+  )
+}
+
+export function findPlaceholders(content: string): string[] {
+  return Array.from(new Set(content.match(/\{\{[A-Za-z0-9_]+\}\}/g) || []))
+}
+
+function toTitle(name: string): string {
+  return name
+    .split(/[-_\s]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join(' ')
+}
+
+/**
+ * Placeholder values for all templates
+ */
+function templateValues(options: CreateSkillOptions): Record<string, string> {
+  const behavior = BEHAVIOR_CLASSES.find((c) => c.id === options.classification)!
+  const description = options.description.trim().replace(/\.+$/, '')
+  const quotedTriggers = options.triggers.map((t) => `"${t}"`).join(', ')
+  const today = new Date().toISOString().slice(0, 10)
+
+  // Lead with when to use the skill, as the description-format rule expects
+  const triggerList =
+    options.triggers.length > 1 ? `${quotedTriggers.replace(/, ("[^"]*")$/, ' or $1')}` : quotedTriggers
+  const skillDescription = /this skill should be used when/i.test(description)
+    ? `${description}. Trigger phrases include ${quotedTriggers}.`
+    : `This skill should be used when the user asks to ${triggerList}. ${description}.`
+
+  const values: Record<string, string> = {
+    SKILL_NAME: options.name,
+    SKILL_TITLE: toTitle(options.name),
+    DESCRIPTION: description,
+    SKILL_DESCRIPTION: skillDescription,
+    DESCRIPTION_LOWERCASE: description[0].toLowerCase() + description.slice(1),
+    PLUGIN_DESCRIPTION: description,
+    TRIGGER_PHRASES: quotedTriggers,
+    TRIGGER_SUMMARY: quotedTriggers,
+    ALLOWED_TOOLS: options.tools.join('\n  - '),
+    BEHAVIOR_TYPE: behavior.type,
+    BEHAVIOR_DIRECTIVE: behavior.directive,
+    BEHAVIOR_SUMMARY: behavior.summary,
+    DATE: today,
+    YEAR: today.slice(0, 4),
+  }
+
+  options.triggers.slice(0, 2).forEach((trigger, i) => {
+    values[`TRIGGER_${i + 1}_NAME`] = toTitle(trigger)
+    values[`TRIGGER_${i + 1}_PHRASE`] = `"${trigger}"`
+  })
+
+  const topics = options.topics && options.topics.length > 0 ? options.topics : options.name.split('-')
+  topics.slice(0, 3).forEach((topic, i) => {
+    values[`TOPIC_${i + 1}`] = topic
+  })
+
+  if (options.author) {
+    values.AUTHOR = options.author
+  }
+
+  return values
+}
+
+/**
+ * Post-process a rendered file so it stays valid for its format
+ */
+function finalizeRendered(output: string, content: string): string {
+  if (output.endsWith('SKILL.md')) {
+    // Quote frontmatter values that contain YAML syntax
+    return quoteFrontmatterFields(content, ['name', 'description'])
+  }
+
+  if (output === 'package.json') {
+    // Drop keyword slots that were not filled
+    const pkg = JSON.parse(content)
+    pkg.keywords = pkg.keywords.filter((k: string) => !k.includes('{{'))
+    return JSON.stringify(pkg, null, 2) + '\n'
+  }
+
+  return content
+}
+
+export function validateCreateOptions(options: Partial<CreateSkillOptions>): string[] {
+  const problems: string[] = []
+  if (!options.name) problems.push('--name is required')
+  else if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(options.name)) problems.push('--name must be kebab-case (e.g. "my-skill")')
+  if (!options.description?.trim()) problems.push('--description is required')
+  if (!options.triggers || options.triggers.length === 0) problems.push('--triggers needs at least one phrase')
+  if (!options.classification) problems.push('--classification is required')
+  return problems
+}
+
+/**
+ * Render all templates into a new skill plugin and validate it
+ */
+export function createSkill(options: CreateSkillOptions): CreateSkillResult {
+  const problems = validateCreateOptions(options)
+  if (problems.length > 0) {
+    throw new Error(problems.join('; '))
+  }
+
+  const templatesDir = resolve(options.templates ?? DEFAULT_TEMPLATES_DIR)
+  const rootPath = resolve(options.output ?? process.cwd(), `${options.name}-claude-skill`)
+  const skillPath = join(rootPath, 'skills', options.name)
+
+  if (existsSync(rootPath)) {
+    throw new Error(`Directory already exists: ${rootPath}`)
+  }
+
+  const values = templateValues(options)
+  const files: string[] = []
+  const remainingPlaceholders = new Map<string, string[]>()
+
+  for (const { template, output: outputPattern, executable, classification } of TEMPLATE_FILES) {
+    if (classification && classification !== options.classification) continue
+
+    const templatePath = join(templatesDir, template)
+    if (!existsSync(templatePath)) {
+      throw new Error(`Template not found at ${templatePath}`)
+    }
+
+    const output = outputPattern.replace('{name}', options.name)
+    const content = finalizeRendered(output, renderTemplate(readFileSync(templatePath, 'utf-8'), values))
+    const outputPath = join(rootPath, output)
+
+    mkdirSync(dirname(outputPath), { recursive: true })
+    writeFileSync(outputPath, content, 'utf-8')
+    if (executable) chmodSync(outputPath, 0o755)
+    files.push(output)
+
+    const remaining = findPlaceholders(content)
+    if (remaining.length > 0) remainingPlaceholders.set(output, remaining)
+  }
+
+  // references/ stub for detailed docs loaded on demand
+  mkdirSync(join(skillPath, 'references'), { recursive: true })
+  writeFileSync(join(skillPath, 'references', '.gitkeep'), '', 'utf-8')
+  files.push(`skills/${options.name}/references/.gitkeep`)
+
+  // docs/ for plugin-level documentation; SKILL.md links to it as ../../docs/
+  mkdirSync(join(rootPath, 'docs'), { recursive: true })
+  writeFileSync(join(rootPath, 'docs', '.gitkeep'), '', 'utf-8')
+  files.push('docs/.gitkeep')
+
+  return {
+    rootPath,
+    skillPath,
+    files,
+    remainingPlaceholders,
+    validation: validateSkill(skillPath),
+  }
+}
+
+/**
+ * Ask for any options not given on the command line
+ */
+async function promptForOptions(partial: Partial<CreateSkillOptions>): Promise<Partial<CreateSkillOptions>> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout })
+  const ask = async (question: string, fallback = '') => {
+    const answer = (await rl.question(fallback ? `${question} [${fallback}]: ` : `${question}: `)).trim()
+    return answer || fallback
+  }
+  const list = (value: string) => value.split(',').map((item) => item.trim()).filter(Boolean)
+
+  try {
+    const options = { ...partial }
+    options.name ??= await ask('Skill name (kebab-case)')
+    options.description ??= await ask('Description', 'This skill should be used when the user asks to ...')
+    if (!options.triggers) {
+      options.triggers = list(await ask('Trigger phrases (comma-separated)'))
+    }
+    if (!options.classification) {
+      console.log('\nBehavioral classification:')
+      BEHAVIOR_CLASSES.forEach((c, i) => console.log(`  ${i + 1}. ${c.type} — ${c.directive}`))
+      const choice = await ask('Choose 1-4', '2')
+      options.classification = (BEHAVIOR_CLASSES[Number(choice) - 1] ?? findBehaviorClass(choice))?.id
+    }
+    if (!options.tools) {
+      options.tools = list(await ask('Allowed tools (comma-separated)', DEFAULT_TOOLS.join(', ')))
+    }
+    if (options.author === undefined) {
+      options.author = (await ask('Author (GitHub username, optional)')) || undefined
+    }
+    return options
+  } finally {
+    rl.close()
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2)
+
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(`
+Usage: npx tsx create-skill.ts [options]
+
+Prompts for anything not given as a flag.
+
+Options:
+  --name <name>              Skill name in kebab-case
+  --description <text>       One sentence describing when to use the skill
+  --triggers <phrases>       Trigger phrases (comma-separated)
+  --classification <class>   autonomous | guided | interactive | configurable
+  --tools <tools>            Allowed tools (comma-separated, default: ${DEFAULT_TOOLS.join(', ')})
+  --author <name>            GitHub username for package.json and README links
+  --topics <topics>          Extra GitHub topics (comma-separated)
+  --output, -o <path>        Parent directory (default: current directory)
+  --yes, -y                  Do not prompt; use flags and defaults
+  --help, -h                 Show this help
+`)
+    process.exit(0)
+  }
+
+  const list = (value: string) => value.split(',').map((item) => item.trim()).filter(Boolean)
+  let options: Partial<CreateSkillOptions> = {}
+  let interactive = process.stdin.isTTY === true
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    if (arg === '--name') {
+      options.name = args[++i]
+    } else if (arg === '--description') {
+      options.description = args[++i]
+    } else if (arg === '--triggers') {
+      options.triggers = list(args[++i])
+    } else if (arg === '--classification') {
+      const value = args[++i]
+      const behavior = findBehaviorClass(value)
+      if (!behavior) {
+        console.error(`❌ Error: Unknown classification "${value}" (expected ${BEHAVIOR_CLASSES.map((c) => c.id).join(', ')})`)
+        process.exit(1)
+      }
+      options.classification = behavior.id
+    } else if (arg === '--tools') {
+      options.tools = list(args[++i])
+    } else if (arg === '--author') {
+      options.author = args[++i]
+    } else if (arg === '--topics') {
+      options.topics = list(args[++i])
+    } else if (arg === '--output' || arg === '-o') {
+      options.output = args[++i]
+    } else if (arg === '--yes' || arg === '-y') {
+      interactive = false
+    }
+  }
+
+  if (interactive) {
+    options = await promptForOptions(options)
+  }
+  options.tools ??= DEFAULT_TOOLS
+
+  const result = createSkill(options as CreateSkillOptions)
+
+  console.log(`\n✅ Created skill: ${result.rootPath}\n`)
+  result.files.forEach((file) => console.log(`  + ${file}`))
+
+  if (result.remainingPlaceholders.size > 0) {
+    console.log('\n📝 Customize these placeholders:')
+    for (const [file, placeholders] of result.remainingPlaceholders) {
+      console.log(`  ${file}: ${placeholders.join(', ')}`)
+    }
+  }
+
+  console.log(formatText(relative(process.cwd(), result.skillPath) || '.', result.validation))
+  process.exit(result.validation.passed ? 0 : 1)
+}
+
+// CLI execution
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch((error) => {
+    console.error('❌ Error:', error instanceof Error ? error.message : error)
+    process.exit(1)
+  })
+}
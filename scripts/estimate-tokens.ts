@@ -0,0 +1,104 @@
+#!/usr/bin/env npx tsx
+/**
+ * Estimate Tokens Script
+ *
+ * Reports the approximate token cost of a skill by when it is loaded:
+ * frontmatter (always), SKILL.md body (on trigger) and each references/ file
+ * (on demand). Works offline; see scripts/lib/tokens.ts for the approximation.
+ *
+ * Usage:
+ *   npx tsx estimate-tokens.ts <skill-path> [--format text|json]
+ */
+
+import { existsSync } from 'fs'
+import { basename, resolve } from 'path'
+import {
+  BODY_TOKEN_BUDGET,
+  estimateSkillTokens,
+  FRONTMATTER_TOKEN_BUDGET,
+  sectionsToMove,
+  type SkillTokenEstimate,
+} from './lib/tokens'
+
+/**
+ * Render an estimate as a table of parts, with over-budget parts marked
+ */
+export function formatTokenReport(name: string, estimate: SkillTokenEstimate): string {
+  const rows: Array<[string, string, number, number | undefined]> = [
+    ['Frontmatter', 'always', estimate.frontmatter, FRONTMATTER_TOKEN_BUDGET],
+    ['SKILL.md body', 'on trigger', estimate.body, BODY_TOKEN_BUDGET],
+    ...estimate.references.map((r): [string, string, number, undefined] => [r.file, 'on demand', r.tokens, undefined]),
+  ]
+  const total = rows.reduce((sum, [, , tokens]) => sum + tokens, 0)
+  const width = Math.max(...rows.map(([part]) => part.length), 'Total'.length)
+
+  const lines = [`=== Token Estimate: ${name} ===`, '']
+  lines.push(`${'Part'.padEnd(width)}  ${'Loaded'.padEnd(10)}  ${'Tokens'.padStart(7)}  Budget`)
+  lines.push(`${'-'.repeat(width)}  ${'-'.repeat(10)}  ${'-'.repeat(7)}  ------`)
+  for (const [part, loaded, tokens, budget] of rows) {
+    const budgetText = budget === undefined ? '' : `${budget}${tokens > budget ? '  ⚠️  over budget' : ''}`
+    lines.push(`${part.padEnd(width)}  ${loaded.padEnd(10)}  ${String(tokens).padStart(7)}  ${budgetText}`.trimEnd())
+  }
+  lines.push(`${'Total'.padEnd(width)}  ${''.padEnd(10)}  ${String(total).padStart(7)}`)
+
+  const sections = sectionsToMove(estimate)
+  if (sections.length > 0) {
+    lines.push('', 'Sections to move to references/:')
+    for (const section of sections) {
+      lines.push(`  - "${section.heading}" (line ${section.line}): ~${section.tokens} tokens`)
+    }
+  }
+
+  lines.push('', 'Estimates are approximate (offline tokenizer approximation).')
+  return lines.join('\n')
+}
+
+function main() {
+  const args = process.argv.slice(2)
+  let format = 'text'
+  const targets: string[] = []
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    if (arg === '--format') {
+      format = args[++i]
+    } else if (arg.startsWith('--format=')) {
+      format = arg.slice('--format='.length)
+    } else if (arg === '--help' || arg === '-h') {
+      targets.length = 0
+      break
+    } else {
+      targets.push(arg)
+    }
+  }
+
+  if (targets.length !== 1) {
+    console.log('Usage: estimate-tokens.ts <skill-path> [--format text|json]')
+    console.log('')
+    console.log('Example:')
+    console.log('  npx tsx estimate-tokens.ts path/to/skill')
+    process.exit(1)
+  }
+  if (format !== 'text' && format !== 'json') {
+    console.error(`Error: Unknown format "${format}" (expected text, json)`)
+    process.exit(1)
+  }
+
+  const skillPath = resolve(targets[0])
+  if (!existsSync(skillPath)) {
+    console.error(`Error: Path does not exist: ${skillPath}`)
+    process.exit(1)
+  }
+
+  const estimate = estimateSkillTokens(skillPath)
+  if (format === 'json') {
+    console.log(JSON.stringify({ ...estimate, sectionsToMove: sectionsToMove(estimate) }, null, 2))
+  } else {
+    console.log(formatTokenReport(basename(skillPath), estimate))
+  }
+}
+
+// CLI execution
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main()
+}
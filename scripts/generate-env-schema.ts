@@ -0,0 +1,87 @@
+#!/usr/bin/env npx tsx
+/**
+ * Generate Env Schema Script
+ *
+ * Writes a starter Varlock `.env.schema` from the environment variables a
+ * skill reads (`process.env.X`, `const { X } = process.env`), or appends the ones an existing schema is
+ * missing. Variables are @required unless the code has a fallback, and
+ * @sensitive when the name looks like a credential.
+ *
+ * Usage:
+ *   npx tsx generate-env-schema.ts <skill-path> [--dry-run]
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs'
+import { join, resolve } from 'path'
+import { loadTypeScript } from './lib/code-analysis'
+import { unifiedDiff } from './lib/diff'
+import {
+  appendEnvSchemaEntries,
+  ENV_SCHEMA_FILE,
+  findEnvUsages,
+  parseEnvSchema,
+  starterEnvSchemaEntries,
+} from './lib/env-schema'
+
+export interface EnvSchemaGeneration {
+  schemaPath: string
+  before: string
+  after: string
+  /** Variables added to the schema */
+  added: string[]
+}
+
+/**
+ * Plan the starter schema for a skill; nothing is written
+ */
+export function planEnvSchema(skillPath: string): EnvSchemaGeneration {
+  const schemaPath = join(skillPath, ENV_SCHEMA_FILE)
+  const before = existsSync(schemaPath) ? readFileSync(schemaPath, 'utf-8') : ''
+  const entries = starterEnvSchemaEntries(findEnvUsages(skillPath, loadTypeScript(skillPath, process.cwd())))
+  const after = appendEnvSchemaEntries(before, entries)
+  const defined = new Set(parseEnvSchema(before).entries.map((entry) => entry.name))
+  const added = entries.map((entry) => entry.name).filter((name) => !defined.has(name))
+  return { schemaPath, before, after, added }
+}
+
+function main() {
+  const args = process.argv.slice(2)
+  const dryRun = args.includes('--dry-run')
+  const targets = args.filter((arg) => !arg.startsWith('-'))
+
+  if (targets.length !== 1 || args.includes('--help') || args.includes('-h')) {
+    console.log('Usage: generate-env-schema.ts <skill-path> [--dry-run]')
+    console.log('')
+    console.log('Creates .env.schema from the process.env variables the skill reads,')
+    console.log('or adds the variables an existing schema is missing.')
+    process.exit(targets.length === 1 ? 0 : 1)
+  }
+
+  const skillPath = resolve(targets[0])
+  if (!existsSync(skillPath)) {
+    console.error(`Error: Path does not exist: ${skillPath}`)
+    process.exit(1)
+  }
+
+  const plan = planEnvSchema(skillPath)
+  if (plan.added.length === 0) {
+    console.log(`✅ ${ENV_SCHEMA_FILE} already declares every variable the skill reads`)
+    return
+  }
+
+  console.log(unifiedDiff(plan.before, plan.after, ENV_SCHEMA_FILE))
+  if (dryRun) {
+    console.log(`\n🔍 Dry run: would add ${plan.added.join(', ')}`)
+    return
+  }
+
+  writeFileSync(plan.schemaPath, plan.after, 'utf-8')
+  console.log(`\n✅ ${plan.before ? 'Updated' : 'Created'} ${plan.schemaPath}: added ${plan.added.join(', ')}`)
+  console.log('Review the @required/@sensitive annotations, add @type options (e.g. startsWith=) and')
+  console.log('document each variable in the "Environment Variables" table in SKILL.md.')
+}
+
+// CLI execution
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main()
+}
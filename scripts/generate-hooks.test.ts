@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { generateHooks } from './generate-hooks'
+import { analyzeHookScript, isExecutable, loadHookConfigSchema, validateHookConfig } from './lib/hooks'
+
+const skillMd = (type: string) =>
+  `---\nname: docker-enforce\ndescription: This skill should be used when the user asks to "run in docker".\n---\n\n# Docker Enforce\n\n## Behavioral Classification\n\n**Type**: ${type}\n`
+
+describe('generateHooks', () => {
+  let skillPath: string
+
+  beforeEach(() => {
+    skillPath = fs.mkdtempSync(path.join(os.tmpdir(), 'generate-hooks-test-'))
+    fs.writeFileSync(path.join(skillPath, 'SKILL.md'), skillMd('Configurable Enforcement'))
+  })
+
+  afterEach(() => fs.rmSync(skillPath, { recursive: true, force: true }))
+
+  it('writes executable hooks that pass the hook checks', () => {
+    const result = generateHooks(skillPath, { pattern: '^(npm|node) ' })
+
+    assert.deepEqual(result.written, ['hooks/pre-command.sh', 'hooks/post-command.sh', 'hooks/config.example.json', 'hooks/config.schema.json'])
+    assert.equal(result.configurable, true)
+    assert.equal(result.configFile, '.claude/docker-enforce-config.json')
+    assert.deepEqual(result.remainingPlaceholders, new Map())
+
+    const preCommand = path.join(skillPath, 'hooks', 'pre-command.sh')
+    assert.equal(isExecutable(preCommand), true)
+    assert.match(fs.readFileSync(preCommand, 'utf-8'), /\^\(npm\|node\) /)
+    assert.deepEqual(analyzeHookScript(fs.readFileSync(preCommand, 'utf-8')), [])
+    const example = fs.readFileSync(path.join(skillPath, 'hooks', 'config.example.json'), 'utf-8')
+    assert.deepEqual(validateHookConfig(example, loadHookConfigSchema(skillPath)), [])
+  })
+
+  it('keeps existing files unless forced and leaves the pattern for the author when not given', () => {
+    fs.mkdirSync(path.join(skillPath, 'hooks'))
+    fs.writeFileSync(path.join(skillPath, 'hooks', 'pre-command.sh'), '#!/bin/bash\n')
+    fs.writeFileSync(path.join(skillPath, 'SKILL.md'), skillMd('Autonomous Execution'))
+
+    const kept = generateHooks(skillPath, { dryRun: true })
+    assert.deepEqual(kept.skipped, ['hooks/pre-command.sh'])
+    assert.equal(kept.configurable, false)
+    assert.equal(fs.existsSync(path.join(skillPath, 'hooks', 'post-command.sh')), false)
+
+    const forced = generateHooks(skillPath, { force: true })
+    assert.deepEqual(forced.skipped, [])
+    assert.deepEqual(forced.remainingPlaceholders.get('hooks/pre-command.sh'), ['{{COMMAND_PATTERN}}'])
+  })
+
+  it('fails without SKILL.md or templates', () => {
+    assert.throws(() => generateHooks(path.join(skillPath, 'missing')), /SKILL\.md not found/)
+    assert.throws(() => generateHooks(skillPath, { templates: path.join(skillPath, 'templates') }), /Template not found at .*pre-command-template\.sh/)
+  })
+})
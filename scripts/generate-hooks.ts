@@ -0,0 +1,167 @@
+#!/usr/bin/env npx tsx
+/**
+ * Generate Hooks Script
+ *
+ * Scaffolds the Enforcement Hooks Pattern from SKILL.md into an existing
+ * skill: hooks/pre-command.sh and hooks/post-command.sh handling every
+ * enforcement mode, an example configuration and its JSON schema.
+ *
+ * Usage:
+ *   npx tsx generate-hooks.ts <skill-path> [--pattern <regex>] [--force] [--dry-run]
+ */
+
+import { chmodSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { dirname, join, resolve } from 'path'
+import { fileURLToPath } from 'url'
+import { findDeclaredBehaviors } from './lib/behavior'
+import { HOOK_TEMPLATE_FILES } from './lib/hooks'
+import { readSkillSummary } from './lib/plugin'
+import { findPlaceholders, renderTemplate } from './create-skill'
+
+export interface GenerateHooksOptions {
+  /** Extended regular expression for commands the pre-command hook intercepts */
+  pattern?: string
+  /** Overwrite existing hook files */
+  force?: boolean
+  dryRun?: boolean
+  /** Templates directory (default: templates/ next to this script) */
+  templates?: string
+}
+
+export interface GenerateHooksResult {
+  /** Paths relative to the skill root */
+  written: string[]
+  /** Existing files left alone */
+  skipped: string[]
+  /** Placeholders left for the author to fill in, keyed by file */
+  remainingPlaceholders: Map<string, string[]>
+  /** Whether SKILL.md declares Configurable Enforcement */
+  configurable: boolean
+  /** Where projects put their configuration, e.g. ".claude/docker-enforce-config.json" */
+  configFile: string
+}
+
+const DEFAULT_TEMPLATES_DIR = join(dirname(fileURLToPath(import.meta.url)), '..', 'templates')
+
+/**
+ * Render the hook templates into a skill's hooks/ directory
+ */
+export function generateHooks(skillPath: string, options: GenerateHooksOptions = {}): GenerateHooksResult {
+  const skillMdPath = join(skillPath, 'SKILL.md')
+  if (!existsSync(skillMdPath)) {
+    throw new Error(`SKILL.md not found at ${skillMdPath}`)
+  }
+
+  const templatesDir = resolve(options.templates ?? DEFAULT_TEMPLATES_DIR)
+  const { name } = readSkillSummary(skillPath)
+  const values: Record<string, string> = { SKILL_NAME: name }
+  if (options.pattern) values.COMMAND_PATTERN = options.pattern
+
+  const result: GenerateHooksResult = {
+    written: [],
+    skipped: [],
+    remainingPlaceholders: new Map(),
+    configurable: findDeclaredBehaviors(readFileSync(skillMdPath, 'utf-8')).some(
+      (declared) => declared.behavior?.id === 'configurable'
+    ),
+    configFile: `.claude/${name}-config.json`,
+  }
+
+  for (const { template, output, executable } of HOOK_TEMPLATE_FILES) {
+    const templatePath = join(templatesDir, template)
+    if (!existsSync(templatePath)) {
+      throw new Error(`Template not found at ${templatePath}`)
+    }
+
+    const outputPath = join(skillPath, output)
+    if (existsSync(outputPath) && !options.force) {
+      result.skipped.push(output)
+      continue
+    }
+
+    const content = renderTemplate(readFileSync(templatePath, 'utf-8'), values)
+    if (!options.dryRun) {
+      mkdirSync(dirname(outputPath), { recursive: true })
+      writeFileSync(outputPath, content, 'utf-8')
+      if (executable) chmodSync(outputPath, 0o755)
+    }
+    result.written.push(output)
+
+    const remaining = findPlaceholders(content)
+    if (remaining.length > 0) result.remainingPlaceholders.set(output, remaining)
+  }
+
+  return result
+}
+
+function main() {
+  const args = process.argv.slice(2)
+
+  if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
+    console.log(`
+Usage: npx tsx generate-hooks.ts <skill-path> [options]
+
+Adds hooks/pre-command.sh, hooks/post-command.sh, hooks/config.example.json
+and hooks/config.schema.json to a skill. Existing files are kept.
+
+Options:
+  --pattern <regex>     Commands the pre-command hook intercepts (grep -E)
+  --force               Overwrite existing hook files
+  --dry-run             Show what would be written
+  --help, -h            Show this help
+
+Example:
+  npx tsx generate-hooks.ts ~/.claude/skills/docker-enforce --pattern "^(npm|node) "
+`)
+    process.exit(args.length === 0 ? 1 : 0)
+  }
+
+  const options: GenerateHooksOptions = {}
+  let skillPath = ''
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    if (arg === '--pattern') {
+      options.pattern = args[++i]
+    } else if (arg === '--force') {
+      options.force = true
+    } else if (arg === '--dry-run') {
+      options.dryRun = true
+    } else if (!arg.startsWith('-')) {
+      skillPath = resolve(arg)
+    }
+  }
+
+  const result = generateHooks(skillPath, options)
+  const verb = options.dryRun ? 'Would write' : 'Wrote'
+
+  console.log(`\n${result.written.length > 0 ? '✅' : 'ℹ️ '} ${verb} ${result.written.length} hook file(s) in ${skillPath}`)
+  result.written.forEach((file) => console.log(`  + ${file}`))
+  result.skipped.forEach((file) => console.log(`  = ${file} (exists; use --force to overwrite)`))
+
+  if (result.remainingPlaceholders.size > 0) {
+    console.log('\n📝 Customize these placeholders:')
+    for (const [file, placeholders] of result.remainingPlaceholders) {
+      console.log(`  ${file}: ${placeholders.join(', ')}`)
+    }
+  }
+
+  if (!result.configurable) {
+    console.log('\n⚠️  SKILL.md does not declare Configurable Enforcement; update its Behavioral Classification')
+  }
+
+  console.log(`
+Next steps:
+  1. Copy hooks/config.example.json to ${result.configFile} in each project
+  2. Register the hook in .claude/settings.json (see "Integration with Claude Code" in SKILL.md)
+  3. Run validate-skill.ts to check the hooks`)
+}
+
+// CLI execution
+if (import.meta.url === `file://${process.argv[1]}`) {
+  try {
+    main()
+  } catch (error) {
+    console.error('❌ Error:', error instanceof Error ? error.message : error)
+    process.exit(1)
+  }
+}
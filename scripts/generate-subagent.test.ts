@@ -0,0 +1,191 @@
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, it, mock } from 'node:test'
+import { fileURLToPath } from 'node:url'
+import { checkSubagents, generateSubagent, generateSubagents, updateClaudeMd } from './generate-subagent'
+import { stampGenerated } from './lib/subagent'
+
+const TEMPLATE = fileURLToPath(new URL('../templates/subagent-template.md', import.meta.url))
+
+const skillMd = (name: string, body: string, frontmatter = '') =>
+  `---\nname: ${name}\ndescription: Checks release notes. This skill should be used when the user asks to "check notes" or "verify the changelog".\n${frontmatter}---\n\n# ${name}\n\n## Behavioral Classification\n\n**Type**: Autonomous Execution\n\n${body}\n`
+
+describe('generateSubagents', () => {
+  let root: string
+  let agents: string
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'subagent-test-'))
+    agents = path.join(root, 'agents')
+    for (const [name, body] of [
+      ['notes-check', 'Run the tests with vitest before reporting.'],
+      ['notes-format', 'Formats a single note.'],
+    ]) {
+      fs.mkdirSync(path.join(root, 'skills', name), { recursive: true })
+      fs.writeFileSync(path.join(root, 'skills', name, 'SKILL.md'), skillMd(name, body))
+    }
+    mock.method(console, 'log', () => {})
+  })
+
+  afterEach(() => {
+    mock.restoreAll()
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  const run = (options = {}) => generateSubagents([path.join(root, 'skills')], { output: agents, template: TEMPLATE, ...options })
+  const agentPath = () => path.join(agents, 'notes-check-specialist.md')
+
+  it('generates agents only for skills that meet the criteria', () => {
+    const entries = run()
+
+    assert.deepEqual(
+      entries.map((e) => `${path.basename(e.skillPath)}: ${e.result?.status ?? (e.fit?.qualifies ? e.error : 'not needed')}`),
+      ['notes-check: created', 'notes-format: not needed']
+    )
+    assert.match(entries[0].fit!.reasons[0], /^runs test suites \(SKILL\.md:\d+\)$/)
+    assert.deepEqual(fs.readdirSync(agents), ['notes-check-specialist.md'])
+    assert.match(fs.readFileSync(agentPath(), 'utf-8'), /^<!-- generated-by: generate-subagent; checksum: [0-9a-f]{16};/m)
+  })
+
+  it('leaves agents edited by hand alone unless forced', () => {
+    run()
+    assert.equal(run()[0].result?.status, 'unchanged')
+
+    fs.appendFileSync(agentPath(), '\nAlways cite the changelog line.\n')
+    assert.equal(run()[0].result?.status, 'skipped')
+    assert.match(fs.readFileSync(agentPath(), 'utf-8'), /Always cite the changelog line/)
+
+    const forced = run({ force: true })[0].result
+    assert.equal(forced?.status, 'updated')
+    assert.match(forced?.diff ?? '', /^-Always cite the changelog line\.$/m)
+    assert.doesNotMatch(fs.readFileSync(agentPath(), 'utf-8'), /Always cite the changelog line/)
+  })
+
+  it('writes nothing in a dry run', () => {
+    assert.equal(run({ dryRun: true })[0].result?.status, 'created')
+    assert.equal(fs.existsSync(agents), false)
+  })
+
+  it('updates the CLAUDE.md delegation section without duplicating it', () => {
+    const claudeMd = path.join(root, 'CLAUDE.md')
+    fs.writeFileSync(claudeMd, '# Project\n')
+    run()
+
+    assert.equal(updateClaudeMd(claudeMd, agents, { dryRun: true }).entries.length, 1)
+    assert.equal(fs.readFileSync(claudeMd, 'utf-8'), '# Project\n')
+
+    updateClaudeMd(claudeMd, agents)
+    const written = fs.readFileSync(claudeMd, 'utf-8')
+    assert.match(written, /`notes-check-specialist` subagent/)
+    assert.equal(updateClaudeMd(claudeMd, agents).after, written)
+  })
+
+  it('records a failure per skill and carries on', () => {
+    const [entry] = run({ template: path.join(root, 'missing.md') })
+    assert.match(entry.error ?? '', /Subagent template not found/)
+    assert.throws(() => generateSubagent(path.join(root, 'skills', 'missing'), { output: agents }), /SKILL\.md not found/)
+  })
+})
+
+describe('generateSubagent configuration', () => {
+  let root: string
+  let skillPath: string
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'subagent-test-'))
+    skillPath = path.join(root, 'notes-check')
+    fs.mkdirSync(skillPath)
+    fs.writeFileSync(
+      path.join(skillPath, 'SKILL.md'),
+      skillMd(
+        'notes-check',
+        'Run the tests with vitest.',
+        'subagent:\n  model: haiku\n  return-tokens: 800\n  output-format:\n    Task: what was requested\n    Findings: issues found, with file:line\n'
+      )
+    )
+    mock.method(console, 'log', () => {})
+  })
+
+  afterEach(() => {
+    mock.restoreAll()
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  const generate = (options = {}) => generateSubagent(skillPath, { output: root, template: TEMPLATE, skipClaudeMd: true, ...options })
+
+  it('applies the subagent block from the frontmatter', () => {
+    const result = generate()
+    const agent = fs.readFileSync(result.subagentPath, 'utf-8')
+
+    assert.equal(result.config.model, 'haiku')
+    assert.match(agent, /^model: haiku$/m)
+    assert.match(agent, /- \*\*Findings:\*\* \[issues found, with file:line\]/)
+    assert.match(agent, /Keep response under 800 tokens/)
+  })
+
+  it('lets command line options override the frontmatter', () => {
+    const result = generate({ model: 'opus', returnTokens: '300', outputFormat: 'Summary; Risks: what could break' })
+
+    assert.deepEqual(result.config, {
+      model: 'opus',
+      returnTokens: 300,
+      outputFormat: [
+        { name: 'Summary', description: 'summary' },
+        { name: 'Risks', description: 'what could break' },
+      ],
+    })
+    assert.match(fs.readFileSync(result.subagentPath, 'utf-8'), /^model: opus$/m)
+  })
+
+  it('rejects a return budget that is not a positive whole number', () => {
+    assert.throws(() => generate({ returnTokens: '12.5' }), /Return token budget must be a positive whole number, got "12\.5"/)
+    fs.writeFileSync(path.join(skillPath, 'SKILL.md'), skillMd('notes-check', 'Run the tests.', 'subagent:\n  return-tokens: -1\n'))
+    assert.throws(() => generate(), /got "-1"/)
+  })
+})
+
+describe('checkSubagents', () => {
+  let root: string
+  let skills: string
+  let agents: string
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'subagent-test-'))
+    skills = path.join(root, 'skills')
+    agents = path.join(root, 'agents')
+    fs.mkdirSync(path.join(skills, 'notes-check'), { recursive: true })
+    fs.writeFileSync(path.join(skills, 'notes-check', 'SKILL.md'), skillMd('notes-check', 'Run the tests with vitest.'))
+    mock.method(console, 'log', () => {})
+  })
+
+  afterEach(() => {
+    mock.restoreAll()
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  const check = () => checkSubagents(skills, agents).map((e) => `${e.status} ${e.agentPath ? path.basename(e.agentPath) : e.skillName}`)
+
+  it('reports skills that qualify but have no agent as missing', () => {
+    const [entry] = checkSubagents(skills, agents)
+
+    assert.equal(entry.status, 'missing')
+    assert.match(entry.reason, /^runs test suites/)
+  })
+
+  it('tells current, stale, orphaned and unmanaged agents apart', () => {
+    generateSubagents([skills], { output: agents, template: TEMPLATE })
+    assert.deepEqual(check(), ['current notes-check-specialist.md'])
+
+    const skillMdPath = path.join(skills, 'notes-check', 'SKILL.md')
+    fs.writeFileSync(skillMdPath, fs.readFileSync(skillMdPath, 'utf-8').replace('Checks release notes', 'Checks draft notes'))
+    fs.writeFileSync(path.join(agents, 'old-specialist.md'), stampGenerated('---\nname: old-specialist\nskills: old\n---\n\nGone.\n'))
+    fs.writeFileSync(path.join(agents, 'review.md'), '---\nname: review\nskills: notes-check\n---\n\nWritten by hand.\n')
+
+    assert.deepEqual(check(), ['stale notes-check-specialist.md', 'orphaned old-specialist.md', 'unmanaged review.md'])
+    const drift = checkSubagents(skills, agents)
+    assert.match(drift[0].reason, /SKILL\.md description, triggers, tools, behavior or subagent settings changed/)
+    assert.match(drift[1].reason, /skill "old" not found/)
+  })
+})
@@ -2,171 +2,232 @@
 /**
  * Generate Subagent Script
  *
- * Generates companion specialist agents for skills, enabling 37-97% token savings
- * through context isolation.
+ * Generates companion specialist agents for skills, saving orchestrator tokens
+ * through context isolation, and estimates the savings for each skill.
  *
  * Usage:
- *   npx tsx generate-subagent.ts <skill-path> [options]
+ *   npx tsx generate-subagent.ts [transform] <skill-path> [options]
+ *   npx tsx generate-subagent.ts [transform] --batch <paths...> [options]
+ *   npx tsx generate-subagent.ts claude-md [CLAUDE.md] [--output <agents-dir>]
+ *   npx tsx generate-subagent.ts check [skills-dir] [--output <agents-dir>] [--regenerate]
  *
  * Options:
  *   --output, -o <path>   Output directory (default: ~/.claude/agents)
  *   --tools <tools>       Override tools (comma-separated)
  *   --model <model>       Model to use (default: sonnet)
+ *   --return-tokens <n>   Response budget for the specialist (default: 500)
+ *   --output-format <s>   Response sections, e.g. "Task; Findings: issues found"
  *   --skip-claude-md      Skip CLAUDE.md snippet generation
+ *   --claude-md <path>    Update the delegation section of this CLAUDE.md
  *   --dry-run             Preview without creating files
+ *   --force               Overwrite agents that were edited by hand
+ *   --batch <paths...>    Every skill under the paths that needs a subagent
  */
 
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs'
-import { join, dirname, resolve } from 'path'
+import { readFileSync, writeFileSync, existsSync, mkdirSync, readdirSync } from 'fs'
+import { join, dirname, resolve, basename, relative } from 'path'
 import { homedir } from 'os'
+import { findDeclaredBehaviors, inferBehaviorClass, type BehaviorClass } from './lib/behavior'
+import { planDelegationUpdate, type DelegationUpdate } from './lib/delegation'
+import { unifiedDiff } from './lib/diff'
+import { extractFrontmatter, getString, parseFrontmatter, quoteFrontmatterFields } from './lib/frontmatter'
+import { discoverSkills, readSkillSummary } from './lib/plugin'
+import {
+  assessSubagentFit,
+  DEFAULT_SUBAGENT_CONFIG,
+  formatOutputSections,
+  GENERATOR_VERSION,
+  isHandEdited,
+  parseOutputFormat,
+  parseReturnTokens,
+  readGeneratedStamp,
+  readSubagentConfig,
+  sourceHash,
+  stampGenerated,
+  type SubagentConfig,
+  type SubagentFit,
+} from './lib/subagent'
+import { describeEvidence, inferTools, undeclaredTools, type ToolInference } from './lib/tools'
+import { estimateDelegationSavings, estimateSkillTokens, type DelegationSavings } from './lib/tokens'
+import { extractTriggers, INSTALLED_SKILLS_DIR, triggerPhrases } from './lib/triggers'
 
 interface SkillMetadata {
   name: string
   description: string
   triggers: string[]
   version?: string
+  /** Behavioral class (ADR-025), declared or inferred */
+  behavior?: BehaviorClass
+  /** Settings from the skill's `subagent:` frontmatter block */
+  subagent: Partial<SubagentConfig>
 }
 
 interface ToolAnalysis {
   requiredTools: string[]
+  /** Evidence for each tool, e.g. "Bash (0.9): scripts/setup.mjs:1 bundled script" */
   reason: string
+  inferences: ToolInference[]
+  /** Inferred tools missing from the skill's `allowed-tools` */
+  undeclared: ToolInference[]
 }
 
+const DEFAULT_AGENTS_DIR = join(homedir(), '.claude', 'agents')
+const DEFAULT_CLAUDE_MD = join(homedir(), '.claude', 'CLAUDE.md')
+
+interface GenerateOptions {
+  output?: string
+  tools?: string
+  model?: string
+  /** Return token budget, overriding `subagent.return-tokens` */
+  returnTokens?: string
+  /** Output sections ("Task; Findings: issues found"), overriding `subagent.output-format` */
+  outputFormat?: string
+  skipClaudeMd?: boolean
+  /** Update the managed delegation section of this CLAUDE.md after generating */
+  claudeMd?: string
+  dryRun?: boolean
+  /** Overwrite agents that were edited by hand */
+  force?: boolean
+  /** Subagent template (default: templates/subagent-template.md of the installed skill-builder) */
+  template?: string
+}
+
+type GenerationStatus = 'created' | 'updated' | 'unchanged' | 'skipped'
+
 interface GenerationResult {
   subagentPath: string
   claudeMdSnippet: string
   metadata: SkillMetadata
   tools: string[]
+  /** How the tools were inferred (also computed when --tools overrides them) */
+  toolAnalysis: ToolAnalysis
+  /** Model, return budget and output format the agent was generated with */
+  config: SubagentConfig
+  /** Estimated tokens saved by delegating instead of loading the skill inline */
+  savings: DelegationSavings
+  /** What happened to the agent file, or would have in a dry run */
+  status: GenerationStatus
+  /** Changes to an existing agent file */
+  diff?: string
+}
+
+type DriftStatus = 'current' | 'stale' | 'orphaned' | 'missing' | 'unmanaged'
+
+interface DriftEntry {
+  status: DriftStatus
+  /** Why the agent is stale or missing */
+  reason: string
+  agentPath?: string
+  skillName?: string
+  skillPath?: string
+}
+
+interface BatchEntry {
+  skillPath: string
+  fit?: SubagentFit
+  result?: GenerationResult
+  error?: string
 }
 
 /**
  * Parse YAML frontmatter from SKILL.md content
  */
 function parseSkillMetadata(content: string): SkillMetadata {
-  const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/)
-  if (!frontmatterMatch) {
+  if (!extractFrontmatter(content)) {
     throw new Error('No YAML frontmatter found in SKILL.md')
   }
 
-  const frontmatter = frontmatterMatch[1]
-  const lines = frontmatter.split('\n')
-
-  let name = ''
-  let description = ''
-  const triggers: string[] = []
-
-  for (const line of lines) {
-    const nameMatch = line.match(/^name:\s*(.+)$/)
-    if (nameMatch) {
-      name = nameMatch[1].trim()
-    }
-
-    const descMatch = line.match(/^description:\s*(.+)$/)
-    if (descMatch) {
-      description = descMatch[1].trim()
-      // Extract trigger phrases from description
-      const triggerMatch = description.match(/when.*?"([^"]+)"/g)
-      if (triggerMatch) {
-        for (const t of triggerMatch) {
-          const phrase = t.match(/"([^"]+)"/)
-          if (phrase) triggers.push(phrase[1])
-        }
-      }
-    }
+  const { data } = parseFrontmatter(content)
+  const name = getString(data, 'name')
+  const description = getString(data, 'description')
+  const version = data.version === undefined || data.version === null ? undefined : String(data.version)
 
-    const versionMatch = line.match(/^version:\s*(.+)$/)
-    if (versionMatch) {
-      // Version captured but not used in current implementation
-    }
-  }
+  // Trigger phrases from the description and the triggers block
+  const triggers = triggerPhrases(extractTriggers(content)).map((t) => t.phrase)
 
   if (!name) {
     throw new Error('No name found in SKILL.md frontmatter')
   }
 
-  return { name, description, triggers }
+  const behavior = findDeclaredBehaviors(content).find((d) => d.behavior)?.behavior
+
+  return { name, description, triggers, version, behavior, subagent: readSubagentConfig(data) }
 }
 
 /**
- * Analyze skill content to determine required tools
+ * Determine the minimal tool set for a skill's specialist, with the evidence
+ * for each tool and any tools beyond the skill's `allowed-tools`
  */
-function analyzeToolRequirements(content: string): ToolAnalysis {
-  const tools = new Set<string>()
-  const contentLower = content.toLowerCase()
-
-  // Always include Read
-  tools.add('Read')
-
-  // Detect file write operations
-  if (
-    contentLower.includes('write') ||
-    contentLower.includes('create file') ||
-    contentLower.includes('edit') ||
-    contentLower.includes('modify')
-  ) {
-    tools.add('Write')
-    tools.add('Edit')
-  }
-
-  // Detect command execution
-  if (
-    contentLower.includes('bash') ||
-    contentLower.includes('npm') ||
-    contentLower.includes('command') ||
-    contentLower.includes('terminal') ||
-    contentLower.includes('shell') ||
-    contentLower.includes('run ')
-  ) {
-    tools.add('Bash')
-  }
-
-  // Detect search operations
-  if (
-    contentLower.includes('search') ||
-    contentLower.includes('find') ||
-    contentLower.includes('grep') ||
-    contentLower.includes('glob')
-  ) {
-    tools.add('Grep')
-    tools.add('Glob')
-  }
-
-  // Detect web operations
-  if (
-    contentLower.includes('web') ||
-    contentLower.includes('fetch') ||
-    contentLower.includes('url') ||
-    contentLower.includes('http')
-  ) {
-    tools.add('WebFetch')
-  }
-
+function analyzeToolRequirements(skillPath: string): ToolAnalysis {
+  const inferences = inferTools(skillPath)
   return {
-    requiredTools: Array.from(tools),
-    reason: 'Minimal tool set based on skill content analysis',
+    requiredTools: inferences.map((i) => i.tool),
+    reason: inferences.map((i) => describeEvidence(i)).join('; '),
+    inferences,
+    undeclared: undeclaredTools(skillPath, inferences),
   }
 }
 
+/**
+ * Read everything a skill's agent is generated from, and hash it. CLI
+ * overrides are not part of the hash: the drift check compares agents with
+ * the skill itself.
+ */
+function readSkillSource(skillMdPath: string): { metadata: SkillMetadata; toolAnalysis: ToolAnalysis; hash: string } {
+  const skillPath = dirname(skillMdPath)
+  const metadata = parseSkillMetadata(readFileSync(skillMdPath, 'utf-8'))
+  metadata.behavior ??= inferBehaviorClass(skillPath)?.behavior
+  const toolAnalysis = analyzeToolRequirements(skillPath)
+
+  const hash = sourceHash({
+    name: metadata.name,
+    description: metadata.description,
+    triggers: metadata.triggers,
+    behavior: metadata.behavior?.id ?? null,
+    subagent: metadata.subagent,
+    tools: toolAnalysis.requiredTools,
+  })
+  return { metadata, toolAnalysis, hash }
+}
+
 /**
  * Generate subagent content from template
  */
 function generateSubagentContent(
   metadata: SkillMetadata,
   tools: string[],
-  templatePath: string
+  templatePath: string,
+  config: SubagentConfig = DEFAULT_SUBAGENT_CONFIG
 ): string {
-  const template = readFileSync(templatePath, 'utf-8')
+  let template = readFileSync(templatePath, 'utf-8')
+
+  // The template's example response follows the default format
+  if (config.outputFormat !== DEFAULT_SUBAGENT_CONFIG.outputFormat) {
+    template = template.replace(/\n## Example Response\n[\s\S]*?(?=\n## |$)/, '\n')
+  }
 
   const triggersStr =
     metadata.triggers.length > 0
       ? metadata.triggers.map((t) => `"${t}"`).join(', ')
       : 'delegated tasks for this skill'
 
-  return template
+  const content = template
     .replace(/\{\{name\}\}/g, metadata.name)
-    .replace(/\{\{description\}\}/g, metadata.description)
+    // The template ends the sentence itself
+    .replace(/\{\{description\}\}/g, metadata.description.trim().replace(/\.+$/, ''))
     .replace(/\{\{triggers\}\}/g, triggersStr)
     .replace(/\{\{tools\}\}/g, tools.join(', '))
+    .replace(/\{\{model\}\}/g, config.model)
+    .replace(/\{\{return_tokens\}\}/g, String(config.returnTokens))
+    .replace(/\{\{output_format\}\}/g, formatOutputSections(config.outputFormat))
+    .replace(/\{\{behavior_type\}\}/g, metadata.behavior?.type ?? 'Unclassified')
+    .replace(/\{\{behavior_directive\}\}/g, metadata.behavior?.directive ?? 'ASK, THEN EXECUTE')
+    .replace(
+      /\{\{behavior_delegation\}\}/g,
+      metadata.behavior?.delegation ?? 'The skill does not declare a behavioral class: confirm with the orchestrator before making changes.'
+    )
+  // Descriptions often contain ": ", which would break plain YAML
+  return quoteFrontmatterFields(content, ['name', 'description'])
 }
 
 /**
@@ -181,7 +242,13 @@ function generateClaudeMdSnippet(metadata: SkillMetadata): string {
 When tasks match ${metadata.name} triggers, delegate to the \`${metadata.name}-specialist\` subagent for context isolation and token savings.
 
 **Triggers:** "${triggersStr}"
-
+${
+  metadata.behavior
+    ? `
+**Behavior:** ${metadata.behavior.type} (${metadata.behavior.directive}) — ${metadata.behavior.delegation}
+`
+    : ''
+}
 **Delegation Pattern:**
 \`\`\`
 Task({
@@ -194,18 +261,26 @@ Task({
 }
 
 /**
- * Main generation function
+ * Describe estimated delegation savings, e.g. "~62-81% (delegated: 900 tokens, inline: 2400-4800)"
  */
-export function generateSubagent(
-  skillPath: string,
-  options: {
-    output?: string
-    tools?: string
-    model?: string
-    skipClaudeMd?: boolean
-    dryRun?: boolean
-  } = {}
-): GenerationResult {
+function formatSavings(savings: DelegationSavings): string {
+  const { inline, delegated, percent } = savings
+  const range = (min: number, max: number) => (min === max ? `${min}` : `${min}-${max}`)
+  if (percent.max <= 0) {
+    return `📉 Estimated savings: none — the skill (~${inline.max} tokens) is smaller than a delegation round trip (~${delegated} tokens)`
+  }
+  return (
+    `📉 Estimated savings per delegated task: ~${range(Math.max(percent.min, 0), percent.max)}% ` +
+    `(delegated: ~${delegated} tokens, inline: ~${range(inline.min, inline.max)} tokens)`
+  )
+}
+
+/**
+ * Main generation function. An existing agent is only replaced if it is
+ * unchanged since it was generated, or with `force`; any change is shown as
+ * a diff first.
+ */
+export function generateSubagent(skillPath: string, options: GenerateOptions = {}): GenerationResult {
   // Resolve skill path
   const resolvedPath = resolve(skillPath)
   const skillMdPath = existsSync(join(resolvedPath, 'SKILL.md'))
@@ -217,67 +292,116 @@ export function generateSubagent(
   }
 
   // Read and parse skill
-  const content = readFileSync(skillMdPath, 'utf-8')
-  const metadata = parseSkillMetadata(content)
+  const { metadata, toolAnalysis, hash } = readSkillSource(skillMdPath)
+
+  // Model, return budget and output format: CLI flags, then the skill's subagent block, then defaults
+  const config: SubagentConfig = {
+    ...DEFAULT_SUBAGENT_CONFIG,
+    ...metadata.subagent,
+    ...(options.model ? { model: options.model } : {}),
+    ...(options.returnTokens ? { returnTokens: parseReturnTokens(options.returnTokens) } : {}),
+    ...(options.outputFormat ? { outputFormat: parseOutputFormat(options.outputFormat) } : {}),
+  }
 
   // Determine tools
   let tools: string[]
   if (options.tools) {
     tools = options.tools.split(',').map((t) => t.trim())
   } else {
-    const analysis = analyzeToolRequirements(content)
-    tools = analysis.requiredTools
+    tools = toolAnalysis.requiredTools
+    for (const inference of toolAnalysis.undeclared) {
+      console.log(`⚠️  Inferred tool is not in allowed-tools: ${describeEvidence(inference)}`)
+    }
   }
 
   // Get template path
-  const templatePath = join(
-    homedir(),
-    '.claude',
-    'skills',
-    'skill-builder',
-    'templates',
-    'subagent-template.md'
-  )
+  const templatePath = options.template
+    ? resolve(options.template)
+    : join(homedir(), '.claude', 'skills', 'skill-builder', 'templates', 'subagent-template.md')
 
   if (!existsSync(templatePath)) {
     throw new Error(`Subagent template not found at ${templatePath}`)
   }
 
   // Generate subagent content
-  const subagentContent = generateSubagentContent(metadata, tools, templatePath)
+  const subagentContent = stampGenerated(generateSubagentContent(metadata, tools, templatePath, config), {
+    source: hash,
+    generator: GENERATOR_VERSION,
+    ...(metadata.version ? { 'skill-version': metadata.version } : {}),
+  })
 
   // Determine output path
-  const outputDir = options.output
-    ? resolve(options.output)
-    : join(homedir(), '.claude', 'agents')
+  const outputDir = options.output ? resolve(options.output) : DEFAULT_AGENTS_DIR
 
   const subagentPath = join(outputDir, `${metadata.name}-specialist.md`)
 
   // Generate CLAUDE.md snippet
   const claudeMdSnippet = generateClaudeMdSnippet(metadata)
+  const savings = estimateDelegationSavings(
+    estimateSkillTokens(dirname(skillMdPath)),
+    claudeMdSnippet,
+    config.returnTokens
+  )
+
+  // Compare with an existing agent
+  const existing = existsSync(subagentPath) ? readFileSync(subagentPath, 'utf-8') : undefined
+  let status: GenerationStatus
+  if (existing === undefined) {
+    status = 'created'
+  } else if (existing === subagentContent) {
+    status = 'unchanged'
+  } else if (isHandEdited(existing) && !options.force) {
+    status = 'skipped'
+  } else {
+    status = 'updated'
+  }
+  const diff =
+    existing !== undefined && status !== 'unchanged'
+      ? unifiedDiff(existing, subagentContent, basename(subagentPath))
+      : undefined
 
   if (!options.dryRun) {
-    // Create output directory if needed
-    if (!existsSync(outputDir)) {
-      mkdirSync(outputDir, { recursive: true })
-    }
+    if (diff) console.log(diff)
+
+    if (status === 'skipped') {
+      console.log(`⚠️  Skipped ${subagentPath}: it was edited by hand. Re-run with --force to overwrite it.`)
+    } else if (status === 'unchanged') {
+      console.log(`✅ Subagent up to date: ${subagentPath}`)
+    } else {
+      // Create output directory if needed
+      if (!existsSync(outputDir)) {
+        mkdirSync(outputDir, { recursive: true })
+      }
 
-    // Write subagent file
-    writeFileSync(subagentPath, subagentContent, 'utf-8')
+      // Write subagent file
+      writeFileSync(subagentPath, subagentContent, 'utf-8')
 
-    console.log(`✅ Generated subagent: ${subagentPath}`)
+      console.log(`✅ ${status === 'created' ? 'Generated' : 'Updated'} subagent: ${subagentPath}`)
+      console.log(formatSavings(savings))
 
-    if (!options.skipClaudeMd) {
-      console.log('\n📋 Add to your CLAUDE.md:\n')
-      console.log(claudeMdSnippet)
+      if (!options.skipClaudeMd && !options.claudeMd) {
+        console.log('\n📋 Add to your CLAUDE.md:\n')
+        console.log(claudeMdSnippet)
+      }
     }
   } else {
     console.log('🔍 Dry run - no files created\n')
-    console.log('Would create:', subagentPath)
-    console.log('\nSubagent content:\n')
-    console.log(subagentContent)
+    for (const inference of toolAnalysis?.inferences ?? []) {
+      console.log(`🔧 ${describeEvidence(inference)}`)
+    }
+    if (status === 'created') {
+      console.log('Would create:', subagentPath)
+      console.log('\nSubagent content:\n')
+      console.log(subagentContent)
+    } else if (status === 'unchanged') {
+      console.log('Up to date:', subagentPath)
+    } else {
+      console.log(`Would ${status === 'skipped' ? 'skip (edited by hand)' : 'update'}: ${subagentPath}\n`)
+      console.log(diff)
+    }
     console.log('\nCLAUDE.md snippet:\n')
     console.log(claudeMdSnippet)
+    console.log(formatSavings(savings))
   }
 
   return {
@@ -285,52 +409,304 @@ export function generateSubagent(
     claudeMdSnippet,
     metadata,
     tools,
+    toolAnalysis,
+    config,
+    savings,
+    status,
+    diff,
   }
 }
 
+/**
+ * Generate specialists for every skill under the given paths (skill
+ * directories, plugin roots, skills directories or globs) that meets the
+ * "When to Generate a Subagent" criteria
+ */
+export function generateSubagents(paths: string[], options: GenerateOptions = {}): BatchEntry[] {
+  const entries: BatchEntry[] = []
+
+  for (const skillPath of discoverSkills(paths)) {
+    const label = relative(process.cwd(), skillPath) || basename(skillPath)
+    console.log(`\n--- ${label} ---`)
+
+    if (!existsSync(join(skillPath, 'SKILL.md'))) {
+      console.log(`❌ SKILL.md not found at ${skillPath}`)
+      entries.push({ skillPath, error: 'SKILL.md not found' })
+      continue
+    }
+
+    const fit = assessSubagentFit(skillPath)
+    if (!fit.qualifies) {
+      console.log('⏭️  No subagent needed: no verbose output, document processing, analysis, tests or research')
+      entries.push({ skillPath, fit })
+      continue
+    }
+    console.log(`Qualifies: ${fit.reasons.join(', ')}`)
+
+    try {
+      entries.push({ skillPath, fit, result: generateSubagent(skillPath, options) })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.log(`❌ ${message}`)
+      entries.push({ skillPath, fit, error: message })
+    }
+  }
+
+  const count = (predicate: (entry: BatchEntry) => boolean) => entries.filter(predicate).length
+  const byStatus = (status: GenerationStatus) => count((e) => e.result?.status === status)
+  console.log(
+    `\n=== Batch: ${entries.length} skills ===\n` +
+      `Created: ${byStatus('created')}, updated: ${byStatus('updated')}, up to date: ${byStatus('unchanged')}, ` +
+      `skipped (edited by hand): ${byStatus('skipped')}, not needed: ${count((e) => e.fit?.qualifies === false)}, ` +
+      `failed: ${count((e) => e.error !== undefined)}`
+  )
+
+  return entries
+}
+
+/**
+ * Create or update the managed delegation section of a CLAUDE.md from the
+ * generated agents in `agentsDir`, showing the change as a diff
+ */
+export function updateClaudeMd(
+  claudeMdPath: string,
+  agentsDir = DEFAULT_AGENTS_DIR,
+  options: { dryRun?: boolean } = {}
+): DelegationUpdate {
+  const resolvedPath = resolve(claudeMdPath)
+  const update = planDelegationUpdate(resolvedPath, resolve(agentsDir))
+
+  if (update.after === update.before) {
+    console.log(`✅ CLAUDE.md delegation section up to date: ${resolvedPath} (${update.entries.length} specialist${update.entries.length === 1 ? '' : 's'})`)
+    return update
+  }
+
+  console.log(unifiedDiff(update.before, update.after, basename(resolvedPath)))
+  if (options.dryRun) {
+    console.log(`🔍 Dry run - ${resolvedPath} not changed`)
+    return update
+  }
+
+  mkdirSync(dirname(resolvedPath), { recursive: true })
+  writeFileSync(resolvedPath, update.after, 'utf-8')
+  console.log(`✅ Updated CLAUDE.md delegation section: ${resolvedPath} (${update.entries.length} specialist${update.entries.length === 1 ? '' : 's'})`)
+  return update
+}
+
+/**
+ * Compare the agents in `agentsDir` with the skills in `skillsDir`. Agents
+ * are matched to skills by their `skills:` field and reported as current,
+ * stale (the skill or generator changed since generation), orphaned (the
+ * skill is gone) or unmanaged (not generated); skills that meet the subagent
+ * criteria but have no agent are reported as missing.
+ */
+export function checkSubagents(skillsDir = INSTALLED_SKILLS_DIR, agentsDir = DEFAULT_AGENTS_DIR): DriftEntry[] {
+  const entries: DriftEntry[] = []
+
+  const skills = new Map<string, string>()
+  for (const skillPath of discoverSkills([resolve(skillsDir)])) {
+    if (existsSync(join(skillPath, 'SKILL.md'))) skills.set(readSkillSummary(skillPath).name, skillPath)
+  }
+
+  const covered = new Set<string>()
+  const resolvedAgentsDir = resolve(agentsDir)
+  const agentFiles = existsSync(resolvedAgentsDir) ? readdirSync(resolvedAgentsDir).filter((f) => f.endsWith('.md')).sort() : []
+  for (const file of agentFiles) {
+    const agentPath = join(resolvedAgentsDir, file)
+    const content = readFileSync(agentPath, 'utf-8')
+    let skillName = ''
+    try {
+      skillName = getString(parseFrontmatter(content).data, 'skills')
+    } catch {
+      // Unreadable frontmatter: treated like an agent without a skill
+    }
+    const skillPath = skills.get(skillName)
+    if (skillPath) covered.add(skillName)
+
+    const stamp = readGeneratedStamp(content)
+    if (!stamp) {
+      entries.push({ status: 'unmanaged', reason: 'not generated by generate-subagent.ts', agentPath, skillName, skillPath })
+      continue
+    }
+    if (!skillPath) {
+      entries.push({ status: 'orphaned', reason: `skill "${skillName}" not found in ${skillsDir}`, agentPath, skillName })
+      continue
+    }
+
+    let reason = ''
+    try {
+      if (stamp.fields.generator !== GENERATOR_VERSION) {
+        reason = `generated by generator version ${stamp.fields.generator ?? '1'} (current: ${GENERATOR_VERSION})`
+      } else {
+        const source = readSkillSource(join(skillPath, 'SKILL.md'))
+        if (stamp.fields.source !== source.hash) {
+          const generatedFrom = stamp.fields['skill-version']
+          const versions =
+            generatedFrom && source.metadata.version && generatedFrom !== source.metadata.version
+              ? ` (skill version ${generatedFrom} → ${source.metadata.version})`
+              : ''
+          reason = `SKILL.md description, triggers, tools, behavior or subagent settings changed since generation${versions}`
+        }
+      }
+    } catch (error) {
+      reason = `skill cannot be read: ${error instanceof Error ? error.message : error}`
+    }
+    entries.push({ status: reason ? 'stale' : 'current', reason, agentPath, skillName, skillPath })
+  }
+
+  for (const [skillName, skillPath] of skills) {
+    if (covered.has(skillName)) continue
+    const fit = assessSubagentFit(skillPath)
+    if (fit.qualifies) entries.push({ status: 'missing', reason: fit.reasons.join(', '), skillName, skillPath })
+  }
+
+  return entries
+}
+
+/**
+ * Print drift check results grouped by status
+ */
+function printDriftReport(entries: DriftEntry[]): void {
+  const labels: Record<DriftStatus, string> = {
+    stale: '⚠️  Stale',
+    orphaned: '🗑️  Orphaned',
+    missing: '➕ Missing',
+    unmanaged: '✋ Unmanaged',
+    current: '✅ Current',
+  }
+  for (const status of Object.keys(labels) as DriftStatus[]) {
+    const group = entries.filter((e) => e.status === status)
+    if (group.length === 0) continue
+    console.log(`\n${labels[status]} (${group.length}):`)
+    for (const entry of group) {
+      const target = entry.agentPath ? basename(entry.agentPath) : `${entry.skillName} (${entry.skillPath})`
+      console.log(`  - ${target}${entry.reason && status !== 'unmanaged' ? `: ${entry.reason}` : ''}`)
+    }
+  }
+
+  const problems = entries.filter((e) => e.status === 'stale' || e.status === 'orphaned' || e.status === 'missing')
+  console.log(
+    problems.length === 0
+      ? '\n✅ All generated subagents match their skills'
+      : `\n${problems.length} subagent${problems.length === 1 ? ' needs' : 's need'} attention. ` +
+          'Re-run with --regenerate to update stale and missing agents; delete orphaned agents by hand.'
+  )
+}
+
 // CLI execution
 if (import.meta.url === `file://${process.argv[1]}`) {
   const args = process.argv.slice(2)
+  const command = ['transform', 'claude-md', 'check'].includes(args[0]) ? args.shift() : undefined
 
-  if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
+  if ((args.length === 0 && command !== 'claude-md' && command !== 'check') || args.includes('--help') || args.includes('-h')) {
     console.log(`
-Usage: npx tsx generate-subagent.ts <skill-path> [options]
+Usage: npx tsx generate-subagent.ts [transform] <skill-path> [options]
+       npx tsx generate-subagent.ts [transform] --batch <paths...> [options]
+       npx tsx generate-subagent.ts claude-md [CLAUDE.md] [--output <agents-dir>] [--dry-run]
+       npx tsx generate-subagent.ts check [skills-dir] [--output <agents-dir>] [--regenerate]
+
+Existing agents are never overwritten if they were edited by hand; changes
+to generated agents are shown as a diff before they are written.
+
+claude-md rebuilds the delegation section of CLAUDE.md (default:
+~/.claude/CLAUDE.md) from the generated agents in the output directory.
+
+check compares generated agents with the skills in skills-dir (default:
+~/.claude/skills) and reports stale, orphaned and missing specialists.
 
 Options:
   --output, -o <path>   Output directory (default: ~/.claude/agents)
   --tools <tools>       Override tools (comma-separated)
   --model <model>       Model to use (default: sonnet)
+  --return-tokens <n>   Response budget for the specialist (default: 500)
+  --output-format <s>   Response sections, e.g. "Task; Findings: issues found"
   --skip-claude-md      Skip CLAUDE.md snippet generation
+  --claude-md <path>    Update the delegation section of this CLAUDE.md
   --dry-run             Preview without creating files
+  --force               Overwrite agents that were edited by hand
+  --batch <paths...>    Process every skill under the paths (plugin roots,
+                        skills directories or globs) that needs a subagent
+  --regenerate          With check: regenerate stale and missing agents
   --help, -h            Show this help
 `)
     process.exit(0)
   }
 
-  const skillPath = args[0]
-  const options: Record<string, string | boolean> = {}
+  const targets: string[] = []
+  const options: GenerateOptions = {}
+  let batch = false
+  let regenerate = false
 
-  for (let i = 1; i < args.length; i++) {
+  for (let i = 0; i < args.length; i++) {
     const arg = args[i]
     if (arg === '--output' || arg === '-o') {
-      options['output'] = args[++i]
+      options.output = args[++i]
     } else if (arg === '--tools') {
-      options['tools'] = args[++i]
+      options.tools = args[++i]
     } else if (arg === '--model') {
-      options['model'] = args[++i]
+      options.model = args[++i]
+    } else if (arg === '--return-tokens') {
+      options.returnTokens = args[++i]
+    } else if (arg === '--output-format') {
+      options.outputFormat = args[++i]
     } else if (arg === '--skip-claude-md') {
-      options['skipClaudeMd'] = true
+      options.skipClaudeMd = true
+    } else if (arg === '--claude-md') {
+      options.claudeMd = args[++i]
     } else if (arg === '--dry-run') {
-      options['dryRun'] = true
+      options.dryRun = true
+    } else if (arg === '--force') {
+      options.force = true
+    } else if (arg === '--batch') {
+      batch = true
+    } else if (arg === '--regenerate') {
+      regenerate = true
+    } else {
+      targets.push(arg)
     }
   }
 
   try {
-    generateSubagent(skillPath, options)
+    if (command === 'claude-md') {
+      updateClaudeMd(targets[0] ?? DEFAULT_CLAUDE_MD, options.output, options)
+      process.exit(0)
+    }
+
+    if (command === 'check') {
+      const drift = checkSubagents(targets[0], options.output)
+      printDriftReport(drift)
+      const outdated = drift.filter((e) => e.status === 'stale' || e.status === 'missing')
+      if (!regenerate || outdated.length === 0) {
+        process.exit(drift.some((e) => e.status !== 'current' && e.status !== 'unmanaged') ? 1 : 0)
+      }
+      let failed = drift.some((e) => e.status === 'orphaned')
+      for (const entry of outdated) {
+        console.log(`\n--- ${entry.skillName} ---`)
+        failed = generateSubagent(entry.skillPath!, { ...options, skipClaudeMd: true }).status === 'skipped' || failed
+      }
+      if (options.claudeMd) {
+        console.log('')
+        updateClaudeMd(options.claudeMd, options.output, options)
+      }
+      process.exit(failed ? 1 : 0)
+    }
+
+    let failed: boolean
+    if (batch || targets.length > 1) {
+      const entries = generateSubagents(targets, options)
+      failed = entries.some((e) => e.error || e.result?.status === 'skipped')
+    } else {
+      failed = generateSubagent(targets[0], options).status === 'skipped'
+    }
+    if (options.claudeMd) {
+      console.log('')
+      updateClaudeMd(options.claudeMd, options.output, options)
+    }
+    process.exit(failed ? 1 : 0)
   } catch (error) {
     console.error('❌ Error:', error instanceof Error ? error.message : error)
     process.exit(1)
   }
 }
 
-export { parseSkillMetadata, analyzeToolRequirements, generateSubagentContent, generateClaudeMdSnippet }
+export { parseSkillMetadata, analyzeToolRequirements, generateSubagentContent, generateClaudeMdSnippet, formatSavings }
@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { findDeclaredBehaviors, inferBehaviorClass } from './behavior'
+
+describe('inferBehaviorClass', () => {
+  let skillPath: string
+
+  beforeEach(() => {
+    skillPath = fs.mkdtempSync(path.join(os.tmpdir(), 'behavior-test-'))
+    fs.writeFileSync(path.join(skillPath, 'SKILL.md'), '# Docker Guard\n\nRoutes commands into the container.\n')
+  })
+
+  afterEach(() => fs.rmSync(skillPath, { recursive: true, force: true }))
+
+  it('counts a hooks/ directory as Configurable Enforcement', () => {
+    fs.mkdirSync(path.join(skillPath, 'hooks'))
+    fs.writeFileSync(path.join(skillPath, 'hooks', 'pre-command.sh'), '#!/bin/bash\nexit 0\n')
+
+    const inference = inferBehaviorClass(skillPath)
+    assert.equal(inference?.behavior.id, 'configurable')
+    assert.deepEqual(
+      inference?.evidence.map((e) => e.signal),
+      ['hooks/ directory']
+    )
+  })
+
+  it('counts .claude/<name>-config.json as Configurable Enforcement', () => {
+    fs.mkdirSync(path.join(skillPath, '.claude'))
+    fs.writeFileSync(path.join(skillPath, '.claude', 'docker-config.json'), '{}\n')
+
+    assert.equal(inferBehaviorClass(skillPath)?.behavior.id, 'configurable')
+  })
+
+  it('infers Autonomous Execution from running without asking', () => {
+    fs.writeFileSync(path.join(skillPath, 'SKILL.md'), '# Formatter\n\nFormats files without asking.\n')
+
+    assert.equal(inferBehaviorClass(skillPath)?.behavior.id, 'autonomous')
+  })
+
+  it('returns undefined without evidence', () => {
+    assert.equal(inferBehaviorClass(skillPath), undefined)
+  })
+})
+
+describe('findDeclaredBehaviors', () => {
+  it('reads the frontmatter field and the first **Type** line outside code', () => {
+    const content = [
+      '---',
+      'name: guard',
+      'classification: configurable',
+      '---',
+      '',
+      '```markdown',
+      '**Type**: Guided Decision',
+      '```',
+      '',
+      '**Type**: Configurable Enforcement',
+    ].join('\n')
+
+    assert.deepEqual(
+      findDeclaredBehaviors(content).map((d) => `${d.source}:${d.line}:${d.behavior?.id}`),
+      ['frontmatter:3:configurable', 'body:10:configurable']
+    )
+  })
+})
@@ -0,0 +1,232 @@
+/**
+ * Behavioral Classification (ADR-025)
+ *
+ * The four ways a skill can interact with users, as defined in SKILL.md,
+ * plus helpers to read a skill's declared class and infer the likely one
+ * from its content.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { listSkillFiles, readDirectory, statPath } from './files'
+import { FrontmatterError, getString, parseFrontmatter } from './frontmatter'
+
+export type BehaviorClassId = 'autonomous' | 'guided' | 'interactive' | 'configurable'
+
+export interface BehaviorClass {
+  id: BehaviorClassId
+  type: string
+  directive: string
+  summary: string
+  /** What an orchestrator may let a delegated specialist do */
+  delegation: string
+}
+
+export const BEHAVIOR_CLASSES: BehaviorClass[] = [
+  {
+    id: 'autonomous',
+    type: 'Autonomous Execution',
+    directive: "EXECUTE, DON'T ASK",
+    summary: 'Follows a prescribed workflow automatically without asking for permission.',
+    delegation: 'May act without asking: execute the delegated task end to end.',
+  },
+  {
+    id: 'guided',
+    type: 'Guided Decision',
+    directive: 'ASK, THEN EXECUTE',
+    summary: 'Asks structured questions upfront, then executes based on the answers.',
+    delegation:
+      'Needs decisions upfront: include the user\'s answers in the prompt. If a required decision is missing, return the open questions instead of guessing.',
+  },
+  {
+    id: 'interactive',
+    type: 'Interactive Exploration',
+    directive: 'ASK THROUGHOUT',
+    summary: 'Works through an ongoing dialogue; the conversation is the value.',
+    delegation:
+      'Needs user input throughout: prefer running the skill in the main conversation. When delegated, stop at each decision point and return the question to the orchestrator.',
+  },
+  {
+    id: 'configurable',
+    type: 'Configurable Enforcement',
+    directive: 'USER-CONFIGURED',
+    summary: 'Adapts its behavior to project or user configuration.',
+    delegation: 'Follows project configuration: apply the configured settings without asking; report what was enforced.',
+  },
+]
+
+/**
+ * Look up a class by ID ("guided") or type name ("Guided Decision"), ignoring case
+ */
+export function findBehaviorClass(value: string): BehaviorClass | undefined {
+  const normalized = value.trim().toLowerCase()
+  return BEHAVIOR_CLASSES.find((c) => c.id === normalized || c.type.toLowerCase() === normalized)
+}
+
+export interface DeclaredBehavior {
+  /** Raw declared value, e.g. "Guided Decision" */
+  value: string
+  /** Matching class, or undefined if the value is not a known class */
+  behavior?: BehaviorClass
+  source: 'frontmatter' | 'body'
+  line: number
+  column: number
+}
+
+/**
+ * Find the classes a SKILL.md declares, either as a `classification`
+ * frontmatter field or as a `**Type**:` line in the body (outside code blocks).
+ * Frontmatter syntax errors are ignored here; the validator reports them.
+ */
+export function findDeclaredBehaviors(content: string): DeclaredBehavior[] {
+  const declared: DeclaredBehavior[] = []
+  let bodyStartLine = 1
+
+  try {
+    const frontmatter = parseFrontmatter(content)
+    bodyStartLine = frontmatter.bodyStartLine
+    const value = getString(frontmatter.data, 'classification')
+    if (value) {
+      const position = frontmatter.positions.get('classification')!
+      declared.push({ value, behavior: findBehaviorClass(value), source: 'frontmatter', ...position })
+    }
+  } catch (error) {
+    if (!(error instanceof FrontmatterError)) throw error
+  }
+
+  const lines = content.split('\n')
+  let inFence = false
+  for (let i = bodyStartLine - 1; i < lines.length; i++) {
+    if (/^\s*(```|~~~)/.test(lines[i])) {
+      inFence = !inFence
+      continue
+    }
+    const match = !inFence && lines[i].match(/^(\*\*Type\*\*:\s*)(.+?)\s*$/)
+    if (match) {
+      const value = match[2].replace(/\*/g, '').trim()
+      declared.push({
+        value,
+        behavior: findBehaviorClass(value),
+        source: 'body',
+        line: i + 1,
+        column: match[1].length + 1,
+      })
+      break
+    }
+  }
+
+  return declared
+}
+
+export interface BehaviorEvidence {
+  behavior: BehaviorClassId
+  /** What was found, e.g. "AskUserQuestion usage" */
+  signal: string
+  /** Path relative to the skill root */
+  file: string
+  line: number
+  weight: number
+}
+
+export interface BehaviorInference {
+  behavior: BehaviorClass
+  /** Total weight of the evidence for the inferred class */
+  score: number
+  scores: Record<BehaviorClassId, number>
+  evidence: BehaviorEvidence[]
+}
+
+// Content signals per class; each pattern counts once per file
+const BEHAVIOR_SIGNALS: Array<{ behavior: BehaviorClassId; signal: string; pattern: RegExp; weight: number }> = [
+  { behavior: 'autonomous', signal: 'runs without asking', pattern: /\bwithout (asking|confirmation|permission|prompting)\b|\b(do not|don't|never) ask\b/i, weight: 2 },
+  { behavior: 'autonomous', signal: 'automatic fixes or enforcement', pattern: /\bautomatically (fix|appl|run|enforc|format|block)/i, weight: 1 },
+  { behavior: 'guided', signal: 'AskUserQuestion usage', pattern: /\bAskUserQuestion\b/, weight: 2 },
+  { behavior: 'guided', signal: 'asks for confirmation', pattern: /\bask (the user|for confirmation|before)\b|\bconfirm (with the user|before)\b/i, weight: 1 },
+  { behavior: 'guided', signal: 'confirmation prompt', pattern: /\[y\/N\]|\[Y\/n\]|readline|\bprompt\(/, weight: 1 },
+  { behavior: 'guided', signal: 'questions upfront', pattern: /\bquestions? (upfront|up front|first)\b|\bwizard\b/i, weight: 1 },
+  { behavior: 'interactive', signal: 'ongoing dialogue', pattern: /\b(ongoing|continuous) (dialogue|conversation)\b|\bback-and-forth\b|\bthroughout the (session|conversation)\b/i, weight: 2 },
+  { behavior: 'interactive', signal: 'iterates with the user', pattern: /\biterat\w* with the user\b|\bfollow-up questions\b|\bcheck in with the user\b/i, weight: 1 },
+  { behavior: 'configurable', signal: 'configuration file', pattern: /\.\w+rc(\.json)?\b|\bconfig\.(json|ya?ml)\b/i, weight: 1 },
+  { behavior: 'configurable', signal: 'configurable strictness', pattern: /\b(strict|severity|enforcement) (mode|level)s?\b/i, weight: 1 },
+  { behavior: 'configurable', signal: 'config toggle', pattern: /^\s*["']?\w+["']?:\s*(true|false),?\s*$/, weight: 1 },
+]
+
+const SIGNAL_EXTENSIONS = ['.md', '.ts', '.js', '.mjs', '.sh']
+const CONFIG_FILE_PATTERN = /^(\.\w+rc(\.json)?|[\w-]*config\.(json|ya?ml))$/
+const PROJECT_CONFIG_PATTERN = /^[\w-]+-config\.json$/
+
+/**
+ * Infer the likely class of a skill from its files, following the
+ * decision tree in SKILL.md. Returns undefined when there is no evidence.
+ *
+ * Lines inside "Behavioral Classification" sections are ignored so that
+ * describing the classes does not count as using them.
+ */
+export function inferBehaviorClass(skillPath: string): BehaviorInference | undefined {
+  const evidence: BehaviorEvidence[] = []
+
+  for (const file of listSkillFiles(skillPath, SIGNAL_EXTENSIONS)) {
+    const relativePath = path.relative(skillPath, file)
+    const lines = fs.readFileSync(file, 'utf-8').split('\n')
+    const isMarkdown = file.endsWith('.md')
+    const seen = new Set<string>()
+    // Heading level of the classification section being skipped, or 0
+    let skipLevel = 0
+
+    lines.forEach((line, i) => {
+      if (isMarkdown) {
+        const heading = line.match(/^(#{1,6})\s+(.*)$/)
+        if (heading && (skipLevel === 0 || heading[1].length <= skipLevel)) {
+          skipLevel = /behavioral classification/i.test(heading[2]) ? heading[1].length : 0
+        }
+        if (skipLevel > 0) return
+      }
+      for (const { behavior, signal, pattern, weight } of BEHAVIOR_SIGNALS) {
+        if (seen.has(signal) || !pattern.test(line)) continue
+        seen.add(signal)
+        evidence.push({ behavior, signal, file: relativePath, line: i + 1, weight })
+      }
+    })
+  }
+
+  // Hooks and per-project .claude/<name>-config.json files are the
+  // Enforcement Hooks Pattern in SKILL.md
+  if (statPath(path.join(skillPath, 'hooks'))?.isDirectory()) {
+    evidence.push({ behavior: 'configurable', signal: 'hooks/ directory', file: 'hooks', line: 1, weight: 2 })
+  }
+  for (const item of readDirectory(path.join(skillPath, '.claude'))) {
+    if (PROJECT_CONFIG_PATTERN.test(item)) {
+      evidence.push({ behavior: 'configurable', signal: 'project configuration', file: `.claude/${item}`, line: 1, weight: 2 })
+    }
+  }
+  for (const item of readDirectory(skillPath)) {
+    if (CONFIG_FILE_PATTERN.test(item) && item !== '.skillvalidaterc.json') {
+      evidence.push({ behavior: 'configurable', signal: 'configuration file', file: item, line: 1, weight: 2 })
+    }
+  }
+
+  if (evidence.length === 0) return undefined
+
+  const scores: Record<BehaviorClassId, number> = { autonomous: 0, guided: 0, interactive: 0, configurable: 0 }
+  for (const item of evidence) scores[item.behavior] += item.weight
+
+  // Decision tree: config-driven first, then "does it need input?", then "upfront or throughout?"
+  const inputScore = scores.guided + scores.interactive
+  let id: BehaviorClassId
+  if (scores.configurable >= 2 && scores.configurable >= Math.max(scores.autonomous, inputScore)) {
+    id = 'configurable'
+  } else if (inputScore === 0) {
+    id = scores.autonomous > 0 ? 'autonomous' : 'configurable'
+  } else if (scores.autonomous > inputScore) {
+    id = 'autonomous'
+  } else {
+    id = scores.interactive >= scores.guided ? 'interactive' : 'guided'
+  }
+
+  return {
+    behavior: BEHAVIOR_CLASSES.find((c) => c.id === id)!,
+    score: scores[id],
+    scores,
+    evidence: evidence.filter((item) => item.behavior === id),
+  }
+}
@@ -0,0 +1,146 @@
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { ValidationCache } from './cache'
+import type { ValidationResult } from './findings'
+
+const RESULT: ValidationResult = { passed: true, findings: [] }
+
+describe('ValidationCache', () => {
+  let root: string
+  let skillPath: string
+  let cacheDir: string
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'cache-test-'))
+    skillPath = path.join(root, 'skill')
+    cacheDir = path.join(root, 'cache')
+    fs.mkdirSync(skillPath)
+    fs.writeFileSync(path.join(skillPath, 'SKILL.md'), '# Skill\n')
+  })
+
+  afterEach(() => fs.rmSync(root, { recursive: true, force: true }))
+
+  const store = (prepare: (cache: ValidationCache) => void = () => {}) => {
+    const cache = ValidationCache.open(skillPath, 'salt', cacheDir)
+    const key = cache.skillKey()
+    prepare(cache)
+    cache.storeSkillResult(key, RESULT)
+    cache.save()
+  }
+  const lookup = () => {
+    const cache = ValidationCache.open(skillPath, 'salt', cacheDir)
+    return cache.skillResult(cache.skillKey())
+  }
+
+  it('reuses a result while nothing changed', () => {
+    store()
+    assert.deepEqual(lookup(), RESULT)
+  })
+
+  it('misses after a file in the skill changes', () => {
+    store()
+    fs.writeFileSync(path.join(skillPath, 'SKILL.md'), '# Skill\n\nMore.\n')
+    assert.equal(lookup(), undefined)
+  })
+
+  it('misses after a file outside the skill that a check read changes', () => {
+    const guide = path.join(root, 'guide.md')
+    fs.writeFileSync(guide, '## Setup\n')
+    store((cache) => cache.dependOn(guide))
+
+    fs.writeFileSync(guide, '## Installation\n')
+    assert.equal(lookup(), undefined)
+  })
+
+  it('misses once a file a check found missing is created', () => {
+    const installed = path.join(root, 'installed', 'other', 'SKILL.md')
+    store((cache) => cache.dependOn(installed))
+    assert.deepEqual(lookup(), RESULT)
+
+    fs.mkdirSync(path.dirname(installed), { recursive: true })
+    fs.writeFileSync(installed, '# Other\n')
+    assert.equal(lookup(), undefined)
+  })
+
+  it('misses with another salt', () => {
+    store()
+    const cache = ValidationCache.open(skillPath, 'other salt', cacheDir)
+    assert.equal(cache.skillResult(cache.skillKey()), undefined)
+  })
+})
+
+describe('ValidationCache file checks', () => {
+  let skillPath: string
+  let runs: string[]
+
+  beforeEach(() => {
+    skillPath = fs.mkdtempSync(path.join(os.tmpdir(), 'cache-test-'))
+    fs.writeFileSync(path.join(skillPath, 'SKILL.md'), '# Skill\n')
+    fs.writeFileSync(path.join(skillPath, 'notes.md'), '# Notes\n')
+    runs = []
+  })
+
+  afterEach(() => fs.rmSync(skillPath, { recursive: true, force: true }))
+
+  const check = (cache: ValidationCache, file: string, inputs = '') =>
+    cache.fileCheck('links', file, () => (runs.push(file), RESULT), inputs)
+
+  it('reruns a check only for files whose content or inputs changed', () => {
+    const cache = new ValidationCache(skillPath)
+    check(cache, 'SKILL.md')
+    check(cache, 'notes.md')
+    fs.writeFileSync(path.join(skillPath, 'notes.md'), '# Notes\n\nEdited.\n')
+    check(cache, 'SKILL.md')
+    check(cache, 'notes.md')
+    check(cache, 'SKILL.md', 'other installed skills')
+
+    assert.deepEqual(runs, ['SKILL.md', 'notes.md', 'notes.md', 'SKILL.md'])
+  })
+
+  it('rehashes forgotten files even when their size and time look unchanged', () => {
+    const cache = new ValidationCache(skillPath)
+    const notes = path.join(skillPath, 'notes.md')
+    fs.utimesSync(notes, 1_700_000_000, 1_700_000_000)
+    check(cache, 'notes.md')
+
+    fs.writeFileSync(notes, '# Dates\n')
+    fs.utimesSync(notes, 1_700_000_000, 1_700_000_000)
+    check(cache, 'notes.md')
+    assert.deepEqual(runs, ['notes.md'])
+
+    cache.forget(['notes.md'])
+    check(cache, 'notes.md')
+    assert.deepEqual(runs, ['notes.md', 'notes.md'])
+  })
+
+  it('drops check results of files a run did not look at', () => {
+    const cacheFile = path.join(skillPath, '.cache', 'skill.json')
+    const first = new ValidationCache(skillPath, 'salt', cacheFile)
+    const key = first.skillKey()
+    check(first, 'SKILL.md')
+    check(first, 'notes.md')
+    first.storeSkillResult(key, RESULT)
+    first.save()
+
+    const second = new ValidationCache(skillPath, 'salt', cacheFile)
+    second.storeSkillResult(second.skillKey(), RESULT)
+    second.save()
+    check(new ValidationCache(skillPath, 'salt', cacheFile), 'notes.md')
+    assert.deepEqual(runs, ['SKILL.md', 'notes.md', 'notes.md'])
+  })
+
+  it('starts over when the cache file cannot be read', () => {
+    const cacheFile = path.join(skillPath, '.cache', 'skill.json')
+    fs.mkdirSync(path.dirname(cacheFile))
+    fs.writeFileSync(cacheFile, '{ "format": ')
+
+    const cache = new ValidationCache(skillPath, 'salt', cacheFile)
+    assert.equal(cache.skillResult(cache.skillKey()), undefined)
+    check(cache, 'SKILL.md')
+    cache.save()
+    assert.equal(JSON.parse(fs.readFileSync(cacheFile, 'utf-8')).salt, 'salt')
+  })
+})
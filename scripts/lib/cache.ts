@@ -0,0 +1,227 @@
+/**
+ * Validation Cache
+ *
+ * Keeps validation results between runs, keyed by content hashes:
+ *
+ * - The whole result of a skill, reused while no file in the skill, nothing
+ *   in the cache salt (validator version, rule config, TypeScript version)
+ *   and none of the outside files the checks declared with `dependOn`
+ *   (installed skills, link targets, git refs) has changed
+ * - Results of file-local checks, reused per file, so a run after an edit
+ *   only rescans the files that were edited
+ *
+ * A file's hash is reused while its size and modification time are
+ * unchanged, so an unchanged skill costs one `stat` per file. Each skill has
+ * its own cache file under ~/.cache/skill-builder/validate (or
+ * $XDG_CACHE_HOME), so skills validated in parallel never write the same file.
+ */
+
+import { createHash } from 'crypto'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { listSkillFiles } from './files'
+import type { ValidationResult } from './findings'
+
+export const CACHE_DIR = path.join(
+  process.env.XDG_CACHE_HOME ? process.env.XDG_CACHE_HOME : path.join(os.homedir(), '.cache'),
+  'skill-builder',
+  'validate'
+)
+
+// Bump when the cache file layout changes
+const CACHE_FORMAT = 2
+
+interface FileStamp {
+  size: number
+  mtimeMs: number
+  hash: string
+}
+
+interface CacheData {
+  format: number
+  salt: string
+  /** Keyed by path relative to the skill */
+  files: Record<string, FileStamp>
+  /** `inputs` maps outside files the result depends on to their stamps */
+  skill?: { key: string; result: ValidationResult; inputs: Record<string, string> }
+  /** Keyed by `<check>:<file>` */
+  checks: Record<string, { hash: string; result: ValidationResult }>
+}
+
+export function hashContent(content: string | Buffer): string {
+  return createHash('sha1').update(content).digest('hex')
+}
+
+/**
+ * Size, modification time and mode of a file or directory, or "-" when it
+ * does not exist; a directory's changes when entries are added or removed
+ */
+export function statStamp(file: string): string {
+  const stat = fs.statSync(file, { throwIfNoEntry: false })
+  return stat ? `${stat.size}:${stat.mtimeMs}:${stat.mode}` : '-'
+}
+
+export class ValidationCache {
+  private data: CacheData
+  private readonly contents = new Map<string, string>()
+  private readonly usedChecks = new Set<string>()
+  private readonly inputs = new Map<string, string>()
+  private dirty = false
+
+  /**
+   * A cache for one skill. Without `cacheFile` results are kept in memory
+   * only, for the lifetime of the object.
+   */
+  constructor(
+    readonly skillPath: string,
+    readonly salt = '',
+    private readonly cacheFile?: string
+  ) {
+    this.data = this.load() ?? { format: CACHE_FORMAT, salt, files: {}, checks: {} }
+  }
+
+  /**
+   * The persistent cache of a skill. `salt` should change whenever results
+   * could change without a skill file changing.
+   */
+  static open(skillPath: string, salt: string, dir = CACHE_DIR): ValidationCache {
+    const name = hashContent(path.resolve(skillPath)).slice(0, 16)
+    return new ValidationCache(skillPath, salt, path.join(dir, `${name}.json`))
+  }
+
+  private load(): CacheData | undefined {
+    if (!this.cacheFile || !fs.existsSync(this.cacheFile)) return undefined
+    try {
+      const data = JSON.parse(fs.readFileSync(this.cacheFile, 'utf-8')) as CacheData
+      // Another validator version or config: start over
+      return data.format === CACHE_FORMAT && data.salt === this.salt ? data : undefined
+    } catch {
+      return undefined // Unreadable cache files are rebuilt
+    }
+  }
+
+  /** File content, read once per cache object */
+  read(file: string): string {
+    const fullPath = path.resolve(this.skillPath, file)
+    let content = this.contents.get(fullPath)
+    if (content === undefined) {
+      content = fs.readFileSync(fullPath, 'utf-8')
+      this.contents.set(fullPath, content)
+    }
+    return content
+  }
+
+  /** Content hash of a file, recomputed only when its size or mtime changed */
+  hash(file: string): string {
+    const fullPath = path.resolve(this.skillPath, file)
+    const relative = path.relative(this.skillPath, fullPath).split(path.sep).join('/')
+    const stat = fs.statSync(fullPath)
+    const stamp = this.data.files[relative]
+    if (stamp && stamp.size === stat.size && stamp.mtimeMs === stat.mtimeMs) return stamp.hash
+
+    const hash = hashContent(fs.readFileSync(fullPath))
+    this.data.files[relative] = { size: stat.size, mtimeMs: stat.mtimeMs, hash }
+    this.dirty = true
+    return hash
+  }
+
+  /**
+   * Drop what is known about files that changed on disk (watch mode), or
+   * about every file
+   */
+  forget(files?: string[]): void {
+    const targets = files ?? Object.keys(this.data.files)
+    for (const file of targets) {
+      const fullPath = path.resolve(this.skillPath, file)
+      this.contents.delete(fullPath)
+      delete this.data.files[path.relative(this.skillPath, fullPath).split(path.sep).join('/')]
+    }
+    if (!files) this.contents.clear()
+    this.dirty = true
+  }
+
+  /**
+   * Key for the whole skill: every file's path and hash, plus `inputs` from
+   * outside the skill. Starts a run: outside files are declared afresh with
+   * `dependOn`.
+   */
+  skillKey(...inputs: string[]): string {
+    this.inputs.clear()
+    const files = listSkillFiles(this.skillPath, [''])
+    const known = new Set(files.map((file) => path.relative(this.skillPath, file).split(path.sep).join('/')))
+    for (const file of Object.keys(this.data.files)) {
+      if (!known.has(file)) delete this.data.files[file] // Deleted since the last run
+    }
+    const parts = files.map((file) => `${path.relative(this.skillPath, file)}:${this.hash(file)}`)
+    return hashContent([...parts, ...inputs].join('\n'))
+  }
+
+  /**
+   * The stored result for a key, while every outside file it depends on is
+   * unchanged. Costs one `stat` per file and runs nothing else.
+   */
+  skillResult(key: string): ValidationResult | undefined {
+    const skill = this.data.skill
+    if (skill?.key !== key) return undefined
+    return Object.entries(skill.inputs).every(([file, stamp]) => statStamp(file) === stamp) ? skill.result : undefined
+  }
+
+  /**
+   * Declare a file or directory outside the skill that a check read, as it is
+   * now. Checks call this on every run that is not answered from the cache.
+   */
+  dependOn(file: string): void {
+    const fullPath = path.resolve(file)
+    if (!this.inputs.has(fullPath)) this.inputs.set(fullPath, statStamp(fullPath))
+  }
+
+  storeSkillResult(key: string, result: ValidationResult): void {
+    this.data.skill = { key, result, inputs: Object.fromEntries(this.inputs) }
+    // Checks of files that were not looked at in this run are stale
+    for (const id of Object.keys(this.data.checks)) {
+      if (!this.usedChecks.has(id)) delete this.data.checks[id]
+    }
+    this.dirty = true
+  }
+
+  /**
+   * Result of a file-local check, rerun only when the file's content (or
+   * `inputs`, anything else the check reads) changed
+   */
+  fileCheck(check: string, file: string, run: () => ValidationResult, inputs = ''): ValidationResult {
+    const relative = path.relative(this.skillPath, path.resolve(this.skillPath, file)).split(path.sep).join('/')
+    const id = `${check}:${relative}`
+    const hash = inputs ? hashContent(`${this.hash(file)}\n${inputs}`) : this.hash(file)
+    this.usedChecks.add(id)
+
+    const cached = this.data.checks[id]
+    if (cached?.hash === hash) return cached.result
+    const result = run()
+    this.data.checks[id] = { hash, result }
+    this.dirty = true
+    return result
+  }
+
+  /** Write the cache file, if this cache has one and anything changed */
+  save(): void {
+    if (!this.cacheFile || !this.dirty) return
+    try {
+      fs.mkdirSync(path.dirname(this.cacheFile), { recursive: true })
+      const temporary = `${this.cacheFile}.${process.pid}.tmp`
+      fs.writeFileSync(temporary, JSON.stringify(this.data))
+      fs.renameSync(temporary, this.cacheFile)
+      this.dirty = false
+    } catch {
+      // A read-only cache directory only costs speed
+    }
+  }
+}
+
+/**
+ * Hash of files outside any skill that results depend on (the validator's
+ * own sources), by content
+ */
+export function fingerprintFiles(files: string[]): string {
+  return hashContent(files.map((file) => `${file}:${fs.existsSync(file) ? hashContent(fs.readFileSync(file)) : '-'}`).join('\n'))
+}
@@ -0,0 +1,117 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { analyzeCode, listEnvReads, listExports, loadTypeScript } from './code-analysis'
+
+const ts = loadTypeScript()
+const skip = !ts && 'needs the typescript package'
+
+// Built from pieces so this file holds no literal IDs
+const ID = ['4f1c2a9e', '8b3d', '4c5e', '9a7f', '1d2e3f4a5b6c'].join('-')
+const OTHER_ID = ['7e2d1c0b', '6a5f', '4e3d', '8c2b', '0a9f8e7d6c5b'].join('-')
+
+const summary = (content: string, previous?: string) =>
+  analyzeCode(ts!, 'scripts/sync.ts', content, { projectTerms: [/globex/g], ...(previous ? { previous: { content: previous, ref: 'v1.0.0' } } : {}) }).map(
+    (issue) => `${issue.kind} ${issue.line}:${issue.column}-${issue.endColumn}`
+  )
+
+describe('analyzeCode', { skip }, () => {
+  it('reports project-specific function, export and key names', () => {
+    const content = [
+      'export function syncGlobexIssues() {}',
+      'const globexTeam = 1',
+      'export const GLOBEX_LABELS = { globexBug: 1, bug: 2 }',
+      '/** @deprecated Use syncIssues instead */',
+      'export const syncGlobex = () => {}',
+    ].join('\n')
+
+    assert.deepEqual(summary(content), [
+      'project-function 1:17-33',
+      'project-identifier 3:14-27',
+      'project-identifier 3:32-41',
+    ])
+  })
+
+  it('reports exported ID objects and functions that close over ID constants', () => {
+    const content = [
+      `export const TEAMS = { notes: '${ID}', docs: '${OTHER_ID}' } as const`,
+      `const PROJECT_ID = '${ID}'`,
+      'export function listIssues(client: { issues(id: string): void }) {',
+      '  client.issues(PROJECT_ID)',
+      '  return TEAMS.notes + PROJECT_ID',
+      '}',
+      'export const listAll = (projectId = PROJECT_ID) => projectId',
+    ].join('\n')
+
+    const issues = analyzeCode(ts!, 'scripts/sync.ts', content, { projectTerms: [] })
+    assert.deepEqual(issues.map((i) => `${i.line}:${i.column}`), ['1:14', '4:17', '5:10'])
+    assert.match(issues[0].message, /^Exported object TEAMS holds 2 \w+ IDs; read them from configuration or environment variables$/)
+    assert.deepEqual(
+      issues.slice(1).map((i) => `${i.kind} ${i.message}`),
+      [
+        'closure-constant listIssues uses the constant PROJECT_ID instead of taking it as a parameter',
+        'closure-constant listIssues uses the constant TEAMS instead of taking it as a parameter',
+      ]
+    )
+  })
+
+  it('reports environment reads without a fallback or a check', () => {
+    const content = [
+      'const a = process.env.NOTES_DIR',
+      "const b = process.env.NOTES_DIR ?? './notes'",
+      "const c = requireEnv(process.env['NOTES_USER'])",
+      'if (!process.env.NOTES_LIMIT) throw new Error("NOTES_LIMIT is required")',
+    ].join('\n')
+
+    assert.deepEqual(summary(content), ['unchecked-env 1:11-32'])
+  })
+
+  it('reports exports removed since the previous version, naming a likely rename', () => {
+    const previous = 'export function syncNotes() {}\nexport const LIMIT = 10\n'
+
+    const issues = analyzeCode(ts!, 'scripts/sync.ts', 'export function syncAllNotes() {}\nexport const LIMIT = 10\n', {
+      projectTerms: [],
+      previous: { content: previous, ref: 'v1.0.0' },
+    })
+    assert.deepEqual(
+      issues.map((i) => `${i.line} ${i.message}`),
+      [
+        '1 Export syncNotes was removed since v1.0.0; if it was renamed to syncAllNotes, keep /** @deprecated Use syncAllNotes instead */ export const syncNotes = syncAllNotes',
+      ]
+    )
+    assert.deepEqual(summary('export const LIMIT = 10\n', previous), ['removed-export 1:1-24'])
+  })
+})
+
+describe('listExports', { skip }, () => {
+  it('lists ES and CommonJS exports with their deprecation', () => {
+    const content = [
+      'export interface Options {}',
+      '/** @deprecated Use run instead */',
+      'export const start = run',
+      'function run() {}',
+      'export { run as execute }',
+      'exports.legacy = run',
+    ].join('\n')
+
+    assert.deepEqual(
+      Array.from(listExports(ts!, 'scripts/sync.ts', content), ([name, { deprecated }]) => `${name}${deprecated ? ' (deprecated)' : ''}`),
+      ['Options', 'start (deprecated)', 'execute', 'legacy']
+    )
+  })
+})
+
+describe('listEnvReads', { skip }, () => {
+  it('finds property, element and destructured reads in source order', () => {
+    const content = [
+      "const { NOTES_DIR = './notes', 'NOTES_USER': user, ...rest } = process.env",
+      "const limit = Number(process.env['NOTES_LIMIT'] || 10)",
+      'const key = process.env.NOTES_KEY',
+      'const dynamic = process.env[name]',
+    ].join('\n')
+
+    assert.deepEqual(
+      listEnvReads(ts!, 'scripts/sync.ts', content).map((read) => `${read.name}@${read.index}${read.hasDefault ? ' default' : ''}`),
+      ['NOTES_DIR@8 default', 'NOTES_USER@31', 'NOTES_LIMIT@96 default', 'NOTES_KEY@142']
+    )
+  })
+})
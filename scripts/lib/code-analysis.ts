@@ -0,0 +1,496 @@
+/**
+ * Code Analysis
+ *
+ * Reads a skill's TypeScript and JavaScript with the TypeScript compiler API
+ * to check the code patterns in references/generalization-patterns.md:
+ *
+ * - Project-specific names on functions (declarations, arrow functions,
+ *   methods), exported constants and object keys (`INITIATIVES.SKILLSMITH`)
+ * - Exported object literals of hardcoded IDs
+ * - Functions that close over module-level ID constants instead of taking
+ *   them as parameters (Pattern 2)
+ * - `process.env.X` reads with no fallback and no check (SKILL.md "Mistake 2",
+ *   Pattern 5)
+ * - Exports removed since the previous version without a `@deprecated` alias
+ *   (Pattern 4)
+ *
+ * `listEnvReads` also gives env-schema the variables a file reads, including
+ * destructured ones.
+ *
+ * The `typescript` package is loaded on demand. It is a devDependency, so it
+ * may be missing where skill-builder is only installed as a plugin; callers
+ * fall back to simpler checks when `loadTypeScript` returns undefined.
+ */
+
+import * as fs from 'fs'
+import { createRequire } from 'module'
+import * as path from 'path'
+import type * as TS from 'typescript'
+
+export type CodeIssueKind =
+  | 'project-function'
+  | 'project-identifier'
+  | 'hardcoded-ids'
+  | 'closure-constant'
+  | 'unchecked-env'
+  | 'removed-export'
+
+export interface CodeIssue {
+  kind: CodeIssueKind
+  message: string
+  line: number
+  column: number
+  /** Column just past the node, or the end of the line when it spans several */
+  endColumn: number
+  snippet: string
+}
+
+/** A fixed environment variable the code reads */
+export interface EnvRead {
+  name: string
+  /** Offset of the read (or the destructured property) in the file */
+  index: number
+  snippet: string
+  /** Whether the read has a fallback: `|| 'x'`, `?? 'x'` or a destructuring default */
+  hasDefault: boolean
+}
+
+export interface CodeAnalysisOptions {
+  /** Terms that make a name project-specific; matched case-insensitively */
+  projectTerms: RegExp[]
+  /** The file at the previous release, to find removed exports */
+  previous?: { content: string; ref: string }
+}
+
+/** Extensions analyzed; declaration files are skipped */
+export const CODE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs']
+
+// Values that are IDs: UUIDs and long hex strings (object IDs, hashes)
+const ID_VALUE = /^(?:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[0-9a-f]{24,})$/i
+
+// Callees that validate their argument, e.g. requireEnv(process.env.X)
+const VALIDATING_CALLEE = /^(require|assert|validate|ensure|check|expect)/i
+
+let typescript: typeof TS | null | undefined
+
+/**
+ * Load the `typescript` package from skill-builder's own dependencies, then
+ * from the given directories (e.g. the skill being validated). Undefined
+ * when it is not installed anywhere.
+ */
+export function loadTypeScript(...searchFrom: string[]): typeof TS | undefined {
+  if (typescript !== undefined) return typescript ?? undefined
+  for (const require of requirers(searchFrom)) {
+    try {
+      const loaded = require('typescript') as typeof TS
+      if (typeof loaded.createSourceFile === 'function') return (typescript = loaded)
+    } catch {
+      // Not installed here
+    }
+  }
+  typescript = null
+  return undefined
+}
+
+function requirers(searchFrom: string[]): NodeJS.Require[] {
+  return [createRequire(import.meta.url), ...searchFrom.map((dir) => createRequire(path.join(dir, 'noop.js')))]
+}
+
+/**
+ * Version of the `typescript` package loadTypeScript would find, read from
+ * its package.json without loading the compiler. Undefined when it is not
+ * installed anywhere.
+ */
+export function findTypeScriptVersion(...searchFrom: string[]): string | undefined {
+  if (typescript) return typescript.version
+  for (const require of requirers(searchFrom)) {
+    try {
+      const { version } = JSON.parse(fs.readFileSync(require.resolve('typescript/package.json'), 'utf-8')) as { version?: string }
+      if (version) return version
+    } catch {
+      // Not installed here
+    }
+  }
+  return undefined
+}
+
+function parse(ts: typeof TS, fileName: string, content: string): TS.SourceFile {
+  const ext = path.extname(fileName)
+  const kind = ext === '.tsx' ? ts.ScriptKind.TSX : ext === '.jsx' ? ts.ScriptKind.JSX : /\.[mc]?js$/.test(ext) ? ts.ScriptKind.JS : ts.ScriptKind.TS
+  return ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true, kind)
+}
+
+/**
+ * Names a module exports (declarations, `export { a as b }`, CommonJS
+ * `exports.x =`), with whether each is marked `@deprecated`
+ */
+export function listExports(ts: typeof TS, fileName: string, content: string): Map<string, { deprecated: boolean; node: TS.Node }> {
+  const source = parse(ts, fileName, content)
+  const exports = new Map<string, { deprecated: boolean; node: TS.Node }>()
+  const add = (name: string, node: TS.Node) => exports.set(name, { deprecated: isDeprecated(ts, node), node })
+
+  for (const statement of source.statements) {
+    if (ts.isExportDeclaration(statement) && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+      for (const element of statement.exportClause.elements) add(element.name.text, element)
+      continue
+    }
+    if (ts.isExpressionStatement(statement) && ts.isBinaryExpression(statement.expression)) {
+      // exports.name = ... / module.exports.name = ...
+      const target = statement.expression.left
+      if (ts.isPropertyAccessExpression(target) && /^(module\.)?exports$/.test(target.expression.getText(source))) {
+        add(target.name.text, statement)
+      }
+      continue
+    }
+    if (!ts.canHaveModifiers(statement) || !ts.getModifiers(statement)?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword)) {
+      continue
+    }
+    if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name)) add(declaration.name.text, declaration)
+      }
+    } else if (
+      (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement) || ts.isInterfaceDeclaration(statement) ||
+        ts.isTypeAliasDeclaration(statement) || ts.isEnumDeclaration(statement)) &&
+      statement.name
+    ) {
+      add(statement.name.text, statement)
+    }
+  }
+  return exports
+}
+
+function isDeprecated(ts: typeof TS, node: TS.Node): boolean {
+  const holders = ts.isVariableDeclaration(node) ? [node, node.parent.parent] : [node]
+  return holders.some((holder) => ts.getJSDocTags(holder).some((tag) => tag.tagName.text === 'deprecated'))
+}
+
+/**
+ * Analyze one file's content
+ */
+export function analyzeCode(ts: typeof TS, fileName: string, content: string, options: CodeAnalysisOptions): CodeIssue[] {
+  const source = parse(ts, fileName, content)
+  const issues: CodeIssue[] = []
+  const terms = options.projectTerms.map((term) => new RegExp(term.source, term.flags.replace('g', '').replace('i', '') + 'i'))
+  const isProjectName = (name: string) => terms.some((term) => term.test(name))
+
+  const push = (kind: CodeIssueKind, node: TS.Node, message: string) => {
+    const { line, character } = source.getLineAndCharacterOfPosition(node.getStart(source))
+    const end = source.getLineAndCharacterOfPosition(node.getEnd())
+    const text = content.split('\n')[line]
+    issues.push({
+      kind,
+      message,
+      line: line + 1,
+      column: character + 1,
+      endColumn: (end.line === line ? end.character : text.length) + 1,
+      snippet: text.trim(),
+    })
+  }
+
+  // Module-level constants holding IDs: `const PROJECT_ID = '<uuid>'` or an object literal of IDs
+  const idConstants = new Set<string>()
+  for (const statement of source.statements) {
+    if (!ts.isVariableStatement(statement) || !(statement.declarationList.flags & ts.NodeFlags.Const)) continue
+    for (const declaration of statement.declarationList.declarations) {
+      if (!ts.isIdentifier(declaration.name) || !declaration.initializer) continue
+      const value = unwrap(ts, declaration.initializer)
+      const ids = ts.isObjectLiteralExpression(value) ? countIds(ts, value) : isIdLiteral(ts, value) ? 1 : 0
+      if (ids === 0) continue
+      idConstants.add(declaration.name.text)
+
+      const exported = ts.getModifiers(statement)?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword)
+      if (exported && ts.isObjectLiteralExpression(value)) {
+        push(
+          'hardcoded-ids',
+          declaration.name,
+          `Exported object ${declaration.name.text} holds ${ids} hardcoded ID${ids === 1 ? '' : 's'}; read them from configuration or environment variables`
+        )
+      }
+    }
+  }
+
+  const visit = (node: TS.Node) => {
+    // Project-specific names; @deprecated aliases keep old names on purpose
+    const name = declaredName(ts, node)
+    if (name && isProjectName(name.text) && !isDeprecated(ts, node)) {
+      if (isFunctionLike(ts, node)) {
+        push('project-function', name, `Function name ${name.text} contains a project-specific term`)
+      } else if (ts.isPropertyAssignment(node) || ts.isShorthandPropertyAssignment(node)) {
+        push('project-identifier', name, `Object key ${name.text} contains a project-specific term`)
+      } else if (ts.isVariableDeclaration(node) && isExportedDeclaration(ts, node)) {
+        push('project-identifier', name, `Exported name ${name.text} contains a project-specific term`)
+      }
+    }
+
+    // Functions closing over ID constants
+    const body = functionBody(ts, node)
+    if (body && idConstants.size > 0) {
+      const reported = new Set<string>()
+      for (const reference of constantReferences(ts, body, idConstants)) {
+        if (reported.has(reference.text)) continue
+        reported.add(reference.text)
+        push(
+          'closure-constant',
+          reference,
+          `${functionName(ts, node)} uses the constant ${reference.text} instead of taking it as a parameter`
+        )
+      }
+    }
+
+    // Unchecked environment reads
+    if (isProcessEnvRead(ts, node) && !isChecked(ts, node as TS.Expression, source)) {
+      push(
+        'unchecked-env',
+        node,
+        `${node.getText(source)} is read without a fallback or a check; it is silently undefined when unset`
+      )
+    }
+
+    ts.forEachChild(node, visit)
+  }
+  visit(source)
+
+  // Exports removed since the previous version
+  if (options.previous) {
+    const before = listExports(ts, fileName, options.previous.content)
+    const after = listExports(ts, fileName, content)
+    const added = Array.from(after).filter(([exported]) => !before.has(exported))
+    for (const [removed] of Array.from(before).filter(([exported]) => !after.has(exported))) {
+      const [replacement, entry] = added.length === 1 ? added[0] : []
+      const hint = replacement
+        ? `if it was renamed to ${replacement}, keep /** @deprecated Use ${replacement} instead */ export const ${removed} = ${replacement}`
+        : 'if it was renamed, keep it as a @deprecated alias of the new name'
+      push('removed-export', entry?.node ?? source.statements[0] ?? source, `Export ${removed} was removed since ${options.previous.ref}; ${hint}`)
+    }
+  }
+
+  return issues.sort((a, b) => a.line - b.line || a.column - b.column)
+}
+
+/**
+ * Environment variables a file reads: `process.env.X`, `process.env['X']`
+ * and `const { X, Y = 'y' } = process.env`, in source order
+ */
+export function listEnvReads(ts: typeof TS, fileName: string, content: string): EnvRead[] {
+  const source = parse(ts, fileName, content)
+  const reads: EnvRead[] = []
+
+  const visit = (node: TS.Node) => {
+    if (isProcessEnvRead(ts, node)) {
+      const read = node as TS.PropertyAccessExpression | TS.ElementAccessExpression
+      const name = ts.isPropertyAccessExpression(read) ? read.name.text : (read.argumentExpression as TS.StringLiteralLike).text
+      const value = outer(ts, read)
+      const parent = value.parent
+      const hasDefault =
+        ts.isBinaryExpression(parent) && parent.left === value &&
+        [ts.SyntaxKind.BarBarToken, ts.SyntaxKind.QuestionQuestionToken].includes(parent.operatorToken.kind)
+      reads.push({ name, index: read.getStart(source), snippet: read.getText(source), hasDefault })
+    } else if (ts.isVariableDeclaration(node) && ts.isObjectBindingPattern(node.name) && node.initializer && isProcessEnv(ts, unwrap(ts, node.initializer))) {
+      for (const element of node.name.elements) {
+        if (element.dotDotDotToken) continue
+        const key = element.propertyName ?? element.name
+        if (!ts.isIdentifier(key) && !ts.isStringLiteral(key)) continue
+        reads.push({ name: key.text, index: element.getStart(source), snippet: element.getText(source), hasDefault: element.initializer !== undefined })
+      }
+    }
+    ts.forEachChild(node, visit)
+  }
+  visit(source)
+
+  return reads
+}
+
+function unwrap(ts: typeof TS, node: TS.Expression): TS.Expression {
+  while (ts.isAsExpression(node) || ts.isSatisfiesExpression(node) || ts.isParenthesizedExpression(node)) node = node.expression
+  return node
+}
+
+function isIdLiteral(ts: typeof TS, node: TS.Node): boolean {
+  return (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) && ID_VALUE.test(node.text)
+}
+
+function countIds(ts: typeof TS, object: TS.ObjectLiteralExpression): number {
+  let count = 0
+  for (const property of object.properties) {
+    if (!ts.isPropertyAssignment(property)) continue
+    const value = unwrap(ts, property.initializer)
+    if (ts.isObjectLiteralExpression(value)) count += countIds(ts, value)
+    else if (isIdLiteral(ts, value)) count++
+  }
+  return count
+}
+
+function isFunctionLike(ts: typeof TS, node: TS.Node): boolean {
+  if (ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node)) return true
+  const initializer = ts.isVariableDeclaration(node) || ts.isPropertyAssignment(node) ? node.initializer : undefined
+  return initializer !== undefined && (ts.isArrowFunction(unwrap(ts, initializer)) || ts.isFunctionExpression(unwrap(ts, initializer)))
+}
+
+function declaredName(ts: typeof TS, node: TS.Node): TS.Identifier | TS.StringLiteral | undefined {
+  if (
+    ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node) || ts.isVariableDeclaration(node) ||
+    ts.isPropertyAssignment(node) || ts.isShorthandPropertyAssignment(node) || ts.isClassDeclaration(node)
+  ) {
+    const name = node.name
+    return name && (ts.isIdentifier(name) || ts.isStringLiteral(name)) ? name : undefined
+  }
+  return undefined
+}
+
+function isExportedDeclaration(ts: typeof TS, node: TS.VariableDeclaration): boolean {
+  const statement = node.parent.parent
+  return ts.isVariableStatement(statement) && Boolean(ts.getModifiers(statement)?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword))
+}
+
+function functionBody(ts: typeof TS, node: TS.Node): TS.Node | undefined {
+  if (ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node) || ts.isFunctionExpression(node) || ts.isArrowFunction(node)) {
+    return node.body
+  }
+  return undefined
+}
+
+function functionName(ts: typeof TS, node: TS.Node): string {
+  const named = node as { name?: TS.Node }
+  if (named.name && ts.isIdentifier(named.name)) return named.name.text
+  const parent = node.parent
+  if ((ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent)) && ts.isIdentifier(parent.name)) return parent.name.text
+  return 'An anonymous function'
+}
+
+/**
+ * References to the constants in a function body, not counting nested
+ * functions (they are checked on their own) or property names
+ */
+function constantReferences(ts: typeof TS, body: TS.Node, constants: Set<string>): TS.Identifier[] {
+  const references: TS.Identifier[] = []
+  const walk = (node: TS.Node) => {
+    if (functionBody(ts, node)) return
+    if (ts.isIdentifier(node) && constants.has(node.text)) {
+      const parent = node.parent
+      const isPropertyName =
+        (ts.isPropertyAccessExpression(parent) && parent.name === node) ||
+        (ts.isPropertyAssignment(parent) && parent.name === node) ||
+        (ts.isVariableDeclaration(parent) && parent.name === node)
+      if (!isPropertyName) references.push(node)
+    }
+    ts.forEachChild(node, walk)
+  }
+  ts.forEachChild(body, walk)
+  return references
+}
+
+function isProcessEnvRead(ts: typeof TS, node: TS.Node): boolean {
+  if (!ts.isPropertyAccessExpression(node) && !ts.isElementAccessExpression(node)) return false
+  if (!isProcessEnv(ts, node.expression)) return false
+  // `process.env[name]` with a computed name is dynamic lookup, not a fixed variable
+  return ts.isPropertyAccessExpression(node) || ts.isStringLiteralLike(node.argumentExpression)
+}
+
+function isProcessEnv(ts: typeof TS, node: TS.Node): boolean {
+  return (
+    ts.isPropertyAccessExpression(node) && node.name.text === 'env' &&
+    ts.isIdentifier(node.expression) && node.expression.text === 'process'
+  )
+}
+
+/** The expression a value flows into, skipping parentheses, casts and `!` */
+function outer(ts: typeof TS, node: TS.Node): TS.Node {
+  let current = node
+  while (
+    ts.isParenthesizedExpression(current.parent) || ts.isAsExpression(current.parent) ||
+    ts.isNonNullExpression(current.parent) || ts.isSatisfiesExpression(current.parent)
+  ) {
+    current = current.parent
+  }
+  return current
+}
+
+/**
+ * Whether a use of a value tests it: `!x`, `if (x)`, `x ? :`, `x && ...`,
+ * comparisons, `typeof x`, a fallback (`x ?? y`, `x || y`) or a validating call
+ */
+function isCheckUse(ts: typeof TS, node: TS.Node): boolean {
+  const value = outer(ts, node)
+  const parent = value.parent
+  if (ts.isPrefixUnaryExpression(parent) && parent.operator === ts.SyntaxKind.ExclamationToken) return true
+  if (ts.isTypeOfExpression(parent)) return true
+  if ((ts.isIfStatement(parent) || ts.isWhileStatement(parent)) && parent.expression === value) return true
+  if (ts.isConditionalExpression(parent) && parent.condition === value) return true
+  if (ts.isBinaryExpression(parent)) {
+    const operator = parent.operatorToken.kind
+    const comparisons = [
+      ts.SyntaxKind.EqualsEqualsEqualsToken, ts.SyntaxKind.ExclamationEqualsEqualsToken,
+      ts.SyntaxKind.EqualsEqualsToken, ts.SyntaxKind.ExclamationEqualsToken,
+    ]
+    if (comparisons.includes(operator)) return true
+    const fallbacks = [
+      ts.SyntaxKind.QuestionQuestionToken, ts.SyntaxKind.BarBarToken, ts.SyntaxKind.AmpersandAmpersandToken,
+      ts.SyntaxKind.QuestionQuestionEqualsToken, ts.SyntaxKind.BarBarEqualsToken,
+    ]
+    if (fallbacks.includes(operator) && parent.left === value) return true
+  }
+  if (ts.isCallExpression(parent) && parent.arguments.includes(value as TS.Expression)) {
+    const callee = ts.isPropertyAccessExpression(parent.expression) ? parent.expression.name : parent.expression
+    return ts.isIdentifier(callee) && VALIDATING_CALLEE.test(callee.text)
+  }
+  return false
+}
+
+/**
+ * Whether an environment read has a fallback or is checked, directly or
+ * through the variable, parameter or object property it is stored in
+ */
+function isChecked(ts: typeof TS, read: TS.Expression, source: TS.SourceFile): boolean {
+  let value: TS.Node = read
+  for (;;) {
+    if (isCheckUse(ts, value)) return true
+    const current = outer(ts, value)
+    const parent = current.parent
+    // `a || process.env.X`: the whole expression is the value
+    if (ts.isBinaryExpression(parent) && parent.right === current && [ts.SyntaxKind.BarBarToken, ts.SyntaxKind.QuestionQuestionToken].includes(parent.operatorToken.kind)) {
+      value = parent
+      continue
+    }
+    break
+  }
+
+  const current = outer(ts, value)
+  const parent = current.parent
+  const scope = enclosingScope(ts, parent)
+  if ((ts.isVariableDeclaration(parent) || ts.isParameter(parent)) && parent.initializer === current && ts.isIdentifier(parent.name)) {
+    return hasCheckedReference(ts, ts.isParameter(parent) ? parent.parent : scope, parent.name.text, parent.name, source)
+  }
+  if (ts.isPropertyAssignment(parent) && ts.isObjectLiteralExpression(parent.parent)) {
+    const holder = outer(ts, parent.parent).parent
+    if (ts.isVariableDeclaration(holder) && ts.isIdentifier(holder.name)) {
+      return hasCheckedReference(ts, scope, `${holder.name.text}.${parent.name.getText(source)}`, parent.name, source)
+    }
+  }
+  return false
+}
+
+function enclosingScope(ts: typeof TS, node: TS.Node): TS.Node {
+  let current: TS.Node = node
+  while (current.parent && !functionBody(ts, current) && !ts.isSourceFile(current)) current = current.parent
+  return current
+}
+
+/** Whether `name` (an identifier or `object.property`) is checked anywhere in scope */
+function hasCheckedReference(ts: typeof TS, scope: TS.Node, name: string, declaration: TS.Node, source: TS.SourceFile): boolean {
+  let found = false
+  const walk = (node: TS.Node) => {
+    if (found) return
+    const matches =
+      node !== declaration &&
+      ((ts.isIdentifier(node) && node.text === name && !ts.isPropertyAccessExpression(node.parent)) ||
+        (ts.isPropertyAccessExpression(node) && node.getText(source) === name))
+    if (matches && isCheckUse(ts, node)) {
+      found = true
+      return
+    }
+    ts.forEachChild(node, walk)
+  }
+  walk(scope)
+  return found
+}
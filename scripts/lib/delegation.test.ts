@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { SECTION_END, SECTION_START, planDelegationUpdate, readDelegationEntries, updateDelegationSection } from './delegation'
+import { stampGenerated } from './subagent'
+
+const agentMd = (name: string, description: string, body = '') =>
+  `---\nname: ${name}\ndescription: ${description}\nskills: ${name.replace(/-specialist$/, '')}\n---\n\n${body}`
+
+describe('readDelegationEntries', () => {
+  let agents: string
+
+  beforeEach(() => {
+    agents = fs.mkdtempSync(path.join(os.tmpdir(), 'delegation-test-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(agents, { recursive: true, force: true })
+  })
+
+  it('reads generated agents sorted by name and skips hand-written ones', () => {
+    fs.writeFileSync(
+      path.join(agents, 'notes-specialist.md'),
+      stampGenerated(
+        agentMd(
+          'notes-specialist',
+          'Checks notes. Use when "check notes", "verify the changelog".',
+          '**Type**: Guided Decision\n**Directive**: ASK, THEN EXECUTE\n\nKeep response under 300 tokens.\n'
+        )
+      )
+    )
+    fs.writeFileSync(path.join(agents, 'deploy-specialist.md'), stampGenerated(agentMd('deploy-specialist', 'Deploys the site.')))
+    fs.writeFileSync(path.join(agents, 'review-specialist.md'), agentMd('review-specialist', 'Reviews by hand.'))
+    fs.writeFileSync(path.join(agents, 'broken-specialist.md'), stampGenerated('---\nname: [broken\n---\n'))
+
+    assert.deepEqual(readDelegationEntries(agents), [
+      { agent: 'deploy-specialist', skill: 'deploy', triggers: [], returnTokens: 500 },
+      {
+        agent: 'notes-specialist',
+        skill: 'notes',
+        triggers: ['check notes', 'verify the changelog'],
+        returnTokens: 300,
+        behavior: 'Guided Decision (ASK, THEN EXECUTE)',
+      },
+    ])
+    assert.deepEqual(readDelegationEntries(path.join(agents, 'missing')), [])
+  })
+
+  it('plans the CLAUDE.md update from the agents directory', () => {
+    fs.writeFileSync(path.join(agents, 'notes-specialist.md'), stampGenerated(agentMd('notes-specialist', 'Use when "check notes".')))
+    const claudeMd = path.join(agents, 'CLAUDE.md')
+
+    const update = planDelegationUpdate(claudeMd, agents)
+
+    assert.equal(update.before, '')
+    assert.match(update.after, /^\| "check notes" \| `notes-specialist` subagent \| 500 tokens \|$/m)
+  })
+})
+
+describe('updateDelegationSection', () => {
+  const entry = { agent: 'notes-specialist', skill: 'notes', triggers: ['check a|b'], returnTokens: 400 }
+
+  it('appends the section once and replaces it on later runs', () => {
+    const first = updateDelegationSection('# Project\n', [entry])
+    const second = updateDelegationSection(first, [{ ...entry, returnTokens: 200 }])
+
+    assert.ok(first.startsWith(`# Project\n\n${SECTION_START}\n`))
+    assert.match(first, /\| "check a\\\|b" \|/)
+    assert.equal(second.split(SECTION_START).length, 2)
+    assert.match(second, /under 200 tokens/)
+    assert.doesNotMatch(second, /400 tokens/)
+  })
+
+  it('keeps the content around the markers and removes the section when no agents are left', () => {
+    const content = `# Project\n\n${SECTION_START}\nold\n${SECTION_END}\n\n## Notes\n`
+
+    assert.match(updateDelegationSection(content, [entry]), /^# Project\n\n<!-- skill-builder:delegation:start -->[\s\S]*:end -->\n\n## Notes\n$/)
+    assert.equal(updateDelegationSection(content, []), '# Project\n\n## Notes\n')
+    assert.equal(updateDelegationSection('# Project\n', []), '# Project\n')
+  })
+
+  it('rejects unmatched markers', () => {
+    assert.throws(() => updateDelegationSection(`${SECTION_START}\n`, [entry]), /unmatched delegation marker/)
+    assert.throws(() => updateDelegationSection(`${SECTION_END}\n${SECTION_START}\n`, [entry]), /unmatched delegation marker/)
+  })
+})
@@ -0,0 +1,144 @@
+/**
+ * CLAUDE.md Delegation Section
+ *
+ * Maintains a marker-delimited section of CLAUDE.md with one delegation table
+ * row and rule per generated specialist, following the template in
+ * references/orchestrator-delegation.md. The section is rebuilt from the
+ * agents directory every time, so rerunning never duplicates rows and agents
+ * that were deleted drop out. Everything outside the markers is left alone.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { FrontmatterError, getString, parseFrontmatter } from './frontmatter'
+import { readGeneratedStamp } from './subagent'
+import { SUBAGENT_RESPONSE_TOKENS } from './tokens'
+
+export const SECTION_START = '<!-- skill-builder:delegation:start -->'
+export const SECTION_END = '<!-- skill-builder:delegation:end -->'
+
+export interface DelegationEntry {
+  /** Agent name, e.g. "skill-builder-specialist" */
+  agent: string
+  /** Skill the agent runs */
+  skill: string
+  triggers: string[]
+  returnTokens: number
+  /** Behavioral class and directive, e.g. "Guided Decision (ASK, THEN EXECUTE)" */
+  behavior?: string
+}
+
+export interface DelegationUpdate {
+  before: string
+  after: string
+  entries: DelegationEntry[]
+}
+
+/**
+ * Read the generated specialists in an agents directory, sorted by name.
+ * Agents without a generated-by stamp were written by hand and are skipped.
+ */
+export function readDelegationEntries(agentsDir: string): DelegationEntry[] {
+  if (!fs.existsSync(agentsDir)) return []
+
+  const entries: DelegationEntry[] = []
+  for (const item of fs.readdirSync(agentsDir).sort()) {
+    if (!item.endsWith('.md')) continue
+    const content = fs.readFileSync(path.join(agentsDir, item), 'utf-8')
+    if (!readGeneratedStamp(content)) continue
+
+    let data
+    try {
+      data = parseFrontmatter(content).data
+    } catch (error) {
+      if (error instanceof FrontmatterError) continue
+      throw error
+    }
+
+    const agent = getString(data, 'name') || path.basename(item, '.md')
+    const description = getString(data, 'description')
+    const useWhenIndex = description.lastIndexOf('Use when')
+    const useWhen = useWhenIndex === -1 ? description : description.slice(useWhenIndex)
+    const type = content.match(/^\*\*Type\*\*:\s*(.+)$/m)?.[1].trim()
+    const directive = content.match(/^\*\*Directive\*\*:\s*(.+)$/m)?.[1].trim()
+    const budget = content.match(/under (\d+) tokens/)
+
+    entries.push({
+      agent,
+      skill: getString(data, 'skills') || agent.replace(/-specialist$/, ''),
+      triggers: Array.from(useWhen.matchAll(/"([^"]+)"/g), (m) => m[1]),
+      returnTokens: budget ? Number(budget[1]) : SUBAGENT_RESPONSE_TOKENS,
+      ...(type && type !== 'Unclassified' ? { behavior: directive ? `${type} (${directive})` : type } : {}),
+    })
+  }
+
+  return entries.sort((a, b) => a.agent.localeCompare(b.agent))
+}
+
+/**
+ * Render the managed section, markers included
+ */
+export function renderDelegationSection(entries: DelegationEntry[]): string {
+  const cell = (text: string) => text.replace(/\|/g, '\\|')
+  const lines = [
+    SECTION_START,
+    '<!-- Generated by generate-subagent.ts claude-md; changes inside the markers are overwritten -->',
+    '## Subagent Delegation',
+    '',
+    'When acting as orchestrator, delegate these tasks to their specialist subagents instead of loading the skill in main context.',
+    '',
+    '### Delegation Table',
+    '',
+    '| Task Pattern | Delegate To | Return Budget |',
+    '|--------------|-------------|---------------|',
+  ]
+  for (const entry of entries) {
+    const pattern = entry.triggers.length > 0 ? entry.triggers.map((t) => `"${t}"`).join(', ') : `${entry.skill} tasks`
+    lines.push(`| ${cell(pattern)} | \`${entry.agent}\` subagent | ${entry.returnTokens} tokens |`)
+  }
+
+  lines.push('', '### Delegation Rules', '')
+  for (const entry of entries) {
+    const behavior = entry.behavior ? ` Behavior: ${entry.behavior}.` : ''
+    lines.push(
+      `- **${entry.agent}**: For ${entry.skill} tasks, call \`Task({ subagent_type: "${entry.agent}" })\` ` +
+        `and ask for a summary under ${entry.returnTokens} tokens.${behavior}`
+    )
+  }
+
+  lines.push(SECTION_END)
+  return lines.join('\n')
+}
+
+/**
+ * Replace (or append) the managed section in CLAUDE.md content. With no
+ * entries the section is removed.
+ */
+export function updateDelegationSection(content: string, entries: DelegationEntry[]): string {
+  const start = content.indexOf(SECTION_START)
+  const end = content.indexOf(SECTION_END)
+  if ((start === -1) !== (end === -1) || end < start) {
+    throw new Error(`CLAUDE.md has an unmatched delegation marker; expected ${SECTION_START} ... ${SECTION_END}`)
+  }
+
+  const section = entries.length > 0 ? renderDelegationSection(entries) : ''
+  if (start !== -1) {
+    const before = content.slice(0, start)
+    const after = content.slice(end + SECTION_END.length)
+    if (section) return before + section + after
+    const rest = [before.trimEnd(), after.trim()].filter(Boolean).join('\n\n')
+    return rest ? `${rest}\n` : ''
+  }
+
+  if (!section) return content
+  return content.trim() === '' ? `${section}\n` : `${content.trimEnd()}\n\n${section}\n`
+}
+
+/**
+ * Plan the update of a CLAUDE.md file from an agents directory
+ */
+export function planDelegationUpdate(claudeMdPath: string, agentsDir: string): DelegationUpdate {
+  const before = fs.existsSync(claudeMdPath) ? fs.readFileSync(claudeMdPath, 'utf-8') : ''
+  const entries = readDelegationEntries(agentsDir)
+  return { before, after: updateDelegationSection(before, entries), entries }
+}
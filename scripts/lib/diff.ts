@@ -0,0 +1,85 @@
+/**
+ * Unified Diff
+ *
+ * Minimal line-based unified diff for previewing file changes before they
+ * are written. Uses a longest-common-subsequence table, which is fine for
+ * skill-sized files.
+ */
+
+type DiffOp = { type: 'equal' | 'delete' | 'insert'; line: string }
+
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  const n = a.length
+  const m = b.length
+  const width = m + 1
+  const lcs = new Uint32Array((n + 1) * width)
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j] ? lcs[(i + 1) * width + j + 1] + 1 : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1])
+    }
+  }
+
+  const ops: DiffOp[] = []
+  let i = 0
+  let j = 0
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      ops.push({ type: 'equal', line: a[i++] })
+      j++
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      ops.push({ type: 'delete', line: a[i++] })
+    } else {
+      ops.push({ type: 'insert', line: b[j++] })
+    }
+  }
+  while (i < n) ops.push({ type: 'delete', line: a[i++] })
+  while (j < m) ops.push({ type: 'insert', line: b[j++] })
+  return ops
+}
+
+/**
+ * Render a unified diff between two versions of a file.
+ * Returns an empty string when the contents are identical.
+ */
+export function unifiedDiff(before: string, after: string, fileName: string, context = 3): string {
+  if (before === after) return ''
+
+  const ops = diffLines(before === '' ? [] : before.split('\n'), after === '' ? [] : after.split('\n'))
+  const out = [`--- a/${fileName}`, `+++ b/${fileName}`]
+
+  // Group changes into hunks separated by more than 2 * context unchanged lines
+  let index = 0
+  while (index < ops.length) {
+    while (index < ops.length && ops[index].type === 'equal') index++
+    if (index >= ops.length) break
+
+    const start = Math.max(0, index - context)
+    let end = index
+    let lastChange = index
+    while (end < ops.length && end - lastChange <= context * 2) {
+      if (ops[end].type !== 'equal') lastChange = end
+      end++
+    }
+    end = Math.min(ops.length, lastChange + context + 1)
+
+    let oldStart = 1
+    let newStart = 1
+    for (let k = 0; k < start; k++) {
+      if (ops[k].type !== 'insert') oldStart++
+      if (ops[k].type !== 'delete') newStart++
+    }
+    const hunk = ops.slice(start, end)
+    const oldCount = hunk.filter((op) => op.type !== 'insert').length
+    const newCount = hunk.filter((op) => op.type !== 'delete').length
+
+    out.push(`@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`)
+    for (const op of hunk) {
+      out.push(`${op.type === 'equal' ? ' ' : op.type === 'delete' ? '-' : '+'}${op.line}`)
+    }
+    index = end
+  }
+
+  return out.join('\n') + '\n'
+}
@@ -0,0 +1,161 @@
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { loadTypeScript } from './code-analysis'
+import { appendEnvSchemaEntries, crossCheckEnv, findEnvUsages, parseEnvSchema, starterEnvSchemaEntries, type EnvUsage } from './env-schema'
+
+const typescript = loadTypeScript()
+
+const CODE = [
+  "const { GITHUB_TOKEN, 'NOTES_DIR': dir, NOTES_LIMIT = '20', ...rest } = process.env",
+  "const region = process.env['NOTES_REGION'] ?? 'us-east-1'",
+  'const user = process.env.NOTES_USER',
+  '',
+].join('\n')
+
+describe('findEnvUsages', () => {
+  let skillPath: string
+
+  beforeEach(() => {
+    skillPath = fs.mkdtempSync(path.join(os.tmpdir(), 'env-schema-test-'))
+    fs.mkdirSync(path.join(skillPath, 'scripts'))
+    fs.writeFileSync(path.join(skillPath, 'scripts', 'sync.ts'), CODE)
+  })
+
+  afterEach(() => fs.rmSync(skillPath, { recursive: true, force: true }))
+
+  const summary = (usages: ReturnType<typeof findEnvUsages>) =>
+    usages.map((u) => `${u.name}@${u.line}:${u.column}${u.hasDefault ? ' default' : ''}`)
+
+  const expected = [
+    'GITHUB_TOKEN@1:9',
+    'NOTES_DIR@1:23',
+    'NOTES_LIMIT@1:41 default',
+    'NOTES_REGION@2:16 default',
+    'NOTES_USER@3:14',
+  ]
+
+  it('finds destructured, element and property reads with the AST', { skip: !typescript && 'needs the typescript package' }, () => {
+    assert.deepEqual(summary(findEnvUsages(skillPath, typescript)), expected)
+  })
+
+  it('finds the same reads without the compiler', () => {
+    assert.deepEqual(summary(findEnvUsages(skillPath)), expected)
+  })
+
+  it('marks a variable as defaulted when any read has a fallback', () => {
+    fs.writeFileSync(path.join(skillPath, 'scripts', 'sync.ts'), "const a = process.env.NOTES_USER\nconst b = process.env.NOTES_USER || 'me'\n")
+
+    assert.deepEqual(summary(findEnvUsages(skillPath)), ['NOTES_USER@1:11 default'])
+  })
+})
+
+const SCHEMA = [
+  '# .env.schema',
+  '# Example: "me@example.com"',
+  '# @type=string(startsWith=ghp_, minLength=20) @required @sensitive',
+  'GITHUB_TOKEN=',
+  '',
+  '# @optional',
+  'export NOTES_DIR=./notes',
+  '',
+].join('\n')
+
+describe('parseEnvSchema', () => {
+  it('reads entries with their annotations and type options', () => {
+    const { entries, issues } = parseEnvSchema(SCHEMA)
+
+    assert.deepEqual(issues, [])
+    assert.deepEqual(
+      entries.map(({ annotations, ...entry }) => ({ ...entry, annotations: annotations.map((a) => `${a.name}=${a.value}@${a.line}:${a.column}`) })),
+      [
+        {
+          name: 'GITHUB_TOKEN',
+          value: '',
+          line: 4,
+          type: 'string',
+          typeOptions: { startsWith: 'ghp_', minLength: '20' },
+          required: true,
+          sensitive: true,
+          annotations: ['type=string(startsWith=ghp_, minLength=20)@3:3', 'required=@3:47', 'sensitive=@3:57'],
+        },
+        { name: 'NOTES_DIR', value: './notes', line: 7, typeOptions: {}, required: false, sensitive: false, annotations: ['optional=@6:3'] },
+      ]
+    )
+  })
+
+  it('reports malformed lines, duplicates and contradictory annotations', () => {
+    const { entries, issues } = parseEnvSchema('NOTES_DIR=a\nnot an entry\nNOTES_DIR=b\n# @required @optional @type=str!ng\nNOTES_USER=\n')
+
+    assert.deepEqual(
+      issues.map((i) => `${i.line}:${i.column} ${i.message}`),
+      [
+        '2:1 Expected NAME=value or a # comment, got "not an entry"',
+        '3:1 NOTES_DIR is already defined on line 1',
+        '4:13 NOTES_USER is marked both @required and @optional',
+        '4:23 Malformed @type "str!ng"',
+      ]
+    )
+    assert.deepEqual(entries.map((e) => e.name), ['NOTES_DIR', 'NOTES_USER'])
+  })
+})
+
+describe('crossCheckEnv', () => {
+  const usage = (name: string, line: number): EnvUsage => ({ name, file: 'scripts/sync.ts', line, column: 1, snippet: '', hasDefault: false })
+
+  it('reports undeclared, unused and credential-like variables', () => {
+    const schema = parseEnvSchema('# @required\nNOTES_DIR=\n\nNOTES_API_KEY=\n')
+
+    assert.deepEqual(
+      crossCheckEnv(schema, [usage('NOTES_DIR', 2), usage('NOTES_USER', 5)], 'Set NOTES_DIR and NOTES_API_KEY.').map(
+        (i) => `${i.kind} ${i.file}:${i.line} ${i.message}`
+      ),
+      [
+        'undeclared scripts/sync.ts:5 NOTES_USER is used in scripts/sync.ts but not declared in .env.schema',
+        'unused .env.schema:4 NOTES_API_KEY is declared but never read from process.env',
+        'sensitive .env.schema:4 NOTES_API_KEY looks like a credential but is not marked @sensitive',
+      ]
+    )
+  })
+
+  it('compares the schema with the Environment Variables table', () => {
+    const schema = parseEnvSchema('# @required @sensitive\nGITHUB_TOKEN=\n\nNOTES_DIR=\n')
+    const skillMd = [
+      '# Notes',
+      '',
+      '## Environment Variables',
+      '',
+      '| Variable | Required | Sensitive |',
+      '|----------|----------|-----------|',
+      '| `GITHUB_TOKEN` | No | Yes |',
+      '',
+      'NOTES_DIR is mentioned outside the table.',
+    ].join('\n')
+
+    assert.deepEqual(
+      crossCheckEnv(schema, [usage('GITHUB_TOKEN', 1), usage('NOTES_DIR', 2)], skillMd).map((i) => `${i.kind} ${i.line} ${i.message}`),
+      [
+        'table-mismatch 2 SKILL.md lists GITHUB_TOKEN as not required, .env.schema marks it @required',
+        'undocumented 4 NOTES_DIR is not listed in the "Environment Variables" table in SKILL.md',
+      ]
+    )
+  })
+})
+
+describe('appendEnvSchemaEntries', () => {
+  it('adds starter entries for variables the schema does not define', () => {
+    const usages = ['NOTES_DIR', 'GITHUB_TOKEN', 'NOTES_USER'].map(
+      (name): EnvUsage => ({ name, file: 'scripts/sync.ts', line: 1, column: 1, snippet: '', hasDefault: name === 'NOTES_USER' })
+    )
+    const content = appendEnvSchemaEntries('NOTES_DIR=\n\n', starterEnvSchemaEntries(usages))
+
+    assert.equal(
+      content,
+      'NOTES_DIR=\n\n# @type=string @required @sensitive\nGITHUB_TOKEN=\n\n# @type=string @optional\nNOTES_USER=\n'
+    )
+    assert.equal(appendEnvSchemaEntries(content, starterEnvSchemaEntries(usages)), content)
+    assert.match(appendEnvSchemaEntries('', [{ name: 'NOTES_DIR', required: true, sensitive: false, example: './notes' }]), /^# \.env\.schema - Commit this file\n\n# Example: "\.\/notes"\n# @type=string @required\nNOTES_DIR=\n$/)
+  })
+})
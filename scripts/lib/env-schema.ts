@@ -0,0 +1,374 @@
+/**
+ * Varlock .env.schema
+ *
+ * Parses the annotated `.env.schema` format from SKILL.md and cross-checks it
+ * with the code and documentation of a skill:
+ *
+ * ```bash
+ * # @type=string(startsWith=lin_api_) @required @sensitive
+ * LINEAR_API_KEY=
+ * ```
+ *
+ * Annotations are read from the comment lines directly above a variable; a
+ * blank line ends the comment block, and `# Example: ...` lines are only
+ * documentation. Every variable the code reads (`process.env.X`,
+ * `const { X } = process.env`) should be declared, every declared variable should be used and listed in
+ * SKILL.md's "Environment Variables" table, and variables that look like
+ * credentials should be `@sensitive`.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import type * as TS from 'typescript'
+import { listEnvReads, type EnvRead } from './code-analysis'
+import { listSkillFiles } from './files'
+import { positionAt } from './findings'
+import { parseMarkdown, tableCells } from './markdown'
+
+export interface EnvAnnotation {
+  /** Name without the @, e.g. "type" */
+  name: string
+  /** Text after `=`, e.g. "string(startsWith=lin_api_)"; empty for flags */
+  value: string
+  line: number
+  column: number
+}
+
+export interface EnvSchemaEntry {
+  name: string
+  /** Default value after `=`, usually empty */
+  value: string
+  line: number
+  annotations: EnvAnnotation[]
+  /** Base type, e.g. "string" */
+  type?: string
+  /** Type options, e.g. { startsWith: "xoxb-" } */
+  typeOptions: Record<string, string>
+  required: boolean
+  sensitive: boolean
+}
+
+export interface EnvSchemaIssue {
+  message: string
+  line: number
+  column: number
+}
+
+export interface EnvSchema {
+  entries: EnvSchemaEntry[]
+  /** Malformed lines, duplicates and contradictory annotations */
+  issues: EnvSchemaIssue[]
+}
+
+export interface EnvUsage {
+  name: string
+  /** Path relative to the skill root */
+  file: string
+  line: number
+  column: number
+  snippet: string
+  /** Whether the code falls back to a default (`|| 'x'`, `?? 'x'`) */
+  hasDefault: boolean
+}
+
+export interface EnvTableRow {
+  name: string
+  line: number
+  /** Undefined when the table has no such column */
+  required?: boolean
+  sensitive?: boolean
+}
+
+export type EnvCheckKind = 'undeclared' | 'unused' | 'undocumented' | 'sensitive' | 'table-mismatch'
+
+export interface EnvCheckIssue {
+  kind: EnvCheckKind
+  name: string
+  message: string
+  /** Where to report: the schema entry, or the first usage for undeclared variables */
+  file: string
+  line: number
+  column: number
+}
+
+export const ENV_SCHEMA_FILE = '.env.schema'
+
+const ENTRY_PATTERN = /^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/
+const EXAMPLE_COMMENT = /^#\s*Example:/i
+const ANNOTATION_PATTERN = /@([\w-]+)(?:=((?:\([^)]*\)|[^\s(])+))?/g
+const USAGE_PATTERN = /process\.env(?:\.([A-Z_][A-Z0-9_]*)|\[['"]([A-Z_][A-Z0-9_]*)['"]\])/g
+const DESTRUCTURING_PATTERN = /\b(?:const|let|var)\s*\{([^{}]*)\}\s*=\s*process\.env\b/g
+const ENV_NAME = /^[A-Z_][A-Z0-9_]*$/
+const SENSITIVE_NAME = /KEY|SECRET|TOKEN|PASSWORD|CREDENTIAL|AUTH/i
+
+/**
+ * Whether a variable name looks like it holds a credential
+ */
+export function isSensitiveName(name: string): boolean {
+  return SENSITIVE_NAME.test(name)
+}
+
+/**
+ * Parse `.env.schema` content
+ */
+export function parseEnvSchema(content: string): EnvSchema {
+  const entries: EnvSchemaEntry[] = []
+  const issues: EnvSchemaIssue[] = []
+  let pending: EnvAnnotation[] = []
+
+  content.split('\n').forEach((raw, index) => {
+    const line = index + 1
+    const text = raw.trim()
+
+    if (text === '') {
+      pending = []
+      return
+    }
+    if (text.startsWith('#')) {
+      // Example values may contain "@"; they are not annotations
+      if (EXAMPLE_COMMENT.test(text)) return
+      const offset = raw.indexOf('#')
+      for (const match of text.matchAll(ANNOTATION_PATTERN)) {
+        pending.push({ name: match[1], value: match[2] ?? '', line, column: offset + match.index! + 1 })
+      }
+      return
+    }
+
+    const entry = text.replace(/^export\s+/, '').match(ENTRY_PATTERN)
+    if (!entry) {
+      issues.push({ message: `Expected NAME=value or a # comment, got "${text}"`, line, column: 1 })
+      pending = []
+      return
+    }
+
+    const [, name, value] = entry
+    const annotations = pending
+    pending = []
+
+    const duplicate = entries.find((e) => e.name === name)
+    if (duplicate) {
+      issues.push({ message: `${name} is already defined on line ${duplicate.line}`, line, column: 1 })
+      return
+    }
+
+    const has = (flag: string) => annotations.some((a) => a.name === flag)
+    if (has('required') && has('optional')) {
+      const optional = annotations.find((a) => a.name === 'optional')!
+      issues.push({ message: `${name} is marked both @required and @optional`, line: optional.line, column: optional.column })
+    }
+
+    const typeAnnotation = annotations.find((a) => a.name === 'type')
+    const typeMatch = typeAnnotation?.value.match(/^([\w-]+)(?:\((.*)\))?$/)
+    if (typeAnnotation && !typeMatch) {
+      issues.push({ message: `Malformed @type "${typeAnnotation.value}"`, line: typeAnnotation.line, column: typeAnnotation.column })
+    }
+    const typeOptions: Record<string, string> = {}
+    for (const option of (typeMatch?.[2] ?? '').split(',')) {
+      const [key, ...rest] = option.split('=')
+      if (key.trim()) typeOptions[key.trim()] = rest.join('=').trim()
+    }
+
+    entries.push({
+      name,
+      value: value.trim(),
+      line,
+      annotations,
+      ...(typeMatch ? { type: typeMatch[1] } : {}),
+      typeOptions,
+      required: has('required'),
+      sensitive: has('sensitive'),
+    })
+  })
+
+  return { entries, issues }
+}
+
+/**
+ * Every environment variable the skill's code reads, first usage of each
+ * variable only. Reads the TypeScript AST when given the compiler (see
+ * loadTypeScript), otherwise matches the same forms with regular expressions.
+ */
+export function findEnvUsages(skillPath: string, ts?: typeof TS): EnvUsage[] {
+  const usages = new Map<string, EnvUsage>()
+  for (const file of listSkillFiles(skillPath, ['.ts', '.js', '.mjs', '.cjs'])) {
+    const content = fs.readFileSync(file, 'utf-8')
+    for (const read of readsIn(ts, file, content)) {
+      if (!ENV_NAME.test(read.name)) continue
+      const existing = usages.get(read.name)
+      if (existing) {
+        if (read.hasDefault) existing.hasDefault = true
+        continue
+      }
+      usages.set(read.name, {
+        name: read.name,
+        file: path.relative(skillPath, file).split(path.sep).join('/'),
+        ...positionAt(content, read.index),
+        snippet: read.snippet,
+        hasDefault: read.hasDefault,
+      })
+    }
+  }
+  return Array.from(usages.values())
+}
+
+function readsIn(ts: typeof TS | undefined, file: string, content: string): EnvRead[] {
+  if (ts) return listEnvReads(ts, file, content)
+
+  const reads: EnvRead[] = []
+  for (const match of content.matchAll(USAGE_PATTERN)) {
+    const after = content.slice(match.index! + match[0].length).trimStart()
+    reads.push({ name: match[1] ?? match[2], index: match.index!, snippet: match[0], hasDefault: /^(\|\||\?\?)/.test(after) })
+  }
+  for (const match of content.matchAll(DESTRUCTURING_PATTERN)) {
+    // `{ A, B: b, C = 'c' }`: one read per property
+    let offset = match.index! + match[0].indexOf('{') + 1
+    for (const property of match[1].split(',')) {
+      const index = offset + property.length - property.trimStart().length
+      offset += property.length + 1
+      const text = property.trim()
+      const name = text.match(/^['"]?(\w+)/)?.[1]
+      if (!name || text.startsWith('...')) continue
+      reads.push({ name, index, snippet: text, hasDefault: text.includes('=') })
+    }
+  }
+  return reads.sort((a, b) => a.index - b.index)
+}
+
+/**
+ * Rows of the "Environment Variables" table in SKILL.md (outside code
+ * blocks). Undefined when SKILL.md has no such table.
+ */
+export function readEnvTable(content: string): EnvTableRow[] | undefined {
+  const tables = parseMarkdown(content).filter(
+    (block) => block.type === 'table' && /environment variables/i.test(block.section[block.section.length - 1] ?? '')
+  )
+  if (tables.length === 0) return undefined
+
+  const rows: EnvTableRow[] = []
+  for (const table of tables) {
+    const header = tableCells(table.lines[0]).map((cell) => cell.text.toLowerCase())
+    const column = (name: string) => header.findIndex((text) => text.includes(name))
+    const [nameColumn, requiredColumn, sensitiveColumn] = [column('variable'), column('required'), column('sensitive')]
+    const yes = (text: string | undefined) => (text === undefined ? undefined : /\byes\b|✅|🔐/i.test(text))
+
+    table.lines.slice(2).forEach((row, offset) => {
+      const cells = tableCells(row).map((cell) => cell.text)
+      const name = cells[Math.max(nameColumn, 0)]?.replace(/`/g, '').trim()
+      if (!name) return
+      rows.push({
+        name,
+        line: table.startLine + 2 + offset,
+        ...(requiredColumn === -1 ? {} : { required: yes(cells[requiredColumn]) }),
+        ...(sensitiveColumn === -1 ? {} : { sensitive: yes(cells[sensitiveColumn]) }),
+      })
+    })
+  }
+  return rows
+}
+
+/**
+ * Cross-check a parsed schema with code usages and the SKILL.md table.
+ * Without a table, variables mentioned anywhere in SKILL.md count as documented.
+ */
+export function crossCheckEnv(
+  schema: EnvSchema,
+  usages: EnvUsage[],
+  skillMdContent: string
+): EnvCheckIssue[] {
+  const issues: EnvCheckIssue[] = []
+  const declared = new Map(schema.entries.map((entry) => [entry.name, entry]))
+  const used = new Set(usages.map((usage) => usage.name))
+  const table = readEnvTable(skillMdContent)
+  const rows = new Map((table ?? []).map((row) => [row.name, row]))
+  const at = (entry: EnvSchemaEntry) => ({ name: entry.name, file: ENV_SCHEMA_FILE, line: entry.line, column: 1 })
+
+  for (const usage of usages) {
+    if (!declared.has(usage.name)) {
+      issues.push({
+        kind: 'undeclared',
+        name: usage.name,
+        message: `${usage.name} is used in ${usage.file} but not declared in ${ENV_SCHEMA_FILE}`,
+        file: usage.file,
+        line: usage.line,
+        column: usage.column,
+      })
+    }
+  }
+
+  for (const entry of schema.entries) {
+    if (!used.has(entry.name)) {
+      issues.push({ kind: 'unused', message: `${entry.name} is declared but never read from process.env`, ...at(entry) })
+    }
+
+    const row = rows.get(entry.name)
+    const documented = table ? row !== undefined : skillMdContent.includes(entry.name)
+    if (!documented) {
+      issues.push({
+        kind: 'undocumented',
+        message: `${entry.name} is not listed in the "Environment Variables" table in SKILL.md`,
+        ...at(entry),
+      })
+    }
+
+    if (isSensitiveName(entry.name) && !entry.sensitive) {
+      issues.push({ kind: 'sensitive', message: `${entry.name} looks like a credential but is not marked @sensitive`, ...at(entry) })
+    }
+
+    if (row?.sensitive !== undefined && row.sensitive !== entry.sensitive) {
+      issues.push({
+        kind: 'table-mismatch',
+        message: `SKILL.md lists ${entry.name} as ${row.sensitive ? '' : 'not '}sensitive, ${ENV_SCHEMA_FILE} ${entry.sensitive ? 'marks it' : 'does not mark it'} @sensitive`,
+        ...at(entry),
+      })
+    }
+    if (row?.required !== undefined && row.required !== entry.required) {
+      issues.push({
+        kind: 'table-mismatch',
+        message: `SKILL.md lists ${entry.name} as ${row.required ? '' : 'not '}required, ${ENV_SCHEMA_FILE} ${entry.required ? 'marks it' : 'does not mark it'} @required`,
+        ...at(entry),
+      })
+    }
+  }
+
+  return issues
+}
+
+/** A variable to add to a schema; `example` is a value to show in a comment */
+export interface NewEnvSchemaEntry {
+  name: string
+  required: boolean
+  sensitive: boolean
+  example?: string
+}
+
+/**
+ * One schema entry: an optional `# Example: "value"` line, then
+ * `# @type=string @required @sensitive` and `NAME=`
+ */
+export function formatEnvSchemaEntry(entry: NewEnvSchemaEntry): string {
+  const annotations = ['@type=string', entry.required ? '@required' : '@optional', ...(entry.sensitive ? ['@sensitive'] : [])]
+  const example = entry.example === undefined ? '' : `# Example: ${JSON.stringify(entry.example)}\n`
+  return `${example}# ${annotations.join(' ')}\n${entry.name}=\n`
+}
+
+/**
+ * Append entries for variables the schema does not define yet
+ */
+export function appendEnvSchemaEntries(content: string, entries: NewEnvSchemaEntry[]): string {
+  const defined = new Set(parseEnvSchema(content).entries.map((entry) => entry.name))
+  const missing = entries.filter((entry) => !defined.has(entry.name))
+  if (missing.length === 0) return content
+
+  const base = content === '' ? '# .env.schema - Commit this file\n' : content.replace(/\n*$/, '\n')
+  return `${base}\n${missing.map(formatEnvSchemaEntry).join('\n')}`
+}
+
+/**
+ * Starter schema entries for the variables a skill reads: required unless the
+ * code has a fallback, sensitive when the name looks like a credential
+ */
+export function starterEnvSchemaEntries(usages: EnvUsage[]): NewEnvSchemaEntry[] {
+  return usages
+    .map((usage) => ({ name: usage.name, required: !usage.hasDefault, sensitive: isSensitiveName(usage.name) }))
+    .sort((a, b) => Number(b.sensitive) - Number(a.sensitive) || a.name.localeCompare(b.name))
+}
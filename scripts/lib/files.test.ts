@@ -0,0 +1,34 @@
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { expandGlob, listSkillFiles } from './files'
+
+describe('listSkillFiles with symlinks', () => {
+  let skillPath: string
+
+  beforeEach(() => {
+    skillPath = fs.mkdtempSync(path.join(os.tmpdir(), 'files-test-'))
+    fs.mkdirSync(path.join(skillPath, 'references'))
+    fs.writeFileSync(path.join(skillPath, 'SKILL.md'), '# Skill\n')
+    fs.writeFileSync(path.join(skillPath, 'references', 'guide.md'), '# Guide\n')
+  })
+
+  afterEach(() => fs.rmSync(skillPath, { recursive: true, force: true }))
+
+  it('skips broken symlinks', () => {
+    fs.symlinkSync(path.join(skillPath, 'missing.md'), path.join(skillPath, 'references', 'broken.md'))
+
+    const files = listSkillFiles(skillPath, ['.md']).map((file) => path.relative(skillPath, file))
+    assert.deepEqual(files, ['SKILL.md', path.join('references', 'guide.md')])
+  })
+
+  it('walks a symlink loop once', () => {
+    fs.symlinkSync(skillPath, path.join(skillPath, 'references', 'loop'))
+
+    const files = listSkillFiles(skillPath, ['.md']).map((file) => path.relative(skillPath, file))
+    assert.deepEqual(files, ['SKILL.md', path.join('references', 'guide.md')])
+    assert.ok(expandGlob(path.join(skillPath, '**', '*.md')).length > 0)
+  })
+})
@@ -0,0 +1,159 @@
+/**
+ * Skill File Discovery
+ */
+
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+
+// Directories never scanned inside a skill
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git'])
+
+/**
+ * Stats of a path, following symlinks. Undefined for broken symlinks and
+ * paths that cannot be read.
+ */
+export function statPath(fullPath: string): fs.Stats | undefined {
+  try {
+    return fs.statSync(fullPath)
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Entries of a directory, sorted; empty when it cannot be read
+ */
+export function readDirectory(dir: string): string[] {
+  try {
+    return fs.readdirSync(dir).sort()
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Tracks directories already walked by their real path, so symlink loops
+ * and directories linked twice are only walked once
+ */
+export function visitOnce(): (dir: string) => boolean {
+  const visited = new Set<string>()
+  return (dir) => {
+    let real: string
+    try {
+      real = fs.realpathSync(dir)
+    } catch {
+      return false
+    }
+    if (visited.has(real)) return false
+    visited.add(real)
+    return true
+  }
+}
+
+/**
+ * List files under a skill directory with one of the given extensions,
+ * as absolute paths in a stable order. Symlinks are followed; broken ones
+ * are skipped.
+ */
+export function listSkillFiles(skillPath: string, extensions: string[]): string[] {
+  const files: string[] = []
+  const firstVisit = visitOnce()
+
+  function walk(dirPath: string) {
+    if (!firstVisit(dirPath)) return
+    for (const item of readDirectory(dirPath)) {
+      const fullPath = path.join(dirPath, item)
+      const stat = statPath(fullPath)
+      if (!stat) continue
+      if (stat.isDirectory()) {
+        if (!IGNORED_DIRECTORIES.has(item)) walk(fullPath)
+      } else if (extensions.some((ext) => item.endsWith(ext))) {
+        files.push(fullPath)
+      }
+    }
+  }
+
+  walk(skillPath)
+  return files
+}
+
+/**
+ * Convert a skill name ("Skill Builder", "my-skill") to an environment
+ * variable prefix ("SKILL_BUILDER", "MY_SKILL").
+ */
+export function toEnvName(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .toUpperCase()
+}
+
+/**
+ * Whether a path contains glob characters (*, ? or [...])
+ */
+export function isGlob(pattern: string): boolean {
+  return /[*?[]/.test(pattern)
+}
+
+/**
+ * Expand a glob against the filesystem. Supports `*`, `?`, `[...]` within a
+ * path segment, `**` for any number of directories, and a leading `~`.
+ * Returns absolute paths of files and directories, sorted.
+ */
+export function expandGlob(pattern: string, cwd = process.cwd()): string[] {
+  const expanded = pattern.replace(/^~(?=$|\/)/, os.homedir())
+  const absolute = path.resolve(cwd, expanded)
+  const segments = absolute.split(path.sep).filter(Boolean)
+  const root = path.parse(absolute).root
+  const results = new Set<string>()
+  // `**` follows directory symlinks; each directory is expanded once per segment
+  const firstVisits = new Map<number, (dir: string) => boolean>()
+
+  function segmentPattern(segment: string): RegExp {
+    const source = segment
+      .replace(/[.+^${}()|\\]/g, '\\$&')
+      .replace(/\*/g, '[^/]*')
+      .replace(/\?/g, '[^/]')
+    return new RegExp(`^${source}$`)
+  }
+
+  function walk(dir: string, index: number) {
+    if (index === segments.length) {
+      results.add(dir)
+      return
+    }
+    const segment = segments[index]
+
+    if (segment === '**') {
+      if (!firstVisits.has(index)) firstVisits.set(index, visitOnce())
+      if (!firstVisits.get(index)!(dir)) return
+      walk(dir, index + 1)
+      for (const item of readDirectory(dir)) {
+        const fullPath = path.join(dir, item)
+        if (!IGNORED_DIRECTORIES.has(item) && isDirectory(fullPath)) walk(fullPath, index)
+      }
+      return
+    }
+
+    if (!isGlob(segment)) {
+      const fullPath = path.join(dir, segment)
+      if (fs.existsSync(fullPath)) walk(fullPath, index + 1)
+      return
+    }
+
+    const matcher = segmentPattern(segment)
+    for (const item of readDirectory(dir)) {
+      if (item.startsWith('.') && !segment.startsWith('.')) continue
+      if (matcher.test(item)) walk(path.join(dir, item), index + 1)
+    }
+  }
+
+  walk(root, 0)
+  return Array.from(results).sort()
+}
+
+function isDirectory(fullPath: string): boolean {
+  return statPath(fullPath)?.isDirectory() ?? false
+}
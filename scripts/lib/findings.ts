@@ -0,0 +1,119 @@
+/**
+ * Validation Findings
+ *
+ * Structured results shared by the validator and its reporters. Every finding
+ * carries a rule ID, severity, file, position and the matched snippet so
+ * results can be annotated in CI and diffed between runs.
+ */
+
+import { createHash } from 'crypto'
+import type { SourcePosition } from './frontmatter'
+import type { BlockRef } from './scan'
+
+export type Severity = 'error' | 'warning'
+
+export interface Finding {
+  ruleId: string
+  severity: Severity
+  message: string
+  /** Path relative to the skill root, using forward slashes */
+  file: string
+  line: number
+  column: number
+  /** Column just past the reported code, when known */
+  endColumn?: number
+  snippet: string
+  fixHint?: string
+  /** Markdown block the finding was made in */
+  block?: BlockRef
+}
+
+export interface ValidationResult {
+  passed: boolean
+  findings: Finding[]
+}
+
+export function createResult(): ValidationResult {
+  return { passed: true, findings: [] }
+}
+
+export function addFinding(result: ValidationResult, finding: Finding): void {
+  if (finding.severity === 'error') {
+    result.passed = false
+  }
+  result.findings.push({ ...finding, file: finding.file.split('\\').join('/') })
+}
+
+/**
+ * Combine results into one, ordered by file, position and rule so that
+ * output is stable across runs.
+ */
+export function mergeResults(...results: ValidationResult[]): ValidationResult {
+  const findings = results.flatMap((r) => r.findings)
+  findings.sort(
+    (a, b) =>
+      a.file.localeCompare(b.file) ||
+      a.line - b.line ||
+      a.column - b.column ||
+      a.ruleId.localeCompare(b.ruleId)
+  )
+  return { passed: results.every((r) => r.passed), findings }
+}
+
+export function countBySeverity(findings: Finding[]): { errors: number; warnings: number } {
+  return {
+    errors: findings.filter((f) => f.severity === 'error').length,
+    warnings: findings.filter((f) => f.severity === 'warning').length,
+  }
+}
+
+/**
+ * Stable identifier for a finding that survives unrelated line shifts.
+ * `occurrence` tells apart findings of the same rule on identical snippets in
+ * one file (see fingerprints).
+ */
+export function fingerprint(finding: Finding, occurrence = 0): string {
+  const key = `${finding.ruleId}\0${finding.file}\0${finding.snippet.trim()}`
+  return createHash('sha256')
+    .update(occurrence === 0 ? key : `${key}\0${occurrence}`)
+    .digest('hex')
+    .slice(0, 16)
+}
+
+/**
+ * Fingerprints of a set of findings, in the same order. Findings that would
+ * collide are numbered in file order, so each keeps its own identifier.
+ */
+export function fingerprints(findings: Finding[]): string[] {
+  const order = findings.map((finding, index) => ({ finding, index }))
+  order.sort((a, b) => a.finding.line - b.finding.line || a.finding.column - b.finding.column || a.index - b.index)
+
+  const seen = new Map<string, number>()
+  const result: string[] = new Array(findings.length)
+  for (const { finding, index } of order) {
+    const base = fingerprint(finding)
+    const occurrence = seen.get(base) ?? 0
+    seen.set(base, occurrence + 1)
+    result[index] = fingerprint(finding, occurrence)
+  }
+  return result
+}
+
+/**
+ * Convert a character offset into a 1-based line and column
+ */
+export function positionAt(content: string, index: number): SourcePosition {
+  const before = content.slice(0, index)
+  const lineStart = before.lastIndexOf('\n') + 1
+  return {
+    line: before.split('\n').length,
+    column: index - lineStart + 1,
+  }
+}
+
+/**
+ * Text of a 1-based line, trimmed
+ */
+export function lineText(content: string, line: number): string {
+  return (content.split('\n')[line - 1] ?? '').trim()
+}
@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  FrontmatterError,
+  getString,
+  parseFrontmatter,
+  quoteFrontmatterFields,
+  validateFrontmatter,
+} from './frontmatter'
+
+const parseError = (content: string) => {
+  try {
+    parseFrontmatter(content)
+  } catch (error) {
+    if (error instanceof FrontmatterError) return `${error.line}:${error.column} ${error.reason}`
+    throw error
+  }
+  assert.fail('expected a FrontmatterError')
+}
+
+describe('parseFrontmatter', () => {
+  it('reads nested mappings, sequences and block scalars with their positions', () => {
+    const frontmatter = parseFrontmatter(
+      [
+        '---',
+        'name: notes',
+        'description: >',
+        '  Tidies release',
+        '  notes.',
+        'allowed-tools: [Read, "Edit"]',
+        'triggers:',
+        '  keywords:',
+        '    - tidy notes',
+        "    - 'clean up: changelog'",
+        'subagent:',
+        '  return-tokens: 500',
+        'user-invocable: false',
+        '---',
+        '',
+        '# Notes',
+      ].join('\n')
+    )
+
+    assert.deepEqual(frontmatter.data, {
+      name: 'notes',
+      description: 'Tidies release notes.\n',
+      'allowed-tools': ['Read', 'Edit'],
+      triggers: { keywords: ['tidy notes', 'clean up: changelog'] },
+      subagent: { 'return-tokens': 500 },
+      'user-invocable': false,
+    })
+    assert.deepEqual(frontmatter.positions.get('triggers.keywords[1]'), { line: 10, column: 5 })
+    assert.equal(frontmatter.endLine, 14)
+    assert.equal(frontmatter.bodyStartLine, 15)
+  })
+
+  it('reports where the YAML is malformed', () => {
+    assert.equal(parseError('# Notes\n'), '1:1 SKILL.md missing YAML frontmatter')
+    assert.equal(parseError('---\nname: notes\n'), '1:1 Frontmatter is not closed with "---"')
+    assert.equal(parseError('---\nname: notes\nname: other\n---\n'), '3:1 Duplicate key "name"')
+    assert.equal(parseError('---\nname: notes\n\tdescription: x\n---\n'), '3:1 Tabs are not allowed for indentation')
+    assert.equal(parseError('---\nname: "notes\n---\n'), '2:7 Unterminated double-quoted string')
+    assert.match(parseError('---\ndescription: Tidies notes: fast\n---\n'), /^2:26 Plain value contains ": "/)
+  })
+})
+
+describe('validateFrontmatter', () => {
+  it('reports missing fields and wrong types as errors and unknown keys as warnings', () => {
+    const frontmatter = parseFrontmatter('---\nname: notes\nuser-invocable: sometimes\nowner: docs\n---\n')
+
+    assert.deepEqual(
+      validateFrontmatter(frontmatter).map((issue) => `${issue.severity} ${issue.line}:${issue.column} ${issue.path}`),
+      ['error 1:1 description', 'error 3:1 user-invocable', 'warning 4:1 owner']
+    )
+  })
+
+  it('accepts a comma-separated string for list fields', () => {
+    const frontmatter = parseFrontmatter('---\nname: notes\ndescription: Tidies notes\nallowed-tools: Read, Edit\n---\n')
+    assert.deepEqual(validateFrontmatter(frontmatter), [])
+  })
+})
+
+describe('quoteFrontmatterFields', () => {
+  it('keeps descriptions containing ": " parseable', () => {
+    const description = 'Tidies release notes. Note: works offline. Use when "tidy notes".'
+    const content = quoteFrontmatterFields(`---\nname: notes\ndescription: ${description}\n---\n\n# Notes\n`, ['name', 'description'])
+
+    assert.equal(getString(parseFrontmatter(content).data, 'description'), description)
+  })
+
+  it('leaves plain values unquoted', () => {
+    const content = quoteFrontmatterFields('---\nname: notes\ndescription: Tidies notes\n---\n', ['name', 'description'])
+    assert.equal(content, '---\nname: notes\ndescription: Tidies notes\n---\n')
+  })
+})
@@ -0,0 +1,652 @@
+/**
+ * SKILL.md Frontmatter Parser
+ *
+ * Parses the YAML frontmatter block at the top of a SKILL.md file and checks
+ * it against a declared schema. Supports the YAML subset used by skills:
+ * nested mappings, block and flow sequences, quoted and plain scalars, and
+ * folded (>) / literal (|) block scalars.
+ *
+ * All line and column numbers are 1-based and relative to the whole file.
+ */
+
+export type YamlValue = string | number | boolean | null | YamlValue[] | YamlMapping
+
+export interface YamlMapping {
+  [key: string]: YamlValue
+}
+
+export interface SourcePosition {
+  line: number
+  column: number
+}
+
+export interface Frontmatter {
+  data: YamlMapping
+  /** Position of every key and sequence item, keyed by path (e.g. `triggers.keywords[0]`) */
+  positions: Map<string, SourcePosition>
+  /** Line of the opening `---` */
+  startLine: number
+  /** Line of the closing `---` */
+  endLine: number
+  body: string
+  bodyStartLine: number
+}
+
+export class FrontmatterError extends Error {
+  constructor(
+    readonly reason: string,
+    readonly line: number,
+    readonly column: number
+  ) {
+    super(`${reason} (line ${line}, column ${column})`)
+    this.name = 'FrontmatterError'
+  }
+}
+
+interface SourceLine {
+  /** 1-based line number in the original file */
+  number: number
+  indent: number
+  text: string
+  /** Offset added to column numbers when a line is re-read at a deeper indent */
+  columnOffset: number
+}
+
+// Matches a mapping key (plain or quoted) followed by a colon
+const KEY_PATTERN = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#'"\-[\]{},][^:#]*?|-[^\s:#][^:#]*?)\s*:(?=\s|$)(.*)$/
+
+/**
+ * Split SKILL.md content into its frontmatter source and body.
+ * Returns null when the file does not start with a `---` fence.
+ */
+export function extractFrontmatter(
+  content: string
+): { source: string; startLine: number; endLine: number; body: string; bodyStartLine: number } | null {
+  const lines = content.replace(/\r\n/g, '\n').split('\n')
+  if (lines[0]?.trimEnd() !== '---') return null
+
+  for (let i = 1; i < lines.length; i++) {
+    if (/^(---|\.\.\.)\s*$/.test(lines[i])) {
+      return {
+        source: lines.slice(1, i).join('\n'),
+        startLine: 1,
+        endLine: i + 1,
+        body: lines.slice(i + 1).join('\n'),
+        bodyStartLine: i + 2,
+      }
+    }
+  }
+
+  throw new FrontmatterError('Frontmatter is not closed with "---"', 1, 1)
+}
+
+/**
+ * Parse SKILL.md content and return its frontmatter.
+ * Throws FrontmatterError for missing or malformed YAML.
+ */
+export function parseFrontmatter(content: string): Frontmatter {
+  const extracted = extractFrontmatter(content)
+  if (!extracted) {
+    throw new FrontmatterError('SKILL.md missing YAML frontmatter', 1, 1)
+  }
+
+  const { data, positions } = parseYaml(extracted.source, extracted.startLine)
+
+  return {
+    data,
+    positions,
+    startLine: extracted.startLine,
+    endLine: extracted.endLine,
+    body: extracted.body,
+    bodyStartLine: extracted.bodyStartLine,
+  }
+}
+
+/**
+ * Parse a YAML document whose root is a mapping.
+ * `lineOffset` is the number of file lines preceding the source.
+ */
+export function parseYaml(
+  source: string,
+  lineOffset = 0
+): { data: YamlMapping; positions: Map<string, SourcePosition> } {
+  const parser = new YamlParser(source, lineOffset)
+  return parser.parseDocument()
+}
+
+class YamlParser {
+  private readonly lines: SourceLine[]
+  private index = 0
+  readonly positions = new Map<string, SourcePosition>()
+
+  constructor(source: string, lineOffset: number) {
+    this.lines = source.split('\n').map((raw, i) => {
+      const number = lineOffset + i + 1
+      const leading = raw.match(/^[ \t]*/)![0]
+      if (leading.includes('\t') && raw.trim() !== '') {
+        throw new FrontmatterError('Tabs are not allowed for indentation', number, leading.indexOf('\t') + 1)
+      }
+      return { number, indent: leading.length, text: raw.slice(leading.length).trimEnd(), columnOffset: 0 }
+    })
+  }
+
+  parseDocument(): { data: YamlMapping; positions: Map<string, SourcePosition> } {
+    const first = this.peek()
+    if (!first) return { data: {}, positions: this.positions }
+
+    if (first.indent !== 0) {
+      throw this.error(first, 'Frontmatter must not be indented', 1)
+    }
+    if (this.isSequenceItem(first)) {
+      throw this.error(first, 'Frontmatter must be a mapping of keys to values', 1)
+    }
+
+    const data = this.parseMapping(0, '')
+    const rest = this.peek()
+    if (rest) {
+      throw this.error(rest, 'Unexpected content; check indentation', 1)
+    }
+    return { data, positions: this.positions }
+  }
+
+  /** Next line that is neither blank nor a comment */
+  private peek(): SourceLine | undefined {
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index]
+      if (line.text !== '' && !line.text.startsWith('#')) return line
+      this.index++
+    }
+    return undefined
+  }
+
+  private isSequenceItem(line: SourceLine): boolean {
+    return line.text === '-' || line.text.startsWith('- ')
+  }
+
+  private column(line: SourceLine, offset: number): number {
+    return line.columnOffset + line.indent + offset
+  }
+
+  private error(line: SourceLine, message: string, offset: number): FrontmatterError {
+    return new FrontmatterError(message, line.number, this.column(line, offset))
+  }
+
+  private parseBlock(indent: number, path: string): YamlValue {
+    const line = this.peek()!
+    return this.isSequenceItem(line) ? this.parseSequence(line.indent, path) : this.parseMapping(indent, path)
+  }
+
+  private parseMapping(indent: number, path: string): YamlMapping {
+    const mapping: YamlMapping = {}
+
+    for (let line = this.peek(); line && line.indent === indent; line = this.peek()) {
+      if (this.isSequenceItem(line)) {
+        throw this.error(line, 'Unexpected sequence item inside a mapping', 1)
+      }
+
+      const match = line.text.match(KEY_PATTERN)
+      if (!match) {
+        throw this.error(line, 'Expected a "key: value" entry', 1)
+      }
+
+      const key = unquoteKey(match[1])
+      const keyPath = path ? `${path}.${key}` : key
+      if (Object.prototype.hasOwnProperty.call(mapping, key)) {
+        throw this.error(line, `Duplicate key "${key}"`, 1)
+      }
+      this.positions.set(keyPath, { line: line.number, column: this.column(line, 1) })
+
+      const valueText = match[2].trim()
+      const valueOffset = match[0].length - match[2].length + (match[2].length - match[2].trimStart().length) + 1
+      this.index++
+      mapping[key] = this.parseValue(line, indent, valueText, valueOffset, keyPath)
+    }
+
+    const next = this.peek()
+    if (next && next.indent > indent) {
+      throw this.error(next, 'Unexpected indentation', 1)
+    }
+    return mapping
+  }
+
+  private parseSequence(indent: number, path: string): YamlValue[] {
+    const items: YamlValue[] = []
+
+    for (let line = this.peek(); line && line.indent === indent && this.isSequenceItem(line); line = this.peek()) {
+      const itemPath = `${path}[${items.length}]`
+      this.positions.set(itemPath, { line: line.number, column: this.column(line, 1) })
+
+      const rest = line.text.slice(1)
+      const valueText = rest.trim()
+      const valueOffset = 1 + (rest.length - rest.trimStart().length) + 1
+
+      if (valueText !== '' && !valueText.startsWith('#') && KEY_PATTERN.test(valueText) && !/^["'[{]/.test(valueText)) {
+        // "- key: value" starts a mapping nested at the item's content column
+        const nestedIndent = indent + valueOffset - 1
+        this.lines[this.index] = {
+          number: line.number,
+          indent: nestedIndent,
+          text: valueText,
+          columnOffset: line.columnOffset,
+        }
+        items.push(this.parseMapping(nestedIndent, itemPath))
+        continue
+      }
+
+      this.index++
+      items.push(this.parseValue(line, indent, valueText, valueOffset, itemPath))
+    }
+
+    const next = this.peek()
+    if (next && next.indent > indent) {
+      throw this.error(next, 'Unexpected indentation', 1)
+    }
+    return items
+  }
+
+  /** Parse the value following a key or sequence dash on `line` */
+  private parseValue(line: SourceLine, indent: number, text: string, offset: number, path: string): YamlValue {
+    if (/^[|>]/.test(text)) {
+      return this.parseBlockScalar(line, indent, text, offset)
+    }
+
+    if (text === '' || text.startsWith('#')) {
+      const next = this.peek()
+      if (next && (next.indent > indent || (next.indent === indent && this.isSequenceItem(next) && !path.endsWith(']')))) {
+        return this.parseBlock(next.indent, path)
+      }
+      return null
+    }
+
+    // Plain and quoted scalars may continue on more-indented lines
+    let combined = text
+    for (let next = this.peek(); next && next.indent > indent; next = this.peek()) {
+      if (KEY_PATTERN.test(next.text) && !/^["']/.test(text)) {
+        throw this.error(next, 'Unexpected mapping entry; check indentation', 1)
+      }
+      combined += ' ' + next.text
+      this.index++
+    }
+
+    return parseInlineScalar(combined, line, this.column(line, offset))
+  }
+
+  private parseBlockScalar(line: SourceLine, indent: number, header: string, offset: number): string {
+    const headerMatch = header.match(/^([|>])([+-]?)([1-9]?)([+-]?)\s*(#.*)?$/)
+    if (!headerMatch) {
+      throw this.error(line, `Invalid block scalar header "${header}"`, offset)
+    }
+    const folded = headerMatch[1] === '>'
+    const chomping = headerMatch[2] || headerMatch[4]
+    let contentIndent = headerMatch[3] ? indent + Number(headerMatch[3]) : -1
+
+    // Block scalar content is read raw: comments and blank lines are content
+    const raw: SourceLine[] = []
+    while (this.index < this.lines.length) {
+      const next = this.lines[this.index]
+      if (next.text !== '') {
+        if (next.indent <= indent) break
+        if (contentIndent === -1) contentIndent = next.indent
+        if (next.indent < contentIndent) {
+          throw this.error(next, 'Block scalar line is less indented than the first line', 1)
+        }
+      }
+      raw.push(next)
+      this.index++
+    }
+
+    const contentLines = raw.map((l) => (l.text === '' ? '' : ' '.repeat(l.indent - contentIndent) + l.text))
+    let trailingBlank = 0
+    while (contentLines.length > 0 && contentLines[contentLines.length - 1] === '') {
+      contentLines.pop()
+      trailingBlank++
+    }
+
+    let value = folded ? foldLines(contentLines) : contentLines.join('\n')
+    if (contentLines.length > 0) {
+      if (chomping === '+') value += '\n'.repeat(trailingBlank + 1)
+      else if (chomping !== '-') value += '\n'
+    }
+    return value
+  }
+}
+
+/**
+ * Fold block scalar lines: single line breaks become spaces, blank lines
+ * become line breaks, and more-indented lines keep their breaks.
+ */
+function foldLines(lines: string[]): string {
+  let result = ''
+  let previous: string | undefined
+  let blanks = 0
+
+  for (const line of lines) {
+    if (line === '') {
+      blanks++
+      continue
+    }
+    const moreIndented = line.startsWith(' ') || (previous?.startsWith(' ') ?? false)
+    if (previous === undefined) {
+      result = '\n'.repeat(blanks)
+    } else if (blanks === 0) {
+      result += moreIndented ? '\n' : ' '
+    } else {
+      result += '\n'.repeat(moreIndented ? blanks + 1 : blanks)
+    }
+    result += line
+    previous = line
+    blanks = 0
+  }
+  return result
+}
+
+function unquoteKey(key: string): string {
+  if (key.startsWith('"')) return JSON.parse(key)
+  if (key.startsWith("'")) return key.slice(1, -1).replace(/''/g, "'")
+  return key.trim()
+}
+
+/** Remove a trailing ` # comment` that is outside quotes */
+function stripComment(text: string): string {
+  let quote: string | null = null
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (quote) {
+      if (ch === '\\' && quote === '"') i++
+      else if (ch === quote) quote = null
+    } else if (ch === '"' || ch === "'") {
+      quote = ch
+    } else if (ch === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd()
+    }
+  }
+  return text
+}
+
+function parseInlineScalar(text: string, line: SourceLine, column: number): YamlValue {
+  const value = stripComment(text)
+
+  if (value.startsWith('"')) {
+    const end = findClosingQuote(value, '"')
+    if (end === -1) throw new FrontmatterError('Unterminated double-quoted string', line.number, column)
+    assertNothingAfter(value, end, line, column)
+    try {
+      return JSON.parse(value.slice(0, end + 1).replace(/\t/g, '\\t'))
+    } catch {
+      throw new FrontmatterError('Invalid escape sequence in double-quoted string', line.number, column)
+    }
+  }
+
+  if (value.startsWith("'")) {
+    const end = findClosingQuote(value, "'")
+    if (end === -1) throw new FrontmatterError('Unterminated single-quoted string', line.number, column)
+    assertNothingAfter(value, end, line, column)
+    return value.slice(1, end).replace(/''/g, "'")
+  }
+
+  if (value.startsWith('[')) {
+    if (!value.endsWith(']')) throw new FrontmatterError('Unterminated flow sequence', line.number, column)
+    return splitFlowItems(value.slice(1, -1)).map((item) => parseInlineScalar(item, line, column))
+  }
+
+  if (value.startsWith('{{')) {
+    throw new FrontmatterError(`Template placeholder "${value}" has not been replaced`, line.number, column)
+  }
+
+  if (value.startsWith('{')) {
+    throw new FrontmatterError('Flow mappings are not supported; use an indented block instead', line.number, column)
+  }
+
+  if (/^[@`]/.test(value)) {
+    throw new FrontmatterError(`Plain value cannot start with "${value[0]}"; quote it`, line.number, column)
+  }
+
+  const colon = value.search(/:\s/)
+  if (colon !== -1) {
+    throw new FrontmatterError(
+      'Plain value contains ": " which YAML reads as a nested mapping; quote the value or use a block scalar (>)',
+      line.number,
+      column + colon
+    )
+  }
+
+  return resolvePlainScalar(value)
+}
+
+function findClosingQuote(text: string, quote: string): number {
+  for (let i = 1; i < text.length; i++) {
+    if (quote === '"' && text[i] === '\\') {
+      i++
+    } else if (text[i] === quote) {
+      if (quote === "'" && text[i + 1] === "'") {
+        i++
+      } else {
+        return i
+      }
+    }
+  }
+  return -1
+}
+
+function assertNothingAfter(text: string, end: number, line: SourceLine, column: number): void {
+  if (text.slice(end + 1).trim() !== '') {
+    throw new FrontmatterError('Unexpected characters after quoted string', line.number, column + end + 1)
+  }
+}
+
+function splitFlowItems(text: string): string[] {
+  const items: string[] = []
+  let current = ''
+  let quote: string | null = null
+  for (const ch of text) {
+    if (quote) {
+      if (ch === quote) quote = null
+    } else if (ch === '"' || ch === "'") {
+      quote = ch
+    } else if (ch === ',') {
+      items.push(current.trim())
+      current = ''
+      continue
+    }
+    current += ch
+  }
+  if (current.trim() !== '') items.push(current.trim())
+  return items
+}
+
+function resolvePlainScalar(value: string): YamlValue {
+  if (/^(true|True|TRUE)$/.test(value)) return true
+  if (/^(false|False|FALSE)$/.test(value)) return false
+  if (/^(null|Null|NULL|~)$/.test(value)) return null
+  if (/^[-+]?\d+$/.test(value)) return Number(value)
+  if (/^[-+]?(\d+\.\d*|\.\d+)([eE][-+]?\d+)?$/.test(value)) return Number(value)
+  return value
+}
+
+// ============================================================================
+// Schema validation
+// ============================================================================
+
+export type FieldType = 'string' | 'number' | 'boolean' | 'list' | 'object'
+
+export interface FieldSchema {
+  type: FieldType
+  required?: boolean
+  /** Nested fields for `object` types */
+  properties?: Record<string, FieldSchema>
+  /** Accept keys not listed in `properties` */
+  allowUnknownKeys?: boolean
+}
+
+export interface SchemaIssue {
+  kind: 'required' | 'type' | 'unknown-key'
+  severity: 'error' | 'warning'
+  path: string
+  message: string
+  line: number
+  column: number
+}
+
+const STRING_LIST: FieldSchema = { type: 'list' }
+
+/**
+ * Frontmatter fields recognised in SKILL.md.
+ * `list` fields accept a YAML sequence or a comma-separated string.
+ */
+export const SKILL_FRONTMATTER_SCHEMA: Record<string, FieldSchema> = {
+  name: { type: 'string', required: true },
+  description: { type: 'string', required: true },
+  version: { type: 'string' },
+  license: { type: 'string' },
+  'allowed-tools': STRING_LIST,
+  model: { type: 'string' },
+  'argument-hint': { type: 'string' },
+  'disable-model-invocation': { type: 'boolean' },
+  'user-invocable': { type: 'boolean' },
+  classification: { type: 'string' },
+  metadata: { type: 'object', allowUnknownKeys: true },
+  triggers: {
+    type: 'object',
+    properties: {
+      keywords: STRING_LIST,
+      paths: STRING_LIST,
+      explicit: STRING_LIST,
+    },
+  },
+  subagent: {
+    type: 'object',
+    properties: {
+      model: { type: 'string' },
+      'return-tokens': { type: 'number' },
+      'output-format': { type: 'object', allowUnknownKeys: true },
+    },
+  },
+}
+
+/**
+ * Check parsed frontmatter against a schema.
+ * Missing required fields and wrong types are errors; unknown keys are warnings.
+ */
+export function validateFrontmatter(
+  frontmatter: Frontmatter,
+  schema: Record<string, FieldSchema> = SKILL_FRONTMATTER_SCHEMA
+): SchemaIssue[] {
+  const issues: SchemaIssue[] = []
+  const fallback = { line: frontmatter.startLine, column: 1 }
+
+  function check(data: YamlMapping, fields: Record<string, FieldSchema>, prefix: string, allowUnknown: boolean) {
+    const parentPosition = (prefix && frontmatter.positions.get(prefix)) || fallback
+
+    for (const [key, field] of Object.entries(fields)) {
+      const path = prefix ? `${prefix}.${key}` : key
+      const value = data[key]
+      const position = frontmatter.positions.get(path) || parentPosition
+
+      if (value === undefined || value === null || (typeof value === 'string' && value.trim() === '')) {
+        if (field.required) {
+          issues.push({
+            kind: 'required',
+            severity: 'error',
+            path,
+            message: `Frontmatter missing required "${path}" field`,
+            ...position,
+          })
+        }
+        continue
+      }
+
+      const typeError = checkType(value, field, path)
+      if (typeError) {
+        issues.push({ kind: 'type', severity: 'error', path, message: typeError, ...position })
+        continue
+      }
+
+      if (field.type === 'object' && field.properties) {
+        check(value as YamlMapping, field.properties, path, field.allowUnknownKeys ?? false)
+      }
+    }
+
+    if (!allowUnknown) {
+      for (const key of Object.keys(data)) {
+        if (fields[key]) continue
+        const path = prefix ? `${prefix}.${key}` : key
+        const position = frontmatter.positions.get(path) || parentPosition
+        const allowed = Object.keys(fields).join(', ')
+        issues.push({
+          kind: 'unknown-key',
+          severity: 'warning',
+          path,
+          message: `Unknown frontmatter field "${path}" (allowed: ${allowed})`,
+          ...position,
+        })
+      }
+    }
+  }
+
+  check(frontmatter.data, schema, '', false)
+  return issues
+}
+
+function checkType(value: YamlValue, field: FieldSchema, path: string): string | null {
+  switch (field.type) {
+    case 'string':
+      return typeof value === 'string' ? null : `Frontmatter field "${path}" must be a string (quote it)`
+    case 'number':
+      return typeof value === 'number' ? null : `Frontmatter field "${path}" must be a number`
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `Frontmatter field "${path}" must be true or false`
+    case 'list':
+      if (typeof value === 'string') return null
+      if (Array.isArray(value) && value.every((item) => typeof item === 'string')) return null
+      return `Frontmatter field "${path}" must be a list of strings`
+    case 'object':
+      return isMapping(value) ? null : `Frontmatter field "${path}" must be a mapping`
+  }
+}
+
+// ============================================================================
+// Accessors
+// ============================================================================
+
+export function isMapping(value: YamlValue | undefined): value is YamlMapping {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/** Read a string field, collapsing whitespace from folded/literal scalars */
+export function getString(data: YamlMapping, key: string): string {
+  const value = data[key]
+  if (typeof value === 'string') return value.replace(/\s+/g, ' ').trim()
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value)
+  return ''
+}
+
+/** Read a `list` field as an array of strings */
+export function getStringList(value: YamlValue | undefined): string[] {
+  if (typeof value === 'string') {
+    return value.split(',').map((item) => item.trim()).filter(Boolean)
+  }
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === 'string').map((item) => item.trim())
+  }
+  return []
+}
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+/** Quote a YAML scalar if it would not parse as a plain string */
+export function yamlScalar(value: string): string {
+  return /^[\s'"[\]{}>|*&!%@`#,?:-]|: | #|:$|\s$/.test(value) ? JSON.stringify(value) : value
+}
+
+/**
+ * Quote the values of single-line frontmatter fields rendered from templates,
+ * so text such as "Note: ..." stays a string
+ */
+export function quoteFrontmatterFields(content: string, keys: string[]): string {
+  const field = new RegExp(`^(${keys.join('|')}): (.+)$`, 'gm')
+  return content.replace(/^---\n[\s\S]*?\n---/, (frontmatter) =>
+    frontmatter.replace(field, (_line, key: string, value: string) => `${key}: ${yamlScalar(value)}`)
+  )
+}
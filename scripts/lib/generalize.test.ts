@@ -0,0 +1,155 @@
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { loadTypeScript } from './code-analysis'
+import { parseEnvSchema } from './env-schema'
+import { applyFixPlan, planGeneralizationFixes, type GeneralizeOptions } from './generalize'
+
+const typescript = loadTypeScript()
+
+const options: GeneralizeOptions = {
+  patterns: [/globex/i],
+  functionTerms: [/globex/i],
+  envPrefix: 'NOTES',
+  isSuppressed: () => false,
+  ...(typescript ? { typescript } : {}),
+}
+
+describe('planGeneralizationFixes', { skip: !typescript && 'needs the typescript package' }, () => {
+  let skillPath: string
+
+  beforeEach(() => {
+    skillPath = fs.mkdtempSync(path.join(os.tmpdir(), 'generalize-test-'))
+    fs.mkdirSync(path.join(skillPath, 'scripts'))
+    fs.writeFileSync(path.join(skillPath, 'SKILL.md'), '# Notes\n')
+  })
+
+  afterEach(() => fs.rmSync(skillPath, { recursive: true, force: true }))
+
+  const after = (file: string) => {
+    const plan = planGeneralizationFixes(skillPath, options)
+    return plan.changes.find((change) => change.file === file)?.after
+  }
+
+  it('replaces a value with a read that throws when the variable is unset', () => {
+    fs.writeFileSync(
+      path.join(skillPath, 'scripts', 'sync.ts'),
+      "import { join } from 'path'\n\nexport const team = 'globex-platform'\nexport const dir = join('a', 'b')\n"
+    )
+
+    const code = after(path.join('scripts', 'sync.ts'))!
+    assert.match(code, /export const team = requireEnv\('NOTES_TEAM', process\.env\.NOTES_TEAM\)/)
+    assert.match(code, /^import \{ join \} from 'path'\n\nfunction requireEnv\(name: string, value: string \| undefined\): string \{/)
+    assert.match(code, /if \(!value\) throw new Error/)
+    assert.doesNotMatch(code, /\?\? ''/)
+  })
+
+  it('keeps the replaced value as an example in .env.schema', () => {
+    fs.writeFileSync(path.join(skillPath, 'scripts', 'sync.js'), "const team = 'globex-platform'\nmodule.exports = { team }\n")
+
+    const schema = after('.env.schema')!
+    assert.match(schema, /# Example: "globex-platform"\n# @type=string @required\nNOTES_TEAM=\n/)
+    assert.deepEqual(
+      parseEnvSchema(schema).entries.map((entry) => `${entry.name}:${entry.required}`),
+      ['NOTES_TEAM:true']
+    )
+    assert.match(after(path.join('scripts', 'sync.js'))!, /^function requireEnv\(name, value\) \{/)
+  })
+
+  it('reuses a helper added by an earlier fix', () => {
+    fs.writeFileSync(
+      path.join(skillPath, 'scripts', 'sync.ts'),
+      [
+        'function requireEnv(name: string, value: string | undefined): string {',
+        '  if (!value) throw new Error(`${name} environment variable is required`)',
+        '  return value',
+        '}',
+        '',
+        "export const team = 'globex-platform'",
+        '',
+      ].join('\n')
+    )
+
+    const code = after(path.join('scripts', 'sync.ts'))!
+    assert.equal(code.match(/function requireEnv/g)?.length, 1)
+    assert.match(code, /team = requireEnv\('NOTES_TEAM', process\.env\.NOTES_TEAM\)/)
+  })
+})
+
+describe('planGeneralizationFixes without literals', () => {
+  let skillPath: string
+
+  beforeEach(() => {
+    skillPath = fs.mkdtempSync(path.join(os.tmpdir(), 'generalize-test-'))
+    fs.mkdirSync(path.join(skillPath, 'scripts'))
+  })
+
+  afterEach(() => fs.rmSync(skillPath, { recursive: true, force: true }))
+
+  const plan = (overrides: Partial<GeneralizeOptions> = {}) => planGeneralizationFixes(skillPath, { ...options, ...overrides })
+
+  it('renames functions in code and docs and keeps a deprecated alias for exports', () => {
+    fs.writeFileSync(path.join(skillPath, 'scripts', 'issues.ts'), 'export function createGlobexIssue() {}\ncreateGlobexIssue()\n')
+    fs.writeFileSync(path.join(skillPath, 'SKILL.md'), '# Issues\n\nCall `createGlobexIssue()`.\n')
+
+    const result = plan()
+    const after = (file: string) => result.changes.find((change) => change.file === file)?.after
+
+    assert.deepEqual(result.renames, [{ file: path.join('scripts', 'issues.ts'), from: 'createGlobexIssue', to: 'createIssue' }])
+    assert.equal(
+      after(path.join('scripts', 'issues.ts')),
+      'export function createIssue() {}\ncreateIssue()\n\n/** @deprecated Use createIssue instead */\nexport const createGlobexIssue = createIssue\n'
+    )
+    assert.equal(after('SKILL.md'), '# Issues\n\nCall `createIssue()`.\n')
+  })
+
+  it('replaces names and IDs in markdown outside labelled anti-patterns and suppressed lines', () => {
+    fs.writeFileSync(
+      path.join(skillPath, 'SKILL.md'),
+      [
+        '# Issues',
+        '',
+        `Files issues for Globex in ${['4f1c2a9e', '8b3d', '4c7a', '9e2f', '1a2b3c4d5e6f'].join('-')}.`,
+        'Globex again, left alone.',
+        '',
+        '❌ Bad:',
+        '',
+        '```ts',
+        "const team = 'globex'",
+        '```',
+        '',
+      ].join('\n')
+    )
+
+    const result = plan({
+      patterns: [/globex/i, /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/i],
+      isSuppressed: (_ruleId, _file, line) => line === 4,
+    })
+    const skillMd = result.changes.find((change) => change.file === 'SKILL.md')?.after ?? ''
+
+    assert.match(skillMd, /Files issues for \{\{PROJECT_NAME\}\} in \{\{PROJECT_ID\}\}\./)
+    assert.match(skillMd, /\nGlobex again, left alone\./)
+    assert.match(skillMd, /const team = 'globex'/)
+  })
+
+  it('leaves code literals alone without the compiler and writes nothing until applied', () => {
+    const file = path.join(skillPath, 'scripts', 'sync.ts')
+    fs.writeFileSync(file, "export const team = 'globex-platform'\n")
+    fs.writeFileSync(path.join(skillPath, 'SKILL.md'), '# Notes for globex\n')
+
+    const result = plan({ typescript: undefined })
+
+    assert.deepEqual(result.variables, [])
+    assert.deepEqual(
+      result.changes.map((change) => change.file),
+      ['SKILL.md']
+    )
+    assert.equal(fs.readFileSync(path.join(skillPath, 'SKILL.md'), 'utf-8'), '# Notes for globex\n')
+
+    applyFixPlan(skillPath, result)
+    assert.equal(fs.readFileSync(path.join(skillPath, 'SKILL.md'), 'utf-8'), '# Notes for {{PROJECT_NAME}}\n')
+    assert.equal(fs.readFileSync(file, 'utf-8'), "export const team = 'globex-platform'\n")
+  })
+})
@@ -0,0 +1,520 @@
+/**
+ * Generalization Auto-Fix
+ *
+ * Automates the "Skill Update Workflow" from SKILL.md for findings of the
+ * project-specific-content and project-specific-function rules:
+ *
+ * 1. Hardcoded IDs and project names in .ts/.js string literals become
+ *    `requireEnv('X', process.env.X)` reads with generated variable names; the
+ *    `requireEnv` helper added to the file throws when the variable is unset
+ *    (SKILL.md "Mistake 2"). Only literals used as values are replaced:
+ *    types, object keys and module specifiers are left alone. This needs the
+ *    TypeScript compiler; without it literals are left for the author
+ * 2. Project-specific function names are renamed in code (identifiers only,
+ *    not strings or comments) and in markdown, with a @deprecated alias kept
+ *    for exported functions
+ * 3. Remaining project names and IDs in markdown become {{PLACEHOLDER}} tokens
+ * 4. New variables are appended to SKILL.md "Environment Variables" and
+ *    .env.schema, where the value they replace is kept as a commented example
+ *
+ * Planning is pure: nothing is written until applyFixPlan is called.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import type * as TS from 'typescript'
+import { appendEnvSchemaEntries, ENV_SCHEMA_FILE } from './env-schema'
+import { listSkillFiles, toEnvName } from './files'
+import { createScanContext, type ScanContext } from './scan'
+
+export interface GeneralizeOptions {
+  /** Patterns for project-specific content (names and IDs) */
+  patterns: RegExp[]
+  /** Terms that make a function name project-specific */
+  functionTerms: RegExp[]
+  /** Prefix for generated environment variable names, e.g. MY_SKILL */
+  envPrefix: string
+  /** Whether a finding for `ruleId` at `file`:`line` should be left alone */
+  isSuppressed: (ruleId: string, file: string, line: number) => boolean
+  /** The TypeScript compiler (see loadTypeScript); literals are only extracted with it */
+  typescript?: typeof TS
+}
+
+export interface ExtractedVariable {
+  name: string
+  value: string
+  /** Where the value was first found */
+  file: string
+  line: number
+}
+
+export interface FunctionRename {
+  file: string
+  from: string
+  to: string
+}
+
+export interface FileChange {
+  /** Path relative to the skill root */
+  file: string
+  before: string
+  after: string
+}
+
+export interface FixPlan {
+  changes: FileChange[]
+  variables: ExtractedVariable[]
+  renames: FunctionRename[]
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const CODE_EXTENSIONS = ['.ts', '.js']
+
+/**
+ * Work out every edit needed to generalize a skill, without writing anything
+ */
+export function planGeneralizationFixes(skillPath: string, options: GeneralizeOptions): FixPlan {
+  const contents = new Map<string, { before: string; after: string }>()
+  const variables: ExtractedVariable[] = []
+  const renames: FunctionRename[] = []
+
+  function read(file: string): string {
+    const entry = contents.get(file)
+    if (entry) return entry.after
+    const fullPath = path.join(skillPath, file)
+    const text = fs.existsSync(fullPath) ? fs.readFileSync(fullPath, 'utf-8') : ''
+    contents.set(file, { before: text, after: text })
+    return text
+  }
+
+  function write(file: string, text: string) {
+    read(file)
+    contents.get(file)!.after = text
+  }
+
+  const codeFiles = listSkillFiles(skillPath, CODE_EXTENSIONS).map((f) => path.relative(skillPath, f))
+  const markdownFiles = listSkillFiles(skillPath, ['.md']).map((f) => path.relative(skillPath, f))
+
+  // 1. Extract literals to environment variables
+  const ts = options.typescript
+  if (ts) {
+    for (const file of codeFiles) {
+      const content = read(file)
+      write(file, extractLiterals(ts, file, content, createScanContext(file, content), options, variables))
+    }
+  }
+
+  // 2. Rename project-specific functions across all code files
+  for (const file of codeFiles) {
+    const content = read(file)
+    for (const match of content.matchAll(/(export\s+)?(?:async\s+)?function\s+(\w+)/g)) {
+      const from = match[2]
+      const line = lineOf(content, match.index!)
+      if (!options.functionTerms.some((term) => matches(term, from))) continue
+      if (options.isSuppressed('project-specific-function', file, line)) continue
+      if (createScanContext(file, content).isExempt(line, columnOf(content, match.index!))) continue
+
+      const to = stripTerms(from, options.functionTerms)
+      if (!to || to === from || new RegExp(`\\b${to}\\b`).test(content)) continue
+      renames.push({ file, from, to })
+
+      for (const other of codeFiles) {
+        write(other, renameIdentifier(ts, other, read(other), from, to))
+      }
+      if (match[1]) {
+        const updated = read(file).replace(/\n*$/, '\n')
+        write(file, `${updated}\n/** @deprecated Use ${to} instead */\nexport const ${from} = ${to}\n`)
+      }
+    }
+  }
+
+  // Labelled anti-patterns ("❌ Bad", "Unsafe Commands") in markdown are left as written
+  for (const file of renames.length > 0 ? markdownFiles : []) {
+    const content = read(file)
+    const context = createScanContext(file, content)
+    const lines = content.split('\n')
+    const updated = lines.map((line, i) =>
+      renames.reduce(
+        (text, rename) =>
+          text.replace(new RegExp(`\\b${rename.from}\\b`, 'g'), (found: string, offset: number) =>
+            context.isExempt(i + 1, offset + 1) ? found : rename.to
+          ),
+        line
+      )
+    )
+    write(file, updated.join('\n'))
+  }
+
+  // 3. Replace project names and IDs in markdown with placeholders
+  for (const file of markdownFiles) {
+    const content = read(file)
+    const context = createScanContext(file, content)
+    const lines = content.split('\n')
+    const updated = lines.map((line, i) => {
+      if (options.isSuppressed('project-specific-content', file, i + 1)) return line
+      return options.patterns.reduce(
+        (text, pattern) =>
+          text.replace(globalPattern(pattern), (found: string, offset: number) => {
+            if (context.isExempt(i + 1, offset + 1)) return found
+            return UUID_PATTERN.test(found) ? '{{PROJECT_ID}}' : '{{PROJECT_NAME}}'
+          }),
+        line
+      )
+    })
+    write(file, updated.join('\n'))
+  }
+
+  // 4. Document new variables
+  if (variables.length > 0) {
+    write('SKILL.md', documentVariables(read('SKILL.md'), variables))
+    write(
+      ENV_SCHEMA_FILE,
+      appendEnvSchemaEntries(
+        read(ENV_SCHEMA_FILE),
+        variables.map((v) => ({ name: v.name, required: true, sensitive: false, example: v.value }))
+      )
+    )
+  }
+
+  const changes: FileChange[] = []
+  for (const [file, { before, after }] of contents) {
+    if (before !== after) changes.push({ file, before, after })
+  }
+  changes.sort((a, b) => a.file.localeCompare(b.file))
+
+  return { changes, variables, renames }
+}
+
+/**
+ * Write every planned change to disk
+ */
+export function applyFixPlan(skillPath: string, plan: FixPlan): void {
+  for (const change of plan.changes) {
+    const fullPath = path.join(skillPath, change.file)
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true })
+    fs.writeFileSync(fullPath, change.after, 'utf-8')
+  }
+}
+
+/**
+ * Replace matching string literals used as values. Literals in types, object
+ * keys, element access, enum members and module specifiers, and messages
+ * (console calls, throw), stay as written.
+ */
+function extractLiterals(
+  ts: typeof TS,
+  file: string,
+  content: string,
+  context: ScanContext,
+  options: GeneralizeOptions,
+  variables: ExtractedVariable[]
+): string {
+  const edits: Array<{ start: number; end: number; text: string }> = []
+  const source = ts.createSourceFile(file, content, ts.ScriptTarget.Latest, true, scriptKind(ts, file))
+  const checker = singleFileChecker(ts, source)
+  // Reuse the helper an earlier fix added
+  const existing = source.statements.some(
+    (s) => ts.isFunctionDeclaration(s) && s.name?.text === 'requireEnv' && s.parameters.length === 2
+  )
+  const helper = existing ? 'requireEnv' : unusedName(content, 'requireEnv')
+
+  const visit = (node: TS.Node) => {
+    if (isMessage(ts, node)) return
+    if ((ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) && isValuePosition(ts, node, checker)) {
+      const replacement = extractLiteral(node.text, node.getStart(source))
+      if (replacement) edits.push({ start: node.getStart(source), end: node.getEnd(), text: replacement })
+    }
+    ts.forEachChild(node, visit)
+  }
+
+  const extractLiteral = (value: string, offset: number): string | undefined => {
+    const line = lineOf(content, offset)
+    const lineStart = content.lastIndexOf('\n', offset - 1) + 1
+    const lineEnd = content.indexOf('\n', offset)
+    // Leave existing env lookups alone
+    if (/process\.env/.test(content.slice(lineStart, lineEnd === -1 ? undefined : lineEnd))) return undefined
+    if (!options.patterns.some((pattern) => matches(pattern, value))) return undefined
+    if (options.isSuppressed('project-specific-content', file, line)) return undefined
+    if (context.isExempt(line, columnOf(content, offset))) return undefined
+
+    const isId = options.patterns.some((pattern) => {
+      const found = value.match(globalPattern(pattern))
+      return found?.some((f) => UUID_PATTERN.test(f))
+    })
+
+    let variable = variables.find((v) => v.value === value)
+    if (!variable) {
+      const base = variableName(content, offset, options, isId ? 'ID' : 'PROJECT_NAME')
+      let name = base
+      for (let n = 2; variables.some((v) => v.name === name); n++) name = `${base}_${n}`
+      variable = { name, value, file, line }
+      variables.push(variable)
+    }
+    return `${helper}('${variable.name}', process.env.${variable.name})`
+  }
+
+  visit(source)
+  if (edits.length === 0 || existing) return applyEdits(content, edits)
+
+  // The helper goes after the imports, or before the first statement
+  const imports = source.statements.filter((s) => ts.isImportDeclaration(s) || ts.isImportEqualsDeclaration(s))
+  const definition = requireEnvHelper(helper, file.endsWith('.js'))
+  edits.unshift(
+    imports.length > 0
+      ? { start: imports[imports.length - 1].getEnd(), end: imports[imports.length - 1].getEnd(), text: `\n\n${definition}` }
+      : { start: source.statements[0].getStart(source), end: source.statements[0].getStart(source), text: `${definition}\n\n` }
+  )
+  return applyEdits(content, edits)
+}
+
+/** Apply edits sorted by position, last first so earlier offsets stay valid */
+function applyEdits(content: string, edits: Array<{ start: number; end: number; text: string }>): string {
+  return edits.reduceRight((text, edit) => text.slice(0, edit.start) + edit.text + text.slice(edit.end), content)
+}
+
+/**
+ * The check SKILL.md "Mistake 2" asks for, as a function the extracted reads call
+ */
+function requireEnvHelper(name: string, isJavaScript: boolean): string {
+  const signature = isJavaScript ? `${name}(name, value)` : `${name}(name: string, value: string | undefined): string`
+  return [
+    `function ${signature} {`,
+    '  if (!value) throw new Error(`${name} environment variable is required`)',
+    '  return value',
+    '}',
+  ].join('\n')
+}
+
+/**
+ * `base`, or `base2`, `base3`... if the file already uses the name
+ */
+function unusedName(content: string, base: string): string {
+  let name = base
+  for (let n = 2; new RegExp(`\\b${name}\\b`).test(content); n++) name = `${base}${n}`
+  return name
+}
+
+function scriptKind(ts: typeof TS, file: string): TS.ScriptKind {
+  return file.endsWith('.js') ? ts.ScriptKind.JS : ts.ScriptKind.TS
+}
+
+/**
+ * A type checker that sees only one file: enough to tell which literal types
+ * the file itself declares, without resolving imports or loading lib files
+ */
+function singleFileChecker(ts: typeof TS, source: TS.SourceFile): TS.TypeChecker {
+  const host: TS.CompilerHost = {
+    getSourceFile: (name) => (name === source.fileName ? source : undefined),
+    getDefaultLibFileName: () => 'lib.d.ts',
+    writeFile: () => {},
+    getCurrentDirectory: () => '',
+    getCanonicalFileName: (name) => name,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: (name) => name === source.fileName,
+    readFile: () => undefined,
+  }
+  const options = { noLib: true, noResolve: true, allowJs: true, types: [] }
+  return ts.createProgram([source.fileName], options, host).getTypeChecker()
+}
+
+/**
+ * Whether a string literal is an expression whose value can come from
+ * elsewhere: not a type, key or module specifier, and not where only certain
+ * literals are allowed (`const kind: 'a' | 'b' = 'a'`)
+ */
+function isValuePosition(ts: typeof TS, node: TS.StringLiteral | TS.NoSubstitutionTemplateLiteral, checker: TS.TypeChecker): boolean {
+  const parent = node.parent
+  if (ts.isLiteralTypeNode(parent) || ts.isComputedPropertyName(parent) || ts.isEnumMember(parent)) return false
+  if (ts.isImportDeclaration(parent) || ts.isExportDeclaration(parent) || ts.isExternalModuleReference(parent)) return false
+  if (ts.isModuleDeclaration(parent) || ts.isExpressionStatement(parent) || ts.isJsxAttribute(parent)) return false
+  if (ts.isElementAccessExpression(parent) && parent.argumentExpression === node) return false
+  if ((parent as { name?: TS.Node }).name === node || (parent as { propertyName?: TS.Node }).propertyName === node) return false
+  if (ts.isCallExpression(parent)) {
+    const callee = parent.expression
+    if (callee.kind === ts.SyntaxKind.ImportKeyword || (ts.isIdentifier(callee) && callee.text === 'require')) return false
+  }
+  const expected = checker.getContextualType(node)
+  const types = expected?.isUnion() ? expected.types : expected ? [expected] : []
+  return !types.some((type) => type.isStringLiteral())
+}
+
+/** console.* calls and throw statements, whose strings are messages */
+function isMessage(ts: typeof TS, node: TS.Node): boolean {
+  if (ts.isThrowStatement(node)) return true
+  if (!ts.isCallExpression(node)) return false
+  const callee = node.expression
+  return ts.isPropertyAccessExpression(callee) && ts.isIdentifier(callee.expression) && callee.expression.text === 'console'
+}
+
+/**
+ * Rename an identifier everywhere it appears as one; strings and comments
+ * are left as written
+ */
+function renameIdentifier(ts: typeof TS | undefined, file: string, content: string, from: string, to: string): string {
+  const starts: number[] = []
+  if (ts) {
+    const source = ts.createSourceFile(file, content, ts.ScriptTarget.Latest, true, scriptKind(ts, file))
+    const visit = (node: TS.Node) => {
+      if (ts.isIdentifier(node) && node.text === from) starts.push(node.getStart(source))
+      ts.forEachChild(node, visit)
+    }
+    visit(source)
+  } else {
+    const code = maskStringsAndComments(content)
+    for (const match of code.matchAll(new RegExp(`(?<![\\w$])${from}(?![\\w$])`, 'g'))) starts.push(match.index!)
+  }
+  return starts.reduceRight((text, start) => text.slice(0, start) + to + text.slice(start + from.length), content)
+}
+
+/**
+ * Blank out string literals and comments, keeping offsets, so a pattern only
+ * matches code. Template literals are blanked whole, substitutions included.
+ */
+function maskStringsAndComments(content: string): string {
+  let masked = ''
+  let i = 0
+  const blank = (end: number) => {
+    masked += content.slice(i, end).replace(/[^\n]/g, ' ')
+    i = end
+  }
+  while (i < content.length) {
+    const ch = content[i]
+    const next = content[i + 1]
+    if (ch === '/' && next === '/') {
+      const end = content.indexOf('\n', i)
+      blank(end === -1 ? content.length : end)
+    } else if (ch === '/' && next === '*') {
+      const end = content.indexOf('*/', i + 2)
+      blank(end === -1 ? content.length : end + 2)
+    } else if (ch === "'" || ch === '"' || ch === '`') {
+      let end = i + 1
+      while (end < content.length && content[end] !== ch && (ch === '`' || content[end] !== '\n')) {
+        end += content[end] === '\\' ? 2 : 1
+      }
+      blank(Math.min(end + 1, content.length))
+    } else {
+      masked += ch
+      i++
+    }
+  }
+  return masked
+}
+
+/**
+ * Generate a variable name from what the literal is assigned to,
+ * e.g. `const PROJECT_ID = '...'` in my-skill -> MY_SKILL_PROJECT_ID
+ */
+function variableName(content: string, offset: number, options: GeneralizeOptions, fallback: string): string {
+  const before = content.slice(Math.max(0, content.lastIndexOf('\n', offset - 1) + 1), offset)
+  const assigned = before.match(/(\w+)\s*(?::\s*[\w<>[\]|\s]+)?\s*[:=]\s*$/)
+  const parent = enclosingObjectName(content, offset)
+
+  const parts = [parent, assigned?.[1]]
+    .filter((part): part is string => Boolean(part))
+    .map((part) => toEnvName(stripTerms(part, options.patterns)))
+    .filter(Boolean)
+  const suffix = parts.length > 0 ? parts.join('_') : fallback
+  const withFallback = assigned && !toEnvName(stripTerms(assigned[1], options.patterns)) ? `${suffix}_${fallback}` : suffix
+
+  return withFallback.startsWith(`${options.envPrefix}_`) ? withFallback : `${options.envPrefix}_${withFallback}`
+}
+
+/** Name of the object literal containing `offset`, if it is assigned to something */
+function enclosingObjectName(content: string, offset: number): string | undefined {
+  let depth = 0
+  for (let i = offset - 1; i >= 0; i--) {
+    const ch = content[i]
+    if (ch === '}') depth++
+    else if (ch === '{') {
+      if (depth === 0) {
+        const before = content.slice(Math.max(0, i - 200), i)
+        return before.match(/(\w+)\s*(?::\s*[\w<>[\]|\s]+)?\s*[:=]\s*$/)?.[1]
+      }
+      depth--
+    } else if (ch === ';' && depth === 0) {
+      return undefined
+    }
+  }
+  return undefined
+}
+
+function stripTerms(name: string, terms: RegExp[]): string {
+  const stripped = terms.reduce((result, term) => result.replace(globalPattern(term), ''), name)
+  return stripped.replace(/__+/g, '_').replace(/^_+|_+$/g, '')
+}
+
+function matches(pattern: RegExp, text: string): boolean {
+  return new RegExp(pattern.source, pattern.flags.replace('g', '')).test(text)
+}
+
+function globalPattern(pattern: RegExp): RegExp {
+  return new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g')
+}
+
+function lineOf(content: string, offset: number): number {
+  return content.slice(0, offset).split('\n').length
+}
+
+function columnOf(content: string, offset: number): number {
+  return offset - content.lastIndexOf('\n', offset - 1)
+}
+
+/**
+ * Add rows for new variables to the "Environment Variables" table in
+ * SKILL.md, creating the section if needed
+ */
+function documentVariables(content: string, variables: ExtractedVariable[]): string {
+  const missing = variables.filter((v) => !content.includes(v.name))
+  if (missing.length === 0) return content
+
+  const rows = missing.map(
+    (v) => `| \`${v.name}\` | Yes | No | Value previously inlined in \`${v.file}\` (line ${v.line}) |`
+  )
+  const lines = content.split('\n')
+
+  // Find the section heading outside code fences
+  let inFence = false
+  let heading = -1
+  for (let i = 0; i < lines.length; i++) {
+    if (/^\s*(```|~~~)/.test(lines[i])) inFence = !inFence
+    else if (!inFence && /^#{1,6}\s+Environment Variables\s*$/i.test(lines[i])) {
+      heading = i
+      break
+    }
+  }
+
+  if (heading === -1) {
+    const section = [
+      '## Environment Variables',
+      '',
+      '| Variable | Required | Sensitive | Description |',
+      '|----------|----------|-----------|-------------|',
+      ...rows,
+      '',
+    ]
+    return content.replace(/\n*$/, '\n\n') + section.join('\n')
+  }
+
+  let insertAt = heading + 1
+  let lastTableRow = -1
+  for (let i = heading + 1; i < lines.length && !/^#{1,6}\s/.test(lines[i]); i++) {
+    if (lines[i].trim().startsWith('|')) lastTableRow = i
+    else if (lastTableRow !== -1) break
+  }
+
+  if (lastTableRow !== -1) {
+    insertAt = lastTableRow + 1
+    lines.splice(insertAt, 0, ...rows)
+  } else {
+    lines.splice(
+      insertAt,
+      0,
+      '',
+      '| Variable | Required | Sensitive | Description |',
+      '|----------|----------|-----------|-------------|',
+      ...rows
+    )
+  }
+  return lines.join('\n')
+}
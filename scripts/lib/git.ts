@@ -0,0 +1,354 @@
+/**
+ * Git and GitHub Access
+ *
+ * Everything the publish and release scripts ask of git and the gh CLI goes through
+ * the GitHost interface, so the pipeline can run without touching a real
+ * repository: CliGitHost runs the real commands, DryRunGitHost answers the
+ * read-only questions from another host and records the commands that would
+ * change anything, and MemoryGitHost keeps a repository and its GitHub side
+ * in memory for tests.
+ */
+
+import { execFileSync } from 'child_process'
+
+export interface GitHost {
+  isRepository(): boolean
+  hasCommits(): boolean
+  /** Paths with uncommitted changes (`git status --porcelain`) */
+  uncommittedChanges(): string[]
+  currentBranch(): string
+  /** Most recent tag reachable from HEAD, if any */
+  latestTag(): string | undefined
+  /** Commit a ref points to; undefined if it does not exist */
+  revision(ref: string): string | undefined
+  /** A file's content at a ref, relative to the working directory; undefined if it did not exist */
+  readFileAt(ref: string, file: string): string | undefined
+  /** Files changed between a ref and the working tree, relative to the working directory */
+  changedFilesSince(ref: string): string[]
+  /** Files staged for commit, including deletions, relative to the working directory */
+  stagedFiles(): string[]
+  /** Directory git runs hooks from (respects core.hooksPath) */
+  hooksPath(): string
+  /** Files git rewrites when HEAD or a tag moves, so callers can notice without running git */
+  refFiles(): string[]
+  /** Whether gh is installed and logged in */
+  isAuthenticated(): boolean
+  /** Login of the authenticated gh user */
+  currentUser(): string
+  /** Create the GitHub repository from the working directory and push it; false if it already exists */
+  createRepository(name: string, description: string, visibility: 'public' | 'private'): boolean
+  /** Point origin at an existing repository and push the current branch */
+  pushToExisting(owner: string, name: string, branch: string): void
+  addTopics(owner: string, name: string, topics: string[]): void
+}
+
+/**
+ * Runs git and gh in a working directory. Arguments are passed without a
+ * shell, so names and descriptions need no quoting.
+ */
+export class CliGitHost implements GitHost {
+  constructor(private readonly cwd: string) {}
+
+  private run(command: string, args: string[]): string {
+    return execFileSync(command, args, { cwd: this.cwd, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] }).trim()
+  }
+
+  private succeeds(command: string, args: string[]): boolean {
+    try {
+      this.run(command, args)
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  isRepository(): boolean {
+    return this.succeeds('git', ['rev-parse', '--is-inside-work-tree'])
+  }
+
+  hasCommits(): boolean {
+    return this.succeeds('git', ['rev-parse', '--verify', 'HEAD'])
+  }
+
+  uncommittedChanges(): string[] {
+    return this.run('git', ['status', '--porcelain'])
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => line.slice(3))
+  }
+
+  currentBranch(): string {
+    return this.run('git', ['rev-parse', '--abbrev-ref', 'HEAD'])
+  }
+
+  latestTag(): string | undefined {
+    try {
+      return this.run('git', ['describe', '--tags', '--abbrev=0']) || undefined
+    } catch {
+      return undefined
+    }
+  }
+
+  revision(ref: string): string | undefined {
+    try {
+      return this.run('git', ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]) || undefined
+    } catch {
+      return undefined
+    }
+  }
+
+  readFileAt(ref: string, file: string): string | undefined {
+    try {
+      return execFileSync('git', ['show', `${ref}:./${file}`], { cwd: this.cwd, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'] })
+    } catch {
+      return undefined
+    }
+  }
+
+  changedFilesSince(ref: string): string[] {
+    return this.run('git', ['diff', '--name-only', '--relative', ref, '--', '.']).split('\n').filter(Boolean)
+  }
+
+  stagedFiles(): string[] {
+    return this.run('git', ['diff', '--cached', '--name-only', '--relative']).split('\n').filter(Boolean)
+  }
+
+  hooksPath(): string {
+    return this.run('git', ['rev-parse', '--path-format=absolute', '--git-path', 'hooks'])
+  }
+
+  refFiles(): string[] {
+    const paths = ['HEAD', 'logs/HEAD', 'packed-refs', 'refs/tags'].flatMap((file) => ['--git-path', file])
+    return this.run('git', ['rev-parse', '--path-format=absolute', ...paths]).split('\n').filter(Boolean)
+  }
+
+  isAuthenticated(): boolean {
+    return this.succeeds('gh', ['auth', 'status'])
+  }
+
+  currentUser(): string {
+    return this.run('gh', ['api', 'user', '--jq', '.login'])
+  }
+
+  createRepository(name: string, description: string, visibility: 'public' | 'private'): boolean {
+    try {
+      this.run('gh', ['repo', 'create', name, `--${visibility}`, '--description', description, '--source', '.', '--push'])
+      return true
+    } catch (error) {
+      const stderr = String((error as { stderr?: unknown }).stderr ?? '')
+      if (/already exists/i.test(stderr)) return false
+      throw new Error(`gh repo create failed: ${stderr.trim() || (error as Error).message}`)
+    }
+  }
+
+  pushToExisting(owner: string, name: string, branch: string): void {
+    const url = `https://github.com/${owner}/${name}.git`
+    if (!this.succeeds('git', ['remote', 'set-url', 'origin', url])) {
+      this.run('git', ['remote', 'add', 'origin', url])
+    }
+    this.run('git', ['push', '-u', 'origin', branch])
+  }
+
+  addTopics(owner: string, name: string, topics: string[]): void {
+    this.run('gh', ['repo', 'edit', `${owner}/${name}`, ...topics.flatMap((topic) => ['--add-topic', topic])])
+  }
+}
+
+/**
+ * Answers read-only questions from another host and records what the
+ * publishing steps would run instead of running it
+ */
+export class DryRunGitHost implements GitHost {
+  readonly commands: string[] = []
+
+  constructor(private readonly host: GitHost) {}
+
+  isRepository(): boolean {
+    return this.host.isRepository()
+  }
+
+  hasCommits(): boolean {
+    return this.host.hasCommits()
+  }
+
+  uncommittedChanges(): string[] {
+    return this.host.uncommittedChanges()
+  }
+
+  currentBranch(): string {
+    return this.host.currentBranch()
+  }
+
+  latestTag(): string | undefined {
+    return this.host.latestTag()
+  }
+
+  revision(ref: string): string | undefined {
+    return this.host.revision(ref)
+  }
+
+  readFileAt(ref: string, file: string): string | undefined {
+    return this.host.readFileAt(ref, file)
+  }
+
+  changedFilesSince(ref: string): string[] {
+    return this.host.changedFilesSince(ref)
+  }
+
+  stagedFiles(): string[] {
+    return this.host.stagedFiles()
+  }
+
+  hooksPath(): string {
+    return this.host.hooksPath()
+  }
+
+  refFiles(): string[] {
+    return this.host.refFiles()
+  }
+
+  isAuthenticated(): boolean {
+    return this.host.isAuthenticated()
+  }
+
+  currentUser(): string {
+    return this.host.isAuthenticated() ? this.host.currentUser() : '<gh-user>'
+  }
+
+  createRepository(name: string, description: string, visibility: 'public' | 'private'): boolean {
+    this.commands.push(`gh repo create ${name} --${visibility} --description ${JSON.stringify(description)} --source . --push`)
+    return true
+  }
+
+  pushToExisting(owner: string, name: string, branch: string): void {
+    this.commands.push(`git remote set-url origin https://github.com/${owner}/${name}.git`, `git push -u origin ${branch}`)
+  }
+
+  addTopics(owner: string, name: string, topics: string[]): void {
+    this.commands.push(`gh repo edit ${owner}/${name} ${topics.map((topic) => `--add-topic ${topic}`).join(' ')}`)
+  }
+}
+
+/** Repository and GitHub state a MemoryGitHost starts from */
+export interface MemoryGitState {
+  /** Whether the working directory is inside a repository */
+  repository: boolean
+  /** Commit each ref points to; a repository without HEAD has no commits */
+  refs: Record<string, string>
+  branch: string
+  /** Tags reachable from HEAD, oldest first */
+  tags: string[]
+  /** File contents at each ref */
+  files: Record<string, Record<string, string>>
+  /** Files changed between each ref and the working tree */
+  changedSince: Record<string, string[]>
+  uncommitted: string[]
+  staged: string[]
+  hooksPath: string
+  /** Logged-in gh user; undefined when gh is not authenticated */
+  user?: string
+  /** Existing GitHub repositories as `owner/name` */
+  remoteRepositories: string[]
+}
+
+/**
+ * Answers every question from in-memory state and applies the publishing
+ * steps to it, recording each one in `commands` the way DryRunGitHost does
+ */
+export class MemoryGitHost implements GitHost {
+  readonly state: MemoryGitState
+  readonly commands: string[] = []
+  /** Topics added per `owner/name` */
+  readonly topics: Record<string, string[]> = {}
+
+  constructor(state: Partial<MemoryGitState> = {}) {
+    this.state = {
+      repository: true,
+      refs: { HEAD: '0000000' },
+      branch: 'main',
+      tags: [],
+      files: {},
+      changedSince: {},
+      uncommitted: [],
+      staged: [],
+      hooksPath: '.git/hooks',
+      user: 'octocat',
+      remoteRepositories: [],
+      ...state,
+    }
+  }
+
+  isRepository(): boolean {
+    return this.state.repository
+  }
+
+  hasCommits(): boolean {
+    return this.state.repository && this.state.refs.HEAD !== undefined
+  }
+
+  uncommittedChanges(): string[] {
+    return [...this.state.uncommitted]
+  }
+
+  currentBranch(): string {
+    return this.state.branch
+  }
+
+  latestTag(): string | undefined {
+    return this.state.tags.at(-1)
+  }
+
+  revision(ref: string): string | undefined {
+    return this.state.refs[ref]
+  }
+
+  readFileAt(ref: string, file: string): string | undefined {
+    return this.state.files[ref]?.[file]
+  }
+
+  changedFilesSince(ref: string): string[] {
+    if (this.revision(ref) === undefined) throw new Error(`unknown revision ${ref}`)
+    return [...(this.state.changedSince[ref] ?? [])]
+  }
+
+  stagedFiles(): string[] {
+    return [...this.state.staged]
+  }
+
+  hooksPath(): string {
+    return this.state.hooksPath
+  }
+
+  refFiles(): string[] {
+    return []
+  }
+
+  isAuthenticated(): boolean {
+    return this.state.user !== undefined
+  }
+
+  currentUser(): string {
+    if (this.state.user === undefined) throw new Error('gh is not authenticated')
+    return this.state.user
+  }
+
+  createRepository(name: string, description: string, visibility: 'public' | 'private'): boolean {
+    const fullName = `${this.currentUser()}/${name}`
+    if (this.state.remoteRepositories.includes(fullName)) return false
+    this.state.remoteRepositories.push(fullName)
+    this.commands.push(`gh repo create ${name} --${visibility} --description ${JSON.stringify(description)} --source . --push`)
+    return true
+  }
+
+  pushToExisting(owner: string, name: string, branch: string): void {
+    if (!this.state.remoteRepositories.includes(`${owner}/${name}`)) throw new Error(`${owner}/${name} does not exist`)
+    this.commands.push(`git remote set-url origin https://github.com/${owner}/${name}.git`, `git push -u origin ${branch}`)
+  }
+
+  addTopics(owner: string, name: string, topics: string[]): void {
+    const fullName = `${owner}/${name}`
+    if (!this.state.remoteRepositories.includes(fullName)) throw new Error(`${fullName} does not exist`)
+    this.topics[fullName] = [...(this.topics[fullName] ?? []), ...topics]
+    this.commands.push(`gh repo edit ${fullName} ${topics.map((topic) => `--add-topic ${topic}`).join(' ')}`)
+  }
+}
@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { analyzeHookScript, listHookConfigs, listHookScripts, loadHookConfigSchema, validateHookConfig } from './hooks'
+
+describe('analyzeHookScript', () => {
+  it('accepts a strict script that handles every enforcement mode', () => {
+    const script = [
+      '#!/bin/bash',
+      'set -eu -o pipefail',
+      'case "$ENFORCEMENT" in',
+      '  block) exit 2 ;;',
+      '  "warn"|transform) echo "note" ;;',
+      '  disabled) exit 0 ;;',
+      'esac',
+    ].join('\n')
+
+    assert.deepEqual(analyzeHookScript(script), [])
+  })
+
+  it('reports a missing shebang, strict mode options and unhandled modes', () => {
+    const script = '# Checks commands\n\nset -e\ncase "$ENFORCEMENT" in\n  block) exit 2 ;;\n  # warn) ignored in comments\nesac\n'
+
+    assert.deepEqual(
+      analyzeHookScript(script).map((i) => `${i.kind} ${i.line}:${i.column} ${i.message}`),
+      [
+        'shebang 1:1 Hook script has no shebang; hooks may be run directly, not only through bash',
+        'strict-mode 3:1 Hook script does not enable nounset, pipefail; add `set -euo pipefail` so failures are not ignored',
+        'enforcement-modes 4:1 Hook script does not handle enforcement modes warn, transform, disabled',
+      ]
+    )
+  })
+
+  it('counts comparisons as handled modes and ignores scripts without an enforcement setting', () => {
+    const compared = '#!/bin/bash\nset -euo pipefail\nif [[ "$ENFORCEMENT" == "block" || "$ENFORCEMENT" == warn ]]; then exit 2; fi\n'
+
+    assert.deepEqual(
+      analyzeHookScript(compared).map((i) => i.message),
+      ['Hook script does not handle enforcement modes transform, disabled']
+    )
+    assert.deepEqual(analyzeHookScript('#!/bin/bash\nset -euo pipefail\necho ok\n'), [])
+  })
+})
+
+describe('hook configuration', () => {
+  let skillPath: string
+
+  beforeEach(() => {
+    skillPath = fs.mkdtempSync(path.join(os.tmpdir(), 'hooks-test-'))
+    fs.mkdirSync(path.join(skillPath, 'hooks'))
+    fs.mkdirSync(path.join(skillPath, '.claude'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(skillPath, { recursive: true, force: true })
+  })
+
+  it('lists hook scripts and configuration files but not schemas or docs', () => {
+    for (const file of ['hooks/pre-command.sh', 'hooks/README.md', 'hooks/config.example.json', 'hooks/config.schema.json', '.claude/notes-config.json', '.claude/settings.json']) {
+      fs.writeFileSync(path.join(skillPath, file), '{}')
+    }
+
+    assert.deepEqual(listHookScripts(skillPath).map((f) => path.relative(skillPath, f)), ['hooks/pre-command.sh'])
+    assert.deepEqual(listHookConfigs(skillPath).map((f) => path.relative(skillPath, f)), ['hooks/config.example.json', '.claude/notes-config.json'])
+  })
+
+  it('reports schema violations at the offending key', () => {
+    const issues = validateHookConfig('{\n  "enforcement": "strict",\n  "color": true\n}\n', loadHookConfigSchema(skillPath))
+
+    assert.deepEqual(
+      issues.map((i) => `${i.kind} ${i.line}`),
+      ['schema 2', 'schema 3']
+    )
+    assert.match(issues[0].message, /^"enforcement" must be one of .*, got "strict"$/)
+    assert.match(issues[1].message, /color/)
+  })
+
+  it('reports invalid JSON with its position and prefers the skill schema', () => {
+    const [syntax] = validateHookConfig('{\n  "enforcement": "block",\n}\n', loadHookConfigSchema(skillPath))
+    assert.equal(syntax.kind, 'syntax')
+    assert.equal(syntax.line, 3)
+    assert.match(syntax.message, /^Invalid JSON: /)
+
+    fs.writeFileSync(path.join(skillPath, 'hooks', 'config.schema.json'), '{ "type": "object", "required": ["level"] }')
+    assert.equal(validateHookConfig('{ "enforcement": "block" }', loadHookConfigSchema(skillPath)).length, 1)
+  })
+})
@@ -0,0 +1,174 @@
+/**
+ * Enforcement Hooks
+ *
+ * Checks for the "Enforcement Hooks Pattern" in SKILL.md: hook scripts in
+ * hooks/ and the JSON configuration they read.
+ *
+ * - Scripts need a shebang, `set -euo pipefail` and, when they read the
+ *   enforcement setting, a branch for every mode (block, warn, transform,
+ *   disabled)
+ * - Configuration files are validated against templates/hook-config.schema.json,
+ *   or against hooks/config.schema.json when the skill ships its own
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { fileURLToPath } from 'url'
+import { lineText, positionAt } from './findings'
+import { jsonErrorPosition, jsonPosition, validateJsonSchema, type JsonSchema } from './json-schema'
+
+export const ENFORCEMENT_MODES = ['block', 'warn', 'transform', 'disabled'] as const
+
+export type HookScriptIssueKind = 'shebang' | 'strict-mode' | 'enforcement-modes'
+
+export interface HookIssue<Kind extends string = string> {
+  kind: Kind
+  message: string
+  line: number
+  column: number
+  snippet: string
+}
+
+const TEMPLATES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', '..', 'templates')
+
+/** Schema used when a skill does not ship hooks/config.schema.json */
+export const DEFAULT_HOOK_CONFIG_SCHEMA = path.join(TEMPLATES_DIR, 'hook-config.schema.json')
+
+// Template -> output path, relative to the skill root
+export const HOOK_TEMPLATE_FILES: Array<{ template: string; output: string; executable?: boolean }> = [
+  { template: 'pre-command-template.sh', output: 'hooks/pre-command.sh', executable: true },
+  { template: 'post-command-template.sh', output: 'hooks/post-command.sh', executable: true },
+  { template: 'hook-config-template.json', output: 'hooks/config.example.json' },
+  { template: 'hook-config.schema.json', output: 'hooks/config.schema.json' },
+]
+
+/**
+ * Hook scripts in hooks/: every file except JSON and markdown
+ */
+export function listHookScripts(skillPath: string): string[] {
+  const hooksDir = path.join(skillPath, 'hooks')
+  if (!fs.existsSync(hooksDir)) return []
+  return fs
+    .readdirSync(hooksDir)
+    .sort()
+    .map((item) => path.join(hooksDir, item))
+    .filter((file) => fs.statSync(file).isFile() && !/\.(json|md)$/.test(file))
+}
+
+/**
+ * Hook configuration files shipped with a skill: JSON in hooks/ other than
+ * schemas, and `.claude/*-config.json`
+ */
+export function listHookConfigs(skillPath: string): string[] {
+  const list = (dir: string, pattern: RegExp) =>
+    fs.existsSync(dir)
+      ? fs.readdirSync(dir).sort().filter((item) => pattern.test(item)).map((item) => path.join(dir, item))
+      : []
+  return [
+    ...list(path.join(skillPath, 'hooks'), /^(?!.*schema\.json$).*\.json$/),
+    ...list(path.join(skillPath, '.claude'), /-config\.json$/),
+  ]
+}
+
+export function isExecutable(file: string): boolean {
+  return (fs.statSync(file).mode & 0o111) !== 0
+}
+
+/**
+ * Check a hook script's shebang, strict mode and enforcement mode handling
+ */
+export function analyzeHookScript(content: string): HookIssue<HookScriptIssueKind>[] {
+  const issues: HookIssue<HookScriptIssueKind>[] = []
+  const lines = content.split('\n')
+
+  if (!lines[0].startsWith('#!')) {
+    issues.push({
+      kind: 'shebang',
+      message: 'Hook script has no shebang; hooks may be run directly, not only through bash',
+      line: 1,
+      column: 1,
+      snippet: lineText(content, 1),
+    })
+  }
+
+  const strict = { errexit: false, nounset: false, pipefail: false }
+  for (const line of lines) {
+    const tokens = line.trim().split(/\s+/)
+    if (tokens[0] !== 'set') continue
+    tokens.forEach((token, i) => {
+      if (!/^-[a-z]+$/.test(token)) return
+      if (token.includes('e')) strict.errexit = true
+      if (token.includes('u')) strict.nounset = true
+      if (token.endsWith('o')) {
+        const option = tokens[i + 1] as keyof typeof strict
+        if (option in strict) strict[option] = true
+      }
+    })
+  }
+  const missing = Object.keys(strict).filter((option) => !strict[option as keyof typeof strict])
+  if (missing.length > 0) {
+    const line = Math.max(1, lines.findIndex((text) => !text.startsWith('#') && text.trim() !== '') + 1)
+    issues.push({
+      kind: 'strict-mode',
+      message: `Hook script does not enable ${missing.join(', ')}; add \`set -euo pipefail\` so failures are not ignored`,
+      line,
+      column: 1,
+      snippet: lineText(content, line),
+    })
+  }
+
+  // Only scripts that read the enforcement setting need to handle every mode
+  const reference = content.search(/\benforcement\b/i)
+  if (reference !== -1) {
+    const handled = new Set<string>()
+    for (const text of lines) {
+      if (text.trim().startsWith('#')) continue
+      // case labels: `block)`, `warn|transform)`, `"disabled")`
+      const label = text.match(/^\s*\(?\s*([\w"'|\s-]+?)\s*\)/)
+      if (label) label[1].split('|').forEach((mode) => handled.add(mode.trim().replace(/^["']|["']$/g, '')))
+      // comparisons: [[ "$ENFORCEMENT" == "block" ]]
+      for (const match of text.matchAll(/[!=]=\s*["']?(\w+)["']?/g)) handled.add(match[1])
+    }
+
+    const unhandled = ENFORCEMENT_MODES.filter((mode) => !handled.has(mode))
+    if (unhandled.length > 0) {
+      const caseIndex = content.search(/^\s*case\s+.*enforcement/im)
+      const position = positionAt(content, caseIndex === -1 ? reference : caseIndex)
+      issues.push({
+        kind: 'enforcement-modes',
+        message: `Hook script does not handle enforcement mode${unhandled.length === 1 ? '' : 's'} ${unhandled.join(', ')}`,
+        ...position,
+        snippet: lineText(content, position.line),
+      })
+    }
+  }
+
+  return issues
+}
+
+/**
+ * The schema for a skill's hook configuration
+ */
+export function loadHookConfigSchema(skillPath: string): JsonSchema {
+  const skillSchema = path.join(skillPath, 'hooks', 'config.schema.json')
+  const schemaPath = fs.existsSync(skillSchema) ? skillSchema : DEFAULT_HOOK_CONFIG_SCHEMA
+  return JSON.parse(fs.readFileSync(schemaPath, 'utf-8')) as JsonSchema
+}
+
+/**
+ * Parse a configuration file and check it against the schema
+ */
+export function validateHookConfig(content: string, schema: JsonSchema): HookIssue<'syntax' | 'schema'>[] {
+  let config: unknown
+  try {
+    config = JSON.parse(content)
+  } catch (error) {
+    const position = jsonErrorPosition(content, error as Error)
+    return [{ kind: 'syntax', message: `Invalid JSON: ${(error as Error).message}`, ...position, snippet: lineText(content, position.line) }]
+  }
+
+  return validateJsonSchema(config, schema).map((issue) => {
+    const position = jsonPosition(content, issue.path)
+    return { kind: 'schema', message: issue.message, ...position, snippet: lineText(content, position.line) }
+  })
+}
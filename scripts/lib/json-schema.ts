@@ -0,0 +1,106 @@
+/**
+ * JSON Schema Validation
+ *
+ * Validates parsed JSON against the subset of JSON Schema (draft-07) used by
+ * the schemas in templates/: `type`, `enum`, `required`, `properties`,
+ * `additionalProperties` and `items`. Other keywords are ignored.
+ */
+
+import { positionAt } from './findings'
+import type { SourcePosition } from './frontmatter'
+
+export interface JsonSchema {
+  type?: JsonType | JsonType[]
+  enum?: unknown[]
+  required?: string[]
+  properties?: Record<string, JsonSchema>
+  /** false rejects keys not in `properties`; a schema validates them */
+  additionalProperties?: boolean | JsonSchema
+  items?: JsonSchema
+  description?: string
+}
+
+export type JsonType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null'
+
+export interface JsonSchemaIssue {
+  /** Dotted path of the offending value, e.g. "options.mode" or "allowedPatterns[1]"; "" for the root */
+  path: string
+  message: string
+}
+
+function typeOf(value: unknown): JsonType {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number'
+  return typeof value as JsonType
+}
+
+function matchesType(value: unknown, type: JsonType): boolean {
+  const actual = typeOf(value)
+  return actual === type || (type === 'number' && actual === 'integer')
+}
+
+/**
+ * Check a value against a schema. Returns one issue per problem, in document order.
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = ''): JsonSchemaIssue[] {
+  const issues: JsonSchemaIssue[] = []
+  const name = path || 'value'
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (!types.some((type) => matchesType(value, type))) {
+      issues.push({ path, message: `"${name}" must be ${types.join(' or ')}, got ${typeOf(value)}` })
+      return issues
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((allowed) => JSON.stringify(allowed) === JSON.stringify(value))) {
+    const allowed = schema.enum.map((item) => JSON.stringify(item)).join(', ')
+    issues.push({ path, message: `"${name}" must be one of ${allowed}, got ${JSON.stringify(value)}` })
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>
+    const child = (key: string) => (path ? `${path}.${key}` : key)
+
+    for (const key of schema.required ?? []) {
+      if (!(key in object)) issues.push({ path, message: `Missing required "${child(key)}"` })
+    }
+    for (const [key, item] of Object.entries(object)) {
+      const property = schema.properties?.[key]
+      if (property) {
+        issues.push(...validateJsonSchema(item, property, child(key)))
+      } else if (schema.additionalProperties === false) {
+        const allowed = Object.keys(schema.properties ?? {}).join(', ')
+        issues.push({ path: child(key), message: `Unknown key "${child(key)}" (allowed: ${allowed})` })
+      } else if (typeof schema.additionalProperties === 'object') {
+        issues.push(...validateJsonSchema(item, schema.additionalProperties, child(key)))
+      }
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => issues.push(...validateJsonSchema(item, schema.items!, `${path}[${index}]`)))
+  }
+
+  return issues
+}
+
+/**
+ * Approximate position of a path in JSON source: the last key of the path, or
+ * the start of the file. Good enough for pointing findings at a line.
+ */
+export function jsonPosition(content: string, path: string): SourcePosition {
+  const key = path.replace(/\[\d+\]$/, '').split('.').pop()
+  const index = key ? content.search(new RegExp(`"${key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}"\\s*:`)) : -1
+  return index === -1 ? { line: 1, column: 1 } : positionAt(content, index)
+}
+
+/**
+ * Position of a JSON.parse error, from the "at position N" in its message
+ */
+export function jsonErrorPosition(content: string, error: Error): SourcePosition {
+  const match = error.message.match(/position (\d+)/)
+  return match ? positionAt(content, Number(match[1])) : { line: 1, column: 1 }
+}
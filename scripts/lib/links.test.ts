@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { analyzeLinks, extractLinks, headingSlug, listAnchors } from './links'
+
+describe('extractLinks', () => {
+  it('finds links, images, definitions and quoted paths outside code', () => {
+    const content = [
+      '# Guide',
+      '',
+      'See [setup](references/setup.md#install "Setup") and ![diagram](<images/flow chart.png>).',
+      'Run `scripts/sync.sh`, not `[a](b)`.',
+      '',
+      '[docs]: ./docs/index.md',
+      '',
+      '```markdown',
+      '[example](missing.md)',
+      '```',
+      '<!-- [hidden](gone.md) -->',
+    ].join('\n')
+
+    assert.deepEqual(
+      extractLinks(content).map((l) => `${l.line}:${l.column} ${l.quoted ? 'quoted ' : ''}${l.target}`),
+      ['3:5 references/setup.md#install', '3:54 images/flow chart.png', '4:5 quoted scripts/sync.sh', '6:1 ./docs/index.md']
+    )
+  })
+})
+
+describe('listAnchors', () => {
+  it('slugs headings like GitHub, numbers repeats and adds HTML ids', () => {
+    assert.equal(headingSlug('Step 2: Run [the tests](x.md)!'), 'step-2-run-the-tests')
+    assert.deepEqual(
+      Array.from(listAnchors('# Usage\n\n## Usage\n\n<a id="top"></a>\n\n```\n<a id="code"></a>\n```\n')),
+      ['usage', 'usage-1', 'top']
+    )
+  })
+})
+
+describe('analyzeLinks', () => {
+  let root: string
+  let skillPath: string
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true })
+    fs.writeFileSync(path.join(root, file), content)
+  }
+  const summary = (issues: ReturnType<typeof analyzeLinks>) => issues.map((i) => `${i.kind} ${i.file}:${i.line} ${i.message}`)
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'links-test-'))
+    skillPath = path.join(root, 'skills', 'note-tidy')
+  })
+
+  afterEach(() => fs.rmSync(root, { recursive: true, force: true }))
+
+  it('reports broken links and anchors, and missing references in SKILL.md only', () => {
+    write(
+      'skills/note-tidy/SKILL.md',
+      '# Note Tidy\n\nSee [formats](references/formats.md#dates) and [usage](#usage).\n\nRead `references/gone.md` and [the guide](guide.md).\n'
+    )
+    write('skills/note-tidy/references/formats.md', '# Formats\n\nOlder notes used `references/legacy.md`.\n')
+
+    assert.deepEqual(summary(analyzeLinks(skillPath)), [
+      'broken-anchor SKILL.md:3 No heading in references/formats.md has the anchor #dates',
+      'broken-anchor SKILL.md:3 No heading in this file has the anchor #usage',
+      'missing-reference SKILL.md:5 Referenced file does not exist: references/gone.md',
+      'broken-link SKILL.md:5 Linked file does not exist: guide.md',
+    ])
+  })
+
+  it('reports references that are orphaned or only reachable through another reference', () => {
+    write('skills/note-tidy/SKILL.md', '# Note Tidy\n\nSee [formats](references/formats.md).\n')
+    write('skills/note-tidy/references/formats.md', '# Formats\n\nDates are in [dates](dates.md).\n')
+    write('skills/note-tidy/references/dates.md', '# Dates\n')
+    write('skills/note-tidy/references/unused.md', '# Unused\n')
+    write('skills/note-tidy/references/island.md', '# Island\n\nSee [loop](loop.md).\n')
+    write('skills/note-tidy/references/loop.md', '# Loop\n\nSee [island](island.md).\n')
+
+    assert.deepEqual(summary(analyzeLinks(skillPath)), [
+      'deep-reference references/formats.md:3 references/dates.md is 2 links away from SKILL.md (SKILL.md → references/formats.md → references/dates.md); link it from SKILL.md',
+      'deep-reference references/loop.md:3 references/island.md is only linked from references/loop.md, not from SKILL.md',
+      'deep-reference references/island.md:3 references/loop.md is only linked from references/island.md, not from SKILL.md',
+      'orphaned-reference references/unused.md:1 references/unused.md is not linked from SKILL.md or any other file',
+    ])
+  })
+
+  it('checks links that leave the skill against its plugin and skips exempt links', () => {
+    write('package.json', '{}')
+    write('docs/setup.md', '# Setup\n')
+    write('skills/note-tidy/SKILL.md', '# Note Tidy\n\n[setup](../../docs/setup.md#install)\n\n❌ [bad](missing.md)\n')
+
+    const outside: string[] = []
+    const issues = analyzeLinks(
+      skillPath,
+      () => (line) => line === 5,
+      (file) => outside.push(path.relative(root, file))
+    )
+
+    assert.deepEqual(summary(issues), ['broken-anchor SKILL.md:3 No heading in ../../docs/setup.md has the anchor #install'])
+    assert.deepEqual(outside, ['docs/setup.md'])
+  })
+})
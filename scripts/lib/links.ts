@@ -0,0 +1,292 @@
+/**
+ * Markdown Link Graph
+ *
+ * Follows the links between a skill's markdown files to find:
+ *
+ * - Links to files or headings that do not exist
+ * - Files in references/ that nothing links to
+ * - References more than one link away from SKILL.md. Claude may only preview
+ *   a file it reaches through another reference, so each one should be linked
+ *   from SKILL.md directly
+ *
+ * Links are markdown links and images (`[text](target)`), reference
+ * definitions (`[id]: target`) and backtick-quoted bundled paths
+ * (`references/x.md`), which resolve from the skill root; quoted paths that
+ * do not exist are only reported in SKILL.md, since other documents (like a
+ * changelog) may name files of other skills. Links that leave the skill, like
+ * the `../../docs/` links of plugin layouts, are checked against the plugin the
+ * skill belongs to; outside a plugin they cannot be checked. Code blocks,
+ * nested skills and templates (`templates/`, `*-template.md`) are skipped.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { listSkillFiles, readDirectory, statPath } from './files'
+import { parseMarkdown } from './markdown'
+
+export type LinkIssueKind = 'broken-link' | 'broken-anchor' | 'missing-reference' | 'orphaned-reference' | 'deep-reference'
+
+export interface MarkdownLink {
+  /** Target as written, without angle brackets or title */
+  target: string
+  /** A backtick-quoted bundled path rather than a markdown link */
+  quoted: boolean
+  line: number
+  column: number
+  snippet: string
+}
+
+export interface LinkIssue {
+  kind: LinkIssueKind
+  message: string
+  /** Path relative to the skill, with forward slashes */
+  file: string
+  line: number
+  column: number
+  snippet: string
+}
+
+// Paths to bundled files, as the existing SKILL.md convention quotes them
+const BUNDLED_PATH = /`((?:references|scripts|examples)\/[^`]+)`/g
+// [text](target "title"), ![alt](target); one level of nested brackets or parentheses
+const INLINE_LINK =
+  /!?\[(?:[^[\]]|\[[^\]]*\])*\]\(\s*(<[^>]*>|[^\s()]*(?:\([^\s()]*\)[^\s()]*)*)(?:\s+(?:"[^"]*"|'[^']*'|\([^)]*\)))?\s*\)/g
+const REFERENCE_DEFINITION = /^ {0,3}\[[^\]]+\]:\s*(<[^>]*>|\S+)/
+const HTML_ANCHOR = /\s(?:id|name)=["']([^"']+)["']/g
+const EXTERNAL_TARGET = /^(?:[a-z][a-z0-9+.-]*:|\/)/i
+const PLACEHOLDER = /\{\{[A-Za-z0-9_]+\}\}/
+
+/**
+ * Links in markdown content, outside code blocks, inline code and comments
+ */
+export function extractLinks(content: string): MarkdownLink[] {
+  const links: MarkdownLink[] = []
+
+  for (const block of parseMarkdown(content)) {
+    if (block.type === 'code' || block.type === 'frontmatter' || block.type === 'html') continue
+    block.lines.forEach((text, offset) => {
+      const line = block.startLine + offset
+
+      for (const match of text.matchAll(BUNDLED_PATH)) {
+        links.push({ target: match[1], quoted: true, line, column: match.index! + 1, snippet: match[0] })
+      }
+
+      // Blank out inline code so `[a](b)` examples are not links
+      const masked = text.replace(/`[^`]*`/g, (code) => ' '.repeat(code.length))
+      for (const match of masked.matchAll(INLINE_LINK)) {
+        links.push({ target: unwrap(match[1]), quoted: false, line, column: match.index! + 1, snippet: match[0] })
+      }
+      const definition = masked.match(REFERENCE_DEFINITION)
+      if (definition) {
+        links.push({ target: unwrap(definition[1]), quoted: false, line, column: 1, snippet: definition[0].trim() })
+      }
+    })
+  }
+
+  return links
+}
+
+function unwrap(target: string): string {
+  return target.startsWith('<') && target.endsWith('>') ? target.slice(1, -1) : target
+}
+
+/**
+ * The anchor GitHub gives a heading: lowercase, punctuation removed, each
+ * space a hyphen
+ */
+export function headingSlug(heading: string): string {
+  return heading
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1') // Link text only
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-')
+}
+
+/**
+ * Every anchor a markdown file defines: heading slugs (repeats get -1, -2,
+ * ...) and HTML `id`/`name` attributes
+ */
+export function listAnchors(content: string): Set<string> {
+  const anchors = new Set<string>()
+  const seen = new Map<string, number>()
+  for (const block of parseMarkdown(content)) {
+    if (block.type === 'heading') {
+      const slug = headingSlug(block.text ?? '')
+      const count = seen.get(slug) ?? 0
+      seen.set(slug, count + 1)
+      anchors.add(count === 0 ? slug : `${slug}-${count}`)
+    }
+    if (block.type !== 'code') {
+      for (const match of block.lines.join('\n').matchAll(HTML_ANCHOR)) anchors.add(match[1])
+    }
+  }
+  return anchors
+}
+
+/**
+ * Nearest directory at or above the skill with a package.json: the plugin
+ * whose files links leaving the skill can reach
+ */
+export function findPluginRoot(skillPath: string): string | undefined {
+  let dir = path.resolve(skillPath)
+  while (true) {
+    if (fs.existsSync(path.join(dir, 'package.json'))) return dir
+    const parent = path.dirname(dir)
+    if (parent === dir) return undefined
+    dir = parent
+  }
+}
+
+/**
+ * Markdown files in a skill, excluding nested skills and templates, whose
+ * links only resolve once rendered
+ */
+export function listLinkedDocuments(skillPath: string): string[] {
+  const root = path.resolve(skillPath)
+  return listSkillFiles(root, ['.md']).filter((file) => {
+    if (file.endsWith('-template.md')) return false
+    for (let dir = path.dirname(file); dir !== root; dir = path.dirname(dir)) {
+      if (path.basename(dir) === 'templates' || fs.existsSync(path.join(dir, 'SKILL.md'))) return false
+    }
+    return true
+  })
+}
+
+interface LinkEdge {
+  from: string
+  to: string
+  link: MarkdownLink
+}
+
+/**
+ * Check every link in a skill's markdown. `isExempt` lets callers skip links
+ * in labelled anti-pattern examples; `onOutsideTarget` is told about each
+ * plugin file outside the skill that is checked, so callers can cache on it.
+ */
+export function analyzeLinks(
+  skillPath: string,
+  isExempt: (file: string, content: string) => (line: number, column: number) => boolean = () => () => false,
+  onOutsideTarget: (file: string) => void = () => {}
+): LinkIssue[] {
+  const root = path.resolve(skillPath)
+  const pluginRoot = findPluginRoot(root)
+  const relative = (file: string) => path.relative(root, file).split(path.sep).join('/')
+  const isInside = (dir: string, file: string) => {
+    const rel = path.relative(dir, file)
+    return rel === '' || (!rel.startsWith('..') && !path.isAbsolute(rel))
+  }
+
+  const skillMd = path.join(root, 'SKILL.md')
+  const issues: LinkIssue[] = []
+  const edges: LinkEdge[] = []
+  const anchors = new Map<string, Set<string>>()
+  const anchorsOf = (file: string) => {
+    if (!anchors.has(file)) anchors.set(file, listAnchors(fs.readFileSync(file, 'utf-8')))
+    return anchors.get(file)!
+  }
+
+  for (const file of listLinkedDocuments(root)) {
+    const content = fs.readFileSync(file, 'utf-8')
+    const exempt = isExempt(file, content)
+
+    for (const link of extractLinks(content)) {
+      if (EXTERNAL_TARGET.test(link.target) || PLACEHOLDER.test(link.target) || link.target === '') continue
+      if (exempt(link.line, link.column)) continue
+
+      const hash = link.quoted ? -1 : link.target.indexOf('#')
+      const target = decode(hash === -1 ? link.target : link.target.slice(0, hash))
+      const anchor = hash === -1 ? undefined : decode(link.target.slice(hash + 1))
+      const resolved = target ? path.resolve(link.quoted ? root : path.dirname(file), target) : file
+
+      // Outside the skill only the plugin's own files can be checked
+      if (!isInside(root, resolved)) {
+        if (!pluginRoot || !isInside(pluginRoot, resolved)) continue
+        onOutsideTarget(resolved)
+      }
+
+      const at = { file: relative(file), line: link.line, column: link.column, snippet: link.snippet }
+      if (!fs.existsSync(resolved)) {
+        if (!link.quoted) {
+          issues.push({ kind: 'broken-link', message: `Linked file does not exist: ${target}`, ...at })
+        } else if (file === skillMd) {
+          issues.push({ kind: 'missing-reference', message: `Referenced file does not exist: ${link.target}`, ...at })
+        }
+        continue
+      }
+
+      const isDirectory = fs.statSync(resolved).isDirectory()
+      if (anchor && !isDirectory && resolved.endsWith('.md') && !anchorsOf(resolved).has(anchor)) {
+        const where = resolved === file ? 'this file' : path.relative(path.dirname(file), resolved)
+        issues.push({ kind: 'broken-anchor', message: `No heading in ${where} has the anchor #${anchor}`, ...at })
+      }
+
+      // A link to a directory links the files directly in it
+      if (isInside(root, resolved) && resolved !== file) {
+        const targets = isDirectory
+          ? readDirectory(resolved).map((item) => path.join(resolved, item)).filter((item) => statPath(item)?.isFile())
+          : [resolved]
+        for (const to of targets) edges.push({ from: file, to, link })
+      }
+    }
+  }
+
+  // Shortest link path from SKILL.md to every file
+  const via = new Map<string, LinkEdge | undefined>([[skillMd, undefined]])
+  const queue = [skillMd]
+  while (queue.length > 0) {
+    const from = queue.shift()!
+    for (const edge of edges.filter((e) => e.from === from && !via.has(e.to))) {
+      via.set(edge.to, edge)
+      queue.push(edge.to)
+    }
+  }
+  const chain = (file: string) => {
+    const files = [file]
+    for (let edge = via.get(file); edge; edge = via.get(edge.from)) files.unshift(edge.from)
+    return files
+  }
+
+  const references = listSkillFiles(path.join(root, 'references'), ['']).filter((file) => !path.basename(file).startsWith('.'))
+  for (const reference of references) {
+    const incoming = edges.filter((edge) => edge.to === reference)
+    const name = relative(reference)
+    if (incoming.length === 0) {
+      const firstLine = fs.readFileSync(reference, 'utf-8').split('\n')[0]
+      issues.push({
+        kind: 'orphaned-reference',
+        message: `${name} is not linked from SKILL.md or any other file`,
+        file: name,
+        line: 1,
+        column: 1,
+        snippet: firstLine,
+      })
+      continue
+    }
+
+    const hops = via.has(reference) ? chain(reference) : undefined
+    if (hops && hops.length <= 2) continue
+    const edge = hops ? via.get(reference)! : incoming[0]
+    const message = hops
+      ? `${name} is ${hops.length - 1} links away from SKILL.md (${hops.map(relative).join(' → ')}); link it from SKILL.md`
+      : `${name} is only linked from ${Array.from(new Set(incoming.map((e) => relative(e.from)))).join(', ')}, not from SKILL.md`
+    issues.push({
+      kind: 'deep-reference',
+      message,
+      file: relative(edge.from),
+      line: edge.link.line,
+      column: edge.link.column,
+      snippet: edge.link.snippet,
+    })
+  }
+
+  return issues
+}
+
+function decode(target: string): string {
+  try {
+    return decodeURIComponent(target)
+  } catch {
+    return target
+  }
+}
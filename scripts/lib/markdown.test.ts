@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { blockAtLine, parseMarkdown, tableCells } from './markdown'
+
+const CONTENT = [
+  '---',
+  'name: notes',
+  '---',
+  '# Notes',
+  '',
+  '## Usage',
+  '',
+  '````markdown',
+  '```bash',
+  'not a fence end',
+  '```',
+  '````',
+  '',
+  '| Variable | Required |',
+  '|----------|----------|',
+  '| `TOKEN` | yes |',
+  '- first item',
+  '  continued',
+  '',
+  '<!-- Example -->',
+  'Closing paragraph',
+].join('\n')
+
+describe('parseMarkdown', () => {
+  it('splits blocks with their line ranges and enclosing headings', () => {
+    const blocks = parseMarkdown(CONTENT)
+
+    assert.deepEqual(
+      blocks.map((block) => `${block.type} ${block.startLine}-${block.endLine} ${block.section.join(' > ')}`),
+      [
+        'frontmatter 1-3 ',
+        'heading 4-4 Notes',
+        'heading 6-6 Notes > Usage',
+        'code 8-12 Notes > Usage',
+        'table 14-16 Notes > Usage',
+        'list-item 17-18 Notes > Usage',
+        'html 20-20 Notes > Usage',
+        'paragraph 21-21 Notes > Usage',
+      ]
+    )
+    assert.equal(blocks[3].language, 'markdown')
+    assert.equal(blockAtLine(blocks, 10)?.type, 'code')
+    assert.equal(blockAtLine(blocks, 13), undefined)
+  })
+
+  it('runs an unclosed fence to the end of the file', () => {
+    const blocks = parseMarkdown('# Notes\n\n```bash\necho hi\n')
+    assert.deepEqual(
+      blocks.map((block) => `${block.type} ${block.startLine}-${block.endLine}`),
+      ['heading 1-1', 'code 3-5']
+    )
+  })
+})
+
+describe('tableCells', () => {
+  it('gives each cell its columns and ignores escaped pipes', () => {
+    assert.deepEqual(tableCells('| `a\\|b` | yes |'), [
+      { start: 2, end: 9, text: '`a\\|b`' },
+      { start: 11, end: 15, text: 'yes' },
+    ])
+  })
+})
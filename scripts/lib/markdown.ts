@@ -0,0 +1,167 @@
+/**
+ * Markdown Blocks
+ *
+ * Splits markdown into top-level blocks (headings, fenced code, tables,
+ * list items, quotes, HTML comments and paragraphs), each tagged with its
+ * line range and the headings it sits under. This is deliberately not a full
+ * CommonMark parser: it covers the structures skills use, so findings can be
+ * attributed to a block and anti-pattern examples can be recognised.
+ */
+
+export type BlockType =
+  | 'frontmatter'
+  | 'heading'
+  | 'code'
+  | 'table'
+  | 'list-item'
+  | 'blockquote'
+  | 'html'
+  | 'paragraph'
+
+export interface MarkdownBlock {
+  type: BlockType
+  /** 1-based, inclusive */
+  startLine: number
+  endLine: number
+  lines: string[]
+  /** Heading level (heading blocks) */
+  depth?: number
+  /** Heading text without the leading #s (heading blocks) */
+  text?: string
+  /** Info string of a fenced code block, e.g. "bash" */
+  language?: string
+  /** Texts of the enclosing headings, outermost first; includes the heading itself for heading blocks */
+  section: string[]
+}
+
+const FENCE_PATTERN = /^\s*(`{3,}|~{3,})\s*([^\s`]*)/
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/
+const LIST_ITEM_PATTERN = /^\s*([-*+]|\d+[.)])\s+/
+const TABLE_ROW_PATTERN = /^\s*\|/
+
+export function parseMarkdown(content: string): MarkdownBlock[] {
+  const lines = content.split('\n')
+  const blocks: MarkdownBlock[] = []
+  const headings: Array<{ depth: number; text: string }> = []
+  let i = 0
+
+  function push(type: BlockType, start: number, end: number, extra: Partial<MarkdownBlock> = {}) {
+    blocks.push({
+      type,
+      startLine: start + 1,
+      endLine: end + 1,
+      lines: lines.slice(start, end + 1),
+      section: headings.map((h) => h.text),
+      ...extra,
+    })
+  }
+
+  // Frontmatter
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((line, index) => index > 0 && line.trim() === '---')
+    if (end !== -1) {
+      push('frontmatter', 0, end)
+      i = end + 1
+    }
+  }
+
+  while (i < lines.length) {
+    const line = lines[i]
+
+    if (line.trim() === '') {
+      i++
+      continue
+    }
+
+    const fence = line.match(FENCE_PATTERN)
+    if (fence) {
+      const marker = fence[1]
+      let end = i + 1
+      while (end < lines.length && !new RegExp(`^\\s*${marker[0]}{${marker.length},}\\s*$`).test(lines[end])) end++
+      push('code', i, Math.min(end, lines.length - 1), { language: fence[2] || undefined })
+      i = end + 1
+      continue
+    }
+
+    const heading = line.match(HEADING_PATTERN)
+    if (heading) {
+      const depth = heading[1].length
+      while (headings.length > 0 && headings[headings.length - 1].depth >= depth) headings.pop()
+      headings.push({ depth, text: heading[2] })
+      push('heading', i, i, { depth, text: heading[2] })
+      i++
+      continue
+    }
+
+    if (line.trimStart().startsWith('<!--')) {
+      let end = i
+      while (end < lines.length - 1 && !lines[end].includes('-->')) end++
+      push('html', i, end)
+      i = end + 1
+      continue
+    }
+
+    const continues = (pattern: RegExp) => {
+      let end = i
+      while (end + 1 < lines.length && pattern.test(lines[end + 1])) end++
+      return end
+    }
+
+    if (TABLE_ROW_PATTERN.test(line)) {
+      const end = continues(TABLE_ROW_PATTERN)
+      push('table', i, end)
+      i = end + 1
+      continue
+    }
+
+    if (line.trimStart().startsWith('>')) {
+      const end = continues(/^\s*>/)
+      push('blockquote', i, end)
+      i = end + 1
+      continue
+    }
+
+    // List items and paragraphs run until a blank line or another block starts
+    const isListItem = LIST_ITEM_PATTERN.test(line)
+    let end = i
+    while (end + 1 < lines.length) {
+      const next = lines[end + 1]
+      if (
+        next.trim() === '' ||
+        FENCE_PATTERN.test(next) ||
+        HEADING_PATTERN.test(next) ||
+        TABLE_ROW_PATTERN.test(next) ||
+        LIST_ITEM_PATTERN.test(next)
+      ) {
+        break
+      }
+      end++
+    }
+    push(isListItem ? 'list-item' : 'paragraph', i, end)
+    i = end + 1
+  }
+
+  return blocks
+}
+
+/**
+ * Find the block containing a 1-based line
+ */
+export function blockAtLine(blocks: MarkdownBlock[], line: number): MarkdownBlock | undefined {
+  return blocks.find((block) => block.startLine <= line && line <= block.endLine)
+}
+
+/**
+ * Column ranges (1-based, inclusive) of the cells in a table row
+ */
+export function tableCells(row: string): Array<{ start: number; end: number; text: string }> {
+  const cells: Array<{ start: number; end: number; text: string }> = []
+  const pipes: number[] = []
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '|' && row[i - 1] !== '\\') pipes.push(i)
+  }
+  for (let k = 0; k + 1 < pipes.length; k++) {
+    cells.push({ start: pipes[k] + 2, end: pipes[k + 1], text: row.slice(pipes[k] + 1, pipes[k + 1]).trim() })
+  }
+  return cells
+}
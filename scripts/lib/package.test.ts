@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { gunzipSync } from 'node:zlib'
+import { checkPackage, createTarball, resolvePackageFiles, tarballName } from './package'
+
+describe('checkPackage', () => {
+  let root: string
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true })
+    fs.writeFileSync(path.join(root, file), content)
+  }
+  const summary = () => checkPackage(root).map((i) => `${i.kind} ${i.file}:${i.line} ${i.message}`)
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'package-test-'))
+    write('skills/note-tidy/SKILL.md', '# Note Tidy\n\nSee `references/formats.md` and `templates/entry.md`.\n')
+    write('skills/note-tidy/references/formats.md', '# Formats\n')
+    write('templates/entry.md', '- {{ENTRY}}\n')
+    write('scripts/check.mjs', '')
+    write('README.md', '# Note Tidy\n\n```\nnpx tidy {{FILE}}\n```\n')
+    write('CHANGELOG.md', '# Changelog\n')
+  })
+
+  afterEach(() => fs.rmSync(root, { recursive: true, force: true }))
+
+  it('reports a missing or unreadable package.json', () => {
+    assert.deepEqual(summary(), ['package-json package.json:1 package.json is missing'])
+
+    write('package.json', '{ "name": ')
+    assert.match(summary()[0], /^package-json package\.json:1 package\.json is not valid JSON: /)
+  })
+
+  it('reports files the package leaves out, missing docs and placeholders', () => {
+    write(
+      'package.json',
+      JSON.stringify(
+        {
+          name: 'note-tidy',
+          version: '{{VERSION}}',
+          files: ['skills/*/SKILL.md'],
+          scripts: { check: 'node ./scripts/check.mjs' },
+          'claude-plugin': { skills: ['skills/note-tidy', 'skills/gone'] },
+        },
+        null,
+        2
+      )
+    )
+
+    assert.deepEqual(summary(), [
+      'package-json package.json:1 package.json has no "description"',
+      'file-not-packaged skills/note-tidy/SKILL.md:3 skills/note-tidy/references/formats.md, referenced from skills/note-tidy/SKILL.md, is not packaged',
+      'file-not-packaged skills/note-tidy/SKILL.md:3 templates/entry.md, referenced from skills/note-tidy/SKILL.md, is not packaged',
+      'skill-not-packaged package.json:13 Skill skills/gone has no SKILL.md',
+      'file-not-packaged package.json:8 scripts/check.mjs, run by the "check" script, is not packaged',
+      'missing-doc LICENSE:1 LICENSE is missing (render it from templates/)',
+      'placeholder package.json:3 package.json still contains the template placeholder {{VERSION}}',
+    ])
+  })
+
+  it('checks a SKILL.md at the root even when package.json does not declare it', () => {
+    write('SKILL.md', '# Root Skill\n')
+    write('LICENSE', 'MIT\n')
+    write('package.json', JSON.stringify({ name: 'note-tidy', version: '1.0.0', description: 'Tidies notes', files: ['skills'], 'claude-plugin': { skills: ['skills/note-tidy'] } }))
+
+    assert.deepEqual(summary(), [
+      'file-not-packaged skills/note-tidy/SKILL.md:3 templates/entry.md, referenced from skills/note-tidy/SKILL.md, is not packaged',
+      'skill-not-packaged package.json:1 Skill at the plugin root is not in the package.json "files" list',
+    ])
+  })
+})
+
+describe('resolvePackageFiles and createTarball', () => {
+  let root: string
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'package-test-'))
+    for (const file of ['README.md', 'notes.txt', 'skills/a/SKILL.md', 'skills/a/scripts/run.sh', 'node_modules/x/index.js']) {
+      fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true })
+      fs.writeFileSync(path.join(root, file), 'x')
+    }
+  })
+
+  afterEach(() => fs.rmSync(root, { recursive: true, force: true }))
+
+  it('packs everything without a files list and the listed files plus readme otherwise', () => {
+    assert.deepEqual(resolvePackageFiles(root, {}), ['README.md', 'notes.txt', 'skills/a/SKILL.md', 'skills/a/scripts/run.sh'])
+    assert.deepEqual(resolvePackageFiles(root, { files: ['./skills/*/scripts/'] }), ['README.md', 'skills/a/scripts/run.sh'])
+  })
+
+  it('writes a tarball with every file under package/', () => {
+    const tarball = path.join(root, 'out', tarballName({ name: '@globex/note-tidy', version: '1.2.0' }))
+    const size = createTarball(root, ['README.md', 'skills/a/scripts/run.sh'], tarball)
+
+    assert.equal(path.basename(tarball), 'globex-note-tidy-1.2.0.tgz')
+    assert.equal(fs.statSync(tarball).size, size)
+    const tar = gunzipSync(fs.readFileSync(tarball))
+    assert.equal(tar.subarray(0, 17).toString(), 'package/README.md')
+    assert.equal(tar.subarray(1024, 1024 + 31).toString(), 'package/skills/a/scripts/run.sh')
+    assert.equal(tar.length, 512 * 4 + 1024)
+  })
+})
@@ -0,0 +1,293 @@
+/**
+ * Plugin Packaging
+ *
+ * Works out which files `npm pack` would publish for a plugin and checks the
+ * bundle is complete before it goes anywhere:
+ *
+ * - Every skill publish validates (the `claude-plugin.skills` entries and a
+ *   SKILL.md at the plugin root) and every script, template and reference
+ *   its SKILL.md points to is inside the `files` list
+ * - Files named by package.json `scripts` are packaged
+ * - README.md, CHANGELOG.md and LICENSE exist and have no leftover
+ *   `{{...}}` template placeholders (code examples in markdown may show them)
+ *
+ * The tarball is written locally with the same layout as `npm pack`
+ * (`package/<path>`), so it can be inspected without a registry.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { gzipSync } from 'zlib'
+import { expandGlob, isGlob, listSkillFiles } from './files'
+import { lineText, positionAt } from './findings'
+import { createScanContext } from './scan'
+
+export interface PackageJson {
+  name?: string
+  version?: string
+  description?: string
+  keywords?: string[]
+  files?: string[]
+  scripts?: Record<string, string>
+  'claude-plugin'?: { name?: string; description?: string; skills?: string[] }
+}
+
+export type PackageIssueKind = 'package-json' | 'skill-not-packaged' | 'file-not-packaged' | 'missing-doc' | 'placeholder'
+
+export interface PackageIssue {
+  kind: PackageIssueKind
+  message: string
+  /** Path relative to the plugin root */
+  file: string
+  line: number
+  column: number
+  snippet: string
+}
+
+/** Files the package must ship, rendered from templates/ */
+export const REQUIRED_DOCS = ['README.md', 'CHANGELOG.md', 'LICENSE']
+
+// npm always packs these, whatever `files` says
+const ALWAYS_PACKED = /^(package\.json|readme(\..*)?|licen[cs]e(\..*)?|changelog(\..*)?)$/i
+
+const REFERENCE_PATTERN = /`((?:scripts|references|templates|examples)\/[^`\s]+)`/g
+const SCRIPT_PATH_PATTERN = /(?:^|\s)((?:\.\/)?[\w.-]+(?:\/[\w.-]+)+\.(?:mjs|cjs|js|ts|sh|py))\b/g
+const PLACEHOLDER_PATTERN = /\{\{[A-Za-z0-9_]+\}\}/g
+
+const toPosix = (file: string) => file.split(path.sep).join('/')
+
+export function readPackageJson(root: string): PackageJson | undefined {
+  const packagePath = path.join(root, 'package.json')
+  if (!fs.existsSync(packagePath)) return undefined
+  return JSON.parse(fs.readFileSync(packagePath, 'utf-8')) as PackageJson
+}
+
+/**
+ * Files `npm pack` would include, relative to the root and sorted. Without a
+ * `files` list everything except node_modules and .git is packed.
+ */
+export function resolvePackageFiles(root: string, pkg: PackageJson): string[] {
+  const all = listSkillFiles(root, ['']).map((file) => toPosix(path.relative(root, file)))
+  if (!pkg.files) return all.sort()
+
+  const included = new Set(all.filter((file) => !file.includes('/') && ALWAYS_PACKED.test(file)))
+  for (const entry of pkg.files) {
+    const pattern = entry.replace(/^\.?\//, '').replace(/\/$/, '')
+    const matches = isGlob(pattern) ? expandGlob(pattern, root).map((match) => toPosix(path.relative(root, match))) : [pattern]
+    for (const match of matches) {
+      for (const file of all) {
+        if (file === match || file.startsWith(`${match}/`)) included.add(file)
+      }
+    }
+  }
+  return Array.from(included).sort()
+}
+
+/**
+ * Check that a plugin's package is complete
+ */
+export function checkPackage(root: string): PackageIssue[] {
+  const issues: PackageIssue[] = []
+  const at = (file: string, content: string, index: number) => {
+    const position = positionAt(content, index)
+    return { file, ...position, snippet: lineText(content, position.line) }
+  }
+
+  const packagePath = path.join(root, 'package.json')
+  if (!fs.existsSync(packagePath)) {
+    return [{ kind: 'package-json', message: 'package.json is missing', file: 'package.json', line: 1, column: 1, snippet: '' }]
+  }
+  const packageContent = fs.readFileSync(packagePath, 'utf-8')
+  let pkg: PackageJson
+  try {
+    pkg = JSON.parse(packageContent) as PackageJson
+  } catch (error) {
+    return [
+      {
+        kind: 'package-json',
+        message: `package.json is not valid JSON: ${(error as Error).message}`,
+        file: 'package.json',
+        line: 1,
+        column: 1,
+        snippet: '',
+      },
+    ]
+  }
+
+  for (const field of ['name', 'version', 'description'] as const) {
+    if (!pkg[field]) {
+      issues.push({ kind: 'package-json', message: `package.json has no "${field}"`, ...at('package.json', packageContent, 0) })
+    }
+  }
+
+  const packaged = new Set(resolvePackageFiles(root, pkg))
+  const fieldAt = (key: string) => Math.max(0, packageContent.indexOf(`"${key}"`))
+
+  // Skills and what their SKILL.md points to; a SKILL.md at the root is a
+  // skill too (see discoverSkills), whether or not it is declared
+  const declared = pkg['claude-plugin']?.skills ?? []
+  const skillDirOf = (skill: string) => toPosix(path.normalize(skill)).replace(/\/$/, '')
+  const hasRootSkill = fs.existsSync(path.join(root, 'SKILL.md')) && !declared.some((skill) => skillDirOf(skill) === '.')
+  const skills = hasRootSkill ? [...declared, '.'] : declared
+  if (declared.length === 0) {
+    issues.push({
+      kind: 'package-json',
+      message: 'package.json has no "claude-plugin.skills" entries',
+      ...at('package.json', packageContent, fieldAt('claude-plugin')),
+    })
+  }
+  for (const skill of skills) {
+    const skillDir = skillDirOf(skill)
+    const skillMd = path.posix.join(skillDir, 'SKILL.md')
+    const name = skillDir === '.' ? 'at the plugin root' : skill
+    if (!fs.existsSync(path.join(root, skillMd))) {
+      issues.push({
+        kind: 'skill-not-packaged',
+        message: `Skill ${skill} has no SKILL.md`,
+        ...at('package.json', packageContent, fieldAt(skill)),
+      })
+      continue
+    }
+    if (!packaged.has(skillMd)) {
+      issues.push({
+        kind: 'skill-not-packaged',
+        message: `Skill ${name} is not in the package.json "files" list`,
+        ...at('package.json', packageContent, fieldAt('files')),
+      })
+      continue
+    }
+
+    const content = fs.readFileSync(path.join(root, skillMd), 'utf-8')
+    for (const match of content.matchAll(REFERENCE_PATTERN)) {
+      // Relative to the skill, or to the plugin root for shared templates/
+      const candidates = [path.posix.join(skillDir, match[1]), match[1]].map((file) => toPosix(path.normalize(file)))
+      const existing = candidates.find((file) => fs.existsSync(path.join(root, file)))
+      if (!existing) continue // missing-reference is the validator's job
+      const fullPath = path.join(root, existing)
+      const files = fs.statSync(fullPath).isDirectory()
+        ? listSkillFiles(fullPath, ['']).map((file) => toPosix(path.relative(root, file)))
+        : [existing]
+      if (!files.every((file) => packaged.has(file))) {
+        issues.push({
+          kind: 'file-not-packaged',
+          message: `${existing}, referenced from ${skillMd}, is not packaged`,
+          ...at(skillMd, content, match.index!),
+        })
+      }
+    }
+  }
+
+  // Files run by package.json scripts
+  for (const [name, command] of Object.entries(pkg.scripts ?? {})) {
+    for (const match of command.matchAll(SCRIPT_PATH_PATTERN)) {
+      const file = toPosix(path.normalize(match[1]))
+      if (fs.existsSync(path.join(root, file)) && !packaged.has(file)) {
+        issues.push({
+          kind: 'file-not-packaged',
+          message: `${file}, run by the "${name}" script, is not packaged`,
+          ...at('package.json', packageContent, fieldAt(name)),
+        })
+      }
+    }
+  }
+
+  // Docs rendered from templates/
+  for (const doc of REQUIRED_DOCS) {
+    const docPath = path.join(root, doc)
+    if (!fs.existsSync(docPath)) {
+      issues.push({
+        kind: 'missing-doc',
+        message: `${doc} is missing (render it from templates/)`,
+        file: doc,
+        line: 1,
+        column: 1,
+        snippet: '',
+      })
+      continue
+    }
+    const content = fs.readFileSync(docPath, 'utf-8')
+    const context = createScanContext(doc, content)
+    for (const match of content.matchAll(PLACEHOLDER_PATTERN)) {
+      const position = positionAt(content, match.index!)
+      if (doc.endsWith('.md') && context.isCode(position.line, position.column)) continue
+      issues.push({
+        kind: 'placeholder',
+        message: `${doc} still contains the template placeholder ${match[0]}`,
+        ...at(doc, content, match.index!),
+      })
+    }
+  }
+  for (const match of packageContent.matchAll(PLACEHOLDER_PATTERN)) {
+    issues.push({
+      kind: 'placeholder',
+      message: `package.json still contains the template placeholder ${match[0]}`,
+      ...at('package.json', packageContent, match.index!),
+    })
+  }
+
+  return issues
+}
+
+/**
+ * One 512-byte ustar header
+ */
+function tarHeader(name: string, size: number, mode: number, mtime: number): Buffer {
+  const header = Buffer.alloc(512)
+  let prefix = ''
+  let base = name
+  if (Buffer.byteLength(name) > 100) {
+    // Long paths are split at a slash into prefix (155 bytes) and name (100 bytes)
+    const cut = Array.from(name.matchAll(/\//g), (m) => m.index!).find(
+      (i) => Buffer.byteLength(name.slice(0, i)) <= 155 && Buffer.byteLength(name.slice(i + 1)) <= 100
+    )
+    if (cut === undefined) throw new Error(`Path too long for a tarball: ${name}`)
+    prefix = name.slice(0, cut)
+    base = name.slice(cut + 1)
+  }
+  const write = (value: string, offset: number, length: number) => header.write(value, offset, length, 'utf-8')
+  const octal = (value: number, length: number) => value.toString(8).padStart(length - 1, '0') + '\0'
+
+  write(base, 0, 100)
+  write(octal(mode, 8), 100, 8)
+  write(octal(0, 8), 108, 8) // uid
+  write(octal(0, 8), 116, 8) // gid
+  write(octal(size, 12), 124, 12)
+  write(octal(mtime, 12), 136, 12)
+  write('        ', 148, 8) // checksum placeholder
+  write('0', 156, 1) // regular file
+  write('ustar\0', 257, 6)
+  write('00', 263, 2)
+  write(prefix, 345, 155)
+
+  const checksum = header.reduce((sum, byte) => sum + byte, 0)
+  write(octal(checksum, 7) + ' ', 148, 8)
+  return header
+}
+
+/**
+ * Write a gzipped tarball of `files` (relative to root) under `package/`,
+ * like `npm pack`. Returns the tarball size in bytes.
+ */
+export function createTarball(root: string, files: string[], tarballPath: string): number {
+  const chunks: Buffer[] = []
+  for (const file of files) {
+    const fullPath = path.join(root, file)
+    const stat = fs.statSync(fullPath)
+    const data = fs.readFileSync(fullPath)
+    chunks.push(tarHeader(`package/${file}`, data.length, stat.mode & 0o111 ? 0o755 : 0o644, Math.floor(stat.mtimeMs / 1000)))
+    chunks.push(data, Buffer.alloc((512 - (data.length % 512)) % 512))
+  }
+  chunks.push(Buffer.alloc(1024)) // end-of-archive marker
+
+  const tarball = gzipSync(Buffer.concat(chunks))
+  fs.mkdirSync(path.dirname(tarballPath), { recursive: true })
+  fs.writeFileSync(tarballPath, tarball)
+  return tarball.length
+}
+
+/**
+ * npm's tarball name: scope removed, `/` replaced
+ */
+export function tarballName(pkg: PackageJson): string {
+  return `${(pkg.name ?? 'package').replace(/^@/, '').replace(/\//g, '-')}-${pkg.version ?? '0.0.0'}.tgz`
+}
@@ -0,0 +1,105 @@
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import '../validate-skill'
+import { checkPluginConsistency, discoverSkills, findSkillRoot, readSkillSummary } from './plugin'
+import { loadConfig, RuleReporter } from './rules'
+
+const skillMd = (name: string, triggers: string) =>
+  `---\nname: ${name}\ndescription: This skill should be used when the user asks to ${triggers}.\n---\n\n# ${name}\n`
+
+describe('discoverSkills', () => {
+  let root: string
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'plugin-test-'))
+  })
+
+  afterEach(() => fs.rmSync(root, { recursive: true, force: true }))
+
+  const addSkill = (dir: string, name = path.basename(dir)) => {
+    fs.mkdirSync(path.join(root, dir), { recursive: true })
+    fs.writeFileSync(path.join(root, dir, 'SKILL.md'), skillMd(name, '"tidy notes"'))
+  }
+  const relative = (skills: string[]) => skills.map((skill) => path.relative(root, skill) || '.').sort()
+
+  it('reads a plugin root and the skills its package.json lists', () => {
+    addSkill('.', 'root-skill')
+    addSkill('skills/note-tidy')
+    addSkill('skills/unlisted')
+    fs.writeFileSync(path.join(root, 'package.json'), JSON.stringify({ 'claude-plugin': { skills: ['skills/note-tidy'] } }))
+
+    assert.deepEqual(relative(discoverSkills(['.'], root)), ['.', 'skills/note-tidy'])
+  })
+
+  it('searches a directory without a plugin for nested skills', () => {
+    addSkill('a/note-tidy')
+    addSkill('a/note-tidy/nested')
+    addSkill('b/changelog')
+    addSkill('node_modules/dependency')
+    addSkill('templates/example')
+
+    assert.deepEqual(relative(discoverSkills(['.'], root)), ['a/note-tidy', 'b/changelog'])
+  })
+
+  it('accepts SKILL.md files and globs, keeps missing paths and lists a symlinked skill once', () => {
+    addSkill('skills/note-tidy')
+    addSkill('skills/changelog')
+    fs.symlinkSync(path.join(root, 'skills', 'note-tidy'), path.join(root, 'linked'))
+
+    assert.deepEqual(
+      relative(discoverSkills(['skills/*', 'linked/SKILL.md', 'skills/missing'], root)),
+      ['skills/changelog', 'skills/missing', 'skills/note-tidy']
+    )
+  })
+})
+
+describe('findSkillRoot', () => {
+  let root: string
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'plugin-test-'))
+    fs.mkdirSync(path.join(root, 'note-tidy', 'scripts'), { recursive: true })
+    fs.writeFileSync(path.join(root, 'note-tidy', 'SKILL.md'), skillMd('note-tidy', '"tidy notes"'))
+  })
+
+  afterEach(() => fs.rmSync(root, { recursive: true, force: true }))
+
+  it('finds the nearest skill above a file, even a deleted one', () => {
+    assert.equal(findSkillRoot('note-tidy/scripts/removed.ts', root), path.join(root, 'note-tidy'))
+    assert.equal(findSkillRoot('note-tidy/node_modules/pkg/index.js', root), undefined)
+  })
+})
+
+describe('checkPluginConsistency', () => {
+  let root: string
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'plugin-test-'))
+    for (const [dir, name, triggers] of [
+      ['note-tidy', 'note-tidy', '"tidy notes" or "group changelog entries"'],
+      ['notes-copy', 'Note-Tidy', '"format notes"'],
+      ['changelog', 'changelog', '"Group changelog entries"'],
+    ]) {
+      fs.mkdirSync(path.join(root, dir))
+      fs.writeFileSync(path.join(root, dir, 'SKILL.md'), skillMd(name, triggers))
+    }
+  })
+
+  afterEach(() => fs.rmSync(root, { recursive: true, force: true }))
+
+  it('reports duplicate names and trigger phrases on the later skills', () => {
+    const skills = ['note-tidy', 'notes-copy', 'changelog'].map((dir) => readSkillSummary(path.join(root, dir)))
+    const result = checkPluginConsistency(skills, new RuleReporter(root, loadConfig(root)))
+
+    assert.deepEqual(
+      result.findings.map((f) => `${f.ruleId} ${f.file}:${f.line}: ${f.message}`),
+      [
+        'duplicate-skill-name notes-copy/SKILL.md:2: Skill name "Note-Tidy" is also used by note-tidy',
+        'overlapping-trigger changelog/SKILL.md:3: Trigger phrase "Group changelog entries" is also used by note-tidy (note-tidy)',
+      ]
+    )
+  })
+})
@@ -0,0 +1,201 @@
+/**
+ * Plugin-Wide Validation
+ *
+ * Discovers the skills in a plugin (or any directory of skills) and checks
+ * what only makes sense across skills: duplicate names and trigger phrases
+ * claimed by more than one skill.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { expandGlob, isGlob, readDirectory, statPath, visitOnce } from './files'
+import { getString, parseFrontmatter } from './frontmatter'
+import { createResult, lineText, type ValidationResult } from './findings'
+import type { RuleReporter } from './rules'
+import { extractTriggers, normalizeTrigger, triggerPhrases, type TriggerPhrase } from './triggers'
+
+export interface SkillSummary {
+  /** Absolute path of the skill directory */
+  path: string
+  /** Frontmatter name, or the directory name if it cannot be read */
+  name: string
+  triggers: TriggerPhrase[]
+}
+
+// Directories never searched for nested skills
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git', 'templates'])
+
+/**
+ * Resolve validation targets to skill directories.
+ *
+ * Each target may be a skill directory, a SKILL.md file, a glob, or a plugin
+ * root. A directory's skills are its own SKILL.md plus the entries of
+ * `claude-plugin.skills` in its package.json; a directory with neither is
+ * searched for nested skills (e.g. ~/.claude/skills).
+ */
+export function discoverSkills(targets: string[], cwd = process.cwd()): string[] {
+  const found = new Set<string>()
+
+  function add(target: string) {
+    const resolved = path.resolve(cwd, target)
+    if (!fs.existsSync(resolved)) {
+      found.add(resolved) // Reported as a missing path by the caller
+      return
+    }
+    if (fs.statSync(resolved).isFile()) {
+      if (path.basename(resolved) === 'SKILL.md') found.add(path.dirname(resolved))
+      return
+    }
+
+    const pluginSkills = readPluginSkills(resolved)
+    const hasSkillMd = fs.existsSync(path.join(resolved, 'SKILL.md'))
+    if (hasSkillMd) found.add(resolved)
+    for (const skill of pluginSkills) found.add(path.resolve(resolved, skill))
+    if (!hasSkillMd && pluginSkills.length === 0) {
+      for (const nested of findNestedSkills(resolved)) found.add(nested)
+    }
+  }
+
+  for (const target of targets) {
+    if (isGlob(target)) {
+      expandGlob(target, cwd).forEach(add)
+    } else {
+      add(target)
+    }
+  }
+
+  // A skill reached through a symlink as well as directly is validated once
+  const real = new Set<string>()
+  return Array.from(found).filter((skill) => {
+    const key = fs.existsSync(skill) ? fs.realpathSync(skill) : skill
+    if (real.has(key)) return false
+    real.add(key)
+    return true
+  })
+}
+
+/** `claude-plugin.skills` from a directory's package.json, if any */
+function readPluginSkills(dir: string): string[] {
+  const packagePath = path.join(dir, 'package.json')
+  if (!fs.existsSync(packagePath)) return []
+  try {
+    const pkg = JSON.parse(fs.readFileSync(packagePath, 'utf-8'))
+    const skills = pkg?.['claude-plugin']?.skills
+    return Array.isArray(skills) ? skills.filter((s: unknown): s is string => typeof s === 'string') : []
+  } catch {
+    return []
+  }
+}
+
+/** Directories below `dir` that contain a SKILL.md, without descending into skills */
+function findNestedSkills(dir: string, firstVisit = visitOnce()): string[] {
+  const skills: string[] = []
+  if (!firstVisit(dir)) return skills
+  for (const item of readDirectory(dir)) {
+    const fullPath = path.join(dir, item)
+    if (IGNORED_DIRECTORIES.has(item) || !statPath(fullPath)?.isDirectory()) continue
+    if (fs.existsSync(path.join(fullPath, 'SKILL.md'))) {
+      skills.push(fullPath)
+    } else {
+      skills.push(...findNestedSkills(fullPath, firstVisit))
+    }
+  }
+  return skills
+}
+
+/**
+ * The skill a file belongs to: the nearest directory at or above it with a
+ * SKILL.md. The file itself need not exist (it may have been deleted).
+ * Undefined for files in no skill, or inside node_modules or .git.
+ */
+export function findSkillRoot(file: string, cwd = process.cwd()): string | undefined {
+  const resolved = path.resolve(cwd, file)
+  if (resolved.split(path.sep).some((part) => part === 'node_modules' || part === '.git')) return undefined
+  for (let dir = path.dirname(resolved); ; dir = path.dirname(dir)) {
+    if (fs.existsSync(path.join(dir, 'SKILL.md'))) return dir
+    if (path.dirname(dir) === dir) return undefined
+  }
+}
+
+/**
+ * Name and trigger phrases of a skill
+ */
+export function readSkillSummary(skillPath: string): SkillSummary {
+  const summary: SkillSummary = { path: skillPath, name: path.basename(skillPath), triggers: [] }
+  const skillMdPath = path.join(skillPath, 'SKILL.md')
+  if (!fs.existsSync(skillMdPath)) return summary
+
+  const content = fs.readFileSync(skillMdPath, 'utf-8')
+  try {
+    summary.name = getString(parseFrontmatter(content).data, 'name') || summary.name
+  } catch {
+    // Frontmatter errors are reported when the skill itself is validated
+  }
+  summary.triggers = triggerPhrases(extractTriggers(content))
+  return summary
+}
+
+/**
+ * Check skills against each other. Findings point at each skill's SKILL.md,
+ * relative to the reporter's root.
+ */
+export function checkPluginConsistency(skills: SkillSummary[], reporter: RuleReporter): ValidationResult {
+  const result = createResult()
+
+  function skillMd(skill: SkillSummary): { file: string; content: string } {
+    const fullPath = path.join(skill.path, 'SKILL.md')
+    return {
+      file: path.relative(reporter.skillPath, fullPath),
+      content: fs.existsSync(fullPath) ? fs.readFileSync(fullPath, 'utf-8') : '',
+    }
+  }
+
+  // Duplicate names
+  const byName = new Map<string, SkillSummary[]>()
+  for (const skill of skills) {
+    const key = skill.name.toLowerCase()
+    byName.set(key, [...(byName.get(key) ?? []), skill])
+  }
+  for (const group of byName.values()) {
+    if (group.length < 2) continue
+    for (const skill of group.slice(1)) {
+      const { file, content } = skillMd(skill)
+      const index = content.search(/^name:/m)
+      const line = index === -1 ? 1 : content.slice(0, index).split('\n').length
+      reporter.report(result, 'duplicate-skill-name', {
+        message: `Skill name "${skill.name}" is also used by ${path.relative(reporter.skillPath, group[0].path) || '.'}`,
+        file,
+        line,
+        column: 1,
+        snippet: lineText(content, line),
+      })
+    }
+  }
+
+  // Trigger phrases claimed by more than one skill
+  const byTrigger = new Map<string, SkillSummary[]>()
+  for (const skill of skills) {
+    for (const trigger of new Set(skill.triggers.map((t) => normalizeTrigger(t.phrase)))) {
+      byTrigger.set(trigger, [...(byTrigger.get(trigger) ?? []), skill])
+    }
+  }
+  for (const [trigger, group] of byTrigger) {
+    if (group.length < 2) continue
+    for (const skill of group.slice(1)) {
+      const { file, content } = skillMd(skill)
+      const original = skill.triggers.find((t) => normalizeTrigger(t.phrase) === trigger)!
+      reporter.report(result, 'overlapping-trigger', {
+        message: `Trigger phrase "${original.phrase}" is also used by ${group
+          .filter((other) => other !== skill)
+          .map((other) => `${other.name} (${path.relative(reporter.skillPath, other.path) || '.'})`)
+          .join(', ')}`,
+        file,
+        line: original.line,
+        column: original.column,
+        snippet: lineText(content, original.line),
+      })
+    }
+  }
+
+  return result
+}
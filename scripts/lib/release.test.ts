@@ -0,0 +1,126 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import {
+  bumpVersion,
+  compareVersions,
+  describeChangedFiles,
+  diffSkill,
+  findVersionMismatches,
+  readChangelogVersion,
+  readPackageVersion,
+  readSkillVersion,
+  releaseChangelog,
+  setPackageVersion,
+  setSkillVersion,
+  suggestBump,
+} from './release'
+
+const skillMd = (triggers: string, table = '') =>
+  `---\nname: note-tidy\ndescription: This skill should be used when the user asks to ${triggers}.\n---\n\n# Note Tidy\n${table}`
+
+const ENV_TABLE = '\n## Environment Variables\n\n| Variable | Required |\n|----------|----------|\n| `NOTES_DIR` | Yes |\n'
+
+describe('versions', () => {
+  it('compares and bumps semantic versions', () => {
+    assert.deepEqual(['1.10.0', 'v1.2.0', '1.2.0-beta', 'draft', '1.2.0'].sort(compareVersions), ['draft', '1.2.0-beta', 'v1.2.0', '1.2.0', '1.10.0'])
+    assert.equal(bumpVersion('1.2.3', 'major'), '2.0.0')
+    assert.equal(bumpVersion('1.2.3', 'minor'), '1.3.0')
+    assert.equal(bumpVersion('1.2.3', 'patch'), '1.2.4')
+    assert.equal(bumpVersion('2.0.0-rc.1', 'patch'), '2.0.0')
+    assert.throws(() => bumpVersion('next', 'patch'), /Not a semantic version: next/)
+  })
+
+  it('reads the version from SKILL.md, package.json and CHANGELOG.md', () => {
+    const sources = [
+      readSkillVersion('SKILL.md', '---\nname: note-tidy\nversion: 1.2.0\n---\n'),
+      readPackageVersion('{\n  "name": "note-tidy",\n  "version": "1.3.0"\n}\n'),
+      readChangelogVersion('# Changelog\n\n## [Unreleased]\n\n## [1.2.0] - 2026-01-05\n'),
+    ]
+
+    assert.deepEqual(sources, [
+      { file: 'SKILL.md', version: '1.2.0', line: 3 },
+      { file: 'package.json', version: '1.3.0', line: 3 },
+      { file: 'CHANGELOG.md', version: '1.2.0', line: 5 },
+    ])
+    assert.equal(findVersionMismatches(sources).length, 3)
+    assert.deepEqual(findVersionMismatches([sources[0], sources[2], readSkillVersion('SKILL.md', '---\nname: [\n---\n')]), [])
+    assert.deepEqual(readPackageVersion('{ "version": '), { file: 'package.json', line: 1 })
+  })
+
+  it('writes the version into SKILL.md and package.json', () => {
+    assert.equal(setSkillVersion('---\nname: note-tidy\n---\n\n# Note Tidy\n', '1.0.0'), '---\nname: note-tidy\nversion: 1.0.0\n---\n\n# Note Tidy\n')
+    assert.equal(setSkillVersion('---\nversion: 0.9.0\n---\n', '1.0.0'), '---\nversion: 1.0.0\n---\n')
+    assert.throws(() => setSkillVersion('# Note Tidy\n', '1.0.0'), /SKILL\.md missing YAML frontmatter/)
+    assert.equal(setPackageVersion('{\n  "name": "note-tidy"\n}\n', '1.0.0'), '{\n  "name": "note-tidy",\n  "version": "1.0.0"\n}\n')
+    assert.equal(setPackageVersion('{\n  "name": "note-tidy",\n  "private": true\n}\n', '1.0.0'), '{\n  "name": "note-tidy",\n  "version": "1.0.0",\n  "private": true\n}\n')
+    assert.equal(setPackageVersion('{\n  "version": "0.9.0"\n}\n', '1.0.0'), '{\n  "version": "1.0.0"\n}\n')
+  })
+})
+
+describe('diffSkill', () => {
+  it('treats removed triggers and variables as major and new triggers as minor', () => {
+    const changes = diffSkill(
+      { skillMd: skillMd('"tidy notes" or "sort notes"', ENV_TABLE), envSchema: 'NOTES_USER=\n' },
+      { skillMd: skillMd('"tidy notes" or "group the changelog"'), envSchema: 'NOTES_USER=\nNOTES_LIMIT=\n' },
+      'note-tidy'
+    )
+
+    assert.deepEqual(
+      changes.map((c) => `${c.bump} ${c.kind}: ${c.description}`),
+      [
+        'major trigger-removed: Removed trigger phrase "sort notes" from note-tidy',
+        'minor trigger-added: Trigger phrase "group the changelog" in note-tidy',
+        'major env-removed: Removed environment variable `NOTES_DIR` from note-tidy',
+        'patch env-added: Environment variable `NOTES_LIMIT` in note-tidy',
+      ]
+    )
+    assert.equal(suggestBump(changes), 'major')
+    assert.equal(suggestBump(changes.filter((c) => c.bump !== 'major')), 'minor')
+    assert.equal(suggestBump([]), undefined)
+  })
+
+  it('groups other changed files by the skill that owns them', () => {
+    const skills = [
+      { name: 'plugin', dir: '' },
+      { name: 'note-tidy', dir: 'skills/note-tidy' },
+    ]
+    const files = ['skills/note-tidy/a.md', 'skills/note-tidy/b.md', 'skills/note-tidy/c.md', 'skills/note-tidy/d.md', 'README.md', 'CHANGELOG.md']
+
+    assert.deepEqual(
+      describeChangedFiles(files, skills).map((c) => c.description),
+      ['Updated note-tidy: `a.md`, `b.md`, `c.md` and 1 more files', 'Updated plugin: `README.md`']
+    )
+  })
+})
+
+describe('releaseChangelog', () => {
+  const changes = diffSkill({ skillMd: skillMd('"tidy notes" or "sort notes"') }, { skillMd: skillMd('"tidy notes" or "group notes"') }, 'note-tidy')
+
+  it('writes an entry from the detected changes under an empty Unreleased heading', () => {
+    const content = '# Changelog\n\n## [Unreleased]\n\n## [1.0.0] - 2026-01-05\n\n- First release\n'
+
+    assert.equal(
+      releaseChangelog(content, '2.0.0', '2026-03-01', changes),
+      '# Changelog\n\n## [Unreleased]\n\n## [2.0.0] - 2026-03-01\n\n### Added\n- Trigger phrase "group notes" in note-tidy\n\n' +
+        '### Changed\n- **Breaking:** Removed trigger phrase "sort notes" from note-tidy\n\n## [1.0.0] - 2026-01-05\n\n- First release\n'
+    )
+  })
+
+  it('turns existing Unreleased notes into the release', () => {
+    const content = '# Changelog\n\n## [Unreleased]\n\n### Fixed\n- Sorting\n\n## [1.0.0] - 2026-01-05\n'
+
+    assert.equal(
+      releaseChangelog(content, '1.0.1', '2026-03-01', changes),
+      '# Changelog\n\n## [Unreleased]\n\n## [1.0.1] - 2026-03-01\n\n### Fixed\n- Sorting\n\n## [1.0.0] - 2026-01-05\n'
+    )
+  })
+
+  it('starts a changelog from the template header and uses its sections', () => {
+    const template = '# Changelog\n\nKeep a Changelog.\n\n## [1.0.0]\n\n## Template\n\n```markdown\n### Changed\n### Lesson Learned\n```\n'
+
+    assert.equal(
+      releaseChangelog('', '1.0.0', '2026-03-01', changes, template),
+      '# Changelog\n\nKeep a Changelog.\n\n## [1.0.0] - 2026-03-01\n\n### Changed\n- **Breaking:** Removed trigger phrase "sort notes" from note-tidy\n'
+    )
+  })
+})
@@ -0,0 +1,315 @@
+/**
+ * Versions and Releases
+ *
+ * A plugin's version is written in three places that drift apart: each
+ * SKILL.md's `version:` frontmatter, package.json and the latest release
+ * heading in CHANGELOG.md. This module reads and updates all three, and
+ * suggests a semantic version bump from what changed in a skill since the
+ * last release:
+ *
+ * - Removed trigger phrases or environment variables: major (users' prompts
+ *   or configuration stop working)
+ * - New trigger phrases: minor
+ * - Anything else: patch
+ *
+ * CHANGELOG.md entries follow Keep a Changelog, with the sections of the
+ * entry template in templates/CHANGELOG-template.md.
+ */
+
+import { FrontmatterError, extractFrontmatter, parseFrontmatter } from './frontmatter'
+import { parseEnvSchema, readEnvTable } from './env-schema'
+import { extractTriggers, normalizeTrigger, triggerPhrases } from './triggers'
+
+export type BumpType = 'major' | 'minor' | 'patch'
+
+export const BUMP_TYPES: BumpType[] = ['major', 'minor', 'patch']
+
+export interface VersionSource {
+  /** Path relative to the plugin root */
+  file: string
+  /** Undefined when the file does not state a version */
+  version?: string
+  line: number
+}
+
+export type ReleaseChangeKind = 'trigger-removed' | 'env-removed' | 'trigger-added' | 'env-added' | 'changed'
+
+export interface ReleaseChange {
+  kind: ReleaseChangeKind
+  bump: BumpType
+  /** Changelog line, e.g. `Trigger phrase "deploy app"` */
+  description: string
+}
+
+/** What a skill looked like at one point: SKILL.md and .env.schema content */
+export interface SkillSnapshot {
+  skillMd?: string
+  envSchema?: string
+}
+
+export const CHANGELOG_FILE = 'CHANGELOG.md'
+
+// Sections used when the entry template cannot be read
+const DEFAULT_SECTIONS = ['Added', 'Changed', 'Fixed']
+
+const SEMVER = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/
+const RELEASE_HEADING = /^## \[(\d+\.\d+\.\d+[^\]]*)\]/m
+const UNRELEASED_HEADING = /^## \[Unreleased\][^\n]*\n/im
+const VERSION_FIELD = /^(\s*"version"\s*:\s*)"[^"]*"/m
+
+const BUMP_ORDER: Record<BumpType, number> = { major: 3, minor: 2, patch: 1 }
+
+export function parseVersion(version: string): { major: number; minor: number; patch: number; prerelease?: string } | undefined {
+  const match = version.trim().match(SEMVER)
+  if (!match) return undefined
+  return { major: Number(match[1]), minor: Number(match[2]), patch: Number(match[3]), prerelease: match[4] }
+}
+
+/**
+ * Compare two semantic versions; invalid versions sort first
+ */
+export function compareVersions(a: string, b: string): number {
+  const [left, right] = [parseVersion(a), parseVersion(b)]
+  if (!left || !right) return Number(Boolean(left)) - Number(Boolean(right))
+  return (
+    left.major - right.major ||
+    left.minor - right.minor ||
+    left.patch - right.patch ||
+    // 1.0.0-beta < 1.0.0
+    Number(!left.prerelease) - Number(!right.prerelease) ||
+    (left.prerelease ?? '').localeCompare(right.prerelease ?? '')
+  )
+}
+
+export function bumpVersion(version: string, bump: BumpType): string {
+  const parsed = parseVersion(version)
+  if (!parsed) throw new Error(`Not a semantic version: ${version}`)
+  if (bump === 'major') return `${parsed.major + 1}.0.0`
+  if (bump === 'minor') return `${parsed.major}.${parsed.minor + 1}.0`
+  // A patch release of a prerelease is the release itself
+  return parsed.prerelease ? `${parsed.major}.${parsed.minor}.${parsed.patch}` : `${parsed.major}.${parsed.minor}.${parsed.patch + 1}`
+}
+
+/**
+ * The `version:` field of SKILL.md frontmatter
+ */
+export function readSkillVersion(file: string, content: string): VersionSource {
+  try {
+    const { data, positions } = parseFrontmatter(content)
+    const version = data.version
+    return {
+      file,
+      ...(version === undefined || version === null ? {} : { version: String(version) }),
+      line: positions.get('version')?.line ?? 1,
+    }
+  } catch (error) {
+    if (error instanceof FrontmatterError) return { file, line: 1 }
+    throw error
+  }
+}
+
+export function readPackageVersion(content: string): VersionSource {
+  const match = content.match(VERSION_FIELD)
+  const line = match ? content.slice(0, match.index).split('\n').length : 1
+  try {
+    const version = (JSON.parse(content) as { version?: unknown }).version
+    return { file: 'package.json', ...(typeof version === 'string' ? { version } : {}), line }
+  } catch {
+    return { file: 'package.json', line }
+  }
+}
+
+/**
+ * The most recent released version in CHANGELOG.md (the first `## [X.Y.Z]`
+ * heading; `## [Unreleased]` is skipped)
+ */
+export function readChangelogVersion(content: string): VersionSource {
+  const match = content.match(RELEASE_HEADING)
+  if (!match) return { file: CHANGELOG_FILE, line: 1 }
+  return { file: CHANGELOG_FILE, version: match[1], line: content.slice(0, match.index).split('\n').length }
+}
+
+/**
+ * The sources that state a version, when they do not all state the same one
+ */
+export function findVersionMismatches(sources: VersionSource[]): VersionSource[] {
+  const stated = sources.filter((source) => source.version !== undefined)
+  return new Set(stated.map((source) => source.version)).size > 1 ? stated : []
+}
+
+/**
+ * Changes to one skill between two snapshots, with the bump each one needs
+ */
+export function diffSkill(before: SkillSnapshot, after: SkillSnapshot, skillName: string): ReleaseChange[] {
+  const changes: ReleaseChange[] = []
+  const compare = (
+    old: Map<string, string>,
+    current: Map<string, string>,
+    removed: Omit<ReleaseChange, 'description'>,
+    added: Omit<ReleaseChange, 'description'>,
+    describe: (name: string) => string
+  ) => {
+    for (const [key, name] of old) {
+      if (!current.has(key)) changes.push({ ...removed, description: `Removed ${describe(name)} from ${skillName}` })
+    }
+    for (const [key, name] of current) {
+      const noun = describe(name)
+      if (!old.has(key)) changes.push({ ...added, description: `${noun[0].toUpperCase()}${noun.slice(1)} in ${skillName}` })
+    }
+  }
+
+  compare(
+    triggersOf(before.skillMd),
+    triggersOf(after.skillMd),
+    { kind: 'trigger-removed', bump: 'major' },
+    { kind: 'trigger-added', bump: 'minor' },
+    (phrase) => `trigger phrase "${phrase}"`
+  )
+  compare(
+    envVarsOf(before),
+    envVarsOf(after),
+    { kind: 'env-removed', bump: 'major' },
+    { kind: 'env-added', bump: 'patch' },
+    (name) => `environment variable \`${name}\``
+  )
+  return changes
+}
+
+function triggersOf(skillMd: string | undefined): Map<string, string> {
+  if (!skillMd) return new Map()
+  return new Map(triggerPhrases(extractTriggers(skillMd)).map((t) => [normalizeTrigger(t.phrase), t.phrase]))
+}
+
+// Variables declared in .env.schema or listed in the SKILL.md "Environment Variables" table
+function envVarsOf(snapshot: SkillSnapshot): Map<string, string> {
+  const names = [
+    ...(snapshot.envSchema ? parseEnvSchema(snapshot.envSchema).entries.map((entry) => entry.name) : []),
+    ...(snapshot.skillMd ? (readEnvTable(snapshot.skillMd) ?? []).map((row) => row.name) : []),
+  ]
+  return new Map(names.map((name) => [name, name]))
+}
+
+/**
+ * The largest bump any change needs; undefined when nothing changed
+ */
+export function suggestBump(changes: ReleaseChange[]): BumpType | undefined {
+  return changes.reduce<BumpType | undefined>(
+    (largest, change) => (!largest || BUMP_ORDER[change.bump] > BUMP_ORDER[largest] ? change.bump : largest),
+    undefined
+  )
+}
+
+/**
+ * Patch-level entries for changed files, one per skill (files under a skill
+ * directory, `dir` relative to the plugin root, '' for the root) and one for
+ * the rest of the plugin
+ */
+export function describeChangedFiles(files: string[], skills: Array<{ name: string; dir: string }>): ReleaseChange[] {
+  const groups = new Map<string, string[]>()
+  // Deepest skill directory first, so nested skills win over a skill at the root
+  const byDepth = [...skills].sort((a, b) => b.dir.length - a.dir.length)
+  for (const file of files) {
+    if (file === CHANGELOG_FILE) continue
+    const owner = byDepth.find((skill) => skill.dir === '' || file.startsWith(`${skill.dir}/`))
+    const key = owner?.name ?? ''
+    groups.set(key, [...(groups.get(key) ?? []), owner?.dir ? file.slice(owner.dir.length + 1) : file])
+  }
+
+  return Array.from(groups, ([name, changed]) => {
+    const listed = changed.slice(0, 3).map((file) => `\`${file}\``).join(', ')
+    const more = changed.length > 3 ? ` and ${changed.length - 3} more files` : ''
+    return { kind: 'changed' as const, bump: 'patch' as const, description: `Updated ${name ? `${name}: ` : ''}${listed}${more}` }
+  })
+}
+
+/**
+ * Set the `version:` field in SKILL.md frontmatter, adding it before the
+ * closing `---` if missing
+ */
+export function setSkillVersion(content: string, version: string): string {
+  const frontmatter = extractFrontmatter(content)
+  if (!frontmatter) throw new Error('SKILL.md missing YAML frontmatter')
+  const lines = content.split('\n')
+  const existing = lines.findIndex((line, i) => i < frontmatter.endLine - 1 && /^version:/.test(line))
+  if (existing !== -1) {
+    lines[existing] = `version: ${version}`
+  } else {
+    lines.splice(frontmatter.endLine - 1, 0, `version: ${version}`)
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Set package.json's version, keeping the file's formatting
+ */
+export function setPackageVersion(content: string, version: string): string {
+  if (VERSION_FIELD.test(content)) return content.replace(VERSION_FIELD, `$1"${version}"`)
+  // After "name", with the comma moved to "name" when it was the last key
+  return content.replace(/^(\s*)("name"\s*:\s*"[^"]*",?)/m, (_, indent: string, name: string) =>
+    name.endsWith(',')
+      ? `${indent}${name}\n${indent}"version": "${version}",`
+      : `${indent}${name},\n${indent}"version": "${version}"`
+  )
+}
+
+/**
+ * Entry sections (`### Added`, ...) from the "Template" block of
+ * templates/CHANGELOG-template.md, without "Lesson Learned", which cannot be
+ * generated
+ */
+export function changelogSections(template: string | undefined): string[] {
+  const block = template?.match(/^## Template[\s\S]*?```markdown\n([\s\S]*?)```/m)?.[1]
+  const sections = Array.from(block?.matchAll(/^### (.+)$/gm) ?? [], (match) => match[1].trim()).filter(
+    (section) => !/lesson learned/i.test(section)
+  )
+  return sections.length > 0 ? sections : DEFAULT_SECTIONS
+}
+
+/**
+ * Add a release entry to CHANGELOG.md. Notes under `## [Unreleased]` become
+ * the release; without any, an entry is written from the detected changes.
+ * A new, empty `## [Unreleased]` heading is kept above the release.
+ */
+export function releaseChangelog(
+  content: string,
+  version: string,
+  date: string,
+  changes: ReleaseChange[],
+  template?: string
+): string {
+  const heading = `## [${version}] - ${date}`
+  const unreleased = content.match(UNRELEASED_HEADING)
+
+  if (unreleased) {
+    const start = unreleased.index! + unreleased[0].length
+    const next = content.slice(start).search(/^## \[/m)
+    const notes = content.slice(start, next === -1 ? undefined : start + next).trim()
+    if (notes) {
+      return `${content.slice(0, unreleased.index)}## [Unreleased]\n\n${heading}\n${content.slice(start)}`
+    }
+    const rest = next === -1 ? '' : content.slice(start + next)
+    return `${content.slice(0, unreleased.index)}## [Unreleased]\n\n${formatEntry(heading, changes, template)}\n${rest}`
+  }
+
+  const entry = formatEntry(heading, changes, template)
+  if (!content.trim()) {
+    // Header of the template: title and the Keep a Changelog note
+    const header = template?.slice(0, Math.max(0, template.search(/^## \[/m))).trim()
+    return `${header || '# Changelog'}\n\n${entry}`
+  }
+  const first = content.search(/^## \[/m)
+  if (first === -1) return `${content.replace(/\n*$/, '\n')}\n${entry}`
+  return `${content.slice(0, first)}${entry}\n${content.slice(first)}`
+}
+
+function formatEntry(heading: string, changes: ReleaseChange[], template: string | undefined): string {
+  const sectionFor = (change: ReleaseChange) => (change.kind.endsWith('-added') ? 'Added' : 'Changed')
+  const parts = [heading]
+  for (const section of changelogSections(template)) {
+    const entries = changes.filter((change) => sectionFor(change) === section)
+    if (entries.length === 0) continue
+    const lines = entries.map((change) => `- ${change.bump === 'major' ? '**Breaking:** ' : ''}${change.description}`)
+    parts.push(`\n### ${section}\n${lines.join('\n')}`)
+  }
+  return `${parts.join('\n')}\n`
+}
@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { fingerprints, type Finding, type ValidationResult } from './findings'
+import { formatJson, formatSarif, formatText } from './report'
+import type { RuleDefinition } from './rules'
+
+const RULES: RuleDefinition[] = [
+  { id: 'unused-rule', description: 'Never reported', defaultSeverity: 'warning', fixHint: 'Nothing to do' },
+  { id: 'missing-name', description: 'Frontmatter has a name', defaultSeverity: 'error', fixHint: 'Add name:' },
+]
+
+const finding = (overrides: Partial<Finding> = {}): Finding => ({
+  ruleId: 'missing-name',
+  severity: 'error',
+  message: 'Frontmatter missing required "name" field',
+  file: 'SKILL.md',
+  line: 2,
+  column: 1,
+  snippet: 'description: Tidies notes',
+  ...overrides,
+})
+
+const RESULT: ValidationResult = {
+  passed: false,
+  findings: [finding(), finding({ ruleId: 'custom-rule', severity: 'warning', message: 'Custom', file: 'docs/guide.md', line: 4 })],
+}
+
+describe('formatSarif', () => {
+  it('lists only the rules in use and resolves files against the skill root', () => {
+    const sarif = JSON.parse(formatSarif('/work/note-tidy', RESULT, RULES))
+    const [run] = sarif.runs
+
+    assert.equal(sarif.version, '2.1.0')
+    assert.deepEqual(
+      run.tool.driver.rules.map((rule: { id: string }) => rule.id),
+      ['missing-name']
+    )
+    assert.equal(run.originalUriBaseIds.SKILLROOT.uri, 'file:///work/note-tidy/')
+    assert.equal(run.results[0].ruleIndex, 0)
+    assert.equal(run.results[0].level, 'error')
+    assert.deepEqual(run.results[0].locations[0].physicalLocation.artifactLocation, { uri: 'SKILL.md', uriBaseId: 'SKILLROOT' })
+    assert.equal('ruleIndex' in run.results[1], false)
+    assert.match(run.results[1].partialFingerprints['skillFinding/v1'], /^[0-9a-f]{16}$/)
+  })
+})
+
+describe('formatJson', () => {
+  it('counts findings by severity and adds fingerprints', () => {
+    const json = JSON.parse(formatJson('/work/note-tidy', RESULT))
+
+    assert.equal(json.passed, false)
+    assert.deepEqual(json.summary, { errors: 1, warnings: 1 })
+    assert.equal(json.findings.length, 2)
+    assert.equal(typeof json.findings[0].fingerprint, 'string')
+  })
+})
+
+describe('formatText', () => {
+  it('prints errors and warnings with their positions and rule IDs', () => {
+    const text = formatText('note-tidy', RESULT)
+
+    assert.match(text, /❌ ERRORS:\n {2}- SKILL\.md:2:1: Frontmatter missing required "name" field \[missing-name\]/)
+    assert.match(text, /- docs\/guide\.md:4:1: Custom \[custom-rule\]/)
+    assert.match(text, /❌ FAILED[\s\S]*Errors: 1, Warnings: 1$/)
+  })
+})
+
+describe('fingerprints', () => {
+  it('survive line shifts and tell apart identical snippets', () => {
+    const [moved] = fingerprints([finding({ line: 9 })])
+    const [original, repeated] = fingerprints([finding(), finding({ line: 5 })])
+
+    assert.equal(moved, original)
+    assert.notEqual(original, repeated)
+  })
+})
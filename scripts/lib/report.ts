@@ -0,0 +1,209 @@
+/**
+ * Validation Reporters
+ *
+ * Render validation results as human-readable text, JSON, or SARIF 2.1.0
+ * (for GitHub code scanning and other CI annotators).
+ */
+
+import * as path from 'path'
+import { pathToFileURL } from 'url'
+import { countBySeverity, fingerprints, type Finding, type ValidationResult } from './findings'
+import type { RuleDefinition } from './rules'
+import type { BlockRef } from './scan'
+
+export type OutputFormat = 'text' | 'json' | 'sarif'
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'sarif']
+
+const TOOL_NAME = 'validate-skill'
+const TOOL_URI = 'https://github.com/wrsmith108/skill-builder-claude-skill'
+
+export function formatText(skillName: string, result: ValidationResult): string {
+  const out: string[] = [`\n=== Validating Skill: ${skillName} ===\n`]
+  const errors = result.findings.filter((f) => f.severity === 'error')
+  const warnings = result.findings.filter((f) => f.severity === 'warning')
+
+  if (errors.length > 0) {
+    out.push('❌ ERRORS:')
+    errors.forEach((f) => out.push(...formatTextFinding(f)))
+    out.push('')
+  }
+
+  if (warnings.length > 0) {
+    out.push('⚠️  WARNINGS:')
+    warnings.forEach((f) => out.push(...formatTextFinding(f)))
+    out.push('')
+  }
+
+  out.push(`\n=== Result: ${result.passed ? '✅ PASSED' : '❌ FAILED'} ===`)
+  out.push(`Errors: ${errors.length}, Warnings: ${warnings.length}`)
+  return out.join('\n')
+}
+
+function formatTextFinding(f: Finding): string[] {
+  const lines = [`  - ${f.file}:${f.line}:${f.column}: ${f.message} [${f.ruleId}]`]
+  if (f.block) lines.push(`    In: ${describeBlock(f.block)}`)
+  if (f.fixHint) lines.push(`    Fix: ${f.fixHint}`)
+  return lines
+}
+
+function describeBlock(block: BlockRef): string {
+  const kind = block.type === 'code' ? `${block.language ? `${block.language} ` : ''}code block` : block.type.replace('-', ' ')
+  const lines = block.startLine === block.endLine ? `line ${block.startLine}` : `lines ${block.startLine}-${block.endLine}`
+  return block.section ? `${kind}, ${lines}, under "${block.section}"` : `${kind}, ${lines}`
+}
+
+export interface SkillReport {
+  /** Absolute path of the skill directory */
+  skillPath: string
+  name: string
+  result: ValidationResult
+  /** Set when the skill could not be validated at all, e.g. an invalid config file */
+  error?: string
+}
+
+/**
+ * Aggregate table for multi-skill runs, followed by plugin-wide findings
+ */
+export function formatSummaryTable(reports: SkillReport[], plugin: ValidationResult, root: string): string {
+  const rows = reports.map((r) => {
+    const { errors, warnings } = countBySeverity(r.result.findings)
+    return [
+      r.name,
+      path.relative(root, r.skillPath) || '.',
+      String(errors),
+      String(warnings),
+      r.error ? '❌ ERROR' : r.result.passed ? '✅ PASSED' : '❌ FAILED',
+    ]
+  })
+  const header = ['Skill', 'Path', 'Errors', 'Warnings', 'Result']
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((row) => row[i].length)))
+  const formatRow = (row: string[]) =>
+    row.map((cell, i) => (i === 2 || i === 3 ? cell.padStart(widths[i]) : cell.padEnd(widths[i]))).join('  ').trimEnd()
+
+  const out = ['\n=== Summary ===\n', formatRow(header), widths.map((w) => '-'.repeat(w)).join('  ')]
+  out.push(...rows.map(formatRow))
+
+  for (const r of reports.filter((report) => report.error)) {
+    out.push(`\n❌ ${r.name}: ${r.error}`)
+  }
+
+  if (plugin.findings.length > 0) {
+    out.push('\nPlugin checks:')
+    plugin.findings.forEach((f) => out.push(...formatTextFinding(f)))
+  }
+
+  const passed = reports.filter((r) => r.result.passed).length
+  const allPassed = passed === reports.length && plugin.passed
+  out.push(`\n=== Result: ${allPassed ? '✅ PASSED' : '❌ FAILED'} ===`)
+  out.push(`Skills: ${passed}/${reports.length} passed`)
+  return out.join('\n')
+}
+
+function withFingerprints(findings: Finding[]): Array<Finding & { fingerprint: string }> {
+  const ids = fingerprints(findings)
+  return findings.map((f, i) => ({ ...f, fingerprint: ids[i] }))
+}
+
+export function formatJsonMulti(reports: SkillReport[], plugin: ValidationResult): string {
+  const all = [...reports.flatMap((r) => r.result.findings), ...plugin.findings]
+  return JSON.stringify(
+    {
+      passed: reports.every((r) => r.result.passed) && plugin.passed,
+      summary: { skills: reports.length, passed: reports.filter((r) => r.result.passed).length, ...countBySeverity(all) },
+      skills: reports.map((r) => ({
+        skill: r.skillPath,
+        name: r.name,
+        passed: r.result.passed,
+        summary: countBySeverity(r.result.findings),
+        ...(r.error ? { error: r.error } : {}),
+        findings: withFingerprints(r.result.findings),
+      })),
+      plugin: {
+        passed: plugin.passed,
+        findings: withFingerprints(plugin.findings),
+      },
+    },
+    null,
+    2
+  )
+}
+
+export function formatJson(skillPath: string, result: ValidationResult): string {
+  return JSON.stringify(
+    {
+      skill: skillPath,
+      passed: result.passed,
+      summary: countBySeverity(result.findings),
+      findings: withFingerprints(result.findings),
+    },
+    null,
+    2
+  )
+}
+
+export function formatSarif(skillPath: string, result: ValidationResult, rules: RuleDefinition[]): string {
+  return formatSarifRuns([{ skillPath, result }], rules)
+}
+
+/**
+ * SARIF log with one run per skill, so each run's URIs are relative to its own skill root
+ */
+export function formatSarifRuns(
+  entries: Array<{ skillPath: string; result: ValidationResult }>,
+  rules: RuleDefinition[]
+): string {
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: entries.map(({ skillPath, result }) => sarifRun(skillPath, result, rules)),
+  }
+
+  return JSON.stringify(sarif, null, 2)
+}
+
+function sarifRun(skillPath: string, result: ValidationResult, rules: RuleDefinition[]) {
+  const usedRuleIds = new Set(result.findings.map((f) => f.ruleId))
+  const driverRules = rules.filter((r) => usedRuleIds.has(r.id))
+  const ruleIndex = new Map(driverRules.map((r, i) => [r.id, i]))
+  const ids = fingerprints(result.findings)
+
+  return {
+    tool: {
+      driver: {
+        name: TOOL_NAME,
+        informationUri: TOOL_URI,
+        rules: driverRules.map((r) => ({
+          id: r.id,
+          shortDescription: { text: r.description },
+          help: { text: r.fixHint },
+          defaultConfiguration: { level: r.defaultSeverity },
+        })),
+      },
+    },
+    originalUriBaseIds: {
+      SKILLROOT: { uri: pathToFileURL(skillPath.endsWith('/') ? skillPath : `${skillPath}/`).href },
+    },
+    results: result.findings.map((f, i) => ({
+      ruleId: f.ruleId,
+      ...(ruleIndex.has(f.ruleId) ? { ruleIndex: ruleIndex.get(f.ruleId) } : {}),
+      level: f.severity,
+      message: { text: f.message },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: f.file, uriBaseId: 'SKILLROOT' },
+            region: {
+              startLine: f.line,
+              startColumn: f.column,
+              ...(f.endColumn ? { endColumn: f.endColumn } : {}),
+              snippet: { text: f.snippet },
+            },
+          },
+        },
+      ],
+      partialFingerprints: { 'skillFinding/v1': ids[i] },
+      ...(f.block ? { properties: { block: f.block } } : {}),
+    })),
+  }
+}
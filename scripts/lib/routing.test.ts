@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { buildSkillProfile, parsePromptFixture, scorePrompt, simulateRouting, summarizeRouting, tokenize } from './routing'
+
+describe('tokenize', () => {
+  it('drops stop words and trims plural and verb endings', () => {
+    assert.deepEqual(tokenize('Please validate the skills I created, checking links'), ['validate', 'skill', 'creat', 'check', 'link'])
+  })
+})
+
+describe('parsePromptFixture', () => {
+  it('reads an array or a prompts object, defaulting activate to true', () => {
+    const entry = { prompt: 'tidy my notes', skill: 'note-tidy' }
+
+    assert.deepEqual(parsePromptFixture(JSON.stringify([entry])), [{ ...entry, activate: true }])
+    assert.deepEqual(parsePromptFixture(JSON.stringify({ prompts: [{ ...entry, activate: false }] })), [{ ...entry, activate: false }])
+  })
+
+  it('rejects malformed fixtures with the prompt number', () => {
+    assert.throws(() => parsePromptFixture('[{'), /^Error: Prompt fixture is not valid JSON: /)
+    assert.throws(() => parsePromptFixture('{ "cases": [] }'), /must be an array of prompts, or an object with a "prompts" array/)
+    assert.throws(() => parsePromptFixture('[{ "prompt": "a", "skill": "b" }, { "prompt": " ", "skill": "b" }]'), /Prompt 2: "prompt" must be a non-empty string/)
+    assert.throws(() => parsePromptFixture('[{ "prompt": "a" }]'), /Prompt 1: "skill" must name the skill/)
+    assert.throws(() => parsePromptFixture('[{ "prompt": "a", "skill": "b", "activate": "no" }]'), /Prompt 1: "activate" must be true or false/)
+  })
+})
+
+describe('simulateRouting', () => {
+  let root: string
+  let profiles: ReturnType<typeof buildSkillProfile>[]
+
+  const skill = (dir: string, name: string, description: string) => {
+    fs.mkdirSync(path.join(root, dir))
+    fs.writeFileSync(path.join(root, dir, 'SKILL.md'), `---\nname: ${name}\ndescription: ${description}\n---\n\n# ${name}\n`)
+    return buildSkillProfile(path.join(root, dir))
+  }
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'routing-test-'))
+    profiles = [
+      skill('tidy', 'note-tidy', 'Groups release notes. This skill should be used when the user asks to "tidy release notes", "group changelog entries" or "/note-tidy".'),
+      skill('deploy', 'site-deploy', 'Deploys the docs site. This skill should be used when the user asks to "deploy the docs site" or "publish documentation".'),
+    ]
+  })
+
+  afterEach(() => fs.rmSync(root, { recursive: true, force: true }))
+
+  it('scores trigger phrases, near spellings and explicit commands', () => {
+    assert.deepEqual(profiles[0].commands, ['/note-tidy'])
+
+    const [best, other] = scorePrompt('can you tidy up these release notes?', profiles)
+    assert.equal(best.skill, 'note-tidy')
+    assert.equal(best.phrase, 'tidy release notes')
+    assert.ok(best.score > 0.5 && other.score < 0.2)
+
+    assert.equal(scorePrompt('publish the documentaton', profiles)[0].skill, 'site-deploy')
+    assert.deepEqual(scorePrompt('/note-tidy', profiles)[0], { skill: 'note-tidy', score: 1, phrase: '/note-tidy' })
+  })
+
+  it('routes prompts and summarizes precision and recall per skill', () => {
+    const outcomes = simulateRouting(
+      parsePromptFixture(
+        JSON.stringify([
+          { prompt: 'tidy the release notes', skill: 'note-tidy' },
+          { prompt: 'deploy the docs site with the new notes', skill: 'tidy' },
+          { prompt: 'deploy the docs site', skill: 'site-deploy' },
+          { prompt: 'what time is it', skill: 'site-deploy', activate: false },
+        ])
+      ),
+      profiles
+    )
+
+    assert.deepEqual(
+      outcomes.map((o) => `${o.skill} -> ${o.winner?.skill ?? 'none'} ${o.correct}`),
+      ['note-tidy -> note-tidy true', 'note-tidy -> site-deploy false', 'site-deploy -> site-deploy true', 'site-deploy -> none true']
+    )
+    assert.deepEqual(summarizeRouting(outcomes), [
+      { skill: 'note-tidy', truePositives: 1, falsePositives: 0, falseNegatives: 1, precision: 1, recall: 0.5 },
+      { skill: 'site-deploy', truePositives: 1, falsePositives: 1, falseNegatives: 0, precision: 0.5, recall: 1 },
+    ])
+  })
+
+  it('rejects prompts labelled with an unknown skill', () => {
+    assert.throws(
+      () => simulateRouting([{ prompt: 'tidy notes', skill: 'notes', activate: true }], profiles),
+      /Unknown skill "notes" for prompt "tidy notes" \(known: note-tidy, site-deploy\)/
+    )
+  })
+})
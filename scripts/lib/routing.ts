@@ -0,0 +1,272 @@
+/**
+ * Trigger Routing Simulation
+ *
+ * Scores user prompts against skills' descriptions and trigger phrases
+ * offline, to estimate which skill a prompt would activate. This is a lexical
+ * approximation of routing, not the model's actual choice: it is meant to
+ * catch regressions when a description or `triggers` block changes.
+ *
+ * A prompt's score for a skill combines:
+ * - The best trigger phrase match: the share of the phrase's words found in
+ *   the prompt, weighted by how rare each word is among the skills (generic
+ *   phrases such as "review" count half)
+ * - Description coverage: the share of the prompt's words the skill's name
+ *   and description contain, weighted the same way
+ * An explicit command (`/skill-builder`) in the prompt scores 1. Words match
+ * when equal, when one extends the other ("validate" / "validation"), or
+ * within one edit for longer words ("generalise" / "generalize").
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { getString, parseFrontmatter } from './frontmatter'
+import { editDistance, extractTriggers, isGenericTrigger, triggerPhrases } from './triggers'
+
+export interface RoutingPrompt {
+  prompt: string
+  /** Skill the prompt is about, by name or directory name */
+  skill: string
+  /** Whether the prompt should activate the skill (default: true) */
+  activate: boolean
+}
+
+export interface SkillProfile {
+  name: string
+  skillPath: string
+  /** Trigger phrases, tokenized; explicit commands are kept apart */
+  phrases: Array<{ phrase: string; words: string[]; generic: boolean }>
+  commands: string[]
+  /** Name and description words */
+  words: string[]
+}
+
+export interface SkillScore {
+  skill: string
+  score: number
+  /** Trigger phrase that matched best, if any */
+  phrase?: string
+}
+
+export interface RoutingOutcome extends RoutingPrompt {
+  /** Highest-scoring skill at or above the threshold */
+  winner?: SkillScore
+  /** Score of the labelled skill */
+  expected: SkillScore
+  correct: boolean
+}
+
+export interface SkillRoutingStats {
+  skill: string
+  truePositives: number
+  falsePositives: number
+  falseNegatives: number
+  /** Undefined when the skill never won */
+  precision?: number
+  /** Undefined when no prompt should activate the skill */
+  recall?: number
+}
+
+export const DEFAULT_ROUTING_THRESHOLD = 0.5
+
+const PHRASE_WEIGHT = 0.65
+const DESCRIPTION_WEIGHT = 0.35
+
+// Filler words in prompts and descriptions
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'my', 'our', 'your', 'this', 'that', 'these', 'those', 'for', 'to', 'of', 'in', 'on', 'at', 'by',
+  'with', 'from', 'and', 'or', 'is', 'are', 'be', 'it', 'its', 'i', 'me', 'we', 'you', 'can', 'could', 'would',
+  'please', 'want', 'need', 'how', 'do', 'does', 'has', 'have', 'any', 'some', 'sure', 'when', 'user', 'asks',
+  'should', 'used', 'use', 'also', 'will', 'so', 'as', 'if', 'there', 'what', 'which',
+])
+
+/**
+ * Content words of a text: lowercase, without stop words, with plural and
+ * verb endings trimmed
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word && !STOP_WORDS.has(word))
+    .map(stem)
+}
+
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3)
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2)
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1)
+  return word
+}
+
+function wordsMatch(a: string, b: string): boolean {
+  if (a === b) return true
+  const shorter = a.length < b.length ? a : b
+  const longer = shorter === a ? b : a
+  if (shorter.length >= 5 && longer.startsWith(shorter)) return true
+  return shorter.length >= 5 && editDistance(a, b) <= 1
+}
+
+/**
+ * Name, description and trigger phrases of a skill
+ */
+export function buildSkillProfile(skillPath: string): SkillProfile {
+  const content = fs.readFileSync(path.join(skillPath, 'SKILL.md'), 'utf-8')
+  let name = path.basename(skillPath)
+  let description = ''
+  try {
+    const { data } = parseFrontmatter(content)
+    name = getString(data, 'name') || name
+    description = getString(data, 'description')
+  } catch {
+    // Frontmatter errors are reported by validate-skill.ts; route on what is left
+  }
+
+  const phrases = triggerPhrases(extractTriggers(content))
+  return {
+    name,
+    skillPath,
+    phrases: phrases
+      .filter((trigger) => !trigger.phrase.trim().startsWith('/'))
+      .map((trigger) => ({ phrase: trigger.phrase, words: tokenize(trigger.phrase), generic: isGenericTrigger(trigger.phrase) }))
+      .filter((phrase) => phrase.words.length > 0),
+    commands: phrases.filter((trigger) => trigger.phrase.trim().startsWith('/')).map((trigger) => trigger.phrase.trim().toLowerCase()),
+    words: tokenize(`${name} ${description}`),
+  }
+}
+
+/**
+ * Word weights: words used by fewer skills weigh more
+ */
+function inverseFrequencies(profiles: SkillProfile[]): (word: string) => number {
+  const counts = new Map<string, number>()
+  for (const profile of profiles) {
+    const words = new Set([...profile.words, ...profile.phrases.flatMap((phrase) => phrase.words)])
+    for (const word of words) counts.set(word, (counts.get(word) ?? 0) + 1)
+  }
+  return (word) => Math.log(1 + profiles.length / (counts.get(word) ?? 0.5))
+}
+
+/**
+ * Score a prompt against every skill, best first
+ */
+export function scorePrompt(prompt: string, profiles: SkillProfile[], weight = inverseFrequencies(profiles)): SkillScore[] {
+  const words = tokenize(prompt)
+  const lowered = prompt.toLowerCase()
+  const contains = (candidates: string[], word: string) => candidates.some((candidate) => wordsMatch(candidate, word))
+  const share = (part: string[], whole: string[]) => {
+    const total = whole.reduce((sum, word) => sum + weight(word), 0)
+    return total === 0 ? 0 : part.reduce((sum, word) => sum + weight(word), 0) / total
+  }
+
+  const scores = profiles.map((profile): SkillScore => {
+    if (profile.commands.some((command) => new RegExp(`(^|\\s)${escape(command)}(\\s|$)`).test(lowered))) {
+      return { skill: profile.name, score: 1, phrase: profile.commands.find((command) => lowered.includes(command)) }
+    }
+
+    let best: { phrase: string; score: number } | undefined
+    for (const phrase of profile.phrases) {
+      const score = share(phrase.words.filter((word) => contains(words, word)), phrase.words) * (phrase.generic ? 0.5 : 1)
+      if (!best || score > best.score) best = { phrase: phrase.phrase, score }
+    }
+    const coverage = share(words.filter((word) => contains(profile.words, word)), words)
+    const score = PHRASE_WEIGHT * (best?.score ?? 0) + DESCRIPTION_WEIGHT * coverage
+    return { skill: profile.name, score: Math.round(score * 100) / 100, ...(best && best.score > 0 ? { phrase: best.phrase } : {}) }
+  })
+
+  return scores.sort((a, b) => b.score - a.score)
+}
+
+function escape(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Parse a prompt fixture: a JSON array (or `{ "prompts": [...] }`) of
+ * `{ "prompt": "...", "skill": "name", "activate": false }` entries
+ */
+export function parsePromptFixture(content: string): RoutingPrompt[] {
+  let raw: unknown
+  try {
+    raw = JSON.parse(content)
+  } catch (error) {
+    throw new Error(`Prompt fixture is not valid JSON: ${error instanceof Error ? error.message : error}`)
+  }
+  const entries = Array.isArray(raw) ? raw : (raw as { prompts?: unknown })?.prompts
+  if (!Array.isArray(entries)) throw new Error('Prompt fixture must be an array of prompts, or an object with a "prompts" array')
+
+  return entries.map((entry, index) => {
+    const { prompt, skill, activate = true } = (entry ?? {}) as Record<string, unknown>
+    if (typeof prompt !== 'string' || !prompt.trim()) throw new Error(`Prompt ${index + 1}: "prompt" must be a non-empty string`)
+    if (typeof skill !== 'string' || !skill.trim()) throw new Error(`Prompt ${index + 1}: "skill" must name the skill`)
+    if (typeof activate !== 'boolean') throw new Error(`Prompt ${index + 1}: "activate" must be true or false`)
+    return { prompt, skill, activate }
+  })
+}
+
+/**
+ * The profile a fixture label refers to, by name or directory name
+ */
+export function findProfile(profiles: SkillProfile[], label: string): SkillProfile | undefined {
+  const wanted = label.trim().toLowerCase()
+  return (
+    profiles.find((profile) => profile.name.toLowerCase() === wanted) ??
+    profiles.find((profile) => path.basename(profile.skillPath).toLowerCase() === wanted)
+  )
+}
+
+/**
+ * Route every prompt to its best-scoring skill. Labels must name one of the
+ * profiles.
+ */
+export function simulateRouting(
+  prompts: RoutingPrompt[],
+  profiles: SkillProfile[],
+  threshold = DEFAULT_ROUTING_THRESHOLD
+): RoutingOutcome[] {
+  const weight = inverseFrequencies(profiles)
+  return prompts.map((prompt) => {
+    const profile = findProfile(profiles, prompt.skill)
+    if (!profile) {
+      throw new Error(`Unknown skill "${prompt.skill}" for prompt "${prompt.prompt}" (known: ${profiles.map((p) => p.name).join(', ')})`)
+    }
+    const scores = scorePrompt(prompt.prompt, profiles, weight)
+    const winner = scores[0] && scores[0].score >= threshold ? scores[0] : undefined
+    const expected = scores.find((score) => score.skill === profile.name)!
+    const won = winner?.skill === profile.name
+    return { ...prompt, skill: profile.name, winner, expected, correct: won === prompt.activate }
+  })
+}
+
+/**
+ * Precision and recall per skill. A skill's prompts count towards it; a win
+ * on another skill's prompt is a false positive.
+ */
+export function summarizeRouting(outcomes: RoutingOutcome[]): SkillRoutingStats[] {
+  const stats = new Map<string, SkillRoutingStats>()
+  const of = (skill: string) => {
+    if (!stats.has(skill)) stats.set(skill, { skill, truePositives: 0, falsePositives: 0, falseNegatives: 0 })
+    return stats.get(skill)!
+  }
+
+  for (const outcome of outcomes) {
+    const winner = outcome.winner?.skill
+    of(outcome.skill)
+    if (outcome.activate) {
+      if (winner === outcome.skill) of(outcome.skill).truePositives++
+      else of(outcome.skill).falseNegatives++
+      if (winner && winner !== outcome.skill) of(winner).falsePositives++
+    } else if (winner === outcome.skill) {
+      of(outcome.skill).falsePositives++
+    }
+  }
+
+  return Array.from(stats.values()).map((entry) => {
+    const won = entry.truePositives + entry.falsePositives
+    const expected = entry.truePositives + entry.falseNegatives
+    return {
+      ...entry,
+      ...(won > 0 ? { precision: entry.truePositives / won } : {}),
+      ...(expected > 0 ? { recall: entry.truePositives / expected } : {}),
+    }
+  })
+}
@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { createResult } from './findings'
+import { CONFIG_FILE_NAME, loadConfig, parseSuppression, registerRules, RuleReporter } from './rules'
+
+registerRules([
+  { id: 'sample-warning', description: 'A warning', defaultSeverity: 'warning', fixHint: 'Fix it' },
+  { id: 'sample-error', description: 'An error', defaultSeverity: 'error', fixHint: 'Fix it' },
+])
+
+describe('registerRules', () => {
+  it('refuses a rule ID that is already registered', () => {
+    assert.throws(
+      () => registerRules([{ id: 'sample-error', description: 'Again', defaultSeverity: 'error', fixHint: '' }]),
+      /Rule "sample-error" is already registered/
+    )
+  })
+})
+
+describe('loadConfig', () => {
+  let skillPath: string
+
+  beforeEach(() => {
+    skillPath = fs.mkdtempSync(path.join(os.tmpdir(), 'rules-test-'))
+  })
+
+  afterEach(() => fs.rmSync(skillPath, { recursive: true, force: true }))
+
+  const writeConfig = (config: string) => fs.writeFileSync(path.join(skillPath, CONFIG_FILE_NAME), config)
+
+  it('uses the defaults without a config file', () => {
+    assert.deepEqual(loadConfig(skillPath), { rules: {}, projectPatterns: [] })
+  })
+
+  it('reads severity overrides and literal or regular expression patterns', () => {
+    writeConfig(JSON.stringify({ rules: { 'sample-error': 'warn' }, projectPatterns: ['Globex.io', '/team-[a-z]+/i'] }))
+    const config = loadConfig(skillPath)
+
+    assert.deepEqual(config.rules, { 'sample-error': 'warning' })
+    assert.deepEqual(
+      config.projectPatterns.map((pattern) => pattern.toString()),
+      ['/Globex\\.io/gi', '/team-[a-z]+/gi']
+    )
+  })
+
+  it('rejects malformed configuration', () => {
+    const rejects = (config: string, message: RegExp) => {
+      writeConfig(config)
+      assert.throws(() => loadConfig(skillPath), message)
+    }
+
+    rejects('{ rules: }', /is not valid JSON/)
+    rejects('[]', /must contain a JSON object/)
+    rejects('{"ignore": []}', /unknown keys: ignore/)
+    rejects('{"rules": {"no-such-rule": "off"}}', /unknown rule "no-such-rule"/)
+    rejects('{"rules": {"sample-error": "loud"}}', /rule "sample-error" must be "error", "warning" or "off"/)
+    rejects('{"projectPatterns": "globex"}', /"projectPatterns" must be an array of strings/)
+    rejects('{"projectPatterns": ["/(/"]}', /invalid pattern \/\(\//)
+  })
+})
+
+describe('parseSuppression', () => {
+  it('reads the rule IDs from markdown and code comments', () => {
+    assert.deepEqual(parseSuppression('<!-- skill-validate-disable-next-line sample-error -->'), ['sample-error'])
+    assert.deepEqual(parseSuppression('// skill-validate-disable-next-line sample-error, sample-warning'), ['sample-error', 'sample-warning'])
+    assert.deepEqual(parseSuppression('# skill-validate-disable-next-line'), [])
+    assert.equal(parseSuppression('// nothing to see'), null)
+  })
+})
+
+describe('RuleReporter', () => {
+  let skillPath: string
+
+  beforeEach(() => {
+    skillPath = fs.mkdtempSync(path.join(os.tmpdir(), 'rules-test-'))
+    fs.writeFileSync(
+      path.join(skillPath, 'SKILL.md'),
+      '# Notes\n<!-- skill-validate-disable-next-line sample-warning -->\nfirst\nsecond\n'
+    )
+  })
+
+  afterEach(() => fs.rmSync(skillPath, { recursive: true, force: true }))
+
+  const at = (line: number) => ({ message: 'Found', file: 'SKILL.md', line, column: 1, snippet: '' })
+
+  it('applies overrides, disabled rules and suppression comments', () => {
+    const reporter = new RuleReporter(skillPath, { rules: { 'sample-error': 'off', 'sample-warning': 'error' }, projectPatterns: [] })
+    const result = createResult()
+
+    assert.equal(reporter.report(result, 'sample-error', at(4)), false)
+    assert.equal(reporter.report(result, 'sample-warning', at(3)), false)
+    assert.equal(reporter.report(result, 'sample-warning', at(4)), true)
+    assert.deepEqual(
+      result.findings.map((f) => `${f.ruleId}:${f.severity}:${f.line}:${f.fixHint}`),
+      ['sample-warning:error:4:Fix it']
+    )
+    assert.equal(result.passed, false)
+  })
+
+  it('throws for a rule that was never registered', () => {
+    const reporter = new RuleReporter(skillPath, { rules: {}, projectPatterns: [] })
+    assert.throws(() => reporter.report(createResult(), 'unknown-rule', at(3)), /unregistered rule "unknown-rule"/)
+  })
+})
@@ -0,0 +1,193 @@
+/**
+ * Validator Rule Engine
+ *
+ * Registry of validation rules plus per-skill configuration. Each rule has an
+ * ID, default severity and fix hint. A skill can tune rules with a
+ * `.skillvalidaterc.json` file in its root:
+ *
+ *   {
+ *     "rules": { "todo-comment": "off", "hardcoded-keyword": "error" },
+ *     "projectPatterns": ["MyCompany", "/internal-[a-z]+/i"]
+ *   }
+ *
+ * Findings can be suppressed inline with a comment on the preceding line:
+ *
+ *   <!-- skill-validate-disable-next-line rule-id -->
+ *   // skill-validate-disable-next-line rule-id other-rule-id
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { addFinding, type Finding, type Severity, type ValidationResult } from './findings'
+
+export interface RuleDefinition {
+  id: string
+  description: string
+  defaultSeverity: Severity
+  fixHint: string
+}
+
+export type RuleSetting = Severity | 'off'
+
+export interface ValidatorConfig {
+  /** Severity overrides keyed by rule ID */
+  rules: Record<string, RuleSetting>
+  /** Extra patterns for the project-specific-content rule */
+  projectPatterns: RegExp[]
+}
+
+export const CONFIG_FILE_NAME = '.skillvalidaterc.json'
+
+const SUPPRESSION_PATTERN = /skill-validate-disable-next-line\b([^\n]*?)\s*(?:-->|\*\/)?\s*$/
+
+const registry = new Map<string, RuleDefinition>()
+
+export function registerRules(rules: RuleDefinition[]): void {
+  for (const rule of rules) {
+    if (registry.has(rule.id)) {
+      throw new Error(`Rule "${rule.id}" is already registered`)
+    }
+    registry.set(rule.id, rule)
+  }
+}
+
+export function getRule(id: string): RuleDefinition | undefined {
+  return registry.get(id)
+}
+
+export function listRules(): RuleDefinition[] {
+  return Array.from(registry.values())
+}
+
+/**
+ * Load `.skillvalidaterc.json` from the skill root, or defaults if absent.
+ * Throws on malformed JSON, unknown rule IDs or invalid settings.
+ */
+export function loadConfig(skillPath: string): ValidatorConfig {
+  const config: ValidatorConfig = { rules: {}, projectPatterns: [] }
+  const configPath = path.join(skillPath, CONFIG_FILE_NAME)
+  if (!fs.existsSync(configPath)) return config
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, 'utf-8'))
+  } catch (error) {
+    throw new Error(`${CONFIG_FILE_NAME} is not valid JSON: ${error instanceof Error ? error.message : error}`)
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error(`${CONFIG_FILE_NAME} must contain a JSON object`)
+  }
+
+  const { rules = {}, projectPatterns = [], ...unknown } = raw as Record<string, unknown>
+  const unknownKeys = Object.keys(unknown)
+  if (unknownKeys.length > 0) {
+    throw new Error(`${CONFIG_FILE_NAME} has unknown keys: ${unknownKeys.join(', ')} (allowed: rules, projectPatterns)`)
+  }
+
+  if (typeof rules !== 'object' || rules === null || Array.isArray(rules)) {
+    throw new Error(`${CONFIG_FILE_NAME}: "rules" must be an object of rule ID to "error" | "warning" | "off"`)
+  }
+  for (const [id, setting] of Object.entries(rules)) {
+    if (!registry.has(id)) {
+      throw new Error(`${CONFIG_FILE_NAME}: unknown rule "${id}" (available: ${Array.from(registry.keys()).join(', ')})`)
+    }
+    const normalized = setting === 'warn' ? 'warning' : setting
+    if (normalized !== 'error' && normalized !== 'warning' && normalized !== 'off') {
+      throw new Error(`${CONFIG_FILE_NAME}: rule "${id}" must be "error", "warning" or "off"`)
+    }
+    config.rules[id] = normalized
+  }
+
+  if (!Array.isArray(projectPatterns) || !projectPatterns.every((p) => typeof p === 'string')) {
+    throw new Error(`${CONFIG_FILE_NAME}: "projectPatterns" must be an array of strings`)
+  }
+  config.projectPatterns = projectPatterns.map(toPattern)
+
+  return config
+}
+
+/**
+ * Convert a config pattern to a RegExp. `/source/flags` strings are used as
+ * regular expressions; anything else matches literally, ignoring case.
+ */
+function toPattern(pattern: string): RegExp {
+  const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/)
+  if (!regexMatch) {
+    return new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi')
+  }
+
+  const flags = regexMatch[2].includes('g') ? regexMatch[2] : regexMatch[2] + 'g'
+  try {
+    return new RegExp(regexMatch[1], flags)
+  } catch (error) {
+    throw new Error(`${CONFIG_FILE_NAME}: invalid pattern ${pattern}: ${error instanceof Error ? error.message : error}`)
+  }
+}
+
+/**
+ * Severity for a rule after applying config overrides
+ */
+export function resolveSeverity(config: ValidatorConfig, ruleId: string): RuleSetting {
+  const rule = registry.get(ruleId)
+  if (!rule) {
+    throw new Error(`Finding reported for unregistered rule "${ruleId}"`)
+  }
+  return config.rules[ruleId] ?? rule.defaultSeverity
+}
+
+/**
+ * Rule IDs suppressed by a directive on `line`, or null if there is none.
+ * An empty list suppresses every rule.
+ */
+export function parseSuppression(line: string): string[] | null {
+  const match = line.match(SUPPRESSION_PATTERN)
+  if (!match) return null
+  return match[1].split(/[\s,]+/).filter(Boolean)
+}
+
+/**
+ * Reports findings for one skill, applying severity overrides, disabled
+ * rules and inline suppression comments.
+ */
+export class RuleReporter {
+  private readonly fileLines = new Map<string, string[]>()
+
+  constructor(
+    readonly skillPath: string,
+    readonly config: ValidatorConfig
+  ) {}
+
+  /**
+   * Add a finding unless its rule is off or suppressed.
+   * Returns whether the finding was recorded.
+   */
+  report(result: ValidationResult, ruleId: string, finding: Omit<Finding, 'ruleId' | 'severity' | 'fixHint'>): boolean {
+    const severity = resolveSeverity(this.config, ruleId)
+    if (severity === 'off' || this.isSuppressed(ruleId, finding.file, finding.line)) return false
+
+    addFinding(result, { ruleId, severity, fixHint: registry.get(ruleId)!.fixHint, ...finding })
+    return true
+  }
+
+  isEnabled(ruleId: string): boolean {
+    return resolveSeverity(this.config, ruleId) !== 'off'
+  }
+
+  /** Whether a suppression comment on the preceding line covers this rule */
+  isSuppressed(ruleId: string, file: string, line: number): boolean {
+    if (line < 2) return false
+    const previous = this.lines(file)[line - 2]
+    const suppressed = previous === undefined ? null : parseSuppression(previous)
+    return suppressed !== null && (suppressed.length === 0 || suppressed.includes(ruleId))
+  }
+
+  private lines(file: string): string[] {
+    let lines = this.fileLines.get(file)
+    if (!lines) {
+      const fullPath = path.join(this.skillPath, file)
+      lines = fs.existsSync(fullPath) ? fs.readFileSync(fullPath, 'utf-8').split('\n') : []
+      this.fileLines.set(file, lines)
+    }
+    return lines
+  }
+}
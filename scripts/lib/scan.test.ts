@@ -0,0 +1,199 @@
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { describe, it } from 'node:test'
+import { checkGeneralization } from '../validate-skill'
+import { createScanContext } from './scan'
+
+// Built at runtime so this file does not trip the validator it tests
+const CAT_ENV = ['cat', '.env'].join(' ')
+const ECHO_KEY = ['echo', '$API_KEY'].join(' ')
+const ECHO_QUOTED_KEY = ['echo', '"$ANTHROPIC_API_KEY"'].join(' ')
+const ECHO_BRACED_TOKEN = ['echo', '"${GITHUB_TOKEN}"'].join(' ')
+
+describe('createScanContext in shell scripts', () => {
+  it('does not exempt commands after an ordinary comment', () => {
+    const script = ['#!/bin/bash', "# don't forget to install jq first", CAT_ENV, ECHO_KEY].join('\n')
+    const context = createScanContext('scripts/run.sh', script)
+
+    assert.equal(context.isExempt(2, 3), true)
+    assert.equal(context.isExempt(3, 1), false)
+    assert.equal(context.isExempt(4, 1), false)
+  })
+
+  it('exempts commands after an explicit label up to the next blank line', () => {
+    const script = ['# ❌ Exposes every secret', CAT_ENV, '', ECHO_KEY].join('\n')
+    const context = createScanContext('scripts/run.sh', script)
+
+    assert.equal(context.isExempt(2, 1), true)
+    assert.equal(context.isExempt(4, 1), false)
+  })
+})
+
+describe('createScanContext in markdown', () => {
+  it('does not treat prose sentences ending in a colon as labels', () => {
+    const markdown = [
+      "Don't forget to check the file first:",
+      '',
+      '```bash',
+      CAT_ENV,
+      '```',
+      '',
+      'Avoid surprises by checking these values:',
+      '',
+      '```bash',
+      ECHO_KEY,
+      '```',
+    ].join('\n')
+    const context = createScanContext('SKILL.md', markdown)
+
+    assert.equal(context.isExempt(4, 1), false)
+    assert.equal(context.isExempt(10, 1), false)
+  })
+
+  it('exempts the block after a bold label on its own line', () => {
+    const markdown = ['**Bad:**', '', '```bash', CAT_ENV, '```', '', '**Wrong**:', '', '```bash', ECHO_KEY, '```'].join('\n')
+    const context = createScanContext('SKILL.md', markdown)
+
+    assert.equal(context.isExempt(4, 1), true)
+    assert.equal(context.isExempt(10, 1), true)
+  })
+})
+
+describe('createScanContext in markdown sections, tables and code', () => {
+  const markdown = [
+    '# Guide',
+    '',
+    '## Unsafe Commands',
+    '',
+    '```bash',
+    CAT_ENV,
+    '```',
+    '',
+    '### Details',
+    '',
+    'Still unsafe.',
+    '',
+    '## Usage',
+    '',
+    '| ✅ Do | ❌ Avoid |',
+    '|-------|----------|',
+    `| \`varlock load\` | \`${CAT_ENV}\` |`,
+    '',
+    '```bash',
+    `# ❌ BAD`,
+    CAT_ENV,
+    '# ✅ GOOD',
+    'varlock load',
+    '```',
+    '',
+    'Run `varlock load` first.',
+  ].join('\n')
+  const context = createScanContext('SKILL.md', markdown)
+
+  it('exempts an unsafe section down to the next heading at its level', () => {
+    assert.equal(context.isExempt(6, 1), true)
+    assert.equal(context.isExempt(11, 1), true)
+    assert.equal(context.isExempt(13, 1), false)
+  })
+
+  it('exempts only the cells of a ❌ column', () => {
+    assert.equal(context.isExempt(17, 3), false)
+    assert.equal(context.isExempt(17, 22), true)
+  })
+
+  it('exempts code after a ❌ comment up to the next ✅ line', () => {
+    assert.equal(context.isExempt(21, 1), true)
+    assert.equal(context.isExempt(23, 1), false)
+  })
+
+  it('tells code from prose and names the enclosing block', () => {
+    assert.equal(context.isCode(21, 1), true)
+    assert.equal(context.isCode(26, 7), true)
+    assert.equal(context.isCode(26, 1), false)
+    assert.deepEqual(context.blockAt(21), { type: 'code', startLine: 19, endLine: 24, language: 'bash', section: 'Usage' })
+  })
+})
+
+describe('createScanContext in source files', () => {
+  it('does not exempt code after a warning comment', () => {
+    const source = ['// Do not remove: required by loader', "export const projectId = 'abc'"].join('\n')
+    const context = createScanContext('scripts/a.ts', source)
+
+    assert.equal(context.isExempt(1, 4), true)
+    assert.equal(context.isExempt(2, 14), false)
+  })
+})
+
+describe('checkGeneralization', () => {
+  it('reports secret exposure after an ordinary shell comment', () => {
+    const skillPath = fs.mkdtempSync(path.join(os.tmpdir(), 'scan-test-'))
+    try {
+      fs.mkdirSync(path.join(skillPath, 'scripts'))
+      fs.writeFileSync(path.join(skillPath, 'SKILL.md'), '---\nname: scan-test\n---\n\n# Scan Test\n')
+      fs.writeFileSync(
+        path.join(skillPath, 'scripts', 'run.sh'),
+        ['#!/bin/bash', "# don't forget to install jq first", CAT_ENV, ECHO_KEY, ''].join('\n')
+      )
+
+      const findings = checkGeneralization(skillPath).findings.filter((f) => f.ruleId === 'secret-exposure')
+      assert.deepEqual(
+        findings.map((f) => `${f.file}:${f.line}`),
+        ['scripts/run.sh:3', 'scripts/run.sh:4']
+      )
+    } finally {
+      fs.rmSync(skillPath, { recursive: true, force: true })
+    }
+  })
+
+  it('reports secret exposure after a prose sentence in SKILL.md', () => {
+    const skillPath = fs.mkdtempSync(path.join(os.tmpdir(), 'scan-test-'))
+    try {
+      fs.writeFileSync(
+        path.join(skillPath, 'SKILL.md'),
+        [
+          '---',
+          'name: scan-test',
+          '---',
+          '',
+          '# Scan Test',
+          '',
+          "Don't forget to check the file first:",
+          '',
+          '```bash',
+          CAT_ENV,
+          '```',
+          '',
+        ].join('\n')
+      )
+
+      const findings = checkGeneralization(skillPath).findings.filter((f) => f.ruleId === 'secret-exposure')
+      assert.deepEqual(
+        findings.map((f) => `${f.file}:${f.line}`),
+        ['SKILL.md:10']
+      )
+    } finally {
+      fs.rmSync(skillPath, { recursive: true, force: true })
+    }
+  })
+  it('reports quoted and braced secret echoes in hook scripts', () => {
+    const skillPath = fs.mkdtempSync(path.join(os.tmpdir(), 'scan-test-'))
+    try {
+      fs.mkdirSync(path.join(skillPath, 'hooks'))
+      fs.writeFileSync(path.join(skillPath, 'SKILL.md'), '---\nname: scan-test\n---\n\n# Scan Test\n')
+      fs.writeFileSync(
+        path.join(skillPath, 'hooks', 'pre-command.sh'),
+        ['#!/bin/bash', 'set -euo pipefail', ECHO_QUOTED_KEY, ECHO_BRACED_TOKEN, ''].join('\n')
+      )
+
+      const findings = checkGeneralization(skillPath).findings.filter((f) => f.ruleId === 'secret-exposure')
+      assert.deepEqual(
+        findings.map((f) => `${f.file}:${f.line}`),
+        ['hooks/pre-command.sh:3', 'hooks/pre-command.sh:4']
+      )
+    } finally {
+      fs.rmSync(skillPath, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,176 @@
+/**
+ * Scan Context
+ *
+ * Tells content rules which parts of a file are explicitly labelled as
+ * anti-patterns or examples, so they can be exempt without skipping the rest
+ * of the file:
+ *
+ * - Markdown sections whose heading marks them as unsafe ("Unsafe Commands",
+ *   "Anti-patterns", "❌ ...")
+ * - Blocks introduced by a ❌ line, a bold `**Bad:**`, `**Wrong:**` or
+ *   `**Unsafe:**` label on its own line, or `<!-- Example -->`
+ * - Lines of a code block after a `# ❌ BAD` comment, up to the next ✅ line
+ * - Table columns whose header starts with ❌, and any line or cell containing ❌
+ * - In source files, lines after an `// Example:` or `// ❌` label up to the next
+ *   blank line, and comments that warn against what they mention (`// NEVER
+ *   cat .env`). A warning comment only exempts itself, never the code after it.
+ *   Shell, Python, YAML and .env files use the same rules with `#` comments
+ */
+
+import { blockAtLine, parseMarkdown, tableCells, type BlockType, type MarkdownBlock } from './markdown'
+
+/** Where in a markdown file a finding was made */
+export interface BlockRef {
+  type: BlockType
+  startLine: number
+  endLine: number
+  language?: string
+  /** Innermost enclosing heading */
+  section?: string
+}
+
+export interface ScanContext {
+  /** Whether a match at a 1-based line and column is inside a labelled anti-pattern or example */
+  isExempt(line: number, column: number): boolean
+  /** Whether a position is code: fenced blocks and inline code in markdown, anything in source files */
+  isCode(line: number, column: number): boolean
+  /** The markdown block containing a line (undefined for source files) */
+  blockAt(line: number): BlockRef | undefined
+}
+
+const ANTI_PATTERN_HEADING = /❌|\bunsafe\b|\banti-?patterns?\b|\bbad examples?\b|\bnever use\b|\bdon'?t do\b/i
+// A ❌ line, or a bold "**Bad:**"/"**Wrong:**"/"**Unsafe:**" on its own line; prose openers
+// such as "Don't forget to...:" label nothing
+const ANTI_PATTERN_LABEL = /^\s*(❌|(\*\*|__)(bad|wrong|unsafe)(:\2|\2:)\s*$)/i
+const EXAMPLE_LABEL = /^\s*<!--\s*Example/i
+const CODE_ANTI_PATTERN_COMMENT = /^\s*(#|\/\/|<!--|\/?\*)\s*❌/
+const CODE_EXAMPLE_COMMENT = /^\s*\/\/\s*(Example:|❌)/
+const WARNING_COMMENT = /(\/\/|\/\*|^\s*\*).*(❌|\bNEVER\b|\bunsafe\b|\bdon'?t\b|\bdo not\b)/i
+// Files whose comments start with #
+const HASH_COMMENT_FILE = /\.(sh|bash|py|ya?ml|toml)$|(^|[\\/])\.env(\.[^\\/]*)?$/
+const SHELL_EXAMPLE_COMMENT = /^\s*#\s*(Example:|❌)/
+const SHELL_WARNING_COMMENT = /(?<=^|\s)#\s.*(❌|\bNEVER\b|\bunsafe\b|\bdon'?t\b|\bdo not\b)/i
+
+// 1-based column ranges per line; [1, Infinity] covers the whole line
+type Ranges = Map<number, Array<[number, number]>>
+
+function exempt(ranges: Ranges, line: number, start = 1, end = Infinity) {
+  const list = ranges.get(line) ?? []
+  list.push([start, end])
+  ranges.set(line, list)
+}
+
+function inRanges(ranges: Ranges, line: number, column: number): boolean {
+  return (ranges.get(line) ?? []).some(([start, end]) => start <= column && column <= end)
+}
+
+export function createScanContext(file: string, content: string): ScanContext {
+  if (file.endsWith('.md')) return markdownContext(content)
+  return HASH_COMMENT_FILE.test(file)
+    ? sourceContext(content, SHELL_EXAMPLE_COMMENT, SHELL_WARNING_COMMENT)
+    : sourceContext(content, CODE_EXAMPLE_COMMENT, WARNING_COMMENT)
+}
+
+function markdownContext(content: string): ScanContext {
+  const blocks = parseMarkdown(content)
+  const ranges: Ranges = new Map()
+  const exemptBlock = (block: MarkdownBlock) => {
+    for (let line = block.startLine; line <= block.endLine; line++) exempt(ranges, line)
+  }
+
+  let sectionDepth = 0 // depth of the anti-pattern heading being skipped, or 0
+  let labelled = false // the previous block labels the next one
+
+  for (const block of blocks) {
+    if (block.type === 'heading') {
+      if (sectionDepth === 0 || block.depth! <= sectionDepth) {
+        sectionDepth = ANTI_PATTERN_HEADING.test(block.text!) ? block.depth! : 0
+      }
+      labelled = false
+    }
+    if (sectionDepth > 0 || labelled) {
+      exemptBlock(block)
+      labelled = false
+      continue
+    }
+
+    if (block.type === 'html' && EXAMPLE_LABEL.test(block.lines[0])) {
+      labelled = true
+      continue
+    }
+    if (block.type === 'paragraph' && block.lines.length === 1 && ANTI_PATTERN_LABEL.test(block.lines[0])) {
+      exemptBlock(block)
+      labelled = true
+      continue
+    }
+
+    if (block.type === 'table') {
+      const header = tableCells(block.lines[0])
+      const badColumns = header.map((cell, index) => (cell.text.includes('❌') ? index : -1)).filter((i) => i !== -1)
+      block.lines.forEach((row, offset) => {
+        tableCells(row).forEach((cell, index) => {
+          if (badColumns.includes(index) || cell.text.includes('❌')) {
+            exempt(ranges, block.startLine + offset, cell.start, cell.end)
+          }
+        })
+      })
+      continue
+    }
+
+    // ❌ lines, and in code blocks everything after a ❌ comment up to the next ✅
+    let inBadSpan = false
+    block.lines.forEach((text, offset) => {
+      const line = block.startLine + offset
+      if (block.type === 'code' && text.includes('✅')) inBadSpan = false
+      if (block.type === 'code' && CODE_ANTI_PATTERN_COMMENT.test(text)) inBadSpan = true
+      if (inBadSpan || text.includes('❌')) exempt(ranges, line)
+    })
+  }
+
+  return {
+    isExempt: (line, column) => inRanges(ranges, line, column),
+    isCode(line, column) {
+      const block = blockAtLine(blocks, line)
+      if (!block) return false
+      if (block.type === 'code') return block.startLine < line && line < block.endLine
+      // Inline code spans: odd number of backticks before the column
+      const text = block.lines[line - block.startLine]
+      return (text.slice(0, column - 1).match(/`/g) || []).length % 2 === 1
+    },
+    blockAt(line) {
+      const block = blockAtLine(blocks, line)
+      if (!block) return undefined
+      return {
+        type: block.type,
+        startLine: block.startLine,
+        endLine: block.endLine,
+        ...(block.language ? { language: block.language } : {}),
+        ...(block.section.length > 0 ? { section: block.section[block.section.length - 1] } : {}),
+      }
+    },
+  }
+}
+
+function sourceContext(content: string, exampleComment: RegExp, warningComment: RegExp): ScanContext {
+  const ranges: Ranges = new Map()
+  const lines = content.split('\n')
+
+  let inExample = false
+  lines.forEach((text, index) => {
+    if (text.trim() === '') inExample = false
+    if (exampleComment.test(text)) inExample = true
+    if (inExample) {
+      exempt(ranges, index + 1)
+      return
+    }
+    // Only the comment itself, not code before it on the line or after it
+    const warning = text.match(warningComment)
+    if (warning) exempt(ranges, index + 1, warning.index! + 1)
+  })
+
+  return {
+    isExempt: (line, column) => inRanges(ranges, line, column),
+    isCode: () => true,
+    blockAt: () => undefined,
+  }
+}
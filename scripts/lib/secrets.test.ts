@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict'
+import { execFileSync } from 'node:child_process'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { looksRandom, maskSecret, scanContent, scanSecrets, shannonEntropy } from './secrets'
+
+// Built at runtime from pieces too short to look random, so this file does not
+// trip the scanner it tests
+const KEY = ['sk-proj4Kd8Lm2Q', 'x9Vb7Nc1Zt6Hy3J', 'w5Rp0Sa'].join('')
+const GITHUB_TOKEN = ['ghp_R8kq2Lx7Vn4', 'Mz9Tb3Wc6Hy1Jp5', 'Sd0Fg8Ka2Q'].join('')
+const RANDOM = ['Qm9x4Lk2Zr7', 'Wv3Tn8Bc5Hj1Pd6'].join('')
+
+describe('scanContent', () => {
+  it('reports keys in labelled examples', () => {
+    const content = ['// Example: calling the API', `const apiKey = '${KEY}'`].join('\n')
+    assert.deepEqual(
+      scanContent('scripts/client.ts', content).map((hit) => `${hit.kind}:${hit.line}`),
+      ['provider:2']
+    )
+  })
+
+  it('skips placeholder values', () => {
+    assert.deepEqual(scanContent('scripts/client.ts', "const apiKey = 'sk-your-key-here'"), [])
+  })
+
+  it('does not let another statement on the line excuse a key', () => {
+    const content = [
+      `const token = '${GITHUB_TOKEN}'; console.log('starting')`,
+      `const token = '${GITHUB_TOKEN}'; throw new Error('x')`,
+    ].join('\n')
+    assert.deepEqual(
+      scanContent('scripts/client.ts', content).map((hit) => `${hit.kind}:${hit.line}`),
+      ['provider:1', 'provider:2']
+    )
+  })
+
+  it('reports provider keys inside messages but not random strings', () => {
+    const content = [`console.error('token ${GITHUB_TOKEN} expired')`, `throw new Error('${RANDOM}')`, `const id = '${RANDOM}'`].join('\n')
+    assert.deepEqual(
+      scanContent('scripts/client.ts', content).map((hit) => `${hit.kind}:${hit.line}`),
+      ['provider:1', 'entropy:3']
+    )
+  })
+})
+
+describe('looksRandom', () => {
+  it('tells keys from identifiers, words and short hex', () => {
+    assert.equal(shannonEntropy('aaaa'), 0)
+    assert.equal(shannonEntropy('abcd'), 2)
+    assert.equal(looksRandom(RANDOM), true)
+    assert.equal(looksRandom('skill-builder-specialist-v2'), false)
+    assert.equal(looksRandom('NotesFormatterConfiguration'), false)
+    assert.equal(looksRandom('3f9a2c7e1b'), false)
+    assert.equal(looksRandom(['3f9a2c7e1b4d8f06', '5a9c2e7b1d3f8a40'].join('')), true)
+  })
+
+  it('masks all but the ends of a value', () => {
+    assert.equal(maskSecret(GITHUB_TOKEN), 'ghp_R8…2Q')
+    assert.equal(maskSecret('abcdefgh'), 'ab…gh')
+  })
+})
+
+describe('scanSecrets', () => {
+  let skillPath: string
+
+  beforeEach(() => {
+    skillPath = fs.mkdtempSync(path.join(os.tmpdir(), 'secrets-test-'))
+    fs.mkdirSync(path.join(skillPath, 'scripts'))
+  })
+
+  afterEach(() => fs.rmSync(skillPath, { recursive: true, force: true }))
+
+  it('scans .env values and skips lock files, markdown and ignored files', () => {
+    fs.writeFileSync(path.join(skillPath, '.env.local'), `NOTES_KEY=${RANDOM}\n`)
+    fs.writeFileSync(path.join(skillPath, 'scripts', 'client.py'), `token = "${GITHUB_TOKEN}"\n`)
+    fs.writeFileSync(path.join(skillPath, 'package-lock.json'), `{ "integrity": "${RANDOM}" }\n`)
+    fs.writeFileSync(path.join(skillPath, 'NOTES.md'), `${GITHUB_TOKEN}\n`)
+    fs.writeFileSync(path.join(skillPath, 'scripts', 'local.json'), `{ "key": "${RANDOM}" }\n`)
+    fs.writeFileSync(path.join(skillPath, '.gitignore'), 'scripts/local.json\n')
+    execFileSync('git', ['init', '--quiet', skillPath])
+
+    assert.deepEqual(
+      scanSecrets(skillPath).map((hit) => `${hit.file}:${hit.line}:${hit.column} ${hit.kind} ${hit.name}`),
+      ['.env.local:1:11 entropy High-entropy string', 'scripts/client.py:1:10 provider GitHub token']
+    )
+  })
+})
@@ -0,0 +1,230 @@
+/**
+ * Secret Scanning
+ *
+ * Finds credentials committed in a skill's code and configuration files:
+ *
+ * - Provider key formats (Linear, GitHub, npm, OpenAI, Anthropic, AWS, Slack,
+ *   Stripe, Google, SendGrid), JWTs and private key blocks
+ * - High-entropy string literals and `.env`-style values that look random
+ *   enough to be a key
+ *
+ * Placeholders (`sk-xxx`, `<your-key>`, `AKIA...EXAMPLE`), random-looking
+ * strings in help and error messages, and git-ignored files are skipped. Only
+ * the statement a value is in can excuse it, not the rest of its line.
+ * Labelled examples are not skipped: a committed credential leaks whether or
+ * not a comment calls it an example. Matched values are masked before they
+ * are reported, so the scan itself never prints a secret.
+ */
+
+import { execFileSync } from 'child_process'
+import * as fs from 'fs'
+import * as path from 'path'
+import { listSkillFiles } from './files'
+import { positionAt } from './findings'
+
+export interface SecretPattern {
+  id: string
+  /** Human-readable provider and key type, e.g. "AWS access key ID" */
+  name: string
+  pattern: RegExp
+}
+
+export interface SecretHit {
+  kind: 'provider' | 'entropy'
+  /** Pattern name, or "High-entropy string" */
+  name: string
+  /** Path relative to the skill root */
+  file: string
+  line: number
+  column: number
+  /** The matched value with its middle masked */
+  masked: string
+}
+
+export const SECRET_PATTERNS: SecretPattern[] = [
+  { id: 'linear', name: 'Linear API key', pattern: /\blin_(?:api|oauth)_[A-Za-z0-9]{32,}/g },
+  { id: 'github', name: 'GitHub token', pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b|\bgithub_pat_[A-Za-z0-9_]{22,}/g },
+  { id: 'npm', name: 'npm token', pattern: /\bnpm_[A-Za-z0-9]{36}\b/g },
+  { id: 'anthropic', name: 'Anthropic API key', pattern: /\bsk-ant-[A-Za-z0-9_-]{32,}/g },
+  { id: 'openai', name: 'OpenAI API key', pattern: /\bsk-(?!ant-)(?:proj-)?[A-Za-z0-9_-]{32,}/g },
+  { id: 'aws-access-key', name: 'AWS access key ID', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    id: 'aws-secret-key',
+    name: 'AWS secret access key',
+    pattern: /aws.{0,20}?(?:secret|key).{0,20}?['"=:]\s*['"]?[A-Za-z0-9/+]{40}(?![A-Za-z0-9/+])/gi,
+  },
+  { id: 'slack-token', name: 'Slack token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { id: 'slack-webhook', name: 'Slack webhook URL', pattern: /https:\/\/hooks\.slack\.com\/services\/T[A-Z0-9]+\/B[A-Z0-9]+\/[A-Za-z0-9]+/g },
+  { id: 'stripe', name: 'Stripe API key', pattern: /\b(?:sk|rk)_(?:live|test)_[A-Za-z0-9]{16,}/g },
+  { id: 'google', name: 'Google API key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { id: 'sendgrid', name: 'SendGrid API key', pattern: /\bSG\.[A-Za-z0-9_-]{22}\.[A-Za-z0-9_-]{43}\b/g },
+  { id: 'jwt', name: 'JSON Web Token', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+  { id: 'private-key', name: 'Private key block', pattern: /-----BEGIN (?:[A-Z]+ )?PRIVATE KEY(?: BLOCK)?-----/g },
+]
+
+// Statements that show placeholder API keys or key validation, not real keys
+export const PLACEHOLDER_KEY_PATTERNS = [
+  /lin_api_xxx/i,
+  /lin_api_\.\.\./i,
+  /lin_api_your_key/i,
+  /lin_api_here/i,
+  /sk-xxx/i,
+  /ghp_xxx/i,
+  /your[-_]?key/i,
+  /your[-_]?api[-_]?key/i,
+  /<your-/i,
+  /startsWith\s*\(['"]lin_api_/i, // Validation pattern
+  /startsWith\s*\(['"]sk-/i,
+  /startsWith\s*\(['"]ghp_/i,
+]
+
+// Help and error messages. They excuse high-entropy strings, never a value in
+// a provider's key format: a real key printed in a message is still committed
+const MESSAGE_PATTERNS = [/console\.(log|error|warn)\s*\(/i, /throw\s+new\s+Error/i]
+
+// Matched values that are placeholders whatever the line says
+const PLACEHOLDER_VALUE = /x{4,}|example|placeholder|dummy|fake|sample|redacted|changeme|your|\*{3,}|\.{3}|<[^>]*>|(.)\1{7,}/i
+
+/** File types that ship with skills and may contain keys */
+const SCANNED_EXTENSIONS = ['.ts', '.tsx', '.js', '.mjs', '.cjs', '.sh', '.bash', '.py', '.json', '.yaml', '.yml', '.toml']
+const ENV_FILE = /^\.env(\..+)?$/
+const LOCK_FILE = /(^|[-.])lock\.(json|yaml)$|\.lock$/
+
+/** Minimum length and Shannon entropy (bits per character) of a random-looking value */
+export const ENTROPY_MIN_LENGTH = 20
+export const ENTROPY_THRESHOLD = 4.0
+const HEX_ENTROPY_MIN_LENGTH = 32
+const HEX_ENTROPY_THRESHOLD = 3.0
+
+const QUOTED_VALUE = /(['"`])([A-Za-z0-9+/=_-]{20,})\1/g
+const ASSIGNED_VALUE = /^\s*(?:export\s+)?[A-Za-z_][A-Za-z0-9_]*\s*[=:]\s*['"]?([A-Za-z0-9+/=_-]{20,})['"]?\s*$/gm
+
+export function isPlaceholderKey(statement: string): boolean {
+  return PLACEHOLDER_KEY_PATTERNS.some((p) => p.test(statement))
+}
+
+/**
+ * The statement of a line a match is in, from the `;` before it to the one
+ * after, so other statements on the line cannot excuse it
+ */
+function statementAround(line: string, start: number, end: number): string {
+  const to = line.indexOf(';', end)
+  return line.slice(line.lastIndexOf(';', start) + 1, to === -1 ? line.length : to)
+}
+
+/**
+ * Shannon entropy of a string, in bits per character
+ */
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>()
+  for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1)
+  let entropy = 0
+  for (const count of counts.values()) {
+    const p = count / value.length
+    entropy -= p * Math.log2(p)
+  }
+  return entropy
+}
+
+/**
+ * Whether a value is random enough to be a key: mixed letters and digits with
+ * high entropy, or a long hex string. Identifiers, paths and words are not.
+ */
+export function looksRandom(value: string): boolean {
+  if (!/[0-9]/.test(value) || !/[A-Za-z]/.test(value)) return false
+  if (/^[0-9a-f]+$/i.test(value)) {
+    return value.length >= HEX_ENTROPY_MIN_LENGTH && shannonEntropy(value) >= HEX_ENTROPY_THRESHOLD
+  }
+  // kebab/snake identifiers ("skill-builder-specialist-v2") are not keys
+  if (/^[a-z0-9]+([-_][a-z0-9]+)+$/.test(value)) return false
+  return value.length >= ENTROPY_MIN_LENGTH && shannonEntropy(value) >= ENTROPY_THRESHOLD
+}
+
+/**
+ * Show only the start and end of a secret
+ */
+export function maskSecret(value: string): string {
+  if (value.startsWith('-----BEGIN')) return value
+  const visible = Math.min(6, Math.floor(value.length / 4))
+  return `${value.slice(0, visible)}…${value.slice(-2)}`
+}
+
+/**
+ * Files to scan: code, config and .env files, minus lock files and anything
+ * git ignores
+ */
+export function listScannableFiles(skillPath: string): string[] {
+  const files = listSkillFiles(skillPath, ['']).filter((file) => {
+    const name = path.basename(file)
+    return !LOCK_FILE.test(name) && (ENV_FILE.test(name) || SCANNED_EXTENSIONS.some((ext) => name.endsWith(ext)))
+  })
+  const ignored = gitIgnored(skillPath, files)
+  return files.filter((file) => !ignored.has(file))
+}
+
+/**
+ * Files git would ignore; empty when the skill is not in a git repository
+ */
+function gitIgnored(skillPath: string, files: string[]): Set<string> {
+  if (files.length === 0) return new Set()
+  try {
+    const output = execFileSync('git', ['-C', skillPath, 'check-ignore', '--stdin'], {
+      input: files.join('\n'),
+      encoding: 'utf-8',
+      stdio: ['pipe', 'pipe', 'ignore'],
+    })
+    return new Set(output.split('\n').filter(Boolean).map((file) => path.resolve(skillPath, file)))
+  } catch {
+    // Exit code 1: nothing ignored; 128 or no git: not a repository
+    return new Set()
+  }
+}
+
+/**
+ * Scan one file's content
+ */
+export function scanContent(file: string, content: string): SecretHit[] {
+  const hits: SecretHit[] = []
+  const covered = new Set<number>()
+  const lines = content.split('\n')
+
+  const consider = (kind: SecretHit['kind'], name: string, index: number, value: string) => {
+    const position = positionAt(content, index)
+    const statement = statementAround(lines[position.line - 1], position.column - 1, position.column - 1 + value.length)
+    if (covered.has(index) || PLACEHOLDER_VALUE.test(value) || isPlaceholderKey(statement)) return
+    if (kind === 'entropy' && MESSAGE_PATTERNS.some((p) => p.test(statement))) return
+    covered.add(index)
+    hits.push({ kind, name, file, ...position, masked: maskSecret(value) })
+  }
+
+  for (const { name, pattern } of SECRET_PATTERNS) {
+    for (const match of content.matchAll(new RegExp(pattern.source, pattern.flags))) {
+      consider('provider', name, match.index!, match[0])
+    }
+  }
+
+  // Provider hits take precedence over entropy hits on the same value
+  const providerLines = new Set(hits.map((hit) => hit.line))
+  const entropyPatterns = ENV_FILE.test(path.basename(file)) ? [QUOTED_VALUE, ASSIGNED_VALUE] : [QUOTED_VALUE]
+  for (const pattern of entropyPatterns) {
+    for (const match of content.matchAll(new RegExp(pattern.source, pattern.flags))) {
+      const value = match[pattern === QUOTED_VALUE ? 2 : 1]
+      const index = match.index! + match[0].indexOf(value)
+      if (looksRandom(value) && !providerLines.has(positionAt(content, index).line)) {
+        consider('entropy', 'High-entropy string', index, value)
+      }
+    }
+  }
+
+  return hits.sort((a, b) => a.line - b.line || a.column - b.column)
+}
+
+/**
+ * Scan every scannable file in a skill
+ */
+export function scanSecrets(skillPath: string): SecretHit[] {
+  return listScannableFiles(skillPath).flatMap((file) => {
+    const relative = path.relative(skillPath, file).split(path.sep).join('/')
+    return scanContent(relative, fs.readFileSync(file, 'utf-8'))
+  })
+}
@@ -0,0 +1,24 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { isHandEdited, readGeneratedStamp, stampGenerated } from './subagent'
+
+const AGENT = '---\nname: notes-specialist\n---\n\nYou are a notes specialist.\n'
+
+describe('stampGenerated', () => {
+  it('adds a stamp after the frontmatter with a checksum and the given fields', () => {
+    const stamped = stampGenerated(AGENT, { source: 'abc', generator: '2' })
+
+    assert.match(stamped, /^---\nname: notes-specialist\n---\n<!-- generated-by: generate-subagent; checksum: [0-9a-f]{16}; source: abc; generator: 2; /)
+    assert.deepEqual(readGeneratedStamp(stamped)?.fields, { source: 'abc', generator: '2' })
+    assert.equal(stampGenerated(stamped, { source: 'abc', generator: '2' }), stamped)
+  })
+
+  it('tells generated agents from edited and hand-written ones', () => {
+    const stamped = stampGenerated(AGENT)
+
+    assert.equal(isHandEdited(stamped), false)
+    assert.equal(isHandEdited(stamped.replace('notes specialist', 'release notes specialist')), true)
+    assert.equal(isHandEdited(AGENT), true)
+    assert.equal(readGeneratedStamp(AGENT), undefined)
+  })
+})
@@ -0,0 +1,223 @@
+/**
+ * Subagent Helpers
+ *
+ * Shared by subagent generation and batch runs:
+ *
+ * - Whether a skill benefits from a specialist subagent, following the
+ *   "When to Generate a Subagent" criteria in SKILL.md
+ * - The specialist's model, return budget and output format, from the
+ *   skill's optional `subagent:` frontmatter block
+ * - The stamp written into generated agents, so regeneration can tell a
+ *   file it produced from one that was edited by hand, and the drift check
+ *   can tell which skill state and generator version it came from
+ */
+
+import { createHash } from 'crypto'
+import * as fs from 'fs'
+import * as path from 'path'
+import { listSkillFiles } from './files'
+import { getString, isMapping, type YamlMapping } from './frontmatter'
+import { estimateSkillTokens, SUBAGENT_RESPONSE_TOKENS } from './tokens'
+
+export interface SubagentFit {
+  qualifies: boolean
+  /** Criteria the skill meets, e.g. "runs test suites (SKILL.md:42)" */
+  reasons: string[]
+}
+
+export interface OutputSection {
+  name: string
+  /** Placeholder text shown to the specialist, e.g. "key outcomes, max 3-5 bullet points" */
+  description: string
+}
+
+export interface SubagentConfig {
+  /** Agent model: sonnet, opus, haiku, inherit or a full model ID */
+  model: string
+  /** Token budget for the specialist's response to the orchestrator */
+  returnTokens: number
+  /** Sections of the specialist's response, in order */
+  outputFormat: OutputSection[]
+}
+
+export interface GeneratedStamp {
+  /** Checksum of the file content without the stamp */
+  checksum: string
+  /** Any other key: value pairs in the stamp */
+  fields: Record<string, string>
+}
+
+/** Bumped when generated agents change shape, so older agents are reported as stale */
+export const GENERATOR_VERSION = '2'
+
+/** Working context above which a skill is worth isolating */
+export const VERBOSE_CONTEXT_TOKENS = 2000
+
+const SUBAGENT_CRITERIA: Array<{ reason: string; pattern: RegExp }> = [
+  { reason: 'processes documents', pattern: /\b(pdf|excel|xlsx|docx|spreadsheets?|large files?)\b/i },
+  {
+    reason: 'performs multi-file analysis or code review',
+    pattern: /\b(code review|review (the |a )?(pr|pull request|diff|changes)|(analy[sz]e|scan) (the |all |every )?(codebase|repository|repo|files))\b/i,
+  },
+  { reason: 'runs test suites', pattern: /\b(test suites?|run (the )?tests|jest|vitest|pytest|mocha)\b/i },
+  { reason: 'conducts iterative research', pattern: /\b(research|investigate|deep dive)\b/i },
+]
+
+export const DEFAULT_SUBAGENT_CONFIG: SubagentConfig = {
+  model: 'sonnet',
+  returnTokens: SUBAGENT_RESPONSE_TOKENS,
+  outputFormat: [
+    { name: 'Task', description: 'what was requested' },
+    { name: 'Actions', description: 'what you did' },
+    { name: 'Results', description: 'key outcomes, max 3-5 bullet points' },
+    { name: 'Artifacts', description: 'file paths or outputs created' },
+  ],
+}
+
+const STAMP_PATTERN = /^<!-- generated-by: generate-subagent;([^>]*)-->\n/m
+
+/**
+ * Whether a skill meets the "When to Generate a Subagent" criteria: verbose
+ * working context, document processing, multi-file analysis, test suites or
+ * research. Each criterion is reported once, with the first place it was seen.
+ */
+export function assessSubagentFit(skillPath: string): SubagentFit {
+  const reasons: string[] = []
+
+  const tokens = estimateSkillTokens(skillPath)
+  const context = tokens.body + tokens.references.reduce((sum, r) => sum + r.tokens, 0)
+  if (context > VERBOSE_CONTEXT_TOKENS) {
+    reasons.push(`has a large working context (~${context} tokens)`)
+  }
+
+  const files = listSkillFiles(skillPath, ['.md', '.ts', '.js', '.mjs', '.sh', '.py'])
+  for (const { reason, pattern } of SUBAGENT_CRITERIA) {
+    for (const file of files) {
+      const lines = fs.readFileSync(file, 'utf-8').split('\n')
+      const index = lines.findIndex((line) => pattern.test(line))
+      if (index !== -1) {
+        reasons.push(`${reason} (${path.relative(skillPath, file).split(path.sep).join('/')}:${index + 1})`)
+        break
+      }
+    }
+  }
+
+  return { qualifies: reasons.length > 0, reasons }
+}
+
+/**
+ * Read the `subagent:` frontmatter block. Only the fields it sets are
+ * returned, so they can be layered over defaults and under CLI flags:
+ *
+ * ```yaml
+ * subagent:
+ *   model: haiku
+ *   return-tokens: 800
+ *   output-format:
+ *     Task: what was requested
+ *     Findings: issues found, with file:line
+ * ```
+ */
+export function readSubagentConfig(data: YamlMapping): Partial<SubagentConfig> {
+  const block = data.subagent
+  if (!isMapping(block)) return {}
+
+  const config: Partial<SubagentConfig> = {}
+  const model = getString(block, 'model')
+  if (model) config.model = model
+  if (block['return-tokens'] !== undefined && block['return-tokens'] !== null) {
+    config.returnTokens = parseReturnTokens(getString(block, 'return-tokens'))
+  }
+  const format = block['output-format']
+  if (isMapping(format)) {
+    config.outputFormat = Object.keys(format).map((name) => ({
+      name,
+      description: getString(format, name) || name.toLowerCase(),
+    }))
+  }
+  return config
+}
+
+/**
+ * Parse a return budget; throws unless it is a positive whole number
+ */
+export function parseReturnTokens(value: string): number {
+  const tokens = Number(value)
+  if (!Number.isInteger(tokens) || tokens <= 0) {
+    throw new Error(`Return token budget must be a positive whole number, got "${value}"`)
+  }
+  return tokens
+}
+
+/**
+ * Parse output sections from a CLI flag: "Task; Findings: issues found; Artifacts"
+ */
+export function parseOutputFormat(value: string): OutputSection[] {
+  return value
+    .split(';')
+    .map((item) => item.trim())
+    .filter(Boolean)
+    .map((item) => {
+      const separator = item.indexOf(':')
+      const name = (separator === -1 ? item : item.slice(0, separator)).trim()
+      const description = separator === -1 ? '' : item.slice(separator + 1).trim()
+      return { name, description: description || name.toLowerCase() }
+    })
+}
+
+/**
+ * Render output sections as the bullet list in the agent's Output Format section
+ */
+export function formatOutputSections(sections: OutputSection[]): string {
+  return sections.map((section) => `- **${section.name}:** [${section.description}]`).join('\n')
+}
+
+function checksum(content: string): string {
+  return createHash('sha256').update(content).digest('hex').slice(0, 16)
+}
+
+/**
+ * Hash of the skill inputs an agent was generated from
+ */
+export function sourceHash(source: unknown): string {
+  return checksum(JSON.stringify(source))
+}
+
+/**
+ * Add a generated-by stamp after the frontmatter of an agent definition
+ */
+export function stampGenerated(content: string, fields: Record<string, string> = {}): string {
+  const clean = content.replace(STAMP_PATTERN, '')
+  const pairs = Object.entries({ checksum: checksum(clean), ...fields })
+    .map(([key, value]) => ` ${key}: ${value};`)
+    .join('')
+  const stamp = `<!-- generated-by: generate-subagent;${pairs} regenerate instead of editing -->\n`
+
+  const lines = clean.split('\n')
+  const end = lines[0] === '---' ? lines.indexOf('---', 1) : -1
+  return end === -1 ? stamp + clean : [...lines.slice(0, end + 1), stamp.trimEnd(), ...lines.slice(end + 1)].join('\n')
+}
+
+/**
+ * Read the stamp of a generated agent; undefined if the file has none
+ */
+export function readGeneratedStamp(content: string): GeneratedStamp | undefined {
+  const match = content.match(STAMP_PATTERN)
+  if (!match) return undefined
+
+  const fields: Record<string, string> = {}
+  for (const pair of match[1].split(';')) {
+    const separator = pair.indexOf(':')
+    if (separator !== -1) fields[pair.slice(0, separator).trim()] = pair.slice(separator + 1).trim()
+  }
+  const { checksum: stamped = '', ...rest } = fields
+  return { checksum: stamped, fields: rest }
+}
+
+/**
+ * Whether an agent file was written by hand or changed since it was generated
+ */
+export function isHandEdited(content: string): boolean {
+  const stamp = readGeneratedStamp(content)
+  return !stamp || stamp.checksum !== checksum(content.replace(STAMP_PATTERN, ''))
+}
@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { FrontmatterError } from './frontmatter'
+import {
+  BODY_TOKEN_BUDGET,
+  estimateDelegationSavings,
+  estimateSkillTokens,
+  estimateTokens,
+  sectionsToMove,
+  type SkillTokenEstimate,
+} from './tokens'
+
+describe('estimateTokens', () => {
+  it('charges words by length, numbers by digits and merges punctuation runs', () => {
+    assert.equal(estimateTokens('hello world'), 2)
+    assert.equal(estimateTokens('internationalization'), 4)
+    assert.equal(estimateTokens('12345'), 2)
+    assert.equal(estimateTokens('**'), 1)
+    assert.equal(estimateTokens('🙂'), 2)
+    assert.equal(estimateTokens('a\n\n\nb'), 5)
+  })
+})
+
+describe('estimateSkillTokens', () => {
+  let skillPath: string
+
+  beforeEach(() => {
+    skillPath = fs.mkdtempSync(path.join(os.tmpdir(), 'tokens-test-'))
+  })
+
+  afterEach(() => fs.rmSync(skillPath, { recursive: true, force: true }))
+
+  it('splits frontmatter, body, top-level sections and references', () => {
+    fs.writeFileSync(
+      path.join(skillPath, 'SKILL.md'),
+      '---\nname: notes\n---\n\n# Notes\n\n## Usage\n\nTidy them.\n\n### Details\n\nMore.\n\n## Reference\n\nSee below.\n'
+    )
+    fs.mkdirSync(path.join(skillPath, 'references'))
+    fs.writeFileSync(path.join(skillPath, 'references', 'format.md'), '# Format\n')
+
+    const estimate = estimateSkillTokens(skillPath)
+
+    assert.equal(estimate.bodyStartLine, 4)
+    assert.ok(estimate.frontmatter > 0 && estimate.body > estimate.frontmatter)
+    assert.deepEqual(
+      estimate.sections.map((s) => `${s.depth} ${s.line} ${s.heading}`),
+      ['2 7 Usage', '2 15 Reference']
+    )
+    assert.deepEqual(
+      estimate.references.map((r) => r.file),
+      ['references/format.md']
+    )
+  })
+
+  it('throws on frontmatter that is never closed', () => {
+    fs.writeFileSync(path.join(skillPath, 'SKILL.md'), '---\nname: notes\n\n# Notes\n')
+    assert.throws(() => estimateSkillTokens(skillPath), FrontmatterError)
+  })
+})
+
+describe('sectionsToMove', () => {
+  const estimate = (body: number): SkillTokenEstimate => ({
+    frontmatter: 50,
+    body,
+    references: [{ file: 'references/a.md', tokens: 1000 }],
+    sections: [
+      { heading: 'Small', depth: 2, line: 5, tokens: 300 },
+      { heading: 'Large', depth: 2, line: 20, tokens: 2000 },
+      { heading: 'Larger', depth: 2, line: 90, tokens: 3000 },
+    ],
+    bodyStartLine: 4,
+  })
+
+  it('suggests large sections, largest first, only over budget', () => {
+    assert.deepEqual(sectionsToMove(estimate(BODY_TOKEN_BUDGET)), [])
+    assert.deepEqual(
+      sectionsToMove(estimate(BODY_TOKEN_BUDGET + 1)).map((s) => s.heading),
+      ['Larger', 'Large']
+    )
+  })
+
+  it('compares inline loading with a delegation snippet and response', () => {
+    const savings = estimateDelegationSavings(estimate(2000), 'hello world', 498)
+
+    assert.deepEqual(savings, { inline: { min: 2000, max: 3000 }, delegated: 500, percent: { min: 75, max: 83 } })
+  })
+})
@@ -0,0 +1,155 @@
+/**
+ * Token Estimation
+ *
+ * Offline approximation of how many tokens a skill costs, split by when each
+ * part is loaded:
+ *
+ * - Frontmatter: always, for every installed skill
+ * - SKILL.md body: when the skill triggers
+ * - references/: on demand
+ *
+ * The estimate splits text the way BPE tokenizers pre-tokenize it (words,
+ * numbers, punctuation runs, whitespace) and charges long pieces by length.
+ * It is typically within 10-15% of real tokenizers for English markdown, which
+ * is enough for budgets; it is not meant for billing.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { listSkillFiles } from './files'
+import { extractFrontmatter } from './frontmatter'
+import { parseMarkdown } from './markdown'
+
+/** Recommended maximum for the always-loaded frontmatter */
+export const FRONTMATTER_TOKEN_BUDGET = 300
+/** Recommended maximum for the SKILL.md body (about 2,000 words of prose plus examples) */
+export const BODY_TOKEN_BUDGET = 5000
+/** Sections above this size are candidates for references/ */
+export const SECTION_TOKEN_BUDGET = 800
+/** Default response size subagents are asked to stay under */
+export const SUBAGENT_RESPONSE_TOKENS = 500
+
+export interface SectionEstimate {
+  heading: string
+  depth: number
+  /** 1-based line of the heading in SKILL.md */
+  line: number
+  tokens: number
+}
+
+export interface SkillTokenEstimate {
+  frontmatter: number
+  body: number
+  /** Paths relative to the skill root */
+  references: Array<{ file: string; tokens: number }>
+  /** Top-level sections of the body (the shallowest heading level used) */
+  sections: SectionEstimate[]
+  /** 1-based line where the body starts */
+  bodyStartLine: number
+}
+
+export interface DelegationSavings {
+  /** Tokens the orchestrator spends when the skill is loaded inline: body only, and body plus every reference */
+  inline: { min: number; max: number }
+  /** Tokens the orchestrator spends when delegating: the CLAUDE.md snippet plus the specialist's response */
+  delegated: number
+  /** Percentages saved by delegating, for the min and max inline cost */
+  percent: { min: number; max: number }
+}
+
+const PIECE_PATTERN = /'(?:s|t|re|ve|m|ll|d)\b| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+/gu
+
+/**
+ * Estimate the number of tokens in a piece of text
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0
+  for (const [piece] of text.matchAll(PIECE_PATTERN)) {
+    const body = piece.trimStart()
+    if (body === '') {
+      // Runs of spaces merge; each line break usually costs one
+      tokens += Math.max(1, (piece.match(/\n/g) || []).length)
+    } else if (/^\p{L}/u.test(body)) {
+      // Non-ASCII letters take roughly one token per character
+      tokens += /^[a-z]+$/i.test(body) ? Math.max(1, Math.ceil(body.length / 5)) : body.length
+    } else if (/^\p{N}/u.test(body)) {
+      tokens += Math.ceil(body.length / 3)
+    } else {
+      // Punctuation: common runs ("**", "```", "---") merge; emoji cost several tokens
+      const symbols = Array.from(body)
+      tokens += symbols.reduce((sum, char) => sum + (char.charCodeAt(0) > 0x7f ? 2 : 0), 0)
+      tokens += Math.ceil(symbols.filter((char) => char.charCodeAt(0) <= 0x7f).length / 2)
+    }
+  }
+  return tokens
+}
+
+/**
+ * Estimate the tokens of a skill's frontmatter, body, sections and references
+ */
+export function estimateSkillTokens(skillPath: string): SkillTokenEstimate {
+  const skillMdPath = path.join(skillPath, 'SKILL.md')
+  const content = fs.existsSync(skillMdPath) ? fs.readFileSync(skillMdPath, 'utf-8') : ''
+
+  const frontmatter = extractFrontmatter(content)
+  const lines = content.replace(/\r\n/g, '\n').split('\n')
+  const bodyStartLine = frontmatter?.bodyStartLine ?? 1
+  const frontmatterText = lines.slice(0, bodyStartLine - 1).join('\n')
+  const body = lines.slice(bodyStartLine - 1).join('\n')
+
+  const headings = parseMarkdown(content).filter((block) => block.type === 'heading')
+  const topDepth = Math.min(...headings.map((h) => h.depth!).filter((depth) => depth > 1), Infinity)
+  const topHeadings = headings.filter((h) => h.depth === topDepth)
+  const sections = topHeadings.map((heading, index) => {
+    const end = index + 1 < topHeadings.length ? topHeadings[index + 1].startLine - 1 : lines.length
+    return {
+      heading: heading.text!,
+      depth: heading.depth!,
+      line: heading.startLine,
+      tokens: estimateTokens(lines.slice(heading.startLine - 1, end).join('\n')),
+    }
+  })
+
+  return {
+    frontmatter: estimateTokens(frontmatterText),
+    body: estimateTokens(body),
+    references: listReferences(skillPath).map((file) => ({
+      file,
+      tokens: estimateTokens(fs.readFileSync(path.join(skillPath, file), 'utf-8')),
+    })),
+    sections,
+    bodyStartLine,
+  }
+}
+
+/**
+ * Sections worth moving to references/ when the body is over budget: those
+ * above SECTION_TOKEN_BUDGET, largest first
+ */
+export function sectionsToMove(estimate: SkillTokenEstimate): SectionEstimate[] {
+  if (estimate.body <= BODY_TOKEN_BUDGET) return []
+  return estimate.sections.filter((s) => s.tokens > SECTION_TOKEN_BUDGET).sort((a, b) => b.tokens - a.tokens)
+}
+
+/**
+ * Estimated orchestrator tokens saved by delegating to a specialist subagent
+ * instead of loading the skill inline
+ */
+export function estimateDelegationSavings(
+  estimate: SkillTokenEstimate,
+  snippet: string,
+  responseTokens = SUBAGENT_RESPONSE_TOKENS
+): DelegationSavings {
+  const referenceTokens = estimate.references.reduce((sum, r) => sum + r.tokens, 0)
+  const inline = { min: estimate.body, max: estimate.body + referenceTokens }
+  const delegated = estimateTokens(snippet) + responseTokens
+  const percent = (cost: number) => (cost > 0 ? Math.round((1 - delegated / cost) * 100) : 0)
+  return { inline, delegated, percent: { min: percent(inline.min), max: percent(inline.max) } }
+}
+
+/** Markdown and text files under references/, relative to the skill root */
+function listReferences(skillPath: string): string[] {
+  return listSkillFiles(path.join(skillPath, 'references'), ['.md', '.txt']).map((file) =>
+    path.relative(skillPath, file).split(path.sep).join('/')
+  )
+}
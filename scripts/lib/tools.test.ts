@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { describeEvidence, inferTools, readAllowedTools, undeclaredTools } from './tools'
+
+describe('inferTools', () => {
+  let skillPath: string
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(skillPath, file)), { recursive: true })
+    fs.writeFileSync(path.join(skillPath, file), content)
+  }
+
+  beforeEach(() => {
+    skillPath = fs.mkdtempSync(path.join(os.tmpdir(), 'tools-test-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(skillPath, { recursive: true, force: true })
+  })
+
+  it('grants only Read to a skill without evidence', () => {
+    write('SKILL.md', '---\nname: notes\n---\n\n# Notes\n\nExplains the command and the url format.\n')
+
+    assert.deepEqual(
+      inferTools(skillPath).map((i) => describeEvidence(i)),
+      ['Read (1): SKILL.md:1 skills are read']
+    )
+  })
+
+  it('collects evidence from declared tools, scripts, shell blocks and prose', () => {
+    write('SKILL.md', '---\nname: notes\nallowed-tools:\n  - Read\n  - Bash(git:*)\n---\n\n# Notes\n\nSearch the codebase for usages. Ignore `edit the config file`.\n\n```bash\ngit log\n```\n')
+    write('scripts/save.mjs', "import { writeFileSync } from 'fs'\n\nwriteFileSync('notes.md', '')\n")
+    write('references/setup.md', '# Setup\n\nFetch the documentation page first.\n')
+
+    const inferred = inferTools(skillPath)
+
+    assert.deepEqual(
+      inferred.map((i) => `${i.tool} ${i.confidence}`),
+      ['Read 1', 'Write 0.9', 'Bash 1', 'Grep 0.5', 'Glob 0.5', 'WebFetch 0.5']
+    )
+    assert.equal(
+      describeEvidence(inferred[2], 2),
+      'Bash (1): SKILL.md:5 Bash(git:*), scripts/save.mjs:1 bundled script, +1 more'
+    )
+    assert.deepEqual(inferred[1].evidence, [{ source: 'script', file: 'scripts/save.mjs', line: 1, detail: 'writes files' }])
+    assert.equal(inferred.some((i) => i.tool === 'Edit'), false)
+  })
+})
+
+describe('undeclaredTools', () => {
+  let skillPath: string
+
+  beforeEach(() => {
+    skillPath = fs.mkdtempSync(path.join(os.tmpdir(), 'tools-test-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(skillPath, { recursive: true, force: true })
+  })
+
+  it('lists inferred tools missing from allowed-tools', () => {
+    fs.writeFileSync(path.join(skillPath, 'SKILL.md'), '---\nname: notes\nallowed-tools: Bash\n---\n\n# Notes\n\nRun the tests, then write the report.md file.\n')
+
+    assert.deepEqual(readAllowedTools(skillPath), [{ tool: 'Bash', line: 3 }])
+    assert.deepEqual(
+      undeclaredTools(skillPath, inferTools(skillPath)).map((i) => i.tool),
+      ['Write']
+    )
+  })
+
+  it('reports nothing when the skill declares no tools or its frontmatter is broken', () => {
+    fs.writeFileSync(path.join(skillPath, 'SKILL.md'), '---\nname: notes\n---\n\nRun the tests.\n')
+    assert.deepEqual(undeclaredTools(skillPath, inferTools(skillPath)), [])
+
+    fs.writeFileSync(path.join(skillPath, 'SKILL.md'), '---\nallowed-tools: [Bash\n---\n')
+    assert.deepEqual(readAllowedTools(skillPath), [])
+  })
+})
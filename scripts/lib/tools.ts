@@ -0,0 +1,211 @@
+/**
+ * Tool Inference
+ *
+ * Works out the minimal tool set a skill's specialist needs, with the
+ * evidence behind each tool:
+ *
+ * - `allowed-tools` frontmatter: declared by the author
+ * - scripts/: running bundled scripts needs Bash; their source shows writes
+ *   and network access
+ * - Fenced shell blocks in SKILL.md and references/
+ * - Explicit verb phrases in prose ("run the tests", "edit the config file")
+ *
+ * Mentions of words like "command" or "url" on their own are not evidence.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { listSkillFiles } from './files'
+import { FrontmatterError, getStringList, parseFrontmatter } from './frontmatter'
+import { parseMarkdown } from './markdown'
+
+export type ToolEvidenceSource = 'default' | 'allowed-tools' | 'script' | 'code-block' | 'phrase'
+
+export interface ToolEvidence {
+  source: ToolEvidenceSource
+  /** Path relative to the skill root */
+  file: string
+  line: number
+  /** What matched, e.g. the phrase or the code block language */
+  detail: string
+}
+
+export interface ToolInference {
+  tool: string
+  /** 0-1; combined from the weight of each piece of evidence */
+  confidence: number
+  evidence: ToolEvidence[]
+}
+
+/** Tools below this confidence are not granted */
+export const MIN_TOOL_CONFIDENCE = 0.5
+
+const EVIDENCE_WEIGHT: Record<ToolEvidenceSource, number> = {
+  default: 1,
+  'allowed-tools': 1,
+  script: 0.9,
+  'code-block': 0.8,
+  phrase: 0.5,
+}
+
+// Stable output order; tools not listed sort after these
+const TOOL_ORDER = ['Read', 'Write', 'Edit', 'Bash', 'Grep', 'Glob', 'WebFetch', 'WebSearch']
+
+const SHELL_LANGUAGES = new Set(['bash', 'sh', 'shell', 'zsh', 'console', 'terminal'])
+
+const TOOL_PHRASES: Array<{ tools: string[]; pattern: RegExp }> = [
+  {
+    tools: ['Write'],
+    pattern: /\b(create|write|generate|save)s? (a |an |the |new )*([\w-]+ )?(files?|directory|directories|[\w-]+\.(md|json|ya?ml|ts|js|mjs|sh))\b/i,
+  },
+  {
+    tools: ['Edit'],
+    pattern: /\b(edit|modify|update|patch|rewrite)s? (a |an |the |each |every )*([\w-]+ )?(files?|code|config(uration)?|source|[\w-]+\.(md|json|ya?ml|ts|js))\b/i,
+  },
+  {
+    tools: ['Bash'],
+    pattern: /\b(run|execute|invoke)s? (a |an |the )*(commands?|scripts?|tests?|test suites?|npm|npx|git|gh|docker|make|build|linter)\b/i,
+  },
+  {
+    tools: ['Grep', 'Glob'],
+    pattern: /\b(search|grep|scan|find)(es|s)? (for |in |through |across |the |all |every )*(files?|codebase|repository|repo|directories|patterns?|occurrences|usages?)\b/i,
+  },
+  {
+    tools: ['WebFetch'],
+    pattern: /\b(fetch|download|retrieve|read)s? (a |an |the )*(urls?|web ?pages?|online docs|documentation page|remote [\w-]+)\b/i,
+  },
+  { tools: ['WebSearch'], pattern: /\bsearch(es)? the (web|internet)\b/i },
+]
+
+const SCRIPT_SIGNALS: Array<{ tools: string[]; pattern: RegExp; detail: string }> = [
+  {
+    tools: ['Write'],
+    pattern: /\b(writeFileSync|writeFile|mkdirSync|createWriteStream)\b|open\([^)]*['"][wa]\+?['"]/,
+    detail: 'writes files',
+  },
+  { tools: ['WebFetch'], pattern: /\bfetch\(|\bhttps?\.(get|request)\(|\baxios\b|\brequests\.(get|post)\b|\bcurl\b/, detail: 'network access' },
+]
+
+function toolName(declared: string): string {
+  return declared.replace(/\(.*\)$/, '').trim()
+}
+
+/**
+ * Infer the tools a skill needs. Read is always included.
+ */
+export function inferTools(skillPath: string): ToolInference[] {
+  const evidence = new Map<string, ToolEvidence[]>()
+  const add = (tools: string[], item: ToolEvidence) => {
+    for (const tool of tools) {
+      const list = evidence.get(tool) ?? []
+      // One piece of evidence per source and file is enough
+      if (!list.some((e) => e.source === item.source && e.file === item.file)) list.push(item)
+      evidence.set(tool, list)
+    }
+  }
+  const relative = (file: string) => path.relative(skillPath, file).split(path.sep).join('/')
+
+  add(['Read'], { source: 'default', file: 'SKILL.md', line: 1, detail: 'skills are read' })
+
+  // Declared tools
+  const skillMdPath = path.join(skillPath, 'SKILL.md')
+  for (const declared of readAllowedTools(skillPath)) {
+    add([toolName(declared.tool)], {
+      source: 'allowed-tools',
+      file: 'SKILL.md',
+      line: declared.line,
+      detail: declared.tool,
+    })
+  }
+
+  // Bundled scripts
+  const scripts = listSkillFiles(path.join(skillPath, 'scripts'), ['.sh', '.ts', '.js', '.mjs', '.cjs', '.py'])
+  if (scripts.length > 0) {
+    const detail = scripts.length === 1 ? 'bundled script' : `${scripts.length} bundled scripts`
+    add(['Bash'], { source: 'script', file: relative(scripts[0]), line: 1, detail })
+  }
+  for (const file of scripts) {
+    const lines = fs.readFileSync(file, 'utf-8').split('\n')
+    for (const signal of SCRIPT_SIGNALS) {
+      const index = lines.findIndex((line) => signal.pattern.test(line))
+      if (index !== -1) add(signal.tools, { source: 'script', file: relative(file), line: index + 1, detail: signal.detail })
+    }
+  }
+
+  // Markdown: shell code blocks and verb phrases in prose
+  const markdownFiles = [
+    ...(fs.existsSync(skillMdPath) ? [skillMdPath] : []),
+    ...listSkillFiles(path.join(skillPath, 'references'), ['.md']),
+  ]
+  for (const file of markdownFiles) {
+    for (const block of parseMarkdown(fs.readFileSync(file, 'utf-8'))) {
+      if (block.type === 'code') {
+        if (block.language && SHELL_LANGUAGES.has(block.language.toLowerCase())) {
+          add(['Bash'], { source: 'code-block', file: relative(file), line: block.startLine, detail: `${block.language} block` })
+        }
+        continue
+      }
+      if (block.type === 'frontmatter' || block.type === 'html') continue
+
+      block.lines.forEach((text, offset) => {
+        // Inline code is an example, not an instruction
+        const prose = text.replace(/`[^`]*`/g, '')
+        for (const { tools, pattern } of TOOL_PHRASES) {
+          const match = prose.match(pattern)
+          if (match) {
+            add(tools, { source: 'phrase', file: relative(file), line: block.startLine + offset, detail: `"${match[0]}"` })
+          }
+        }
+      })
+    }
+  }
+
+  const inferences = Array.from(evidence, ([tool, items]) => ({
+    tool,
+    confidence: Math.round((1 - items.reduce((rest, e) => rest * (1 - EVIDENCE_WEIGHT[e.source]), 1)) * 100) / 100,
+    evidence: items,
+  }))
+  const rank = (tool: string) => (TOOL_ORDER.includes(tool) ? TOOL_ORDER.indexOf(tool) : TOOL_ORDER.length)
+  return inferences
+    .filter((i) => i.confidence >= MIN_TOOL_CONFIDENCE)
+    .sort((a, b) => rank(a.tool) - rank(b.tool) || a.tool.localeCompare(b.tool))
+}
+
+/**
+ * Tools declared in `allowed-tools`, with the line of each entry
+ */
+export function readAllowedTools(skillPath: string): Array<{ tool: string; line: number }> {
+  const skillMdPath = path.join(skillPath, 'SKILL.md')
+  if (!fs.existsSync(skillMdPath)) return []
+
+  try {
+    const { data, positions } = parseFrontmatter(fs.readFileSync(skillMdPath, 'utf-8'))
+    const fallback = positions.get('allowed-tools')?.line ?? 1
+    return getStringList(data['allowed-tools']).map((tool, i) => ({
+      tool,
+      line: positions.get(`allowed-tools[${i}]`)?.line ?? fallback,
+    }))
+  } catch (error) {
+    if (error instanceof FrontmatterError) return []
+    throw error
+  }
+}
+
+/**
+ * Inferred tools that `allowed-tools` does not declare. Empty when the skill
+ * declares no tools.
+ */
+export function undeclaredTools(skillPath: string, inferred: ToolInference[]): ToolInference[] {
+  const declared = new Set(readAllowedTools(skillPath).map((d) => toolName(d.tool)))
+  if (declared.size === 0) return []
+  return inferred.filter((i) => !declared.has(i.tool) && i.tool !== 'Read')
+}
+
+/**
+ * One-line description of a tool's evidence: "Bash (0.98): scripts/setup.mjs:1 bundled script, ..."
+ */
+export function describeEvidence(inference: ToolInference, limit = 3): string {
+  const items = inference.evidence.slice(0, limit).map((e) => `${e.file}:${e.line} ${e.detail}`)
+  const more = inference.evidence.length > limit ? `, +${inference.evidence.length - limit} more` : ''
+  return `${inference.tool} (${inference.confidence}): ${items.join(', ')}${more}`
+}
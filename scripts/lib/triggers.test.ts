@@ -0,0 +1,114 @@
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import {
+  analyzeTriggers,
+  extractTriggers,
+  findTriggerCollisions,
+  isGenericTrigger,
+  isNearDuplicate,
+  type TriggerPhrase,
+} from './triggers'
+
+const SKILL_MD = [
+  '---',
+  'name: note-tidy',
+  'description: This skill should be used when the user asks to "tidy notes" or',
+  '  "group changelog entries".',
+  'triggers:',
+  '  keywords:',
+  '    - release notes',
+  '  explicit: /tidy-notes',
+  '  paths: [CHANGELOG.md]',
+  '---',
+  '',
+  '# Note Tidy',
+].join('\n')
+
+const phrase = (text: string): TriggerPhrase => ({ phrase: text, source: 'description', line: 3, column: 1 })
+
+describe('extractTriggers', () => {
+  it('reads quoted description phrases and the triggers block with positions', () => {
+    assert.deepEqual(
+      extractTriggers(SKILL_MD).map((t) => `${t.source} ${t.line}:${t.column} ${t.phrase}`),
+      [
+        'description 3:63 tidy notes',
+        'description 4:4 group changelog entries',
+        'keywords 7:5 release notes',
+        'explicit 8:3 /tidy-notes',
+        'paths 9:3 CHANGELOG.md',
+      ]
+    )
+  })
+
+  it('returns nothing for frontmatter it cannot parse', () => {
+    assert.deepEqual(extractTriggers('---\nname: "note-tidy\n---\n'), [])
+  })
+})
+
+describe('trigger quality', () => {
+  it('tells generic phrases and near-duplicates apart from specific ones', () => {
+    assert.equal(isGenericTrigger('fix the code'), true)
+    assert.equal(isGenericTrigger('/review'), false)
+    assert.equal(isGenericTrigger('tidy notes'), false)
+    assert.equal(isNearDuplicate('create a skill', 'create skills'), true)
+    assert.equal(isNearDuplicate('/validate-skill', 'validate skill'), false)
+    assert.equal(isNearDuplicate('tidy notes', 'group notes'), false)
+  })
+
+  it('reports generic, too few and duplicated phrases', () => {
+    assert.deepEqual(
+      analyzeTriggers([phrase('review code')]).map((issue) => `${issue.kind}: ${issue.message}`),
+      [
+        'generic: Trigger phrase "review code" is too generic to identify this skill',
+        'count: Skill has 1 trigger phrase (recommended: at least 2)',
+      ]
+    )
+    assert.deepEqual(
+      analyzeTriggers([phrase('tidy release notes'), phrase('tidy the release note')]).map((issue) => issue.kind),
+      ['duplicate']
+    )
+    assert.deepEqual(
+      analyzeTriggers(Array.from({ length: 21 }, (_, i) => phrase(`tidy notes batch ${i}`))).filter((issue) => issue.kind === 'count').length,
+      1
+    )
+  })
+})
+
+describe('findTriggerCollisions', () => {
+  let root: string
+  let skillPath: string
+  let installed: string
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'triggers-test-'))
+    skillPath = path.join(root, 'note-tidy')
+    installed = path.join(root, 'installed')
+    fs.mkdirSync(skillPath)
+    fs.writeFileSync(path.join(skillPath, 'SKILL.md'), SKILL_MD)
+    for (const [dir, name, description] of [
+      ['changelog-tool', 'changelog-tool', 'asks to "group the changelog entries"'],
+      ['note-tidy-copy', 'note-tidy', 'asks to "tidy notes"'],
+    ]) {
+      fs.mkdirSync(path.join(installed, dir), { recursive: true })
+      fs.writeFileSync(path.join(installed, dir, 'SKILL.md'), `---\nname: ${name}\ndescription: Used when the user ${description}.\n---\n`)
+    }
+  })
+
+  afterEach(() => fs.rmSync(root, { recursive: true, force: true }))
+
+  it('finds phrases other skills claim, ignoring an installed copy of the same skill', () => {
+    const collisions = findTriggerCollisions(skillPath, extractTriggers(SKILL_MD), installed)
+
+    assert.deepEqual(
+      collisions.map((c) => `${c.trigger.phrase} -> ${c.skill}: ${c.phrase}`),
+      ['group changelog entries -> changelog-tool: group the changelog entries']
+    )
+  })
+
+  it('finds nothing without an installed skills directory', () => {
+    assert.deepEqual(findTriggerCollisions(skillPath, extractTriggers(SKILL_MD), path.join(root, 'missing')), [])
+  })
+})
@@ -0,0 +1,260 @@
+/**
+ * Trigger Phrase Analysis
+ *
+ * Extracts the phrases that activate a skill, from both the description
+ * ("... when the user asks to "create a skill", ...") and the structured
+ * `triggers` frontmatter block, and checks their quality:
+ *
+ * - Too generic: only common words, such as "review" or "fix code"
+ * - Too few or too many phrases
+ * - Near-duplicates within a skill ("create a skill" / "create skills")
+ * - Collisions with other installed skills' phrases
+ */
+
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { FrontmatterError, getString, getStringList, isMapping, parseFrontmatter } from './frontmatter'
+import { positionAt } from './findings'
+
+export type TriggerSource = 'description' | 'keywords' | 'explicit' | 'paths'
+
+export interface TriggerPhrase {
+  phrase: string
+  source: TriggerSource
+  /** Position in SKILL.md */
+  line: number
+  column: number
+}
+
+export type TriggerIssueKind = 'generic' | 'count' | 'duplicate'
+
+export interface TriggerIssue {
+  kind: TriggerIssueKind
+  message: string
+  /** Phrase the issue is about; undefined for count issues */
+  trigger?: TriggerPhrase
+}
+
+export interface TriggerCollision {
+  trigger: TriggerPhrase
+  /** Name of the other skill and the phrase it uses */
+  skill: string
+  skillPath: string
+  phrase: string
+}
+
+export const MIN_TRIGGERS = 2
+export const MAX_TRIGGERS = 20
+
+/** Default location of installed skills */
+export const INSTALLED_SKILLS_DIR = path.join(os.homedir(), '.claude', 'skills')
+
+// Words too broad to identify a skill on their own
+const GENERIC_WORDS = new Set([
+  'help', 'code', 'review', 'fix', 'run', 'test', 'tests', 'build', 'check', 'create', 'update', 'write', 'read',
+  'edit', 'file', 'files', 'debug', 'deploy', 'search', 'find', 'make', 'add', 'remove', 'delete', 'change',
+  'improve', 'refactor', 'setup', 'start', 'do', 'use', 'show', 'list', 'get', 'set', 'new', 'open', 'save',
+])
+
+const STOP_WORDS = new Set(['a', 'an', 'the', 'my', 'our', 'your', 'this', 'that', 'for', 'to', 'of', 'in', 'on'])
+
+/**
+ * Extract trigger phrases from SKILL.md. Quoted phrases in the description
+ * are read wherever they appear; `triggers.keywords`, `triggers.explicit` and
+ * `triggers.paths` are read from the frontmatter. Returns an empty list if
+ * the frontmatter cannot be parsed.
+ */
+export function extractTriggers(content: string): TriggerPhrase[] {
+  let frontmatter
+  try {
+    frontmatter = parseFrontmatter(content)
+  } catch (error) {
+    if (error instanceof FrontmatterError) return []
+    throw error
+  }
+
+  const triggers: TriggerPhrase[] = []
+  const { data, positions } = frontmatter
+
+  const description = getString(data, 'description')
+  const descriptionPosition = positions.get('description')
+  let searchFrom = descriptionPosition ? content.split('\n').slice(0, descriptionPosition.line - 1).join('\n').length : 0
+  for (const match of description.matchAll(/"([^"]+)"/g)) {
+    // Locate the phrase in the source for its position; folded lines may split it
+    const index = content.indexOf(`"${match[1]}`, searchFrom)
+    const position = index === -1 ? descriptionPosition ?? { line: 1, column: 1 } : positionAt(content, index + 1)
+    if (index !== -1) searchFrom = index + 1
+    triggers.push({ phrase: match[1], source: 'description', ...position })
+  }
+
+  const structured = isMapping(data.triggers) ? data.triggers : {}
+  for (const source of ['keywords', 'explicit', 'paths'] as const) {
+    getStringList(structured[source]).forEach((phrase, i) => {
+      const position =
+        positions.get(`triggers.${source}[${i}]`) ?? positions.get(`triggers.${source}`) ?? { line: 1, column: 1 }
+      triggers.push({ phrase, source, ...position })
+    })
+  }
+
+  return triggers
+}
+
+/**
+ * Unique phrases a user might say (everything except `paths`), first occurrence wins
+ */
+export function triggerPhrases(triggers: TriggerPhrase[]): TriggerPhrase[] {
+  const seen = new Set<string>()
+  return triggers.filter((t) => {
+    if (t.source === 'paths') return false
+    const key = t.phrase.toLowerCase().replace(/\s+/g, ' ').trim()
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+/**
+ * Canonical form used to compare phrases: lowercase, no punctuation or
+ * filler words, simple plural stemming
+ */
+export function normalizeTrigger(phrase: string): string {
+  return phrase
+    .toLowerCase()
+    .replace(/[^\w\s/-]/g, ' ')
+    .split(/\s+/)
+    .filter((word) => word && !STOP_WORDS.has(word))
+    .map((word) => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word))
+    .join(' ')
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0]
+    previous[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j]
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1))
+      diagonal = above
+    }
+  }
+  return previous[b.length]
+}
+
+/**
+ * Whether two phrases are the same trigger in different words
+ * ("create a skill" / "create skills", "review my code" / "review the code")
+ */
+export function isNearDuplicate(a: string, b: string): boolean {
+  // A command and its spoken form ("/validate-skill", "validate skill") are meant to coexist
+  if (a.trim().startsWith('/') !== b.trim().startsWith('/')) return false
+  const left = normalizeTrigger(a)
+  const right = normalizeTrigger(b)
+  if (!left || !right) return false
+  if (left === right) return true
+  const longest = Math.max(left.length, right.length)
+  return longest >= 8 && editDistance(left, right) / longest <= 0.15
+}
+
+/**
+ * Whether a phrase is made only of common words ("review", "fix code")
+ */
+export function isGenericTrigger(phrase: string): boolean {
+  if (phrase.trim().startsWith('/')) return false // Explicit commands are specific by design
+  const words = normalizeTrigger(phrase).split(' ').filter(Boolean)
+  return words.every((word) => GENERIC_WORDS.has(word))
+}
+
+/**
+ * Quality issues with a skill's own triggers
+ */
+export function analyzeTriggers(triggers: TriggerPhrase[]): TriggerIssue[] {
+  const issues: TriggerIssue[] = []
+  const phrases = triggerPhrases(triggers)
+
+  for (const trigger of phrases) {
+    if (isGenericTrigger(trigger.phrase)) {
+      issues.push({
+        kind: 'generic',
+        message: `Trigger phrase "${trigger.phrase}" is too generic to identify this skill`,
+        trigger,
+      })
+    }
+  }
+
+  if (phrases.length < MIN_TRIGGERS) {
+    issues.push({
+      kind: 'count',
+      message: `Skill has ${phrases.length} trigger phrase${phrases.length === 1 ? '' : 's'} (recommended: at least ${MIN_TRIGGERS})`,
+    })
+  } else if (phrases.length > MAX_TRIGGERS) {
+    issues.push({
+      kind: 'count',
+      message: `Skill has ${phrases.length} trigger phrases (recommended: at most ${MAX_TRIGGERS}); broad skills activate when they should not`,
+    })
+  }
+
+  for (let i = 0; i < phrases.length; i++) {
+    const duplicate = phrases.slice(0, i).find((earlier) => isNearDuplicate(earlier.phrase, phrases[i].phrase))
+    if (duplicate) {
+      issues.push({
+        kind: 'duplicate',
+        message: `Trigger phrase "${phrases[i].phrase}" nearly duplicates "${duplicate.phrase}"`,
+        trigger: phrases[i],
+      })
+    }
+  }
+
+  return issues
+}
+
+/**
+ * Phrases that other installed skills also claim. Skills with the same
+ * name or directory as `skillPath` are ignored, so an installed copy of the
+ * skill does not collide with itself.
+ */
+export function findTriggerCollisions(
+  skillPath: string,
+  triggers: TriggerPhrase[],
+  installedDir = INSTALLED_SKILLS_DIR
+): TriggerCollision[] {
+  if (!fs.existsSync(installedDir)) return []
+
+  const ownPath = fs.realpathSync(skillPath)
+  const ownName = readName(skillPath)
+  const phrases = triggerPhrases(triggers)
+  const collisions: TriggerCollision[] = []
+
+  for (const item of fs.readdirSync(installedDir).sort()) {
+    const otherPath = path.join(installedDir, item)
+    const otherSkillMd = path.join(otherPath, 'SKILL.md')
+    if (!fs.existsSync(otherSkillMd) || fs.realpathSync(otherPath) === ownPath) continue
+
+    const otherContent = fs.readFileSync(otherSkillMd, 'utf-8')
+    const otherName = readName(otherPath)
+    if (ownName && otherName.toLowerCase() === ownName.toLowerCase()) continue
+
+    const otherPhrases = triggerPhrases(extractTriggers(otherContent))
+    for (const trigger of phrases) {
+      const match = otherPhrases.find((other) => isNearDuplicate(trigger.phrase, other.phrase))
+      if (match) {
+        collisions.push({ trigger, skill: otherName, skillPath: otherPath, phrase: match.phrase })
+      }
+    }
+  }
+
+  return collisions
+}
+
+function readName(skillPath: string): string {
+  const skillMdPath = path.join(skillPath, 'SKILL.md')
+  try {
+    return getString(parseFrontmatter(fs.readFileSync(skillMdPath, 'utf-8')).data, 'name') || path.basename(skillPath)
+  } catch {
+    return path.basename(skillPath)
+  }
+}
@@ -0,0 +1,138 @@
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { MemoryGitHost } from './lib/git'
+import { publish } from './publish'
+
+const SKILL_MD = `---
+name: note-tidy
+description: This skill should be used when the user asks to "tidy notes" or "clean up the changelog".
+---
+
+# Note Tidy
+
+Groups release notes under Added, Changed and Fixed headings.
+
+## Behavioral Classification
+
+**Type**: Autonomous Execution
+
+## Usage
+
+Ask to tidy the notes and paste them in.
+`
+
+describe('publish', () => {
+  let root: string
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'publish-test-'))
+    fs.mkdirSync(path.join(root, 'skills', 'note-tidy'), { recursive: true })
+    fs.writeFileSync(path.join(root, 'skills', 'note-tidy', 'SKILL.md'), SKILL_MD)
+    fs.writeFileSync(
+      path.join(root, 'package.json'),
+      JSON.stringify({
+        name: 'note-tidy',
+        version: '1.0.0',
+        description: 'Tidies release notes',
+        keywords: ['notes'],
+        files: ['skills', 'README.md', 'CHANGELOG.md', 'LICENSE'],
+        'claude-plugin': { skills: ['skills/note-tidy'] },
+      })
+    )
+    fs.writeFileSync(path.join(root, 'README.md'), '# Note Tidy\n')
+    fs.writeFileSync(path.join(root, 'CHANGELOG.md'), '# Changelog\n\n## 1.0.0\n\n- First release\n')
+    fs.writeFileSync(path.join(root, 'LICENSE'), 'MIT License\n')
+  })
+
+  afterEach(() => fs.rmSync(root, { recursive: true, force: true }))
+
+  const run = (host: MemoryGitHost) => publish(root, { name: 'note-tidy', log: () => {} }, host)
+
+  it('stops outside a git repository', () => {
+    const host = new MemoryGitHost({ repository: false })
+    const result = run(host)
+
+    assert.equal(result.published, false)
+    assert.match(result.failure ?? '', /Not a git repository/)
+    assert.deepEqual(host.commands, [])
+  })
+
+  it('stops when the repository has no commits', () => {
+    const host = new MemoryGitHost({ refs: {} })
+    const result = run(host)
+
+    assert.match(result.failure ?? '', /No commits found/)
+    assert.deepEqual(host.commands, [])
+  })
+
+  it('stops on uncommitted changes other than the tarball', () => {
+    const host = new MemoryGitHost({ uncommitted: ['note-tidy-1.0.0.tgz', 'README.md'] })
+    const result = run(host)
+
+    assert.equal(result.failure, 'Uncommitted changes in README.md')
+    assert.deepEqual(host.commands, [])
+  })
+
+  it('ignores the tarball it just built', () => {
+    const host = new MemoryGitHost({ uncommitted: ['note-tidy-1.0.0.tgz'] })
+    const result = run(host)
+
+    assert.equal(result.failure, undefined)
+    assert.equal(result.published, true)
+  })
+
+  it('stops when gh is not authenticated', () => {
+    const host = new MemoryGitHost({ user: undefined })
+    const result = run(host)
+
+    assert.match(result.failure ?? '', /not authenticated/)
+    assert.deepEqual(host.commands, [])
+  })
+
+  it('only warns about authentication in a dry run', () => {
+    const host = new MemoryGitHost({ user: undefined })
+    const result = publish(root, { name: 'note-tidy', log: () => {}, dryRun: true }, host)
+
+    assert.equal(result.failure, undefined)
+    assert.equal(result.published, false)
+    assert.equal(result.commands[0], 'gh repo create note-tidy --public --description "Tidies release notes" --source . --push')
+    assert.deepEqual(host.commands, [])
+  })
+
+  it('creates the repository and adds topics', () => {
+    const host = new MemoryGitHost()
+    const result = run(host)
+
+    assert.equal(result.published, true)
+    assert.equal(result.url, 'https://github.com/octocat/note-tidy')
+    assert.deepEqual(host.state.remoteRepositories, ['octocat/note-tidy'])
+    assert.deepEqual(host.topics, { 'octocat/note-tidy': ['notes'] })
+  })
+
+  it('pushes to a repository that already exists', () => {
+    const host = new MemoryGitHost({ remoteRepositories: ['octocat/note-tidy'] })
+    const result = run(host)
+
+    assert.equal(result.published, true)
+    assert.deepEqual(host.commands, [
+      'git remote set-url origin https://github.com/octocat/note-tidy.git',
+      'git push -u origin main',
+      'gh repo edit octocat/note-tidy --add-topic notes',
+    ])
+  })
+  it('checks the packaging of a SKILL.md at the root, which it also validates', () => {
+    fs.writeFileSync(path.join(root, 'SKILL.md'), SKILL_MD.replace('note-tidy', 'note-tidy-dev'))
+    const host = new MemoryGitHost()
+    const result = run(host)
+
+    assert.equal(result.failure, '1 packaging problems')
+    assert.deepEqual(
+      result.packageIssues.map((issue) => issue.message),
+      ['Skill at the plugin root is not in the package.json "files" list']
+    )
+    assert.deepEqual(host.commands, [])
+  })
+})
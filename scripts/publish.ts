@@ -0,0 +1,230 @@
+#!/usr/bin/env npx tsx
+/**
+ * Publish Script
+ *
+ * Checks that a plugin is ready to publish before anything leaves the machine,
+ * then creates the GitHub repository the way create-repo.mjs does:
+ *
+ * 1. Validate every skill in the plugin; any error stops the publish
+ * 2. Check the package: `files` covers every skill and the scripts, templates
+ *    and references they use, and README/CHANGELOG/LICENSE were rendered
+ * 3. Build the tarball locally (`npm pack` layout) for inspection
+ * 4. Git and gh preflight: repository, commits, clean tree, authentication
+ * 5. Create the repository (or push to an existing one) and add topics
+ *
+ * With --dry-run the first four steps run as usual and the commands of the
+ * last one are printed instead of run.
+ *
+ * Usage:
+ *   npx tsx publish.ts [plugin-root] [--name <repo>] [--description <text>]
+ *                      [--topics a,b,c] [--out <dir>] [--private] [--dry-run]
+ */
+
+import { existsSync } from 'fs'
+import { basename, join, relative, resolve } from 'path'
+import { countBySeverity } from './lib/findings'
+import { CliGitHost, DryRunGitHost, type GitHost } from './lib/git'
+import { checkPackage, createTarball, readPackageJson, resolvePackageFiles, tarballName } from './lib/package'
+import type { PackageIssue } from './lib/package'
+import { discoverSkills, readSkillSummary } from './lib/plugin'
+import { formatText } from './lib/report'
+import { validateSkill } from './validate-skill'
+
+export interface PublishOptions {
+  /** Repository name (default: the plugin directory name) */
+  name?: string
+  /** Repository description (default: package.json description) */
+  description?: string
+  /** Repository topics (default: package.json keywords) */
+  topics?: string[]
+  /** Directory for the tarball (default: the plugin root) */
+  outDir?: string
+  visibility?: 'public' | 'private'
+  /** Run every check and build the tarball, but only print the git and gh commands */
+  dryRun?: boolean
+  log?: (msg: string) => void
+}
+
+export interface PublishResult {
+  published: boolean
+  /** Why the publish stopped, if it did */
+  failure?: string
+  packageIssues: PackageIssue[]
+  tarballPath?: string
+  /** Commands the dry run would have run */
+  commands: string[]
+  url?: string
+}
+
+const DEFAULT_TOPICS = ['claude', 'claude-code', 'claude-plugin']
+
+/**
+ * Check, package and publish a plugin. Git and gh are reached only through
+ * `host`, so tests can pass a fake.
+ */
+export function publish(root: string, options: PublishOptions = {}, host: GitHost = new CliGitHost(root)): PublishResult {
+  const log = options.log ?? console.log
+  const result: PublishResult = { published: false, packageIssues: [], commands: [] }
+  const fail = (failure: string) => {
+    log(`\n❌ ${failure}`)
+    return { ...result, failure }
+  }
+
+  const pkg = readPackageJson(root)
+  if (!pkg) return fail('package.json is missing')
+
+  // 1. Validation
+  log('🔍 Validating skills...')
+  const skills = discoverSkills([root])
+  if (skills.length === 0) return fail('No skills found')
+  let failedSkills = 0
+  for (const skillPath of skills) {
+    const name = readSkillSummary(skillPath).name
+    const validation = validateSkill(skillPath)
+    const { errors, warnings } = countBySeverity(validation.findings)
+    if (validation.passed) {
+      log(`  ✅ ${name}${warnings > 0 ? ` (${warnings} warnings)` : ''}`)
+    } else {
+      failedSkills++
+      log(`  ❌ ${name}: ${errors} errors`)
+      log(formatText(name, validation))
+    }
+  }
+  if (failedSkills > 0) return fail(`${failedSkills} of ${skills.length} skills failed validation`)
+
+  // 2. Package contents
+  log('\n📦 Checking package contents...')
+  result.packageIssues = checkPackage(root)
+  for (const issue of result.packageIssues) {
+    log(`  ❌ ${issue.file}:${issue.line}:${issue.column} ${issue.message}`)
+    if (issue.snippet) log(`     ${issue.snippet.trim()}`)
+  }
+  if (result.packageIssues.length > 0) return fail(`${result.packageIssues.length} packaging problems`)
+  log('  ✅ files, docs and placeholders')
+
+  // 3. Tarball
+  const files = resolvePackageFiles(root, pkg)
+  result.tarballPath = join(resolve(root, options.outDir ?? '.'), tarballName(pkg))
+  const size = createTarball(root, files, result.tarballPath)
+  const shown = relative(process.cwd(), result.tarballPath)
+  log(`\n📝 Built ${shown.startsWith('..') ? result.tarballPath : shown}: ${files.length} files, ${(size / 1024).toFixed(1)} kB`)
+
+  // 4. Git preflight
+  log('\n🔍 Git preflight...')
+  if (!host.isRepository()) return fail('Not a git repository (run: git init)')
+  if (!host.hasCommits()) return fail('No commits found (run: git add -A && git commit -m "Initial commit")')
+  const tarballFile = relative(root, result.tarballPath)
+  const changes = host.uncommittedChanges().filter((file) => file !== tarballFile)
+  if (changes.length > 0) {
+    return fail(`Uncommitted changes in ${changes.slice(0, 5).join(', ')}${changes.length > 5 ? ', ...' : ''}`)
+  }
+  if (!host.isAuthenticated()) {
+    if (!options.dryRun) return fail('gh CLI is not installed or not authenticated (run: gh auth login)')
+    log('  ⚠️  gh CLI is not authenticated; run gh auth login before publishing')
+  }
+  log('  ✅ Repository is committed and clean')
+
+  // 5. GitHub
+  const name = options.name ?? basename(root)
+  const description = options.description ?? pkg.description ?? 'Claude Code skill'
+  const topics = options.topics ?? (pkg.keywords?.length ? pkg.keywords : DEFAULT_TOPICS)
+  const target = options.dryRun ? new DryRunGitHost(host) : host
+
+  log(`\n🚀 ${options.dryRun ? 'Would publish' : 'Publishing'} ${name} (${options.visibility ?? 'public'})`)
+  const owner = target.currentUser()
+  if (!target.createRepository(name, description, options.visibility ?? 'public')) {
+    log('  ⚠️  Repository already exists; pushing to it')
+    target.pushToExisting(owner, name, target.currentBranch())
+  }
+  try {
+    target.addTopics(owner, name, topics)
+  } catch {
+    log('  ⚠️  Could not add all topics (some may be invalid)')
+  }
+
+  result.url = `https://github.com/${owner}/${name}`
+  if (target instanceof DryRunGitHost) {
+    result.commands = target.commands
+    for (const command of result.commands) log(`  $ ${command}`)
+    log('\n🔍 Dry run - nothing was pushed')
+    return result
+  }
+
+  log(`\n✅ Published ${result.url}`)
+  log(`Install: claude plugin add github:${owner}/${name}`)
+  return { ...result, published: true }
+}
+
+function main() {
+  const args = process.argv.slice(2)
+  const options: PublishOptions = {}
+  const positional: string[] = []
+
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(`
+Publish a Claude Code plugin to GitHub
+
+Usage:
+  npx tsx publish.ts [plugin-root] [options]
+
+Options:
+  --name <repo>          Repository name (default: directory name)
+  --description <text>   Repository description (default: package.json description)
+  --topics <a,b,c>       Repository topics (default: package.json keywords)
+  --out <dir>            Where to write the tarball (default: plugin root)
+  --private              Create a private repository
+  --dry-run              Run every check and build the tarball, print the git/gh commands
+  --help, -h             Show this help
+
+Steps:
+  1. Validate every skill (errors stop the publish)
+  2. Check package.json "files" covers skills, scripts, templates and references,
+     and README.md, CHANGELOG.md and LICENSE have no {{PLACEHOLDERS}}
+  3. Build <name>-<version>.tgz locally
+  4. Check the git repository is committed and gh is authenticated
+  5. gh repo create --push (or push to the existing repository) and add topics
+`)
+    process.exit(0)
+  }
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    const value = () => {
+      const next = args[++i]
+      if (next === undefined || next.startsWith('--')) {
+        console.error(`❌ Error: ${arg} needs a value`)
+        process.exit(1)
+      }
+      return next
+    }
+    if (arg === '--name') options.name = value()
+    else if (arg === '--description') options.description = value()
+    else if (arg === '--topics') options.topics = value().split(',').map((topic) => topic.trim()).filter(Boolean)
+    else if (arg === '--out') options.outDir = resolve(value())
+    else if (arg === '--private') options.visibility = 'private'
+    else if (arg === '--dry-run') options.dryRun = true
+    else if (arg.startsWith('-')) {
+      console.error(`❌ Error: Unknown option ${arg}`)
+      process.exit(1)
+    } else positional.push(arg)
+  }
+
+  const root = resolve(positional[0] ?? '.')
+  if (!existsSync(root)) {
+    console.error(`❌ Error: Path does not exist: ${root}`)
+    process.exit(1)
+  }
+
+  try {
+    const result = publish(root, options)
+    process.exit(result.failure ? 1 : 0)
+  } catch (error) {
+    console.error(`❌ Error: ${error instanceof Error ? error.message : error}`)
+    process.exit(1)
+  }
+}
+
+// CLI execution
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main()
+}
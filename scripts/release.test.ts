@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { MemoryGitHost } from './lib/git'
+import { planRelease } from './release'
+
+const skillMd = (version: string, triggers: string) =>
+  `---\nname: note-tidy\nversion: ${version}\ndescription: This skill should be used when the user asks to ${triggers}.\n---\n\n# Note Tidy\n`
+
+describe('planRelease', () => {
+  let root: string
+  let host: MemoryGitHost
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'release-test-'))
+    fs.mkdirSync(path.join(root, 'skills', 'note-tidy'), { recursive: true })
+    fs.writeFileSync(path.join(root, 'skills', 'note-tidy', 'SKILL.md'), skillMd('1.0.0', '"tidy notes" or "group notes"'))
+    fs.writeFileSync(path.join(root, 'package.json'), '{\n  "name": "note-tidy",\n  "version": "1.0.0"\n}\n')
+    fs.writeFileSync(path.join(root, 'CHANGELOG.md'), '# Changelog\n\n## [1.0.0] - 2026-01-05\n\n- First release\n')
+    host = new MemoryGitHost({
+      refs: { HEAD: '0000001', 'v1.0.0': '0000000' },
+      tags: ['v1.0.0'],
+      files: { 'v1.0.0': { 'skills/note-tidy/SKILL.md': skillMd('1.0.0', '"tidy notes"') } },
+      changedSince: { 'v1.0.0': ['skills/note-tidy/SKILL.md'] },
+    })
+  })
+
+  afterEach(() => fs.rmSync(root, { recursive: true, force: true }))
+
+  it('suggests a bump from the changes since the last tag and writes nothing', () => {
+    const plan = planRelease(root, {}, host)
+
+    assert.equal(plan.current, '1.0.0')
+    assert.equal(plan.tag, 'v1.0.0')
+    assert.deepEqual(plan.mismatches, [])
+    assert.deepEqual(
+      plan.changes.map((c) => `${c.bump} ${c.description}`),
+      ['minor Trigger phrase "group notes" in note-tidy', 'patch Updated note-tidy: `SKILL.md`']
+    )
+    assert.equal(plan.suggested, 'minor')
+    assert.equal(plan.next, undefined)
+    assert.deepEqual(plan.files, [])
+  })
+
+  it('plans the new version in every file and a changelog entry', () => {
+    const plan = planRelease(root, { bump: 'minor', date: '2026-03-01' }, host)
+
+    assert.equal(plan.next, '1.1.0')
+    assert.deepEqual(plan.files.map((f) => f.file), ['skills/note-tidy/SKILL.md', 'package.json', 'CHANGELOG.md'])
+    assert.match(plan.files[0].after, /^version: 1\.1\.0$/m)
+    assert.match(plan.files[1].after, /"version": "1\.1\.0"/)
+    assert.match(plan.files[2].after, /^## \[1\.1\.0\] - 2026-03-01\n\n### Added\n- Trigger phrase "group notes" in note-tidy$/m)
+    assert.equal(fs.readFileSync(path.join(root, 'package.json'), 'utf-8').includes('1.1.0'), false)
+  })
+
+  it('reports versions that disagree and rejects versions that are not newer', () => {
+    fs.writeFileSync(path.join(root, 'package.json'), '{\n  "name": "note-tidy",\n  "version": "1.2.0"\n}\n')
+
+    const plan = planRelease(root, {}, new MemoryGitHost({ repository: false }))
+    assert.equal(plan.current, '1.2.0')
+    assert.deepEqual(plan.mismatches.map((s) => `${s.file}:${s.line} ${s.version}`), [
+      'skills/note-tidy/SKILL.md:3 1.0.0',
+      'package.json:3 1.2.0',
+      'CHANGELOG.md:3 1.0.0',
+    ])
+    assert.deepEqual(plan.changes, [])
+
+    assert.throws(() => planRelease(root, { version: '1.1.0' }, host), /1\.1\.0 is not newer than the current version 1\.2\.0/)
+    assert.throws(() => planRelease(root, { version: 'next' }, host), /Not a semantic version: next/)
+  })
+})
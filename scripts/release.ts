@@ -0,0 +1,261 @@
+#!/usr/bin/env npx tsx
+/**
+ * Release Script
+ *
+ * Keeps a plugin's versions in step and prepares a release:
+ *
+ * - Reads the version from each SKILL.md's frontmatter, package.json and the
+ *   latest CHANGELOG.md release, and reports when they disagree
+ * - Diffs each skill against the last git tag and suggests a bump: removed
+ *   trigger phrases or environment variables are major, new trigger phrases
+ *   minor, anything else a patch
+ * - With --bump or --version, writes the new version to all three and adds a
+ *   Keep a Changelog entry (the `## [Unreleased]` notes, or one generated from
+ *   the detected changes)
+ *
+ * Usage:
+ *   npx tsx release.ts [plugin-root]                      # report versions and the suggested bump
+ *   npx tsx release.ts [plugin-root] --bump [type]        # release (default: the suggested bump)
+ *   npx tsx release.ts [plugin-root] --version <x.y.z> [--date YYYY-MM-DD] [--dry-run]
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs'
+import { dirname, join, relative, resolve, sep } from 'path'
+import { fileURLToPath } from 'url'
+import { unifiedDiff } from './lib/diff'
+import { ENV_SCHEMA_FILE } from './lib/env-schema'
+import { CliGitHost, type GitHost } from './lib/git'
+import { discoverSkills, readSkillSummary } from './lib/plugin'
+import {
+  BUMP_TYPES,
+  bumpVersion,
+  CHANGELOG_FILE,
+  compareVersions,
+  describeChangedFiles,
+  diffSkill,
+  findVersionMismatches,
+  parseVersion,
+  readChangelogVersion,
+  readPackageVersion,
+  readSkillVersion,
+  releaseChangelog,
+  setPackageVersion,
+  setSkillVersion,
+  suggestBump,
+  type BumpType,
+  type ReleaseChange,
+  type VersionSource,
+} from './lib/release'
+
+export interface ReleaseOptions {
+  /** Bump to apply; ignored when `version` is given */
+  bump?: BumpType
+  /** Exact version to release */
+  version?: string
+  /** Release date for the changelog (default: today) */
+  date?: string
+  /** Templates directory (default: templates/ in the plugin, then next to this script) */
+  templates?: string
+}
+
+export interface ReleaseFileChange {
+  /** Path relative to the plugin root */
+  file: string
+  before: string
+  after: string
+}
+
+export interface ReleasePlan {
+  sources: VersionSource[]
+  /** Every stated version, when they disagree */
+  mismatches: VersionSource[]
+  /** Highest version stated anywhere */
+  current?: string
+  /** Last git tag the skills were compared with */
+  tag?: string
+  changes: ReleaseChange[]
+  suggested?: BumpType
+  /** Version to release; undefined when only reporting */
+  next?: string
+  files: ReleaseFileChange[]
+}
+
+const DEFAULT_TEMPLATES_DIR = join(dirname(fileURLToPath(import.meta.url)), '..', 'templates')
+
+const toPosix = (file: string) => file.split(sep).join('/')
+
+/**
+ * Read versions, compare the skills with the last tag and, when a bump or
+ * version is given, plan the file changes. Nothing is written.
+ */
+export function planRelease(root: string, options: ReleaseOptions = {}, host: GitHost = new CliGitHost(root)): ReleasePlan {
+  const skills = discoverSkills([root])
+    .filter((skillPath) => existsSync(join(skillPath, 'SKILL.md')))
+    .map((skillPath) => ({ name: readSkillSummary(skillPath).name, dir: toPosix(relative(root, skillPath)) }))
+  const read = (file: string) => (existsSync(join(root, file)) ? readFileSync(join(root, file), 'utf-8') : undefined)
+  const skillMdOf = (dir: string) => (dir ? `${dir}/SKILL.md` : 'SKILL.md')
+
+  // Versions
+  const sources: VersionSource[] = skills.map((skill) => readSkillVersion(skillMdOf(skill.dir), read(skillMdOf(skill.dir))!))
+  const packageJson = read('package.json')
+  if (packageJson !== undefined) sources.push(readPackageVersion(packageJson))
+  const changelog = read(CHANGELOG_FILE)
+  if (changelog !== undefined) sources.push(readChangelogVersion(changelog))
+  const stated = sources.flatMap((source) => (source.version && parseVersion(source.version) ? [source.version] : []))
+  const current = stated.sort(compareVersions).pop()
+
+  // Changes since the last tag
+  const tag = host.isRepository() ? host.latestTag() : undefined
+  const changes: ReleaseChange[] = []
+  if (tag) {
+    for (const skill of skills) {
+      const file = (name: string) => (skill.dir ? `${skill.dir}/${name}` : name)
+      const before = { skillMd: host.readFileAt(tag, file('SKILL.md')), envSchema: host.readFileAt(tag, file(ENV_SCHEMA_FILE)) }
+      const after = { skillMd: read(file('SKILL.md')), envSchema: read(file(ENV_SCHEMA_FILE)) }
+      changes.push(...diffSkill(before, after, skill.name))
+    }
+    changes.push(...describeChangedFiles(host.changedFilesSince(tag), skills))
+  }
+  const suggested = suggestBump(changes)
+
+  const plan: ReleasePlan = { sources, mismatches: findVersionMismatches(sources), current, tag, changes, suggested, files: [] }
+  if (!options.version && !options.bump) return plan
+
+  const next = options.version ?? bumpVersion(current ?? '0.0.0', options.bump!)
+  if (!parseVersion(next)) throw new Error(`Not a semantic version: ${next}`)
+  if (current && compareVersions(next, current) <= 0) {
+    throw new Error(`${next} is not newer than the current version ${current}`)
+  }
+  plan.next = next
+
+  const date = options.date ?? new Date().toISOString().slice(0, 10)
+  const templatePath = [options.templates, join(root, 'templates'), DEFAULT_TEMPLATES_DIR]
+    .filter((dir): dir is string => Boolean(dir))
+    .map((dir) => join(dir, 'CHANGELOG-template.md'))
+    .find((file) => existsSync(file))
+  const template = templatePath ? readFileSync(templatePath, 'utf-8') : undefined
+
+  const updates: Array<[string, string | undefined, (content: string) => string]> = [
+    ...skills.map((skill): [string, string | undefined, (content: string) => string] => [
+      skillMdOf(skill.dir),
+      read(skillMdOf(skill.dir)),
+      (content) => setSkillVersion(content, next),
+    ]),
+    ['package.json', packageJson, (content) => setPackageVersion(content, next)],
+    [CHANGELOG_FILE, changelog ?? '', (content) => releaseChangelog(content, next, date, changes, template)],
+  ]
+  for (const [file, before, update] of updates) {
+    if (before === undefined) continue
+    const after = update(before)
+    if (after !== before) plan.files.push({ file, before, after })
+  }
+  return plan
+}
+
+function printReport(plan: ReleasePlan) {
+  console.log('📝 Versions:')
+  for (const source of plan.sources) {
+    console.log(`  ${source.file}:${source.line}  ${source.version ?? '(none)'}`)
+  }
+  if (plan.mismatches.length > 0) {
+    console.log(`\n⚠️  Versions disagree: ${plan.mismatches.map((source) => `${source.file} ${source.version}`).join(', ')}`)
+  }
+
+  if (!plan.tag) {
+    console.log('\n🔍 No git tag to compare with; pass --bump or --version for the first release')
+    return
+  }
+  console.log(`\n🔍 Changes since ${plan.tag}:`)
+  if (plan.changes.length === 0) console.log('  (none)')
+  for (const change of plan.changes) console.log(`  [${change.bump}] ${change.description}`)
+  if (plan.suggested) {
+    const next = plan.current ? ` → ${bumpVersion(plan.current, plan.suggested)}` : ''
+    console.log(`\nSuggested bump: ${plan.suggested}${next}`)
+  }
+}
+
+function main() {
+  const args = process.argv.slice(2)
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(`
+Usage: npx tsx release.ts [plugin-root] [options]
+
+Without options, reports the versions in SKILL.md, package.json and
+CHANGELOG.md and the bump suggested by the changes since the last git tag.
+Exits 1 when the versions disagree.
+
+Options:
+  --bump [major|minor|patch]  Release the next version (default: the suggested bump)
+  --version <x.y.z>           Release this exact version
+  --date <YYYY-MM-DD>         Changelog release date (default: today)
+  --dry-run                   Show the changes without writing them
+  --help, -h                  Show this help
+`)
+    process.exit(0)
+  }
+
+  const options: ReleaseOptions = {}
+  const positional: string[] = []
+  let bumpRequested = false
+  let dryRun = false
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    if (arg === '--bump') {
+      bumpRequested = true
+      if (BUMP_TYPES.includes(args[i + 1] as BumpType)) options.bump = args[++i] as BumpType
+    } else if (arg === '--version') {
+      options.version = args[++i]
+    } else if (arg === '--date') {
+      options.date = args[++i]
+    } else if (arg === '--dry-run') {
+      dryRun = true
+    } else if (arg.startsWith('-')) {
+      console.error(`❌ Error: Unknown option ${arg}`)
+      process.exit(1)
+    } else {
+      positional.push(arg)
+    }
+  }
+
+  const root = resolve(positional[0] ?? '.')
+  if (!existsSync(root)) {
+    console.error(`❌ Error: Path does not exist: ${root}`)
+    process.exit(1)
+  }
+
+  try {
+    if (bumpRequested && !options.bump && !options.version) {
+      const suggested = planRelease(root).suggested
+      if (!suggested) {
+        console.error('❌ Error: Nothing to suggest a bump from (no tag, or no changes since it); pass --bump <type>')
+        process.exit(1)
+      }
+      options.bump = suggested
+    }
+
+    const plan = planRelease(root, options)
+    printReport(plan)
+    if (!plan.next) {
+      process.exit(plan.mismatches.length > 0 ? 1 : 0)
+    }
+
+    console.log(`\n📦 Release ${plan.next}\n`)
+    for (const file of plan.files) console.log(unifiedDiff(file.before, file.after, file.file))
+    if (dryRun) {
+      console.log('🔍 Dry run - no files changed')
+      return
+    }
+
+    for (const file of plan.files) writeFileSync(join(root, file.file), file.after, 'utf-8')
+    console.log(`✅ Updated ${plan.files.map((file) => file.file).join(', ')}`)
+    console.log(`Review ${CHANGELOG_FILE}, then: git commit -am "Release ${plan.next}" && git tag v${plan.next}`)
+  } catch (error) {
+    console.error(`❌ Error: ${error instanceof Error ? error.message : error}`)
+    process.exit(1)
+  }
+}
+
+// CLI execution
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main()
+}
@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { formatSimulation, simulateTriggers } from './simulate-triggers'
+
+describe('simulateTriggers', () => {
+  let root: string
+  let fixture: string
+  let installed: string
+
+  const skill = (dir: string, name: string, triggers: string) => {
+    fs.mkdirSync(dir, { recursive: true })
+    fs.writeFileSync(
+      path.join(dir, 'SKILL.md'),
+      `---\nname: ${name}\ndescription: This skill should be used when the user asks to ${triggers}.\n---\n\n# ${name}\n`
+    )
+  }
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'simulate-test-'))
+    fixture = path.join(root, 'prompts.json')
+    installed = path.join(root, 'installed')
+    skill(path.join(root, 'plugin', 'skills', 'note-tidy'), 'note-tidy', '"tidy release notes" or "group changelog entries"')
+    skill(path.join(installed, 'note-tidy'), 'note-tidy', '"deploy the docs site"')
+    skill(path.join(installed, 'site-deploy'), 'site-deploy', '"deploy the docs site" or "publish documentation"')
+  })
+
+  afterEach(() => fs.rmSync(root, { recursive: true, force: true }))
+
+  const run = (prompts: object[]) => {
+    fs.writeFileSync(fixture, JSON.stringify(prompts))
+    return simulateTriggers(fixture, [path.join(root, 'plugin')], { skillsDir: installed })
+  }
+
+  it('routes across local and installed skills, the local copy replacing the installed one', () => {
+    const result = run([
+      { prompt: 'tidy the release notes', skill: 'note-tidy' },
+      { prompt: 'deploy the docs site', skill: 'site-deploy' },
+    ])
+
+    assert.deepEqual(result.skills, ['note-tidy', 'site-deploy'])
+    assert.deepEqual(result.outcomes.map((o) => o.correct), [true, true])
+    assert.match(formatSimulation(result), /✅ 2\/2 prompts routed as expected$/)
+  })
+
+  it('explains every misrouted prompt', () => {
+    const report = formatSimulation(
+      run([
+        { prompt: 'deploy the docs site', skill: 'note-tidy' },
+        { prompt: 'what time is it', skill: 'note-tidy' },
+        { prompt: 'publish documentation', skill: 'site-deploy', activate: false },
+      ])
+    )
+
+    assert.match(report, /^ {5}expected note-tidy \([\d.]+\), won by site-deploy \([\d.]+, "deploy the docs site"\)$/m)
+    assert.match(report, /^ {5}expected note-tidy \([\d.]+\), no skill reached 0\.5$/m)
+    assert.match(report, /^ {5}should not activate site-deploy \([\d.]+, "publish documentation"\)$/m)
+    assert.match(report, /⚠️ {2}0\/3 prompts routed as expected$/)
+  })
+
+  it('fails without skills or with an unreadable fixture', () => {
+    fs.writeFileSync(fixture, '[]')
+    assert.throws(() => simulateTriggers(fixture, [path.join(root, 'empty')], { skillsDir: path.join(root, 'none') }), /No skills to route prompts to/)
+
+    fs.writeFileSync(fixture, 'prompts')
+    assert.throws(() => simulateTriggers(fixture, [], { skillsDir: installed }), /Prompt fixture is not valid JSON/)
+  })
+})
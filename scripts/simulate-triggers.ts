@@ -0,0 +1,207 @@
+#!/usr/bin/env npx tsx
+/**
+ * Simulate Triggers Script
+ *
+ * Checks offline which skill example prompts would activate. Each prompt in a
+ * JSON fixture is labelled with the skill it should (or should not) activate;
+ * every prompt is scored against the descriptions and `triggers` blocks of the
+ * given skills and the installed ones, and routed to the best match (see
+ * scripts/lib/routing.ts). Reports precision and recall per skill and, for each
+ * miss, the skill that won instead, so description edits can be regression
+ * tested in CI.
+ *
+ * Fixture:
+ *   [
+ *     { "prompt": "check my skill is ready to publish", "skill": "skill-builder" },
+ *     { "prompt": "review this pull request", "skill": "skill-builder", "activate": false }
+ *   ]
+ *
+ * Usage:
+ *   npx tsx simulate-triggers.ts <prompts.json> [skill-or-plugin...] [--skills-dir <dir>]
+ *                                [--threshold 0.5] [--min-precision n] [--min-recall n] [--format text|json]
+ */
+
+import { existsSync, readFileSync, realpathSync } from 'fs'
+import { join, resolve } from 'path'
+import { discoverSkills } from './lib/plugin'
+import {
+  buildSkillProfile,
+  DEFAULT_ROUTING_THRESHOLD,
+  parsePromptFixture,
+  simulateRouting,
+  summarizeRouting,
+  type RoutingOutcome,
+  type SkillProfile,
+  type SkillRoutingStats,
+} from './lib/routing'
+import { INSTALLED_SKILLS_DIR } from './lib/triggers'
+
+export interface SimulationOptions {
+  /** Installed skills that compete for every prompt (default: ~/.claude/skills) */
+  skillsDir?: string
+  /** Lowest score that activates a skill */
+  threshold?: number
+}
+
+export interface SimulationResult {
+  threshold: number
+  skills: string[]
+  stats: SkillRoutingStats[]
+  outcomes: RoutingOutcome[]
+}
+
+/**
+ * Route every fixture prompt across the given skills and the installed ones.
+ * A local skill replaces an installed skill with the same name.
+ */
+export function simulateTriggers(fixturePath: string, skillTargets: string[], options: SimulationOptions = {}): SimulationResult {
+  const prompts = parsePromptFixture(readFileSync(fixturePath, 'utf-8'))
+  const threshold = options.threshold ?? DEFAULT_ROUTING_THRESHOLD
+
+  const profiles: SkillProfile[] = []
+  const seen = new Set<string>()
+  const add = (skillPath: string) => {
+    if (!existsSync(join(skillPath, 'SKILL.md'))) return
+    const profile = buildSkillProfile(skillPath)
+    const key = realpathSync(skillPath)
+    if (seen.has(key) || profiles.some((p) => p.name.toLowerCase() === profile.name.toLowerCase())) return
+    seen.add(key)
+    profiles.push(profile)
+  }
+  discoverSkills(skillTargets).forEach(add)
+  const skillsDir = options.skillsDir ?? INSTALLED_SKILLS_DIR
+  if (existsSync(skillsDir)) discoverSkills([skillsDir]).forEach(add)
+  if (profiles.length === 0) throw new Error('No skills to route prompts to')
+
+  const outcomes = simulateRouting(prompts, profiles, threshold)
+  return { threshold, skills: profiles.map((p) => p.name), stats: summarizeRouting(outcomes), outcomes }
+}
+
+const ratio = (value: number | undefined) => (value === undefined ? '-' : value.toFixed(2))
+
+/**
+ * Render per-skill precision and recall, then every misrouted prompt
+ */
+export function formatSimulation(result: SimulationResult): string {
+  const { outcomes, stats } = result
+  const lines = [`=== Trigger Routing: ${outcomes.length} prompts, ${result.skills.length} skills ===`, '']
+
+  const width = Math.max('Skill'.length, ...stats.map((s) => s.skill.length))
+  lines.push(`${'Skill'.padEnd(width)}  Prompts  Precision  Recall`)
+  lines.push(`${'-'.repeat(width)}  -------  ---------  ------`)
+  for (const entry of stats) {
+    const count = outcomes.filter((outcome) => outcome.skill === entry.skill).length
+    lines.push(`${entry.skill.padEnd(width)}  ${String(count).padStart(7)}  ${ratio(entry.precision).padStart(9)}  ${ratio(entry.recall).padStart(6)}`)
+  }
+
+  const misses = outcomes.filter((outcome) => !outcome.correct)
+  if (misses.length > 0) {
+    lines.push('', `❌ Misrouted (${misses.length}):`)
+    for (const miss of misses) {
+      const matched = (phrase?: string) => (phrase ? `, "${phrase}"` : '')
+      lines.push(`  "${miss.prompt}"`)
+      if (!miss.activate) {
+        lines.push(`     should not activate ${miss.skill} (${miss.expected.score}${matched(miss.expected.phrase)})`)
+      } else if (miss.winner) {
+        const winner = `${miss.winner.skill} (${miss.winner.score}${matched(miss.winner.phrase)})`
+        lines.push(`     expected ${miss.skill} (${miss.expected.score}), won by ${winner}`)
+      } else {
+        lines.push(`     expected ${miss.skill} (${miss.expected.score}), no skill reached ${result.threshold}`)
+      }
+    }
+  }
+
+  lines.push('', `${misses.length === 0 ? '✅' : '⚠️ '} ${outcomes.length - misses.length}/${outcomes.length} prompts routed as expected`)
+  return lines.join('\n')
+}
+
+function main() {
+  const args = process.argv.slice(2)
+  if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
+    console.log(`
+Usage: npx tsx simulate-triggers.ts <prompts.json> [skill-or-plugin...] [options]
+
+Scores each prompt in the fixture against the descriptions and trigger phrases
+of the given skills and the installed ones, routes it to the best match, and
+reports precision and recall per skill. Exits 1 when a prompt is misrouted, or
+with --min-precision/--min-recall, when a skill falls below them.
+
+Fixture: a JSON array of { "prompt": "...", "skill": "<name>", "activate": true|false }
+("activate" defaults to true; "skill" is a skill name or directory name)
+
+Options:
+  --skills-dir <dir>     Installed skills to compete with (default: ~/.claude/skills)
+  --threshold <score>    Lowest score that activates a skill (default: ${DEFAULT_ROUTING_THRESHOLD})
+  --min-precision <n>    Fail only when a skill's precision is below n (0-1)
+  --min-recall <n>       Fail only when a skill's recall is below n (0-1)
+  --format <format>      Output format: text (default) or json
+  --help, -h             Show this help
+`)
+    process.exit(0)
+  }
+
+  const options: SimulationOptions = {}
+  const positional: string[] = []
+  let format = 'text'
+  let minPrecision: number | undefined
+  let minRecall: number | undefined
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    const number = () => {
+      const value = Number(args[++i])
+      if (Number.isNaN(value) || value < 0 || value > 1) {
+        console.error(`❌ Error: ${arg} needs a number between 0 and 1`)
+        process.exit(1)
+      }
+      return value
+    }
+    if (arg === '--skills-dir') options.skillsDir = resolve(args[++i])
+    else if (arg === '--threshold') options.threshold = number()
+    else if (arg === '--min-precision') minPrecision = number()
+    else if (arg === '--min-recall') minRecall = number()
+    else if (arg === '--format') format = args[++i]
+    else if (arg.startsWith('-')) {
+      console.error(`❌ Error: Unknown option ${arg}`)
+      process.exit(1)
+    } else positional.push(arg)
+  }
+  if (format !== 'text' && format !== 'json') {
+    console.error(`❌ Error: Unknown format "${format}" (expected text, json)`)
+    process.exit(1)
+  }
+
+  const [fixture, ...targets] = positional
+  if (!fixture) {
+    console.error('❌ Error: Pass the prompts fixture as the first argument')
+    process.exit(1)
+  }
+  for (const path of positional) {
+    if (!existsSync(path)) {
+      console.error(`❌ Error: Path does not exist: ${resolve(path)}`)
+      process.exit(1)
+    }
+  }
+
+  try {
+    const result = simulateTriggers(resolve(fixture), targets, options)
+    console.log(format === 'json' ? JSON.stringify(result, null, 2) : formatSimulation(result))
+
+    const thresholds = minPrecision !== undefined || minRecall !== undefined
+    const passed = thresholds
+      ? result.stats.every(
+          (entry) =>
+            (minPrecision === undefined || entry.precision === undefined || entry.precision >= minPrecision) &&
+            (minRecall === undefined || entry.recall === undefined || entry.recall >= minRecall)
+        )
+      : result.outcomes.every((outcome) => outcome.correct)
+    process.exit(passed ? 0 : 1)
+  } catch (error) {
+    console.error(`❌ Error: ${error instanceof Error ? error.message : error}`)
+    process.exit(1)
+  }
+}
+
+// CLI execution
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main()
+}
@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict'
+import { execFileSync } from 'node:child_process'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, it, mock } from 'node:test'
+import type { Finding } from './lib/findings'
+import { CliGitHost, MemoryGitHost } from './lib/git'
+import { claudeHookEntry, installClaudeHook, installGitHook, lintEditedFile, postToolUseOutput, stagedSkills } from './skill-lint'
+
+const finding = (severity: Finding['severity'], file: string, message: string): Finding => ({
+  ruleId: severity === 'error' ? 'frontmatter-syntax' : 'todo-comment',
+  severity,
+  message,
+  file,
+  line: 3,
+  column: 1,
+  snippet: '',
+})
+
+describe('postToolUseOutput', () => {
+  const lint = (findings: Finding[]) => ({ skillPath: process.cwd(), file: 'SKILL.md', result: { passed: true, findings } })
+
+  it('blocks on any error and lists warnings in the edited file only', () => {
+    const output = postToolUseOutput(
+      lint([finding('error', 'references/a.md', 'Broken'), finding('warning', 'SKILL.md', 'Unfinished'), finding('warning', 'references/a.md', 'Elsewhere')])
+    )
+
+    assert.equal(output?.decision, 'block')
+    assert.equal(
+      output?.reason,
+      'skill-builder: . fails validation after editing SKILL.md:\n- references/a.md:3:1: Broken [frontmatter-syntax]\n\nWarnings in SKILL.md:\n- SKILL.md:3:1: Unfinished [todo-comment]'
+    )
+  })
+
+  it('adds warnings as context and stays quiet otherwise', () => {
+    assert.deepEqual(postToolUseOutput(lint([finding('warning', 'SKILL.md', 'Unfinished')])), {
+      hookSpecificOutput: {
+        hookEventName: 'PostToolUse',
+        additionalContext: 'skill-builder: warnings in SKILL.md (skill .):\n- SKILL.md:3:1: Unfinished [todo-comment]',
+      },
+    })
+    assert.equal(postToolUseOutput(lint([finding('warning', 'references/a.md', 'Elsewhere')])), undefined)
+  })
+})
+
+describe('skill-lint hooks', () => {
+  let root: string
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'skill-lint-test-'))
+  })
+
+  afterEach(() => {
+    mock.restoreAll()
+    fs.rmSync(root, { recursive: true, force: true })
+  })
+
+  it('finds the skills staged files belong to and ignores files outside skills', () => {
+    for (const dir of ['skills/a', 'skills/b']) {
+      fs.mkdirSync(path.join(root, dir, 'references'), { recursive: true })
+      fs.writeFileSync(path.join(root, dir, 'SKILL.md'), '# Skill\n')
+    }
+    const git = new MemoryGitHost({ staged: ['skills/b/references/gone.md', 'skills/a/SKILL.md', 'skills/a/notes.md', 'README.md'] })
+
+    assert.deepEqual(stagedSkills(git, root), [path.join(root, 'skills/a'), path.join(root, 'skills/b')])
+    assert.equal(lintEditedFile('README.md', root), undefined)
+  })
+
+  it('adds the PostToolUse hook once, keeping other settings', () => {
+    const settings = path.join(root, 'settings.json')
+    const other = { matcher: 'Bash', hooks: [{ type: 'command', command: 'echo ok' }] }
+    const stale = { matcher: 'Write', hooks: [{ type: 'command', command: 'npx tsx /old/skill-lint.ts post-tool-use' }] }
+    fs.writeFileSync(settings, JSON.stringify({ model: 'opus', hooks: { PostToolUse: [other, stale] } }))
+
+    assert.equal(installClaudeHook(settings, { dryRun: true }).changed, true)
+    assert.deepEqual(JSON.parse(fs.readFileSync(settings, 'utf-8')).hooks.PostToolUse, [other, stale])
+
+    installClaudeHook(settings)
+    assert.deepEqual(JSON.parse(fs.readFileSync(settings, 'utf-8')), { model: 'opus', hooks: { PostToolUse: [other, claudeHookEntry()] } })
+    assert.equal(installClaudeHook(settings).changed, false)
+
+    fs.writeFileSync(settings, '{ "hooks": ')
+    assert.throws(() => installClaudeHook(settings), /settings\.json is not valid JSON/)
+  })
+
+  it('writes an executable pre-commit hook and keeps a foreign one unless forced', () => {
+    assert.throws(() => installGitHook(root), /Not a git repository/)
+    execFileSync('git', ['init', '--quiet', root])
+    // The environment may point core.hooksPath elsewhere
+    const hooksPath = mock.method(CliGitHost.prototype, 'hooksPath', () => path.join(root, 'hooks'))
+    fs.writeFileSync(path.join(root, 'hooks'), '')
+    assert.throws(() => installGitHook(root), /hooks, which is not a directory \(see core\.hooksPath\)/)
+
+    const hook = path.join(root, '.git', 'hooks', 'pre-commit')
+    hooksPath.mock.mockImplementation(() => path.dirname(hook))
+    fs.mkdirSync(path.dirname(hook), { recursive: true })
+    fs.writeFileSync(hook, '#!/bin/sh\nnpm test\n')
+
+    assert.throws(() => installGitHook(root), /pre-commit already exists; use --force to replace it/)
+    const result = installGitHook(root, { force: true })
+    assert.equal(result.path, hook)
+    assert.match(fs.readFileSync(hook, 'utf-8'), /^exec npx tsx ".*skill-lint\.ts" pre-commit$/m)
+    assert.equal(fs.statSync(hook).mode & 0o111, 0o111)
+    assert.equal(installGitHook(root).changed, false)
+  })
+})
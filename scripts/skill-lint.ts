@@ -0,0 +1,318 @@
+#!/usr/bin/env npx tsx
+/**
+ * Skill Lint Script
+ *
+ * Runs the validator automatically instead of when someone remembers to:
+ *
+ * - post-tool-use: a Claude Code PostToolUse hook. After a Write or Edit inside
+ *   a skill, runs the quick checks (structure, generalization, environment
+ *   documentation) on that skill and hands the findings back to the session:
+ *   errors block with the reason, warnings in the edited file are added as
+ *   context
+ * - pre-commit: a git pre-commit hook. Runs the full validation on each skill
+ *   with staged changes and fails the commit when one fails
+ * - install: adds either hook to ~/.claude/settings.json or .git/hooks
+ *
+ * The pre-commit hook validates the working tree copy of each skill, so
+ * unstaged edits to a staged skill are validated too.
+ *
+ * Usage:
+ *   npx tsx skill-lint.ts post-tool-use < hook-input.json
+ *   npx tsx skill-lint.ts pre-commit
+ *   npx tsx skill-lint.ts install claude [--settings <file>] [--dry-run]
+ *   npx tsx skill-lint.ts install git [repo] [--force] [--dry-run]
+ */
+
+import { chmodSync, existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from 'fs'
+import { homedir } from 'os'
+import { dirname, join, relative, resolve, sep } from 'path'
+import { fileURLToPath } from 'url'
+import { mergeResults, type Finding, type ValidationResult } from './lib/findings'
+import { CliGitHost, type GitHost } from './lib/git'
+import { findSkillRoot } from './lib/plugin'
+import { formatText, type SkillReport } from './lib/report'
+import { loadConfig, RuleReporter } from './lib/rules'
+import {
+  checkEnvironmentDocumentation,
+  checkGeneralization,
+  openCache,
+  validateSkills,
+  validateSkillStructure,
+} from './validate-skill'
+
+const SCRIPT_PATH = fileURLToPath(import.meta.url)
+
+export const CLAUDE_SETTINGS_FILE = join(homedir(), '.claude', 'settings.json')
+
+// Tools whose tool_input names the file they changed
+const EDIT_TOOLS_MATCHER = 'Write|Edit|MultiEdit'
+
+// Marks hooks this script installed, so reinstalling replaces them
+const HOOK_MARKER = 'skill-lint.ts'
+
+/**
+ * The part of the PostToolUse hook input this script reads
+ */
+export interface PostToolUseInput {
+  cwd?: string
+  tool_name?: string
+  tool_input?: { file_path?: string; notebook_path?: string }
+}
+
+/**
+ * Hook output Claude Code understands: `block` sends the reason back to
+ * Claude, `additionalContext` adds to the session without blocking
+ */
+export interface PostToolUseOutput {
+  decision?: 'block'
+  reason?: string
+  hookSpecificOutput?: { hookEventName: 'PostToolUse'; additionalContext: string }
+}
+
+export interface EditLint {
+  /** Skill the edited file belongs to */
+  skillPath: string
+  /** Edited file, relative to the skill */
+  file: string
+  result: ValidationResult
+}
+
+/**
+ * Run the quick checks on the skill an edited file belongs to. Undefined when
+ * the file is in no skill.
+ */
+export function lintEditedFile(filePath: string, cwd = process.cwd()): EditLint | undefined {
+  const skillPath = findSkillRoot(filePath, cwd)
+  if (!skillPath) return undefined
+
+  const reporter = new RuleReporter(skillPath, loadConfig(skillPath))
+  const cache = openCache(skillPath)
+  const result = mergeResults(
+    validateSkillStructure(skillPath, reporter),
+    checkGeneralization(skillPath, reporter, cache),
+    checkEnvironmentDocumentation(skillPath, reporter)
+  )
+  cache.save()
+  const file = relative(skillPath, resolve(cwd, filePath)).split(sep).join('/')
+  return { skillPath, file, result }
+}
+
+function describeFindings(findings: Finding[]): string {
+  return findings
+    .map((f) => `- ${f.file}:${f.line}:${f.column}: ${f.message} [${f.ruleId}]${f.fixHint ? `\n  Fix: ${f.fixHint}` : ''}`)
+    .join('\n')
+}
+
+/**
+ * Hook output for an edit: every error in the skill blocks; warnings are only
+ * mentioned for the edited file, so existing warnings elsewhere do not repeat
+ * after every edit. Undefined when there is nothing to report.
+ */
+export function postToolUseOutput(lint: EditLint): PostToolUseOutput | undefined {
+  const name = relative(process.cwd(), lint.skillPath) || '.'
+  const errors = lint.result.findings.filter((f) => f.severity === 'error')
+  const warnings = lint.result.findings.filter((f) => f.severity === 'warning' && f.file === lint.file)
+
+  if (errors.length > 0) {
+    const lines = [`skill-builder: ${name} fails validation after editing ${lint.file}:`, describeFindings(errors)]
+    if (warnings.length > 0) lines.push('', `Warnings in ${lint.file}:`, describeFindings(warnings))
+    return { decision: 'block', reason: lines.join('\n') }
+  }
+  if (warnings.length > 0) {
+    const additionalContext = `skill-builder: warnings in ${lint.file} (skill ${name}):\n${describeFindings(warnings)}`
+    return { hookSpecificOutput: { hookEventName: 'PostToolUse', additionalContext } }
+  }
+  return undefined
+}
+
+/**
+ * Skills with staged changes, including skills whose files were only deleted
+ */
+export function stagedSkills(git: GitHost, cwd = process.cwd()): string[] {
+  const skills = new Set<string>()
+  for (const file of git.stagedFiles()) {
+    const skillPath = findSkillRoot(file, cwd)
+    if (skillPath) skills.add(skillPath)
+  }
+  return Array.from(skills).sort()
+}
+
+/**
+ * Validate every skill with staged changes
+ */
+export function lintStagedSkills(cwd = process.cwd()): Promise<SkillReport[]> {
+  return validateSkills(stagedSkills(new CliGitHost(cwd), cwd))
+}
+
+export interface InstallResult {
+  /** File written (or that would be written) */
+  path: string
+  /** False when the hook was already installed as is */
+  changed: boolean
+  content: string
+}
+
+/**
+ * The PostToolUse entry that runs this script
+ */
+export function claudeHookEntry(scriptPath = SCRIPT_PATH) {
+  return {
+    matcher: EDIT_TOOLS_MATCHER,
+    hooks: [{ type: 'command', command: `npx tsx "${scriptPath}" post-tool-use`, timeout: 60 }],
+  }
+}
+
+/**
+ * Add the PostToolUse hook to a Claude Code settings file, replacing one
+ * installed earlier and keeping every other setting
+ */
+export function installClaudeHook(settingsPath = CLAUDE_SETTINGS_FILE, options: { dryRun?: boolean } = {}): InstallResult {
+  const before = existsSync(settingsPath) ? readFileSync(settingsPath, 'utf-8') : ''
+  let settings: { hooks?: Record<string, unknown> } & Record<string, unknown>
+  try {
+    settings = before.trim() ? JSON.parse(before) : {}
+  } catch (error) {
+    throw new Error(`${settingsPath} is not valid JSON: ${error instanceof Error ? error.message : error}`)
+  }
+
+  type HookEntry = { hooks?: Array<{ command?: unknown }> }
+  const hooks = (settings.hooks ??= {})
+  const entries = (Array.isArray(hooks.PostToolUse) ? hooks.PostToolUse : []) as HookEntry[]
+  const installed = (entry: HookEntry) =>
+    Array.isArray(entry?.hooks) && entry.hooks.some((hook) => typeof hook?.command === 'string' && hook.command.includes(HOOK_MARKER))
+  hooks.PostToolUse = [...entries.filter((entry) => !installed(entry)), claudeHookEntry()]
+
+  const content = JSON.stringify(settings, null, 2) + '\n'
+  const changed = content !== before
+  if (changed && !options.dryRun) {
+    mkdirSync(dirname(settingsPath), { recursive: true })
+    writeFileSync(settingsPath, content, 'utf-8')
+  }
+  return { path: settingsPath, changed, content }
+}
+
+/**
+ * Write a pre-commit hook that runs this script. A pre-commit hook this script
+ * did not install is only replaced with `force`.
+ */
+export function installGitHook(repo = process.cwd(), options: { force?: boolean; dryRun?: boolean } = {}): InstallResult {
+  const git = new CliGitHost(repo)
+  if (!git.isRepository()) throw new Error(`Not a git repository: ${resolve(repo)}`)
+
+  const hooksDir = git.hooksPath()
+  if (existsSync(hooksDir) && !statSync(hooksDir).isDirectory()) {
+    throw new Error(`git runs hooks from ${hooksDir}, which is not a directory (see core.hooksPath)`)
+  }
+  const hookPath = join(hooksDir, 'pre-commit')
+  const content = [
+    '#!/bin/sh',
+    `# Validates skills with staged changes (installed by ${HOOK_MARKER}; skip with git commit --no-verify)`,
+    `exec npx tsx "${SCRIPT_PATH}" pre-commit`,
+    '',
+  ].join('\n')
+
+  const before = existsSync(hookPath) ? readFileSync(hookPath, 'utf-8') : undefined
+  if (before !== undefined && !before.includes(HOOK_MARKER) && !options.force) {
+    throw new Error(`${hookPath} already exists; use --force to replace it`)
+  }
+  const changed = content !== before
+  if (changed && !options.dryRun) {
+    mkdirSync(dirname(hookPath), { recursive: true })
+    writeFileSync(hookPath, content, 'utf-8')
+    chmodSync(hookPath, 0o755)
+  }
+  return { path: hookPath, changed, content }
+}
+
+function runPostToolUse() {
+  let input: PostToolUseInput
+  try {
+    input = JSON.parse(readFileSync(0, 'utf-8'))
+  } catch (error) {
+    console.error(`❌ Error: Hook input is not valid JSON: ${error instanceof Error ? error.message : error}`)
+    process.exitCode = 1
+    return
+  }
+
+  const file = input.tool_input?.file_path ?? input.tool_input?.notebook_path
+  if (!file) return
+  const lint = lintEditedFile(file, input.cwd ?? process.cwd())
+  const output = lint && postToolUseOutput(lint)
+  if (output) console.log(JSON.stringify(output))
+}
+
+async function runPreCommit() {
+  const reports = await lintStagedSkills()
+  if (reports.length === 0) return
+
+  for (const report of reports) {
+    if (report.error) console.error(`❌ ${relative(process.cwd(), report.skillPath) || '.'}: ${report.error}`)
+    else console.log(formatText(relative(process.cwd(), report.skillPath) || report.name, report.result))
+  }
+  const failed = reports.filter((r) => r.error || !r.result.passed)
+  if (failed.length > 0) {
+    console.error(`\n❌ ${failed.length} of ${reports.length} staged skill(s) failed validation; fix them or commit with --no-verify`)
+    process.exitCode = 1
+  }
+}
+
+function runInstall(args: string[]) {
+  const [target, ...rest] = args
+  const dryRun = rest.includes('--dry-run')
+  const settingsIndex = rest.indexOf('--settings')
+  const positional = rest.filter((arg, i) => !arg.startsWith('-') && !(settingsIndex !== -1 && i === settingsIndex + 1))
+
+  let result: InstallResult
+  if (target === 'claude') {
+    result = installClaudeHook(settingsIndex === -1 ? undefined : resolve(rest[settingsIndex + 1]), { dryRun })
+  } else if (target === 'git') {
+    result = installGitHook(positional[0], { force: rest.includes('--force'), dryRun })
+  } else {
+    throw new Error(`Unknown install target "${target ?? ''}" (expected claude, git)`)
+  }
+
+  if (!result.changed) {
+    console.log(`✅ Already installed: ${result.path}`)
+  } else if (dryRun) {
+    console.log(`Would write ${result.path}:\n\n${result.content}`)
+  } else {
+    console.log(`✅ Installed: ${result.path}`)
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2)
+  const [command, ...rest] = args
+  if (!command || args.includes('--help') || args.includes('-h')) {
+    console.log(`
+Usage: npx tsx skill-lint.ts <command> [options]
+
+Commands:
+  post-tool-use          Claude Code PostToolUse hook: reads the hook input on
+                         stdin and reports findings in the edited skill
+  pre-commit             git pre-commit hook: validates skills with staged changes
+  install claude         Add the PostToolUse hook to Claude Code settings
+  install git [repo]     Add the pre-commit hook to a repository (default: .)
+
+Options:
+  --settings <file>      Settings file for install claude (default: ~/.claude/settings.json)
+  --force                Replace a pre-commit hook this script did not install
+  --dry-run              Show what install would write without writing it
+  --help, -h             Show this help
+`)
+    return
+  }
+
+  if (command === 'post-tool-use') runPostToolUse()
+  else if (command === 'pre-commit') await runPreCommit()
+  else if (command === 'install') runInstall(rest)
+  else throw new Error(`Unknown command "${command}" (expected post-tool-use, pre-commit, install)`)
+}
+
+// CLI execution
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch((error) => {
+    console.error('❌ Error:', error instanceof Error ? error.message : error)
+    process.exitCode = 1
+  })
+}
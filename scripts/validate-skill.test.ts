@@ -0,0 +1,145 @@
+import assert from 'node:assert/strict'
+import * as fs from 'node:fs'
+import * as os from 'node:os'
+import * as path from 'node:path'
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import { ValidationCache } from './lib/cache'
+import { loadTypeScript } from './lib/code-analysis'
+import { validateSkill } from './validate-skill'
+
+describe('validateSkill', () => {
+  let root: string
+  let skillPath: string
+  let skillsDir: string
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'validate-test-'))
+    skillPath = path.join(root, 'note-tidy')
+    skillsDir = path.join(root, 'installed')
+    fs.mkdirSync(skillPath)
+    fs.mkdirSync(skillsDir)
+  })
+
+  afterEach(() => fs.rmSync(root, { recursive: true, force: true }))
+
+  it('reports frontmatter that is never closed instead of throwing', () => {
+    fs.writeFileSync(
+      path.join(skillPath, 'SKILL.md'),
+      '---\nname: note-tidy\ndescription: This skill should be used when the user asks to "tidy notes".\n\n# Note Tidy\n\nBody.\n'
+    )
+
+    const result = validateSkill(skillPath, undefined, skillsDir)
+    const syntax = result.findings.filter((f) => f.ruleId === 'frontmatter-syntax')
+
+    assert.equal(result.passed, false)
+    assert.deepEqual(
+      syntax.map((f) => `${f.file}:${f.line}: ${f.message}`),
+      ['SKILL.md:1: Frontmatter is not closed with "---"']
+    )
+    assert.equal(result.findings.some((f) => f.ruleId === 'body-length'), false)
+  })
+
+  it('reports an over-budget body and the large sections to move', () => {
+    fs.writeFileSync(
+      path.join(skillPath, 'SKILL.md'),
+      '---\nname: note-tidy\ndescription: This skill should be used when the user asks to "tidy notes".\n---\n\n# Note Tidy\n\n' +
+        `## Usage\n\nTidy them.\n\n## Formats\n\n${'notes '.repeat(5500)}\n`
+    )
+
+    const budget = validateSkill(skillPath, undefined, skillsDir).findings.filter((f) => f.ruleId.endsWith('-length'))
+
+    assert.deepEqual(
+      budget.map((f) => `${f.ruleId} ${f.line}`),
+      ['body-length 5', 'section-length 12']
+    )
+  })
+
+  it('sees a newly installed skill on a cached run', () => {
+    const skillMd = (name: string) =>
+      `---\nname: ${name}\ndescription: This skill should be used when the user asks to "tidy release notes" or "group changelog entries".\n---\n\n# ${name}\n`
+    fs.writeFileSync(path.join(skillPath, 'SKILL.md'), skillMd('note-tidy'))
+    const cacheDir = path.join(root, 'cache')
+    const run = () => validateSkill(skillPath, undefined, skillsDir, ValidationCache.open(skillPath, '', cacheDir))
+    const collisions = () => run().findings.filter((f) => f.ruleId === 'trigger-collision').length
+
+    assert.equal(collisions(), 0)
+    fs.mkdirSync(path.join(skillsDir, 'changelog-tool'))
+    fs.writeFileSync(path.join(skillsDir, 'changelog-tool', 'SKILL.md'), skillMd('changelog-tool'))
+    assert.equal(collisions(), 2)
+  })
+  it('sees a renamed heading in a plugin file a link points to on a cached run', () => {
+    fs.writeFileSync(path.join(root, 'package.json'), '{}')
+    fs.mkdirSync(path.join(root, 'docs'))
+    fs.writeFileSync(path.join(root, 'docs', 'guide.md'), '# Guide\n\n## Setup\n')
+    fs.writeFileSync(
+      path.join(skillPath, 'SKILL.md'),
+      '---\nname: note-tidy\ndescription: This skill should be used when the user asks to "tidy notes".\n---\n\n# Note Tidy\n\nSee [setup](../docs/guide.md#setup).\n'
+    )
+    const cacheDir = path.join(root, 'cache')
+    const run = () => validateSkill(skillPath, undefined, skillsDir, ValidationCache.open(skillPath, '', cacheDir))
+    const brokenAnchors = () => run().findings.filter((f) => f.ruleId === 'broken-anchor').length
+
+    assert.equal(brokenAnchors(), 0)
+    fs.writeFileSync(path.join(root, 'docs', 'guide.md'), '# Guide\n\n## Installation\n')
+    assert.equal(brokenAnchors(), 1)
+  })
+
+  it('reports a project-specific name once when the code analysis runs', { skip: !loadTypeScript() && 'needs the typescript package' }, () => {
+    fs.writeFileSync(path.join(skillPath, '.skillvalidaterc.json'), JSON.stringify({ projectPatterns: ['/globex/i'] }))
+    fs.writeFileSync(
+      path.join(skillPath, 'SKILL.md'),
+      '---\nname: note-tidy\ndescription: This skill should be used when the user asks to "tidy notes".\n---\n\n# Note Tidy\n'
+    )
+    fs.mkdirSync(path.join(skillPath, 'scripts'))
+    fs.writeFileSync(
+      path.join(skillPath, 'scripts', 'issues.ts'),
+      "export function createGlobexIssue() {}\nexport const TEAMS = { GLOBEX: 'platform' }\n// Filed for globex\n"
+    )
+
+    const findings = validateSkill(skillPath, undefined, skillsDir).findings.filter((f) => f.file === 'scripts/issues.ts')
+    assert.deepEqual(
+      findings.map((f) => `${f.line}:${f.column} ${f.ruleId}`),
+      ['1:17 project-specific-function', '2:24 project-specific-identifier', '3:14 project-specific-content']
+    )
+  })
+})
+
+describe('validateSkill behavioral classification', () => {
+  let skillPath: string
+
+  beforeEach(() => {
+    skillPath = fs.mkdtempSync(path.join(os.tmpdir(), 'validate-test-'))
+  })
+
+  afterEach(() => fs.rmSync(skillPath, { recursive: true, force: true }))
+
+  const classification = (frontmatter: string, body: string) => {
+    fs.writeFileSync(
+      path.join(skillPath, 'SKILL.md'),
+      `---\nname: docker-guard\ndescription: This skill should be used when the user asks to "run tests in docker".\n${frontmatter}---\n\n# Docker Guard\n\n${body}`
+    )
+    return validateSkill(skillPath, undefined, path.join(skillPath, 'installed'))
+      .findings.filter((f) => f.ruleId.startsWith('behavior-'))
+      .map((f) => `${f.severity} ${f.line}: ${f.message}`)
+  }
+
+  it('requires a classification', () => {
+    assert.deepEqual(classification('', 'Routes commands.\n'), ['error 1: SKILL.md does not declare a behavioral classification'])
+  })
+
+  it('rejects an unknown class and a body that contradicts the frontmatter', () => {
+    assert.match(classification('', '**Type**: Reckless\n')[0], /^error 8: Unknown behavioral classification "Reckless"/)
+    assert.deepEqual(classification('classification: guided\n', '**Type**: Autonomous Execution\n'), [
+      'error 9: Frontmatter declares Guided Decision but the body declares Autonomous Execution',
+    ])
+  })
+
+  it('warns when the content points to another class', () => {
+    fs.mkdirSync(path.join(skillPath, 'hooks'))
+    fs.writeFileSync(path.join(skillPath, 'hooks', 'pre-command.sh'), '#!/bin/bash\nexit 0\n', { mode: 0o755 })
+
+    assert.deepEqual(classification('', '**Type**: Autonomous Execution\n'), [
+      'warning 8: Declared as Autonomous Execution, but content suggests Configurable Enforcement: hooks/ directory (hooks:1)',
+    ])
+  })
+})
@@ -6,20 +6,417 @@
  * Run before committing skill changes.
  *
  * Usage:
- *   npx tsx validate-skill.ts <skill-path>
- *   npx tsx validate-skill.ts path/to/skill
+ *   npx tsx validate-skill.ts <path...> [--format text|json|sarif] [--fix [--yes|--dry-run]]
+ *   npx tsx validate-skill.ts path/to/skill --format sarif > results.sarif
+ *   npx tsx validate-skill.ts path/to/skill --fix
+ *   npx tsx validate-skill.ts path/to/plugin            # Every skill in the plugin
+ *   npx tsx validate-skill.ts "~/.claude/skills/*"      # Every skill matching a glob
+ *   npx tsx validate-skill.ts path/to/skill --watch     # Revalidate on every change
  */
 
+import { execFile } from 'child_process'
 import * as fs from 'fs'
+import * as os from 'os'
 import * as path from 'path'
+import { createInterface } from 'readline/promises'
+import { fileURLToPath } from 'url'
+import { BEHAVIOR_CLASSES, findDeclaredBehaviors, inferBehaviorClass } from './lib/behavior'
+import { fingerprintFiles, hashContent, ValidationCache } from './lib/cache'
+import { analyzeCode, CODE_EXTENSIONS, findTypeScriptVersion, loadTypeScript, type CodeIssueKind } from './lib/code-analysis'
+import { unifiedDiff } from './lib/diff'
+import {
+  crossCheckEnv,
+  ENV_SCHEMA_FILE,
+  findEnvUsages,
+  isSensitiveName,
+  parseEnvSchema,
+  readEnvTable,
+  type EnvCheckKind,
+} from './lib/env-schema'
+import { listSkillFiles, readDirectory, toEnvName } from './lib/files'
+import { analyzeLinks } from './lib/links'
+import { parseMarkdown } from './lib/markdown'
+import { FrontmatterError, getString, parseFrontmatter, validateFrontmatter } from './lib/frontmatter'
+import {
+  createResult,
+  lineText,
+  mergeResults,
+  positionAt,
+  type Finding,
+  type ValidationResult,
+} from './lib/findings'
+import { applyFixPlan, planGeneralizationFixes, type FixPlan } from './lib/generalize'
+import { CliGitHost } from './lib/git'
+import {
+  analyzeHookScript,
+  DEFAULT_HOOK_CONFIG_SCHEMA,
+  isExecutable,
+  listHookConfigs,
+  listHookScripts,
+  loadHookConfigSchema,
+  validateHookConfig,
+  type HookScriptIssueKind,
+} from './lib/hooks'
+import { checkPluginConsistency, discoverSkills, readSkillSummary } from './lib/plugin'
+import {
+  formatJson,
+  formatJsonMulti,
+  formatSarif,
+  formatSarifRuns,
+  formatSummaryTable,
+  formatText,
+  OUTPUT_FORMATS,
+  type OutputFormat,
+  type SkillReport,
+} from './lib/report'
+import { CONFIG_FILE_NAME, listRules, loadConfig, registerRules, RuleReporter } from './lib/rules'
+import { createScanContext } from './lib/scan'
+import { listScannableFiles, scanContent } from './lib/secrets'
+import {
+  BODY_TOKEN_BUDGET,
+  estimateSkillTokens,
+  FRONTMATTER_TOKEN_BUDGET,
+  sectionsToMove,
+} from './lib/tokens'
+import {
+  analyzeTriggers,
+  extractTriggers,
+  findTriggerCollisions,
+  INSTALLED_SKILLS_DIR,
+  MAX_TRIGGERS,
+  MIN_TRIGGERS,
+  type TriggerIssueKind,
+} from './lib/triggers'
 
-interface ValidationResult {
-  passed: boolean
-  errors: string[]
-  warnings: string[]
+// Built-in rules; IDs are used in .skillvalidaterc.json and suppression comments
+registerRules([
+  {
+    id: 'skill-md-missing',
+    description: 'Skill directory must contain SKILL.md',
+    defaultSeverity: 'error',
+    fixHint: 'Create SKILL.md with name and description frontmatter',
+  },
+  {
+    id: 'frontmatter-syntax',
+    description: 'SKILL.md frontmatter must be valid YAML',
+    defaultSeverity: 'error',
+    fixHint: 'Fix the YAML at the reported position; quote values containing ": " or use a block scalar (>)',
+  },
+  {
+    id: 'frontmatter-required',
+    description: 'Required frontmatter fields must be present',
+    defaultSeverity: 'error',
+    fixHint: 'Add the missing field to the frontmatter',
+  },
+  {
+    id: 'frontmatter-type',
+    description: 'Frontmatter fields must have the declared type',
+    defaultSeverity: 'error',
+    fixHint: 'Change the field to the expected type (string, list or mapping)',
+  },
+  {
+    id: 'frontmatter-unknown-key',
+    description: 'Frontmatter should only use known fields',
+    defaultSeverity: 'warning',
+    fixHint: 'Remove the field or check it for typos',
+  },
+  {
+    id: 'description-format',
+    description: 'Description should say when the skill should be used',
+    defaultSeverity: 'warning',
+    fixHint: 'Start the description with "This skill should be used when the user asks to ..."',
+  },
+  {
+    id: 'unresolved-placeholder',
+    description: 'SKILL.md should not contain template placeholders left from scaffolding',
+    defaultSeverity: 'warning',
+    fixHint: 'Replace the {{PLACEHOLDER}} with real content, or remove the line',
+  },
+  {
+    id: 'behavior-classification',
+    description: 'SKILL.md must declare one behavioral class (ADR-025)',
+    defaultSeverity: 'error',
+    fixHint:
+      'Add a "## Behavioral Classification" section with "**Type**: Autonomous Execution | Guided Decision | Interactive Exploration | Configurable Enforcement", or a classification frontmatter field',
+  },
+  {
+    id: 'behavior-mismatch',
+    description: 'Declared behavioral class should match what the skill content does',
+    defaultSeverity: 'warning',
+    fixHint: 'Change the declared class, or remove the content that suggests a different one',
+  },
+  {
+    id: 'missing-reference',
+    description: 'Bundled files quoted in the skill\'s markdown (`references/...`, `scripts/...`) should exist',
+    defaultSeverity: 'warning',
+    fixHint: 'Create the referenced file or remove the reference',
+  },
+  {
+    id: 'broken-link',
+    description: 'Markdown links should point to files that exist',
+    defaultSeverity: 'warning',
+    fixHint: 'Fix the path (relative to the linking file) or create the file',
+  },
+  {
+    id: 'broken-anchor',
+    description: 'Links to a heading should match a heading in the target file',
+    defaultSeverity: 'warning',
+    fixHint: 'Use the heading\'s anchor: lowercase, punctuation removed, spaces as hyphens',
+  },
+  {
+    id: 'orphaned-reference',
+    description: 'Files in references/ should be linked from SKILL.md',
+    defaultSeverity: 'warning',
+    fixHint: 'Link the file from SKILL.md, or delete it',
+  },
+  {
+    id: 'deep-reference',
+    description: 'Files in references/ should be one link away from SKILL.md',
+    defaultSeverity: 'warning',
+    fixHint: 'Link the file from SKILL.md directly; Claude may only preview files it reaches through another reference',
+  },
+  {
+    id: 'body-length',
+    description: `SKILL.md body should stay under ${BODY_TOKEN_BUDGET} tokens; move details to references/`,
+    defaultSeverity: 'warning',
+    fixHint: 'Move detailed sections into references/ and link to them',
+  },
+  {
+    id: 'frontmatter-length',
+    description: `Frontmatter should stay under ${FRONTMATTER_TOKEN_BUDGET} tokens`,
+    defaultSeverity: 'warning',
+    fixHint: 'Shorten the description to what the skill does and when to use it',
+  },
+  {
+    id: 'section-length',
+    description: 'Large sections of an over-budget body belong in references/',
+    defaultSeverity: 'warning',
+    fixHint: 'Move the section to references/ and link to it from SKILL.md',
+  },
+  {
+    id: 'hook-executable',
+    description: 'Hook scripts must be executable',
+    defaultSeverity: 'error',
+    fixHint: 'Run chmod +x on the script',
+  },
+  {
+    id: 'hook-shebang',
+    description: 'Hook scripts must start with a shebang',
+    defaultSeverity: 'error',
+    fixHint: 'Add #!/bin/bash as the first line',
+  },
+  {
+    id: 'hook-strict-mode',
+    description: 'Hook scripts should fail on errors, unset variables and failed pipes',
+    defaultSeverity: 'warning',
+    fixHint: 'Add `set -euo pipefail` after the shebang',
+  },
+  {
+    id: 'hook-enforcement-modes',
+    description: 'Hook scripts that read the enforcement setting should handle block, warn, transform and disabled',
+    defaultSeverity: 'warning',
+    fixHint: 'Add a case branch for each missing mode (see the Pre-Command Hook Template in SKILL.md)',
+  },
+  {
+    id: 'hook-config-schema',
+    description: 'Hook configuration must be valid JSON matching the hook config schema',
+    defaultSeverity: 'error',
+    fixHint: 'Fix the value; see templates/hook-config.schema.json (or hooks/config.schema.json) for allowed keys',
+  },
+  {
+    id: 'project-specific-content',
+    description: 'Content should not reference specific projects, companies or IDs',
+    defaultSeverity: 'warning',
+    fixHint: 'Replace with a generic placeholder or an environment variable',
+  },
+  {
+    id: 'hardcoded-keyword',
+    description: 'Mentions of "hardcoded" may indicate config issues',
+    defaultSeverity: 'warning',
+    fixHint: 'Make the value configurable, or suppress if the mention is intentional',
+  },
+  {
+    id: 'todo-comment',
+    description: 'TODO/FIXME/HACK comments should be resolved before publishing',
+    defaultSeverity: 'warning',
+    fixHint: 'Resolve the comment or track it in an issue',
+  },
+  {
+    id: 'secret-exposure',
+    description: 'Commands must not print secrets',
+    defaultSeverity: 'error',
+    fixHint: 'Use `varlock load` to validate or `varlock run -- <command>` to inject secrets',
+  },
+  {
+    id: 'hardcoded-api-key',
+    description: 'API keys, tokens and private keys must not be committed',
+    defaultSeverity: 'error',
+    fixHint: 'Revoke the key, read it from process.env and declare it @sensitive in .env.schema',
+  },
+  {
+    id: 'high-entropy-string',
+    description: 'Random-looking string literals may be committed secrets',
+    defaultSeverity: 'warning',
+    fixHint: 'Move the value to an environment variable, or suppress the finding if it is not a secret',
+  },
+  {
+    id: 'project-specific-function',
+    description: 'Function names should not contain project-specific terms',
+    defaultSeverity: 'warning',
+    fixHint: 'Rename to a generic name that takes the project as a parameter; keep a @deprecated alias',
+  },
+  {
+    id: 'project-specific-identifier',
+    description: 'Exported names and object keys should not contain project-specific terms',
+    defaultSeverity: 'warning',
+    fixHint: 'Use a generic name; look the value up from configuration instead of a project-named key',
+  },
+  {
+    id: 'hardcoded-id-object',
+    description: 'Exported object literals should not hold hardcoded IDs',
+    defaultSeverity: 'warning',
+    fixHint: 'Read the IDs from environment variables or a configuration file (Pattern 6)',
+  },
+  {
+    id: 'non-parameterized-function',
+    description: 'Functions should take IDs as parameters instead of closing over constants',
+    defaultSeverity: 'warning',
+    fixHint: 'Add a parameter, defaulting to an environment variable if needed (Pattern 2)',
+  },
+  {
+    id: 'unchecked-env-var',
+    description: 'process.env reads need a fallback or a check',
+    defaultSeverity: 'warning',
+    fixHint: "Add a fallback (`?? 'default'`) or throw a clear error when the variable is unset",
+  },
+  {
+    id: 'missing-deprecated-alias',
+    description: 'Renamed exports should keep a @deprecated alias under the old name',
+    defaultSeverity: 'warning',
+    fixHint: 'Add /** @deprecated Use newName instead */ export const oldName = newName (Pattern 4)',
+  },
+  {
+    id: 'undocumented-env-var',
+    description: 'Environment variables should be documented in SKILL.md',
+    defaultSeverity: 'warning',
+    fixHint: 'Add the variable to the "Environment Variables" table in SKILL.md',
+  },
+  {
+    id: 'missing-varlock',
+    description: 'Skills using sensitive variables should use Varlock',
+    defaultSeverity: 'warning',
+    fixHint: 'Add .env.schema with @sensitive annotations and document Varlock usage',
+  },
+  {
+    id: 'env-schema-sensitive',
+    description: 'Sensitive variables in .env.schema should be marked @sensitive',
+    defaultSeverity: 'warning',
+    fixHint: 'Add @sensitive to the variable\'s annotation comment',
+  },
+  {
+    id: 'env-schema-syntax',
+    description: '.env.schema must contain only NAME=value lines and annotation comments',
+    defaultSeverity: 'error',
+    fixHint: 'Use "# @type=string @required @sensitive" on the line above "NAME="',
+  },
+  {
+    id: 'env-schema-undeclared',
+    description: 'Environment variables used in code should be declared in .env.schema',
+    defaultSeverity: 'warning',
+    fixHint: 'Add the variable to .env.schema (generate-env-schema.ts adds every missing one)',
+  },
+  {
+    id: 'env-schema-unused',
+    description: 'Variables declared in .env.schema should be used',
+    defaultSeverity: 'warning',
+    fixHint: 'Remove the variable from .env.schema, or read it where it is needed',
+  },
+  {
+    id: 'env-schema-undocumented',
+    description: 'Variables declared in .env.schema should be in the SKILL.md "Environment Variables" table',
+    defaultSeverity: 'warning',
+    fixHint: 'Add a row for the variable to the "Environment Variables" table in SKILL.md',
+  },
+  {
+    id: 'env-table-mismatch',
+    description: 'The SKILL.md "Environment Variables" table should agree with .env.schema',
+    defaultSeverity: 'warning',
+    fixHint: 'Make the Required and Sensitive columns match the @required and @sensitive annotations',
+  },
+  {
+    id: 'duplicate-skill-name',
+    description: 'Skills validated together must have unique names',
+    defaultSeverity: 'error',
+    fixHint: 'Rename one of the skills; names identify skills and their subagents',
+  },
+  {
+    id: 'overlapping-trigger',
+    description: 'A trigger phrase should activate only one skill',
+    defaultSeverity: 'warning',
+    fixHint: 'Make the phrase more specific in one of the skills, or merge the skills',
+  },
+  {
+    id: 'trigger-generic',
+    description: 'Trigger phrases should name what the skill is about, not only common verbs',
+    defaultSeverity: 'warning',
+    fixHint: 'Add the subject, e.g. "review a pull request" instead of "review"',
+  },
+  {
+    id: 'trigger-count',
+    description: `Skills should have ${MIN_TRIGGERS}-${MAX_TRIGGERS} trigger phrases`,
+    defaultSeverity: 'warning',
+    fixHint: 'List the phrases users say in the description or under triggers.keywords',
+  },
+  {
+    id: 'trigger-duplicate',
+    description: 'Trigger phrases within a skill should be distinct',
+    defaultSeverity: 'warning',
+    fixHint: 'Remove the duplicate or replace it with a different phrasing',
+  },
+  {
+    id: 'trigger-collision',
+    description: 'Trigger phrases should not be claimed by another installed skill',
+    defaultSeverity: 'warning',
+    fixHint: 'Make the phrase more specific so the right skill activates',
+  },
+])
+
+const TRIGGER_RULES: Record<TriggerIssueKind, string> = {
+  generic: 'trigger-generic',
+  count: 'trigger-count',
+  duplicate: 'trigger-duplicate',
+}
+
+const ENV_RULES: Record<EnvCheckKind, string> = {
+  undeclared: 'env-schema-undeclared',
+  unused: 'env-schema-unused',
+  undocumented: 'env-schema-undocumented',
+  sensitive: 'env-schema-sensitive',
+  'table-mismatch': 'env-table-mismatch',
+}
+
+const CODE_RULES: Record<CodeIssueKind, string> = {
+  'project-function': 'project-specific-function',
+  'project-identifier': 'project-specific-identifier',
+  'hardcoded-ids': 'hardcoded-id-object',
+  'closure-constant': 'non-parameterized-function',
+  'unchecked-env': 'unchecked-env-var',
+  'removed-export': 'missing-deprecated-alias',
+}
+
+const HOOK_RULES: Record<HookScriptIssueKind, string> = {
+  shebang: 'hook-shebang',
+  'strict-mode': 'hook-strict-mode',
+  'enforcement-modes': 'hook-enforcement-modes',
 }
 
-// Patterns that indicate project-specific content
+const SCRIPT_PATH = fileURLToPath(import.meta.url)
+
+// Cached results are discarded when any of the validator's sources change
+const VALIDATOR_SOURCES = [SCRIPT_PATH, ...listSkillFiles(path.join(path.dirname(SCRIPT_PATH), 'lib'), ['.ts', '.json'])]
+let validatorFingerprint: string | undefined
+
+// Patterns that indicate project-specific content (extend via projectPatterns in .skillvalidaterc.json)
 const PROJECT_SPECIFIC_PATTERNS = [
   /SKILLSMITH/gi,
   /skillsmith/g,
@@ -28,341 +425,1041 @@ const PROJECT_SPECIFIC_PATTERNS = [
   /internal\.(company|corp|org)\./gi,
 ]
 
+// {{NAME}} slots from templates/; --fix writes the generalization ones on purpose
+const TEMPLATE_PLACEHOLDER = /\{\{([A-Z0-9_]+)\}\}/g
+const GENERALIZATION_PLACEHOLDERS = ['PROJECT_NAME', 'PROJECT_ID']
+
+// Terms that make a function name project-specific
+const PROJECT_FUNCTION_TERMS = [/Skillsmith|MyProject|Acme/]
+
 // Patterns that should trigger warnings
 const WARNING_PATTERNS = [
-  { pattern: /hardcoded/gi, message: 'Contains "hardcoded" - may indicate config issues' },
-  { pattern: /TODO|FIXME|HACK/g, message: 'Contains TODO/FIXME/HACK comments' },
+  { ruleId: 'hardcoded-keyword', pattern: /hardcoded/gi, message: 'Contains "hardcoded" - may indicate config issues' },
+  { ruleId: 'todo-comment', pattern: /TODO|FIXME|HACK/g, message: 'Contains TODO/FIXME/HACK comments' },
 ]
 
-// Patterns that expose secrets (NEVER use these)
+// ❌ Patterns that expose secrets (NEVER use these)
 const SECRET_EXPOSURE_PATTERNS = [
-  { pattern: /echo\s+\$[A-Z_]*KEY/gi, message: 'Echo command exposes secret KEY variable' },
-  { pattern: /echo\s+\$[A-Z_]*SECRET/gi, message: 'Echo command exposes SECRET variable' },
-  { pattern: /echo\s+\$[A-Z_]*TOKEN/gi, message: 'Echo command exposes TOKEN variable' },
+  { pattern: /echo\s+"?\$\{?[A-Z_]*KEY/gi, message: 'Echo command exposes secret KEY variable' },
+  { pattern: /echo\s+"?\$\{?[A-Z_]*SECRET/gi, message: 'Echo command exposes SECRET variable' },
+  { pattern: /echo\s+"?\$\{?[A-Z_]*TOKEN/gi, message: 'Echo command exposes TOKEN variable' },
   { pattern: /cat\s+\.env/g, message: 'cat .env exposes all secrets' },
   { pattern: /printenv\s*\|\s*grep/gi, message: 'printenv | grep may expose secrets' },
   { pattern: /config\s+show/gi, message: 'config show commands often expose secrets' },
 ]
 
-// Patterns that indicate documentation context (skip these)
-const DOCUMENTATION_CONTEXT_PATTERNS = [
-  /❌|NEVER|unsafe|don't|bad|wrong/i,
-  /# Example:|<!-- Example/i,
-  /Usage:|Example:/i,
-]
-
-// Patterns that indicate placeholder API keys or validation (not real keys)
-const PLACEHOLDER_KEY_PATTERNS = [
-  /lin_api_xxx/i,
-  /lin_api_\.\.\./i,
-  /lin_api_your_key/i,
-  /lin_api_here/i,
-  /sk-xxx/i,
-  /ghp_xxx/i,
-  /your[-_]?key/i,
-  /your[-_]?api[-_]?key/i,
-  /<your-/i,
-  /startsWith\s*\(['"]lin_api_/i, // Validation pattern
-  /startsWith\s*\(['"]sk-/i,
-  /startsWith\s*\(['"]ghp_/i,
-  /console\.(log|error|warn)\s*\(/i, // Help/error messages
-  /throw\s+new\s+Error/i, // Error messages
-]
-
-function isDocumentationContext(content: string, lineIndex: number): boolean {
-  const lines = content.split('\n')
-  const contextWindow = 5 // Check 5 lines before and after
-  const start = Math.max(0, lineIndex - contextWindow)
-  const end = Math.min(lines.length, lineIndex + contextWindow)
-  const contextLines = lines.slice(start, end).join('\n')
-
-  return DOCUMENTATION_CONTEXT_PATTERNS.some(p => p.test(contextLines))
-}
-
-function isPlaceholderKey(line: string): boolean {
-  return PLACEHOLDER_KEY_PATTERNS.some(p => p.test(line))
-}
-
-function validateSkillStructure(skillPath: string): ValidationResult {
-  const result: ValidationResult = { passed: true, errors: [], warnings: [] }
+/**
+ * SKILL.md presence, frontmatter, description format and token budgets
+ */
+export function validateSkillStructure(
+  skillPath: string,
+  reporter = new RuleReporter(skillPath, loadConfig(skillPath))
+): ValidationResult {
+  const result = createResult()
 
   // Check SKILL.md exists
   const skillMdPath = path.join(skillPath, 'SKILL.md')
   if (!fs.existsSync(skillMdPath)) {
-    result.passed = false
-    result.errors.push('Missing required SKILL.md file')
+    reporter.report(result, 'skill-md-missing', {
+      message: 'Missing required SKILL.md file',
+      file: 'SKILL.md',
+      line: 1,
+      column: 1,
+      snippet: '',
+    })
     return result
   }
 
   // Read SKILL.md
   const content = fs.readFileSync(skillMdPath, 'utf-8')
 
-  // Check frontmatter
-  if (!content.startsWith('---')) {
-    result.passed = false
-    result.errors.push('SKILL.md missing YAML frontmatter')
-  }
+  // Parse frontmatter and check it against the schema
+  try {
+    const frontmatter = parseFrontmatter(content)
 
-  // Check required frontmatter fields
-  const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---/)
-  if (frontmatterMatch) {
-    const frontmatter = frontmatterMatch[1]
-    if (!frontmatter.includes('name:')) {
-      result.passed = false
-      result.errors.push('Frontmatter missing required "name" field')
-    }
-    if (!frontmatter.includes('description:')) {
-      result.passed = false
-      result.errors.push('Frontmatter missing required "description" field')
+    for (const issue of validateFrontmatter(frontmatter)) {
+      reporter.report(result, `frontmatter-${issue.kind}`, {
+        message: issue.message,
+        file: 'SKILL.md',
+        line: issue.line,
+        column: issue.column,
+        snippet: lineText(content, issue.line),
+      })
     }
 
     // Check description format
-    if (frontmatter.includes('description:')) {
-      if (!frontmatter.includes('This skill should be used when')) {
-        result.warnings.push('Description should start with "This skill should be used when..."')
-      }
+    const description = getString(frontmatter.data, 'description')
+    if (description && !description.includes('This skill should be used when')) {
+      const position = frontmatter.positions.get('description')!
+      reporter.report(result, 'description-format', {
+        message: 'Description should start with "This skill should be used when..."',
+        file: 'SKILL.md',
+        ...position,
+        snippet: lineText(content, position.line),
+      })
     }
-  }
 
-  // Check for referenced files
-  const referencedFiles = content.match(/`references\/[^`]+`|`scripts\/[^`]+`|`examples\/[^`]+`/g) || []
-  for (const ref of referencedFiles) {
-    const filePath = ref.replace(/`/g, '')
-    const fullPath = path.join(skillPath, filePath)
-    if (!fs.existsSync(fullPath)) {
-      result.warnings.push(`Referenced file does not exist: ${filePath}`)
+    // Check token budgets: frontmatter is always loaded, the body on every trigger.
+    // Skipped when the frontmatter does not parse, since the body cannot be found
+    const tokens = estimateSkillTokens(skillPath)
+    if (tokens.frontmatter > FRONTMATTER_TOKEN_BUDGET) {
+      reporter.report(result, 'frontmatter-length', {
+        message: `Frontmatter is ~${tokens.frontmatter} tokens (budget: ${FRONTMATTER_TOKEN_BUDGET}) and is loaded for every installed skill`,
+        file: 'SKILL.md',
+        line: 1,
+        column: 1,
+        snippet: lineText(content, 1),
+      })
+    }
+    if (tokens.body > BODY_TOKEN_BUDGET) {
+      reporter.report(result, 'body-length', {
+        message: `SKILL.md body is ~${tokens.body} tokens (budget: ${BODY_TOKEN_BUDGET}). Consider moving content to references/`,
+        file: 'SKILL.md',
+        line: tokens.bodyStartLine,
+        column: 1,
+        snippet: lineText(content, tokens.bodyStartLine),
+      })
+    }
+    for (const section of sectionsToMove(tokens)) {
+      reporter.report(result, 'section-length', {
+        message: `Section "${section.heading}" is ~${section.tokens} tokens; moving it to references/ keeps it out of every trigger`,
+        file: 'SKILL.md',
+        line: section.line,
+        column: 1,
+        snippet: lineText(content, section.line),
+      })
     }
+  } catch (error) {
+    if (!(error instanceof FrontmatterError)) throw error
+    reporter.report(result, 'frontmatter-syntax', {
+      message: error.reason,
+      file: 'SKILL.md',
+      line: error.line,
+      column: error.column,
+      snippet: lineText(content, error.line),
+    })
   }
 
-  // Check content length
-  const bodyContent = content.replace(/^---[\s\S]*?---/, '')
-  const wordCount = bodyContent.split(/\s+/).length
-  if (wordCount > 3000) {
-    result.warnings.push(`SKILL.md body is ${wordCount} words (recommended: <2000). Consider moving content to references/`)
+  // Template placeholders left after scaffolding; quoted ones (`{{NAME}}`) are
+  // documentation, and the generalization placeholders are meant to stay
+  const placeholders = new Set<string>()
+  for (const block of parseMarkdown(content)) {
+    if (block.type === 'code' || block.type === 'frontmatter') continue
+    block.lines.forEach((text, offset) => {
+      const masked = text.replace(/`[^`]*`/g, (code) => ' '.repeat(code.length))
+      for (const match of masked.matchAll(TEMPLATE_PLACEHOLDER)) {
+        if (GENERALIZATION_PLACEHOLDERS.includes(match[1]) || placeholders.has(match[1])) continue
+        placeholders.add(match[1])
+        reporter.report(result, 'unresolved-placeholder', {
+          message: `Template placeholder ${match[0]} was never filled in`,
+          file: 'SKILL.md',
+          line: block.startLine + offset,
+          column: match.index! + 1,
+          snippet: match[0],
+        })
+      }
+    })
   }
 
   return result
 }
 
-function checkGeneralization(skillPath: string): ValidationResult {
-  const result: ValidationResult = { passed: true, errors: [], warnings: [] }
+function checkBehaviorClassification(
+  skillPath: string,
+  reporter = new RuleReporter(skillPath, loadConfig(skillPath))
+): ValidationResult {
+  const result = createResult()
 
-  // Get all files in skill directory
-  function getAllFiles(dirPath: string, files: string[] = []): string[] {
-    if (!fs.existsSync(dirPath)) return files
+  const skillMdPath = path.join(skillPath, 'SKILL.md')
+  if (!fs.existsSync(skillMdPath)) return result
 
-    const items = fs.readdirSync(dirPath)
-    for (const item of items) {
-      const fullPath = path.join(dirPath, item)
-      if (fs.statSync(fullPath).isDirectory()) {
-        getAllFiles(fullPath, files)
-      } else if (item.endsWith('.ts') || item.endsWith('.js') || item.endsWith('.md')) {
-        files.push(fullPath)
-      }
+  const content = fs.readFileSync(skillMdPath, 'utf-8')
+  const declared = findDeclaredBehaviors(content)
+
+  if (declared.length === 0) {
+    reporter.report(result, 'behavior-classification', {
+      message: 'SKILL.md does not declare a behavioral classification',
+      file: 'SKILL.md',
+      line: 1,
+      column: 1,
+      snippet: lineText(content, 1),
+    })
+    return result
+  }
+
+  for (const declaration of declared) {
+    if (!declaration.behavior) {
+      reporter.report(result, 'behavior-classification', {
+        message:
+          `Unknown behavioral classification "${declaration.value}" ` +
+          `(expected ${BEHAVIOR_CLASSES.map((c) => c.type).join(', ')})`,
+        file: 'SKILL.md',
+        line: declaration.line,
+        column: declaration.column,
+        snippet: lineText(content, declaration.line),
+      })
     }
-    return files
   }
 
-  const files = getAllFiles(skillPath)
+  const [first, second] = declared
+  if (second && first.behavior && second.behavior && first.behavior.id !== second.behavior.id) {
+    reporter.report(result, 'behavior-classification', {
+      message: `Frontmatter declares ${first.behavior.type} but the body declares ${second.behavior.type}`,
+      file: 'SKILL.md',
+      line: second.line,
+      column: second.column,
+      snippet: lineText(content, second.line),
+    })
+    return result
+  }
+
+  // Only flag a mismatch when the content clearly points elsewhere
+  const declaredBehavior = first.behavior
+  const inferred = inferBehaviorClass(skillPath)
+  if (
+    declaredBehavior &&
+    inferred &&
+    inferred.behavior.id !== declaredBehavior.id &&
+    inferred.score >= 2 &&
+    inferred.score > inferred.scores[declaredBehavior.id]
+  ) {
+    const evidence = inferred.evidence
+      .slice(0, 3)
+      .map((item) => `${item.signal} (${item.file}:${item.line})`)
+      .join(', ')
+    reporter.report(result, 'behavior-mismatch', {
+      message: `Declared as ${declaredBehavior.type}, but content suggests ${inferred.behavior.type}: ${evidence}`,
+      file: 'SKILL.md',
+      line: first.line,
+      column: first.column,
+      snippet: lineText(content, first.line),
+    })
+  }
+
+  return result
+}
+
+function checkTriggers(
+  skillPath: string,
+  reporter = new RuleReporter(skillPath, loadConfig(skillPath)),
+  skillsDir = INSTALLED_SKILLS_DIR,
+  cache = new ValidationCache(skillPath)
+): ValidationResult {
+  const result = createResult()
+
+  const skillMdPath = path.join(skillPath, 'SKILL.md')
+  if (!fs.existsSync(skillMdPath)) return result
+
+  const content = fs.readFileSync(skillMdPath, 'utf-8')
+  const triggers = extractTriggers(content)
+
+  // Count issues have no phrase to point at; use the description
+  const descriptionIndex = content.search(/^description:/m)
+  const descriptionLine = descriptionIndex === -1 ? 1 : positionAt(content, descriptionIndex).line
+
+  for (const issue of analyzeTriggers(triggers)) {
+    const line = issue.trigger?.line ?? descriptionLine
+    reporter.report(result, TRIGGER_RULES[issue.kind], {
+      message: issue.message,
+      file: 'SKILL.md',
+      line,
+      column: issue.trigger?.column ?? 1,
+      snippet: lineText(content, line),
+    })
+  }
 
-  for (const file of files) {
+  // Collisions depend on which skills are installed and their phrases
+  cache.dependOn(skillsDir)
+  for (const item of readDirectory(skillsDir)) cache.dependOn(path.join(skillsDir, item, 'SKILL.md'))
+  for (const collision of findTriggerCollisions(skillPath, triggers, skillsDir)) {
+    const { trigger } = collision
+    const phrase = collision.phrase === trigger.phrase ? '' : ` as "${collision.phrase}"`
+    reporter.report(result, 'trigger-collision', {
+      message: `Trigger phrase "${trigger.phrase}" is also used by ${collision.skill} (${collision.skillPath})${phrase}`,
+      file: 'SKILL.md',
+      line: trigger.line,
+      column: trigger.column,
+      snippet: lineText(content, trigger.line),
+    })
+  }
+
+  return result
+}
+
+function checkHooks(
+  skillPath: string,
+  reporter = new RuleReporter(skillPath, loadConfig(skillPath)),
+  cache = new ValidationCache(skillPath)
+): ValidationResult {
+  const result = createResult()
+  const relative = (file: string) => path.relative(skillPath, file)
+
+  for (const file of listHookScripts(skillPath)) {
     const content = fs.readFileSync(file, 'utf-8')
+    cache.dependOn(file) // The executable bit is not part of the content hash
+
+    // Windows has no executable bit
+    if (process.platform !== 'win32' && !isExecutable(file)) {
+      reporter.report(result, 'hook-executable', {
+        message: `Hook script ${relative(file)} is not executable`,
+        file: relative(file),
+        line: 1,
+        column: 1,
+        snippet: lineText(content, 1),
+      })
+    }
+
+    for (const issue of analyzeHookScript(content)) {
+      reporter.report(result, HOOK_RULES[issue.kind], {
+        message: issue.message,
+        file: relative(file),
+        line: issue.line,
+        column: issue.column,
+        snippet: issue.snippet,
+      })
+    }
+  }
+
+  const configs = listHookConfigs(skillPath)
+  if (configs.length === 0) return result
+
+  cache.dependOn(DEFAULT_HOOK_CONFIG_SCHEMA) // Used when the skill has no hooks/config.schema.json
+  const schema = loadHookConfigSchema(skillPath)
+  for (const file of configs) {
+    for (const issue of validateHookConfig(fs.readFileSync(file, 'utf-8'), schema)) {
+      reporter.report(result, 'hook-config-schema', {
+        message: issue.message,
+        file: relative(file),
+        line: issue.line,
+        column: issue.column,
+        snippet: issue.snippet,
+      })
+    }
+  }
+
+  return result
+}
+
+const NAME_RULES = new Set(['project-specific-function', 'project-specific-identifier'])
+
+/**
+ * Project-specific content, warning patterns and commands that expose secrets,
+ * in every script and markdown file. Content inside `reportedNames` (code
+ * analysis findings for the same names) is not reported again.
+ */
+export function checkGeneralization(
+  skillPath: string,
+  reporter = new RuleReporter(skillPath, loadConfig(skillPath)),
+  cache = new ValidationCache(skillPath),
+  reportedNames: Finding[] = []
+): ValidationResult {
+  // Each file is checked on its own, so results are cached per file
+  function checkFile(file: string): ValidationResult {
+    const result = createResult()
+    const content = cache.read(file)
     const relativePath = path.relative(skillPath, file)
+    const context = createScanContext(file, content)
+    const names = reportedNames.filter((name) => name.file === relativePath.split(path.sep).join('/'))
+    const isOutsideNames = (line: number, column: number, text: string) =>
+      !names.some((name) => name.line === line && name.column <= column && column + text.length <= (name.endColumn ?? name.column))
 
-    // Check for project-specific patterns
-    for (const pattern of PROJECT_SPECIFIC_PATTERNS) {
-      const matches = content.match(pattern)
-      if (matches) {
-        // Skip if it's in a comment explaining the pattern
-        if (!content.includes('// Example:') && !content.includes('<!-- Example')) {
-          result.warnings.push(`${relativePath}: Contains potentially project-specific content: "${matches[0]}"`)
-        }
+    // Report the first match of a pattern outside labelled anti-patterns and examples
+    function reportFirst(
+      ruleId: string,
+      pattern: RegExp,
+      message: string,
+      check = (_line: number, _column: number, _text: string) => true
+    ) {
+      for (const match of content.matchAll(new RegExp(pattern.source, pattern.flags))) {
+        const position = positionAt(content, match.index!)
+        if (context.isExempt(position.line, position.column) || !check(position.line, position.column, match[0])) continue
+        const block = context.blockAt(position.line)
+        const reported = reporter.report(result, ruleId, {
+          message: message.replace('$&', match[0]),
+          file: relativePath,
+          ...position,
+          snippet: match[0],
+          ...(block ? { block } : {}),
+        })
+        if (reported) break // Only report once per pattern per file
       }
     }
 
+    // Check for project-specific patterns
+    for (const pattern of [...PROJECT_SPECIFIC_PATTERNS, ...reporter.config.projectPatterns]) {
+      reportFirst('project-specific-content', pattern, 'Contains potentially project-specific content: "$&"', isOutsideNames)
+    }
+
     // Check for warning patterns
-    for (const { pattern, message } of WARNING_PATTERNS) {
-      if (pattern.test(content)) {
-        result.warnings.push(`${relativePath}: ${message}`)
-      }
+    for (const { ruleId, pattern, message } of WARNING_PATTERNS) {
+      reportFirst(ruleId, pattern, message)
     }
 
     // Check for secret exposure patterns (CRITICAL)
-    // Skip if in documentation context showing what NOT to do
-    const lines = content.split('\n')
+    // In markdown only commands count: fenced and inline code, not prose mentions
     for (const { pattern, message } of SECRET_EXPOSURE_PATTERNS) {
-      const matches = content.matchAll(new RegExp(pattern.source, pattern.flags))
-      for (const match of matches) {
-        // Find line number of match
-        const beforeMatch = content.substring(0, match.index)
-        const lineIndex = beforeMatch.split('\n').length - 1
-
-        // Skip if in documentation context (showing unsafe patterns as examples)
-        if (!isDocumentationContext(content, lineIndex)) {
-          result.passed = false
-          result.errors.push(`${relativePath}: ${message} - Use Varlock instead!`)
-          break // Only report once per pattern per file
-        }
-      }
+      reportFirst('secret-exposure', pattern, `${message} - Use Varlock instead!`, context.isCode)
     }
 
-    // Check for hardcoded strings that should be env vars (in code files)
-    if (file.endsWith('.ts') || file.endsWith('.js')) {
-      // Check for hardcoded API keys - skip placeholder patterns
-      const keyPattern = /['"]lin_api_|['"]sk-|['"]ghp_|['"]npm_/g
-      const keyMatches = content.matchAll(keyPattern)
-      for (const match of keyMatches) {
-        const line = lines.find(l => l.includes(match[0]))
-        if (line && !isPlaceholderKey(line)) {
-          result.passed = false
-          result.errors.push(`${relativePath}: Contains hardcoded API key`)
-          break
-        }
-      }
+    return result
+  }
 
-      // Check for non-parameterized function names
-      if (/function\s+\w*(Skillsmith|MyProject|Acme)\w*/.test(content)) {
-        result.warnings.push(`${relativePath}: Function name contains project-specific term`)
+  const files = listSkillFiles(skillPath, ['.ts', '.js', '.md', '.sh'])
+  return mergeResults(...files.map((file) => cache.fileCheck('generalization', file, () => checkFile(file))))
+}
+
+/**
+ * Analyze the skill's scripts with the TypeScript compiler API (generalization
+ * Patterns 2, 4 and 5). Without the typescript package only `function` names
+ * are checked, by pattern.
+ */
+function checkCode(
+  skillPath: string,
+  reporter = new RuleReporter(skillPath, loadConfig(skillPath)),
+  cache = new ValidationCache(skillPath)
+): ValidationResult {
+  const projectTerms = [...PROJECT_FUNCTION_TERMS, ...reporter.config.projectPatterns]
+  const ts = loadTypeScript(skillPath, process.cwd())
+
+  // Removed exports are found by comparing with the last release tag, or the last commit
+  const git = new CliGitHost(skillPath)
+  const isRepository = ts !== undefined && git.isRepository()
+  const ref = isRepository && git.hasCommits() ? git.latestTag() ?? 'HEAD' : undefined
+  const revision = ref ? git.revision(ref) : undefined
+  // The comparison changes when HEAD or a tag moves, or a repository is created
+  if (isRepository) {
+    for (const file of git.refFiles()) cache.dependOn(file)
+  } else if (ts) {
+    for (let dir = path.resolve(skillPath); ; dir = path.dirname(dir)) {
+      cache.dependOn(path.join(dir, '.git'))
+      if (path.dirname(dir) === dir) break
+    }
+  }
+
+  function checkFile(file: string, previous: string | undefined): ValidationResult {
+    const result = createResult()
+    const content = cache.read(file)
+    const relativePath = path.relative(skillPath, file)
+    const context = createScanContext(file, content)
+
+    if (!ts) {
+      for (const match of content.matchAll(/function\s+(\w+)/g)) {
+        if (!projectTerms.some((term) => new RegExp(term.source, term.flags.replace('g', '')).test(match[1]))) continue
+        const position = positionAt(content, match.index!)
+        if (context.isExempt(position.line, position.column)) continue
+        reporter.report(result, 'project-specific-function', {
+          message: `Function name ${match[1]} contains a project-specific term`,
+          file: relativePath,
+          ...position,
+          snippet: match[0],
+        })
       }
+      return result
     }
+
+    const issues = analyzeCode(ts, file, content, {
+      projectTerms,
+      ...(ref && previous !== undefined ? { previous: { content: previous, ref } } : {}),
+    })
+    for (const issue of issues) {
+      if (context.isExempt(issue.line, issue.column)) continue
+      reporter.report(result, CODE_RULES[issue.kind], {
+        message: issue.message,
+        file: relativePath,
+        line: issue.line,
+        column: issue.column,
+        endColumn: issue.endColumn,
+        snippet: issue.snippet,
+      })
+    }
+    return result
+  }
+
+  const files = listSkillFiles(skillPath, CODE_EXTENSIONS).filter((file) => !file.endsWith('.d.ts'))
+  return mergeResults(
+    ...files.map((file) => {
+      const previous = ref && revision ? readPreviousVersion(git, revision, path.relative(skillPath, file)) : undefined
+      const inputs = previous === undefined ? '' : `${ref}:${hashContent(previous)}`
+      return cache.fileCheck('code', file, () => checkFile(file, previous), inputs)
+    })
+  )
+}
+
+// Files at a commit never change, so they are read from git once per process
+const previousVersions = new Map<string, string | undefined>()
+
+function readPreviousVersion(git: CliGitHost, revision: string, file: string): string | undefined {
+  const key = `${revision}:${file}`
+  if (!previousVersions.has(key)) previousVersions.set(key, git.readFileAt(revision, file.split(path.sep).join('/')))
+  return previousVersions.get(key)
+}
+
+function checkSecrets(
+  skillPath: string,
+  reporter = new RuleReporter(skillPath, loadConfig(skillPath)),
+  cache = new ValidationCache(skillPath)
+): ValidationResult {
+  function checkFile(file: string): ValidationResult {
+    const result = createResult()
+    const content = cache.read(file)
+    const relativePath = path.relative(skillPath, file).split(path.sep).join('/')
+
+    // Unlike other content rules, labelled examples are not exempt: only
+    // placeholder values and suppression comments are
+    for (const hit of scanContent(relativePath, content)) {
+      reporter.report(result, hit.kind === 'provider' ? 'hardcoded-api-key' : 'high-entropy-string', {
+        message: hit.kind === 'provider' ? `Contains hardcoded ${hit.name}` : 'Contains a high-entropy string that may be a secret',
+        file: hit.file,
+        line: hit.line,
+        column: hit.column,
+        snippet: hit.masked,
+      })
+    }
+    return result
+  }
+
+  return mergeResults(...listScannableFiles(skillPath).map((file) => cache.fileCheck('secrets', file, () => checkFile(file))))
+}
+
+/**
+ * Follow the links between the skill's markdown files: broken files and
+ * anchors, unlinked references and references linked only through others
+ */
+function checkLinks(
+  skillPath: string,
+  reporter = new RuleReporter(skillPath, loadConfig(skillPath)),
+  cache = new ValidationCache(skillPath)
+): ValidationResult {
+  const result = createResult()
+  const isExempt = (file: string, content: string) => createScanContext(file, content).isExempt
+
+  // Links that leave the skill depend on the plugin files they point to
+  for (const issue of analyzeLinks(skillPath, isExempt, (file) => cache.dependOn(file))) {
+    reporter.report(result, issue.kind, {
+      message: issue.message,
+      file: issue.file,
+      line: issue.line,
+      column: issue.column,
+      snippet: issue.snippet,
+    })
   }
 
   return result
 }
 
-function checkEnvironmentDocumentation(skillPath: string): ValidationResult {
-  const result: ValidationResult = { passed: true, errors: [], warnings: [] }
+/**
+ * Environment variables the scripts read, against the SKILL.md table and
+ * .env.schema
+ */
+export function checkEnvironmentDocumentation(
+  skillPath: string,
+  reporter = new RuleReporter(skillPath, loadConfig(skillPath))
+): ValidationResult {
+  const result = createResult()
 
   const skillMdPath = path.join(skillPath, 'SKILL.md')
   if (!fs.existsSync(skillMdPath)) return result
 
   const content = fs.readFileSync(skillMdPath, 'utf-8')
+  const usages = findEnvUsages(skillPath, loadTypeScript(skillPath, process.cwd()))
+  const table = readEnvTable(content)
 
-  // Get all files in skill
-  function getAllFiles(dirPath: string, files: string[] = []): string[] {
-    if (!fs.existsSync(dirPath)) return files
-    const items = fs.readdirSync(dirPath)
-    for (const item of items) {
-      const fullPath = path.join(dirPath, item)
-      if (fs.statSync(fullPath).isDirectory()) {
-        getAllFiles(fullPath, files)
-      } else if (item.endsWith('.ts') || item.endsWith('.js')) {
-        files.push(fullPath)
-      }
+  // Check if env vars are documented: in the Environment Variables table when there is one
+  for (const usage of usages) {
+    const documented = table ? table.some((row) => row.name === usage.name) : content.includes(usage.name)
+    if (!documented) {
+      reporter.report(result, 'undocumented-env-var', {
+        message: `Environment variable ${usage.name} used but not documented in SKILL.md`,
+        file: usage.file,
+        line: usage.line,
+        column: usage.column,
+        snippet: usage.snippet,
+      })
+    }
+  }
+
+  const schemaPath = path.join(skillPath, ENV_SCHEMA_FILE)
+  if (!fs.existsSync(schemaPath)) {
+    // Check for Varlock usage with sensitive variables
+    const sensitive = usages.filter((usage) => isSensitiveName(usage.name))
+    if (sensitive.length > 0 && !content.toLowerCase().includes('varlock')) {
+      const [first] = sensitive
+      reporter.report(result, 'missing-varlock', {
+        message:
+          `Skill uses sensitive variables (${sensitive.map((usage) => usage.name).join(', ')}) but does not reference Varlock. ` +
+          `Consider adding .env.schema and Varlock documentation.`,
+        file: first.file,
+        line: first.line,
+        column: first.column,
+        snippet: first.snippet,
+      })
     }
-    return files
+    return result
+  }
+
+  // Parse .env.schema and cross-check it with the code and SKILL.md
+  const schemaContent = fs.readFileSync(schemaPath, 'utf-8')
+  const schema = parseEnvSchema(schemaContent)
+  for (const issue of schema.issues) {
+    reporter.report(result, 'env-schema-syntax', {
+      message: issue.message,
+      file: ENV_SCHEMA_FILE,
+      line: issue.line,
+      column: issue.column,
+      snippet: lineText(schemaContent, issue.line),
+    })
+  }
+
+  for (const issue of crossCheckEnv(schema, usages, content)) {
+    const source = issue.file === ENV_SCHEMA_FILE ? schemaContent : fs.readFileSync(path.join(skillPath, issue.file), 'utf-8')
+    reporter.report(result, ENV_RULES[issue.kind], {
+      message: issue.message,
+      file: issue.file,
+      line: issue.line,
+      column: issue.column,
+      snippet: lineText(source, issue.line),
+    })
   }
 
-  // Find all process.env references
-  const envVars = new Set<string>()
-  const sensitiveVars = new Set<string>()
-  const files = getAllFiles(skillPath)
+  return result
+}
+
+/**
+ * Salt of a skill's cache: what every result depends on besides the skill's
+ * files (validator sources, rule config, the TypeScript version). The
+ * compiler itself is only loaded when a check runs.
+ */
+function cacheSalt(skillPath: string): string {
+  validatorFingerprint ??= fingerprintFiles(VALIDATOR_SOURCES)
+  const configPath = path.join(skillPath, CONFIG_FILE_NAME)
+  const config = fs.existsSync(configPath) ? fs.readFileSync(configPath, 'utf-8') : ''
+  const tsVersion = findTypeScriptVersion(skillPath, process.cwd()) ?? 'no-typescript'
+  return hashContent([validatorFingerprint, config, tsVersion].join('\n'))
+}
+
+/**
+ * A skill's validation cache, kept in the cache directory or, with
+ * `persistent` false, in memory
+ */
+export function openCache(skillPath: string, persistent = true): ValidationCache {
+  const salt = cacheSalt(skillPath)
+  return persistent ? ValidationCache.open(skillPath, salt) : new ValidationCache(skillPath, salt)
+}
 
-  for (const file of files) {
-    const fileContent = fs.readFileSync(file, 'utf-8')
-    const matches = fileContent.matchAll(/process\.env\.([A-Z_][A-Z0-9_]*)/g)
-    for (const match of matches) {
-      const varName = match[1]
-      envVars.add(varName)
+/**
+ * The cached result of a skill, if nothing it depends on has changed
+ */
+function cachedResult(skillPath: string, skillsDir: string): ValidationResult | undefined {
+  const cache = openCache(skillPath)
+  const result = cache.skillResult(cache.skillKey(skillsDir))
+  cache.save() // Keep the file hashes for the run that follows a miss
+  return result
+}
 
-      // Check if it's likely a sensitive variable
-      if (/KEY|SECRET|TOKEN|PASSWORD|CREDENTIAL|AUTH/i.test(varName)) {
-        sensitiveVars.add(varName)
+/**
+ * Run every validation on a skill and combine the results. With a `cache`
+ * (see openCache) an unchanged skill is not checked again, and after a change
+ * only the changed files are.
+ */
+export function validateSkill(
+  skillPath: string,
+  reporter = new RuleReporter(skillPath, loadConfig(skillPath)),
+  skillsDir = INSTALLED_SKILLS_DIR,
+  cache = new ValidationCache(skillPath)
+): ValidationResult {
+  const key = cache.skillKey(skillsDir)
+  const cached = cache.skillResult(key)
+  if (cached) return cached
+
+  const code = checkCode(skillPath, reporter, cache)
+  const result = mergeResults(
+    validateSkillStructure(skillPath, reporter),
+    checkBehaviorClassification(skillPath, reporter),
+    checkTriggers(skillPath, reporter, skillsDir, cache),
+    checkHooks(skillPath, reporter, cache),
+    checkGeneralization(skillPath, reporter, cache, code.findings.filter((f) => NAME_RULES.has(f.ruleId))),
+    code,
+    checkSecrets(skillPath, reporter, cache),
+    checkLinks(skillPath, reporter, cache),
+    checkEnvironmentDocumentation(skillPath, reporter)
+  )
+  cache.storeSkillResult(key, result)
+  cache.save()
+  return result
+}
+
+/**
+ * Validate one skill in a child process, so several can run in parallel
+ */
+function validateInChild(skillPath: string, skillsDir: string, useCache: boolean): Promise<SkillReport> {
+  const args = [
+    ...process.execArgv,
+    SCRIPT_PATH,
+    skillPath,
+    '--no-discover',
+    '--format',
+    'json',
+    '--skills-dir',
+    skillsDir,
+    ...(useCache ? [] : ['--no-cache']),
+  ]
+  return new Promise((resolve) => {
+    execFile(process.execPath, args, { maxBuffer: 64 * 1024 * 1024 }, (error, stdout, stderr) => {
+      const name = readSkillSummary(skillPath).name
+      try {
+        const { passed, findings } = JSON.parse(stdout)
+        resolve({
+          skillPath,
+          name,
+          result: { passed, findings: findings.map(({ fingerprint: _, ...finding }: { fingerprint: string }) => finding) },
+        })
+      } catch {
+        const message = (stderr || error?.message || 'Validation failed').trim().replace(/^Error: /, '')
+        resolve({ skillPath, name, result: { passed: false, findings: [] }, error: message })
       }
+    })
+  })
+}
+
+/**
+ * Validate several skills in parallel; reports are in the order given.
+ * Skills with a cached result are not started at all.
+ */
+export async function validateSkills(
+  skillPaths: string[],
+  concurrency = os.cpus().length,
+  skillsDir = INSTALLED_SKILLS_DIR,
+  useCache = true
+): Promise<SkillReport[]> {
+  const reports: SkillReport[] = new Array(skillPaths.length)
+  let next = 0
+
+  async function worker() {
+    while (next < skillPaths.length) {
+      const index = next++
+      const skillPath = skillPaths[index]
+      const cached = useCache ? cachedResult(skillPath, skillsDir) : undefined
+      reports[index] = cached
+        ? { skillPath, name: readSkillSummary(skillPath).name, result: cached }
+        : await validateInChild(skillPath, skillsDir, useCache)
     }
   }
 
-  // Check if env vars are documented
-  for (const envVar of envVars) {
-    if (!content.includes(envVar)) {
-      result.warnings.push(`Environment variable ${envVar} used but not documented in SKILL.md`)
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, skillPaths.length)) }, worker))
+  return reports
+}
+
+/**
+ * Plan generalization fixes for a skill, honoring rule config and suppressions
+ */
+function planFixes(skillPath: string, reporter: RuleReporter): FixPlan {
+  const skillMdPath = path.join(skillPath, 'SKILL.md')
+  let skillName = path.basename(skillPath)
+  if (fs.existsSync(skillMdPath)) {
+    try {
+      skillName = getString(parseFrontmatter(fs.readFileSync(skillMdPath, 'utf-8')).data, 'name') || skillName
+    } catch {
+      // Fall back to the directory name; the frontmatter error is reported by validation
     }
   }
 
-  // Check for Varlock usage with sensitive variables
-  if (sensitiveVars.size > 0) {
-    const hasEnvSchema = fs.existsSync(path.join(skillPath, '.env.schema'))
-    const mentionsVarlock = content.toLowerCase().includes('varlock')
+  return planGeneralizationFixes(skillPath, {
+    patterns: [...PROJECT_SPECIFIC_PATTERNS, ...reporter.config.projectPatterns],
+    functionTerms: [...PROJECT_FUNCTION_TERMS, ...reporter.config.projectPatterns],
+    envPrefix: toEnvName(skillName),
+    isSuppressed: (ruleId, file, line) => !reporter.isEnabled(ruleId) || reporter.isSuppressed(ruleId, file, line),
+    typescript: loadTypeScript(skillPath, process.cwd()),
+  })
+}
+
+async function confirm(question: string): Promise<boolean> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout })
+  try {
+    const answer = await rl.question(question)
+    return /^y(es)?$/i.test(answer.trim())
+  } finally {
+    rl.close()
+  }
+}
+
+/**
+ * Preview generalization fixes as a unified diff, then write them if confirmed
+ */
+async function runFix(
+  skillPath: string,
+  reporter: RuleReporter,
+  mode: { yes: boolean; dryRun: boolean },
+  log: (msg: string) => void
+) {
+  const plan = planFixes(skillPath, reporter)
+
+  if (plan.changes.length === 0) {
+    log('✅ Nothing to fix\n')
+    return
+  }
+
+  log(`\n=== Proposed fixes (${plan.changes.length} files) ===\n`)
+  for (const change of plan.changes) {
+    log(unifiedDiff(change.before, change.after, change.file))
+  }
+  for (const variable of plan.variables) {
+    log(`  + ${variable.name} (from ${variable.file}:${variable.line})`)
+  }
+  for (const rename of plan.renames) {
+    log(`  ~ ${rename.from}() -> ${rename.to}() (${rename.file})`)
+  }
+  log('')
+
+  if (mode.dryRun) {
+    log('🔍 Dry run - no files changed\n')
+    return
+  }
 
-    if (!hasEnvSchema && !mentionsVarlock) {
-      result.warnings.push(
-        `Skill uses sensitive variables (${Array.from(sensitiveVars).join(', ')}) but does not reference Varlock. ` +
-        `Consider adding .env.schema and Varlock documentation.`
-      )
+  let apply = mode.yes
+  if (!apply) {
+    if (!process.stdin.isTTY) {
+      log('Re-run with --fix --yes to apply these changes\n')
+      return
     }
+    apply = await confirm('Apply these changes? [y/N] ')
+  }
+
+  if (apply) {
+    applyFixPlan(skillPath, plan)
+    log(`✅ Applied fixes to ${plan.changes.length} files\n`)
+  } else {
+    log('No files changed\n')
+  }
+}
+
+/**
+ * Revalidate skills whenever their files change, redrawing the findings.
+ * Each skill's cache stays open between runs, so an edit rescans only the
+ * edited files. Never resolves; stop with Ctrl+C.
+ */
+function watchSkills(skillPaths: string[], skillsDir: string, useCache: boolean): Promise<never> {
+  const root = process.cwd()
+  const caches = new Map<string, ValidationCache>()
+  const results = new Map<string, ValidationResult | Error>()
 
-    // Check for @sensitive annotations in .env.schema
-    if (hasEnvSchema) {
-      const schemaContent = fs.readFileSync(path.join(skillPath, '.env.schema'), 'utf-8')
-      for (const sensitiveVar of sensitiveVars) {
-        if (schemaContent.includes(sensitiveVar) && !schemaContent.includes('@sensitive')) {
-          result.warnings.push(
-            `.env.schema defines ${sensitiveVar} but may be missing @sensitive annotation`
-          )
-        }
+  function validate(skillPath: string) {
+    try {
+      const reporter = new RuleReporter(skillPath, loadConfig(skillPath))
+      let cache = caches.get(skillPath)
+      if (!cache || cache.salt !== cacheSalt(skillPath)) {
+        cache = openCache(skillPath, useCache)
+        caches.set(skillPath, cache)
       }
+      results.set(skillPath, validateSkill(skillPath, reporter, skillsDir, cache))
+    } catch (error) {
+      results.set(skillPath, error instanceof Error ? error : new Error(String(error)))
     }
   }
 
-  return result
+  function draw(status: string) {
+    const output = ['\x1b[2J\x1b[H'] // Clear the screen
+    for (const skillPath of skillPaths) {
+      const name = path.relative(root, skillPath) || path.basename(skillPath)
+      const result = results.get(skillPath)!
+      output.push(result instanceof Error ? `❌ ${name}: ${result.message}\n` : formatText(name, result))
+    }
+    output.push(status)
+    console.log(output.join('\n'))
+  }
+
+  const watching = `👀 Watching ${skillPaths.length === 1 ? 'for changes' : `${skillPaths.length} skills`} (Ctrl+C to stop)`
+  const started = Date.now()
+  for (const skillPath of skillPaths) validate(skillPath)
+  draw(`✅ Validated in ${Date.now() - started}ms\n${watching}`)
+
+  // Editors write a file in several steps; wait for them to settle
+  const changed = new Map<string, Set<string>>()
+  let timer: NodeJS.Timeout | undefined
+  function revalidate() {
+    const start = Date.now()
+    const files: string[] = []
+    for (const [skillPath, changedFiles] of changed) {
+      caches.get(skillPath)?.forget(Array.from(changedFiles))
+      validate(skillPath)
+      files.push(...Array.from(changedFiles, (file) => path.relative(root, path.join(skillPath, file))))
+    }
+    changed.clear()
+    const time = new Date().toLocaleTimeString()
+    draw(`🔍 ${time} ${files.join(', ')} changed - revalidated in ${Date.now() - start}ms\n${watching}`)
+  }
+
+  for (const skillPath of skillPaths) {
+    fs.watch(skillPath, { recursive: true }, (_event, file) => {
+      if (!file || file.split(path.sep).some((part) => part === 'node_modules' || part === '.git')) return
+      if (!changed.has(skillPath)) changed.set(skillPath, new Set())
+      changed.get(skillPath)!.add(file)
+      clearTimeout(timer)
+      timer = setTimeout(revalidate, 100)
+    })
+  }
+
+  return new Promise(() => {})
+}
+
+function loadReporter(skillPath: string): RuleReporter {
+  try {
+    return new RuleReporter(skillPath, loadConfig(skillPath))
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`)
+    process.exit(1)
+  }
 }
 
-function main() {
-  const skillPath = process.argv[2]
+async function main() {
+  const args = process.argv.slice(2)
+  const targets: string[] = []
+  let format: OutputFormat = 'text'
+  let fix = false
+  let yes = false
+  let dryRun = false
+  let discover = true
+  let useCache = true
+  let watch = false
+  let skillsDir = INSTALLED_SKILLS_DIR
 
-  if (!skillPath) {
-    console.log('Usage: validate-skill.ts <skill-path>')
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    if (arg === '--format') {
+      format = args[++i] as OutputFormat
+    } else if (arg.startsWith('--format=')) {
+      format = arg.slice('--format='.length) as OutputFormat
+    } else if (arg === '--fix') {
+      fix = true
+    } else if (arg === '--yes' || arg === '-y') {
+      yes = true
+    } else if (arg === '--dry-run') {
+      dryRun = true
+    } else if (arg === '--no-discover') {
+      discover = false
+    } else if (arg === '--no-cache') {
+      useCache = false
+    } else if (arg === '--watch') {
+      watch = true
+    } else if (arg === '--skills-dir') {
+      skillsDir = path.resolve(args[++i])
+    } else {
+      targets.push(arg)
+    }
+  }
+
+  if (targets.length === 0) {
+    console.log('Usage: validate-skill.ts <path...> [--format text|json|sarif] [--fix [--yes|--dry-run]] [--watch]')
+    console.log('')
+    console.log('Paths may be skill directories, plugin roots or globs.')
+    console.log('')
+    console.log('Options:')
+    console.log('  --format <format>   Output format: text (default), json or sarif')
+    console.log('  --fix               Preview and apply generalization fixes')
+    console.log('  --yes, -y           Apply fixes without asking')
+    console.log('  --dry-run           Preview fixes without writing')
+    console.log('  --no-discover       Validate each path as a single skill')
+    console.log('  --watch             Revalidate changed files as they are saved')
+    console.log('  --no-cache          Check every file again instead of reusing cached results')
+    console.log('  --skills-dir <dir>  Installed skills to check trigger collisions against')
+    console.log('                      (default: ~/.claude/skills)')
     console.log('')
     console.log('Example:')
     console.log('  npx tsx validate-skill.ts path/to/skill')
+    console.log('  npx tsx validate-skill.ts path/to/skill --format sarif > results.sarif')
+    console.log('  npx tsx validate-skill.ts "~/.claude/skills/*"')
+    console.log('  npx tsx validate-skill.ts path/to/skill --watch')
+    process.exit(1)
+  }
+  if (!OUTPUT_FORMATS.includes(format)) {
+    console.error(`Error: Unknown format "${format}" (expected ${OUTPUT_FORMATS.join(', ')})`)
+    process.exit(1)
+  }
+  if (watch && format !== 'text') {
+    console.error('Error: --watch only supports the text format')
     process.exit(1)
   }
 
-  const resolvedPath = path.resolve(skillPath)
+  const skillPaths = discover ? discoverSkills(targets) : targets.map((target) => path.resolve(target))
 
-  if (!fs.existsSync(resolvedPath)) {
-    console.error(`Error: Path does not exist: ${resolvedPath}`)
+  for (const skillPath of skillPaths) {
+    if (!fs.existsSync(skillPath)) {
+      console.error(`Error: Path does not exist: ${skillPath}`)
+      process.exit(1)
+    }
+  }
+  if (skillPaths.length === 0) {
+    console.error(`Error: No skills found in ${targets.join(', ')}`)
     process.exit(1)
   }
 
-  console.log(`\n=== Validating Skill: ${path.basename(resolvedPath)} ===\n`)
+  // Keep machine-readable output clean by sending fix previews to stderr
+  const log = format === 'text' ? console.log : console.error
 
-  // Run validations
-  const structureResult = validateSkillStructure(resolvedPath)
-  const generalizationResult = checkGeneralization(resolvedPath)
-  const envDocResult = checkEnvironmentDocumentation(resolvedPath)
+  if (watch) {
+    if (fix) {
+      for (const skillPath of skillPaths) await runFix(skillPath, loadReporter(skillPath), { yes, dryRun }, log)
+    }
+    await watchSkills(skillPaths, skillsDir, useCache)
+  }
 
-  // Combine results
-  const allErrors = [
-    ...structureResult.errors,
-    ...generalizationResult.errors,
-    ...envDocResult.errors
-  ]
+  if (skillPaths.length === 1) {
+    const [resolvedPath] = skillPaths
+    const reporter = loadReporter(resolvedPath)
 
-  const allWarnings = [
-    ...structureResult.warnings,
-    ...generalizationResult.warnings,
-    ...envDocResult.warnings
-  ]
+    if (fix) {
+      await runFix(resolvedPath, reporter, { yes, dryRun }, log)
+    }
 
-  // Print results
-  if (allErrors.length > 0) {
-    console.log('❌ ERRORS:')
-    allErrors.forEach(e => console.log(`  - ${e}`))
-    console.log('')
+    // Run validations
+    const result = validateSkill(resolvedPath, reporter, skillsDir, openCache(resolvedPath, useCache))
+
+    // Print results
+    if (format === 'json') {
+      console.log(formatJson(resolvedPath, result))
+    } else if (format === 'sarif') {
+      console.log(formatSarif(resolvedPath, result, listRules()))
+    } else {
+      console.log(formatText(path.basename(resolvedPath), result))
+    }
+
+    process.exit(result.passed ? 0 : 1)
   }
 
-  if (allWarnings.length > 0) {
-    console.log('⚠️  WARNINGS:')
-    allWarnings.forEach(w => console.log(`  - ${w}`))
-    console.log('')
+  // Several skills: fix one at a time, then validate in parallel
+  if (fix) {
+    for (const skillPath of skillPaths) {
+      log(`\n--- ${path.relative(process.cwd(), skillPath) || '.'} ---`)
+      await runFix(skillPath, loadReporter(skillPath), { yes, dryRun }, log)
+    }
   }
 
-  const passed = allErrors.length === 0
-  console.log(`\n=== Result: ${passed ? '✅ PASSED' : '❌ FAILED'} ===`)
-  console.log(`Errors: ${allErrors.length}, Warnings: ${allWarnings.length}`)
+  const root =
+    targets.length === 1 && fs.existsSync(targets[0]) && fs.statSync(targets[0]).isDirectory()
+      ? path.resolve(targets[0])
+      : process.cwd()
+  const reports = await validateSkills(skillPaths, os.cpus().length, skillsDir, useCache)
+  const plugin = checkPluginConsistency(skillPaths.map(readSkillSummary), loadReporter(root))
+
+  if (format === 'json') {
+    console.log(formatJsonMulti(reports, plugin))
+  } else if (format === 'sarif') {
+    console.log(
+      formatSarifRuns([...reports.map((r) => ({ skillPath: r.skillPath, result: r.result })), { skillPath: root, result: plugin }], listRules())
+    )
+  } else {
+    for (const report of reports.filter((r) => !r.error)) {
+      console.log(formatText(path.relative(root, report.skillPath) || path.basename(report.skillPath), report.result))
+    }
+    console.log(formatSummaryTable(reports, plugin, root))
+  }
 
-  process.exit(passed ? 0 : 1)
+  process.exit(reports.every((r) => r.result.passed) && plugin.passed ? 0 : 1)
 }
 
-main()
+// CLI execution
+if (import.meta.url === `file://${process.argv[1]}`) {
+  main().catch((error) => {
+    console.error('❌ Error:', error instanceof Error ? error.message : error)
+    process.exit(1)
+  })
+}
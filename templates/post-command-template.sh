@@ -0,0 +1,44 @@
+#!/bin/bash
+# Post-command hook for {{SKILL_NAME}}
+# Called automatically by Claude Code hooks system after a command runs
+
+set -euo pipefail
+
+COMMAND="${1:-}"
+EXIT_CODE="${2:-0}"
+CONFIG_FILE=".claude/{{SKILL_NAME}}-config.json"
+
+# Load configuration
+load_config() {
+    if [[ -f "$CONFIG_FILE" ]]; then
+        ENFORCEMENT=$(grep -o '"enforcement"[^,}]*"[^"]*"' "$CONFIG_FILE" | cut -d'"' -f4 || echo "warn")
+    else
+        ENFORCEMENT="warn"
+    fi
+}
+
+# Check whether the command left the environment in the expected state
+verify_state() {
+    # Add verification logic
+    return 0
+}
+
+main() {
+    load_config
+
+    case "$ENFORCEMENT" in
+        block|warn|transform)
+            if ! verify_state; then
+                echo "WARNING: Unexpected state after: $COMMAND (exit code $EXIT_CODE)" >&2
+            fi
+            ;;
+        disabled)
+            ;;
+        *)
+            echo "WARNING: Unknown enforcement mode \"$ENFORCEMENT\" in $CONFIG_FILE" >&2
+            ;;
+    esac
+    exit 0
+}
+
+main "$@"
@@ -0,0 +1,63 @@
+#!/bin/bash
+# Pre-command hook for {{SKILL_NAME}}
+# Called automatically by Claude Code hooks system
+
+set -euo pipefail
+
+COMMAND="${1:-}"
+CONFIG_FILE=".claude/{{SKILL_NAME}}-config.json"
+
+# Load configuration
+load_config() {
+    if [[ -f "$CONFIG_FILE" ]]; then
+        # Parse config
+        ENFORCEMENT=$(grep -o '"enforcement"[^,}]*"[^"]*"' "$CONFIG_FILE" | cut -d'"' -f4 || echo "warn")
+    else
+        ENFORCEMENT="warn"
+    fi
+}
+
+# Check if command should be intercepted
+should_intercept() {
+    # Add pattern matching logic
+    echo "$COMMAND" | grep -qE "{{COMMAND_PATTERN}}"
+}
+
+# Rewrite an intercepted command for transform mode
+transform_command() {
+    # Add transformation logic
+    echo "$COMMAND"
+}
+
+# Main enforcement
+main() {
+    load_config
+
+    if ! should_intercept; then
+        exit 0  # Allow command
+    fi
+
+    case "$ENFORCEMENT" in
+        block)
+            echo "ERROR: Policy violation: $COMMAND" >&2
+            exit 1
+            ;;
+        warn)
+            echo "WARNING: Consider alternative approach for: $COMMAND" >&2
+            exit 0
+            ;;
+        transform)
+            # Transform and execute
+            exec bash -c "$(transform_command)"
+            ;;
+        disabled)
+            exit 0
+            ;;
+        *)
+            echo "WARNING: Unknown enforcement mode \"$ENFORCEMENT\" in $CONFIG_FILE" >&2
+            exit 0
+            ;;
+    esac
+}
+
+main "$@"
@@ -0,0 +1,38 @@
+#!/usr/bin/env node
+
+/**
+ * Setup Verification for the {{SKILL_NAME}} skill
+ *
+ * Checks that the skill is installed and prints actionable fixes.
+ *
+ * Usage:
+ *   node scripts/setup.mjs
+ */
+
+import { existsSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+// ANSI colors
+const RED = '\x1b[31m';
+const GREEN = '\x1b[32m';
+const RESET = '\x1b[0m';
+
+const skillDir = join(dirname(fileURLToPath(import.meta.url)), '..');
+let failed = false;
+
+function check(label, ok, fix) {
+  if (ok) {
+    console.log(`${GREEN}✓${RESET} ${label}`);
+  } else {
+    console.log(`${RED}✗${RESET} ${label}`);
+    console.log(`  Fix: ${fix}`);
+    failed = true;
+  }
+}
+
+check('SKILL.md present', existsSync(join(skillDir, 'SKILL.md')), 'Reinstall the {{SKILL_NAME}} skill');
+
+// Add checks for required tools and environment variables here
+
+process.exit(failed ? 1 : 0);